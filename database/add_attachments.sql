@@ -0,0 +1,40 @@
+-- File đính kèm của entry (license, mã khôi phục, chứng chỉ...)
+-- Chạy script này trong Supabase SQL Editor sau add_favorites.sql
+--
+-- attachments: metadata [{ id, name, mimeType, size, createdAt }], name được mã hóa phía client.
+-- Nội dung file (đã mã hóa phía client) nằm ở Storage bucket `attachments`
+-- theo đường dẫn <user_id>/<entry_id>/<attachment_id>.
+
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS attachments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Bucket private, giới hạn 10 MB mỗi file (cộng phần IV và auth tag của AES-GCM)
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('attachments', 'attachments', false, 10485789)
+ON CONFLICT (id) DO NOTHING;
+
+-- Mỗi user chỉ được thao tác trong thư mục mang user_id của mình
+DROP POLICY IF EXISTS "Users can read own attachments" ON storage.objects;
+CREATE POLICY "Users can read own attachments" ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can upload own attachments" ON storage.objects;
+CREATE POLICY "Users can upload own attachments" ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can update own attachments" ON storage.objects;
+CREATE POLICY "Users can update own attachments" ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text)
+WITH CHECK (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can delete own attachments" ON storage.objects;
+CREATE POLICY "Users can delete own attachments" ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
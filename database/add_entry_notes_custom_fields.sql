@@ -0,0 +1,21 @@
+-- Thêm ghi chú và custom fields cho mỗi entry
+-- Chạy script này trong Supabase SQL Editor sau add_entry_urls.sql
+--
+-- Nội dung được mã hóa phía client (AES-GCM) trước khi gửi lên:
+-- notes là chuỗi ciphertext, custom_fields là mảng { id, type, name, value }
+-- với name và value là ciphertext. Database không bao giờ thấy plaintext.
+
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS notes TEXT NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE passwords
+  DROP CONSTRAINT IF EXISTS passwords_custom_fields_is_array;
+
+ALTER TABLE passwords
+  ADD CONSTRAINT passwords_custom_fields_is_array CHECK (jsonb_typeof(custom_fields) = 'array');
+
+-- Ciphertext (enc:v1:<iv>:<data> dạng base64) dài hơn plaintext khoảng 4/3 lần,
+-- mật khẩu 500 ký tự sẽ vượt quá VARCHAR(500) sau khi mã hóa
+ALTER TABLE passwords
+  ALTER COLUMN password TYPE TEXT;
@@ -0,0 +1,13 @@
+-- Thêm tag cho mỗi entry (quan hệ nhiều-nhiều lưu dạng mảng trên entry)
+-- Chạy script này trong Supabase SQL Editor sau add_folders.sql
+--
+-- Tag là tên đã chuẩn hóa (chữ thường, không dấu # ở đầu), không mã hóa
+-- để có thể lọc phía server:
+--   AND: tags @> ARRAY['prod','shared']   (PostgREST: tags=cs.{prod,shared})
+--   OR:  tags && ARRAY['prod','shared']   (PostgREST: tags=ov.{prod,shared})
+
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- GIN index hỗ trợ cả @> và &&
+CREATE INDEX IF NOT EXISTS passwords_tags_idx ON passwords USING GIN (tags);
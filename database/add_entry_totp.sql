@@ -0,0 +1,8 @@
+-- Thêm secret TOTP (2FA) cho mỗi entry
+-- Chạy script này trong Supabase SQL Editor sau add_entry_notes_custom_fields.sql
+--
+-- Secret (base32 hoặc URI otpauth://) được mã hóa phía client (AES-GCM)
+-- trước khi gửi lên, cột totp chỉ chứa ciphertext hoặc chuỗi rỗng.
+
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS totp TEXT NOT NULL DEFAULT '';
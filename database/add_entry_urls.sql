@@ -0,0 +1,12 @@
+-- Thêm danh sách URL cho mỗi entry (dùng để so khớp với trang web đang mở)
+-- Chạy script này trong Supabase SQL Editor sau setup_rls_policies.sql
+-- Mỗi phần tử: { "url": string, "match"?: "base-domain" | "host" | "starts-with" | "exact" | "regex" }
+
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS urls JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE passwords
+  DROP CONSTRAINT IF EXISTS passwords_urls_is_array;
+
+ALTER TABLE passwords
+  ADD CONSTRAINT passwords_urls_is_array CHECK (jsonb_typeof(urls) = 'array');
@@ -0,0 +1,11 @@
+-- Mục yêu thích ghim lên đầu danh sách
+-- Chạy script này trong Supabase SQL Editor sau add_password_rotation.sql
+--
+-- favorite_order: thứ tự trong mục Yêu thích (nhỏ đứng trước), client đặt theo thời điểm
+-- bật yêu thích (epoch ms) nên cần kiểu số thực thay vì INTEGER.
+
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS favorite BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS favorite_order DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS passwords_favorite_idx ON passwords (user_id) WHERE favorite;
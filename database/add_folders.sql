@@ -0,0 +1,51 @@
+-- Thêm thư mục lồng nhau để sắp xếp vault
+-- Chạy script này trong Supabase SQL Editor sau add_entry_totp.sql
+--
+-- folders.parent_id và passwords.folder_id không dùng foreign key:
+-- sync engine đẩy entry và folder độc lập nhau, backup có thể khôi phục
+-- entry trỏ tới folder không còn tồn tại. Client coi folder có cha không tồn tại
+-- là thư mục gốc và entry trỏ tới folder không tồn tại là chưa phân loại.
+
+CREATE TABLE IF NOT EXISTS folders (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE DEFAULT auth.uid(),
+  name VARCHAR(100) NOT NULL,
+  parent_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS folders_user_id_idx ON folders (user_id);
+
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS folder_id UUID;
+
+CREATE INDEX IF NOT EXISTS passwords_folder_id_idx ON passwords (folder_id);
+
+-- Mỗi user chỉ được thao tác trên folders của chính mình
+ALTER TABLE folders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own folders" ON folders;
+CREATE POLICY "Users can read own folders" ON folders
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own folders" ON folders;
+CREATE POLICY "Users can insert own folders" ON folders
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own folders" ON folders;
+CREATE POLICY "Users can update own folders" ON folders
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own folders" ON folders;
+CREATE POLICY "Users can delete own folders" ON folders
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
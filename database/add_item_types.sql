@@ -0,0 +1,19 @@
+-- Thêm loại item: đăng nhập, thẻ thanh toán, danh tính, ghi chú bảo mật,
+-- khóa SSH, mạng Wi-Fi, API key
+-- Chạy script này trong Supabase SQL Editor sau add_entry_tags.sql
+--
+-- details chứa field riêng theo loại, mọi giá trị chuỗi (trừ "type") là ciphertext AES-GCM.
+-- item_type tách riêng dạng plaintext để lọc theo loại phía server.
+-- Entry cũ mặc định là login.
+
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS item_type TEXT NOT NULL DEFAULT 'login',
+  ADD COLUMN IF NOT EXISTS details JSONB;
+
+ALTER TABLE passwords
+  DROP CONSTRAINT IF EXISTS passwords_item_type_check;
+ALTER TABLE passwords
+  ADD CONSTRAINT passwords_item_type_check
+  CHECK (item_type IN ('login', 'card', 'identity', 'note', 'ssh-key', 'wifi', 'api-key'));
+
+CREATE INDEX IF NOT EXISTS passwords_item_type_idx ON passwords (user_id, item_type);
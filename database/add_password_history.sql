@@ -0,0 +1,8 @@
+-- Lịch sử mật khẩu cho mỗi entry
+-- Chạy script này trong Supabase SQL Editor sau add_item_types.sql
+--
+-- Mảng [{ "password": "<ciphertext AES-GCM>", "changedAt": "<ISO timestamp>" }], mới nhất trước.
+-- Client tự thêm mật khẩu cũ vào đầu mảng khi đổi mật khẩu và cắt theo số lượng cấu hình.
+
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS password_history JSONB NOT NULL DEFAULT '[]'::jsonb;
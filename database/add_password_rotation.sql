@@ -0,0 +1,16 @@
+-- Theo dõi tuổi mật khẩu và nhắc đổi định kỳ
+-- Chạy script này trong Supabase SQL Editor sau add_trash.sql
+--
+-- password_changed_at: thời điểm password đổi lần cuối (updated_at đổi theo mọi chỉnh sửa nên không dùng được).
+-- rotation_interval_days: chu kỳ đổi (ngày), 0 tắt nhắc, NULL kế thừa từ folder (folder NULL kế thừa từ folder cha).
+
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS rotation_interval_days INTEGER CHECK (rotation_interval_days BETWEEN 0 AND 3650);
+
+-- Entry có sẵn: lấy thời điểm đổi gần nhất từ lịch sử, không có thì dùng created_at
+UPDATE passwords
+SET password_changed_at = COALESCE((password_history -> 0 ->> 'changedAt')::timestamptz, created_at);
+
+ALTER TABLE folders
+  ADD COLUMN IF NOT EXISTS rotation_interval_days INTEGER CHECK (rotation_interval_days BETWEEN 0 AND 3650);
@@ -0,0 +1,27 @@
+-- Cột tìm kiếm không dấu cho tên dịch vụ và tên đăng nhập
+-- Chạy script này trong Supabase SQL Editor sau add_attachments.sql
+--
+-- search_text = search_fold(service || ' ' || username): chữ thường, bỏ dấu tiếng Việt (kể cả đ/Đ),
+-- cùng quy tắc với normalizeForSearch phía client (src/lib/search/fuzzy.ts) để so khớp trên server
+-- cho kết quả giống tìm kiếm cục bộ. Chỉ gồm field không mã hóa.
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- unaccent() không IMMUTABLE nên cần hàm bọc chỉ định rõ dictionary để dùng trong generated column
+CREATE OR REPLACE FUNCTION public.search_fold(value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+STRICT
+AS $$
+  SELECT lower(extensions.unaccent('extensions.unaccent'::regdictionary, translate(normalize(value, NFC), 'đĐ', 'dd')))
+$$;
+
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS search_text TEXT
+  GENERATED ALWAYS AS (public.search_fold(coalesce(service, '') || ' ' || coalesce(username, ''))) STORED;
+
+-- Tăng tốc ILIKE '%...%' trên cột đã chuẩn hóa
+CREATE INDEX IF NOT EXISTS passwords_search_text_idx ON passwords USING gin (search_text extensions.gin_trgm_ops);
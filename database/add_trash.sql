@@ -0,0 +1,10 @@
+-- Thùng rác: xóa mềm entry
+-- Chạy script này trong Supabase SQL Editor sau add_password_history.sql
+--
+-- deleted_at NULL: entry đang dùng; có giá trị: entry nằm trong thùng rác từ thời điểm đó.
+-- Client tự xóa vĩnh viễn entry có deleted_at cũ hơn thời gian lưu giữ cấu hình.
+
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS passwords_deleted_at_idx ON passwords (deleted_at);
@@ -0,0 +1,31 @@
+-- Server tự gán updated_at cho mọi lần ghi vào passwords và folders
+-- Chạy script này trong Supabase SQL Editor sau add_search_text.sql
+--
+-- Sync engine dùng updated_at làm checkpoint khi kéo thay đổi (updated_at > checkpoint)
+-- và để phát hiện xung đột, nên giá trị không được lấy từ đồng hồ client:
+-- thiết bị sửa offline rồi đẩy muộn sẽ ghi thời điểm cũ hơn checkpoint của thiết bị khác
+-- và thay đổi đó không bao giờ được kéo về.
+-- clock_timestamp() thay vì now() để các row trong cùng một lần upsert có thứ tự riêng.
+
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = clock_timestamp();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS passwords_set_updated_at ON passwords;
+CREATE TRIGGER passwords_set_updated_at
+BEFORE INSERT OR UPDATE ON passwords
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+DROP TRIGGER IF EXISTS folders_set_updated_at ON folders;
+CREATE TRIGGER folders_set_updated_at
+BEFORE INSERT OR UPDATE ON folders
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Checkpoint được so sánh theo updated_at
+CREATE INDEX IF NOT EXISTS passwords_updated_at_idx ON passwords (user_id, updated_at);
@@ -0,0 +1,38 @@
+-- Lưu metadata của vault (tham số KDF và verifier) theo từng user
+-- Chạy script này trong Supabase SQL Editor sau setup_rls_policies.sql
+--
+-- Secrets trong passwords được mã hóa bằng key derive từ master password với salt trong metadata.
+-- Nếu metadata chỉ nằm trong localStorage thì thiết bị thứ hai sẽ tạo salt mới
+-- và không giải mã được dữ liệu đã đồng bộ. Bảng này chỉ chứa salt và verifier đã mã hóa,
+-- không bao giờ chứa key hay master password.
+
+CREATE TABLE IF NOT EXISTS vault_keys (
+  user_id UUID PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE DEFAULT auth.uid(),
+  version INTEGER NOT NULL DEFAULT 1,
+  kdf JSONB NOT NULL, -- { algorithm, iterations, salt }
+  verifier TEXT NOT NULL, -- ciphertext AES-GCM của chuỗi cố định
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Mỗi user chỉ được đọc và ghi metadata của chính mình
+ALTER TABLE vault_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own vault key" ON vault_keys;
+CREATE POLICY "Users can read own vault key" ON vault_keys
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own vault key" ON vault_keys;
+CREATE POLICY "Users can insert own vault key" ON vault_keys
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own vault key" ON vault_keys;
+CREATE POLICY "Users can update own vault key" ON vault_keys
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
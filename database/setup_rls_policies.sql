@@ -1,19 +1,51 @@
 -- Thiết lập Row Level Security cho bảng passwords
 -- Chạy script này trong Supabase SQL Editor
+-- Yêu cầu: đã bật Email provider (password + magic link) trong Authentication > Providers
+
+-- Thêm cột user_id liên kết với Supabase Auth
+-- Mặc định auth.uid() để rows mới luôn thuộc về user đang đăng nhập
+ALTER TABLE passwords
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users (id) ON DELETE CASCADE DEFAULT auth.uid();
+
+-- Rows cũ từ bản demo (user_id NULL) sẽ không còn truy cập được qua RLS.
+-- Gán cho một user cụ thể nếu muốn giữ lại, sau đó bật NOT NULL:
+-- UPDATE passwords SET user_id = '<user-uuid>' WHERE user_id IS NULL;
+-- ALTER TABLE passwords ALTER COLUMN user_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS passwords_user_id_idx ON passwords (user_id);
 
 -- Bật RLS cho bảng passwords
 ALTER TABLE passwords ENABLE ROW LEVEL SECURITY;
 
--- Tạo policy cho phép tất cả operations (cho demo)
--- Trong production, nên có authentication và user-specific policies
-CREATE POLICY "Allow all operations for demo" ON passwords
-FOR ALL 
-TO anon, authenticated
-USING (true)
-WITH CHECK (true);
+-- Xóa policy demo cho phép mọi visitor đọc/ghi tất cả rows
+DROP POLICY IF EXISTS "Allow all operations for demo" ON passwords;
+
+-- Mỗi user chỉ được thao tác trên rows của chính mình
+-- DROP trước để chạy lại script trên database đã có các policy này
+DROP POLICY IF EXISTS "Users can read own passwords" ON passwords;
+CREATE POLICY "Users can read own passwords" ON passwords
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
 
--- Hoặc nếu muốn tắt RLS hoàn toàn (chỉ cho demo)
--- ALTER TABLE passwords DISABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Users can insert own passwords" ON passwords;
+CREATE POLICY "Users can insert own passwords" ON passwords
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own passwords" ON passwords;
+CREATE POLICY "Users can update own passwords" ON passwords
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own passwords" ON passwords;
+CREATE POLICY "Users can delete own passwords" ON passwords
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
 
 -- Kiểm tra policies hiện tại
 SELECT schemaname, tablename, policyname, permissive, roles, cmd, qual, with_check
@@ -23,4 +55,4 @@ WHERE tablename = 'passwords';
 -- Kiểm tra RLS status
 SELECT schemaname, tablename, rowsecurity, forcerowsecurity 
 FROM pg_tables 
-WHERE tablename = 'passwords';
\ No newline at end of file
+WHERE tablename = 'passwords';
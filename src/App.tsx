@@ -4,7 +4,16 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/lib/theme-context";
+import { VaultSessionProvider } from "@/lib/vault-session-context";
+import { StorageBackendProvider } from "@/lib/storage-backend-context";
+import { AuthProvider } from "@/lib/auth-context";
+import { VaultGate } from "@/components/VaultGate";
 import Index from "./pages/Index";
+import Lock from "./pages/Lock";
+import Audit from "./pages/Audit";
+import Trash from "./pages/Trash";
+import SignIn from "./pages/SignIn";
+import SignOut from "./pages/SignOut";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -12,17 +21,28 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider defaultTheme="dark" storageKey="memory-safe-guard-theme">
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <AuthProvider>
+        <VaultSessionProvider>
+          <StorageBackendProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <BrowserRouter>
+                <Routes>
+                  <Route path="/signin" element={<SignIn />} />
+                  <Route path="/signout" element={<SignOut />} />
+                  <Route path="/lock" element={<Lock />} />
+                  <Route path="/" element={<VaultGate><Index /></VaultGate>} />
+                  <Route path="/audit" element={<VaultGate><Audit /></VaultGate>} />
+                  <Route path="/trash" element={<VaultGate><Trash /></VaultGate>} />
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </BrowserRouter>
+            </TooltipProvider>
+          </StorageBackendProvider>
+        </VaultSessionProvider>
+      </AuthProvider>
     </ThemeProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,58 @@
+import { Link } from "react-router-dom";
+import { LogIn, LogOut, UserCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+
+/**
+ * Account Menu Component
+ * Hiển thị tài khoản Supabase đang đăng nhập, hoặc nút đăng nhập
+ */
+export const AccountMenu = () => {
+  const { user, loading } = useAuth();
+
+  if (loading) return null;
+
+  if (!user) {
+    return (
+      <Button asChild variant="outline" size="sm" className="gap-2">
+        <Link to="/signin">
+          <LogIn className="w-4 h-4" />
+          Đăng nhập
+        </Link>
+      </Button>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="bg-card/50 border-border/50 hover:bg-accent hover:text-accent-foreground backdrop-blur-sm"
+        >
+          <UserCircle className="h-[1.2rem] w-[1.2rem]" />
+          <span className="sr-only">Tài khoản</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-card/95 backdrop-blur-sm border-border/50">
+        <DropdownMenuLabel className="font-normal text-muted-foreground">{user.email}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild className="cursor-pointer">
+          <Link to="/signout">
+            <LogOut className="mr-2 h-4 w-4" />
+            <span>Đăng xuất</span>
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
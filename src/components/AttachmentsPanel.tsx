@@ -0,0 +1,161 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, Loader2, Paperclip, Trash2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { AttachmentMeta } from "@/lib/types/password";
+import { ATTACHMENT_LIMITS, formatFileSize } from "@/lib/attachments/attachments";
+
+interface AttachmentsPanelProps {
+  attachments: AttachmentMeta[];
+  onUpload: (file: File) => Promise<void>;
+  // Nội dung đã giải mã, null nếu không đọc được (lỗi đã được báo)
+  onLoad: (attachment: AttachmentMeta) => Promise<ArrayBuffer | null>;
+  onDelete: (attachment: AttachmentMeta) => Promise<void>;
+}
+
+const downloadBlob = (fileName: string, data: ArrayBuffer, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * File đính kèm của entry trên PasswordCard: tải lên, tải xuống và xóa
+ * Nội dung file được mã hóa bằng vault key trước khi lưu
+ */
+export const AttachmentsPanel = ({ attachments, onUpload, onLoad, onDelete }: AttachmentsPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<AttachmentMeta | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const full = attachments.length >= ATTACHMENT_LIMITS.attachmentsPerEntry;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    // Kiểm tra sớm để không phải đọc cả file lớn vào bộ nhớ
+    if (file.size > ATTACHMENT_LIMITS.fileSize) {
+      toast({
+        title: "File quá lớn",
+        description: `Mỗi file tối đa ${formatFileSize(ATTACHMENT_LIMITS.fileSize)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      await onUpload(file);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDownload = async (attachment: AttachmentMeta) => {
+    setBusyId(attachment.id);
+    try {
+      const data = await onLoad(attachment);
+      if (data) downloadBlob(attachment.name, data, attachment.mimeType);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    const attachment = pendingDelete;
+    setPendingDelete(null);
+    setBusyId(attachment.id);
+    try {
+      await onDelete(attachment);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="text-sm">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 text-muted-foreground hover:text-foreground"
+      >
+        <Paperclip className="w-4 h-4" />
+        {open ? "Ẩn file đính kèm" : attachments.length > 0 ? `File đính kèm (${attachments.length})` : "Đính kèm file"}
+      </button>
+      {open && (
+        <div className="mt-2 space-y-1 rounded-md border border-border/50 p-2">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="flex items-center gap-2 text-xs">
+              <span className="flex-1 truncate" title={attachment.name}>{attachment.name}</span>
+              <span className="shrink-0 text-muted-foreground">{formatFileSize(attachment.size)}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDownload(attachment)}
+                disabled={busyId === attachment.id}
+                className="h-7 w-7"
+                title="Tải xuống"
+              >
+                {busyId === attachment.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setPendingDelete(attachment)}
+                disabled={busyId === attachment.id}
+                className="h-7 w-7"
+                title="Xóa file"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+
+          <input ref={inputRef} type="file" className="hidden" onChange={handleFileChange} />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploading || full}
+            className="w-full"
+          >
+            {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            {full ? `Tối đa ${ATTACHMENT_LIMITS.attachmentsPerEntry} file` : "Tải file lên"}
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Tối đa {formatFileSize(ATTACHMENT_LIMITS.fileSize)} mỗi file, {formatFileSize(ATTACHMENT_LIMITS.vaultSize)} cho cả vault
+          </p>
+        </div>
+      )}
+
+      <Dialog open={pendingDelete !== null} onOpenChange={(next) => !next && setPendingDelete(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Xóa "{pendingDelete?.name}"?</DialogTitle>
+            <DialogDescription>
+              File sẽ bị xóa vĩnh viễn và không thể khôi phục.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={() => setPendingDelete(null)}>
+              Hủy
+            </Button>
+            <Button type="button" variant="destructive" onClick={confirmDelete}>
+              Xóa file
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DatabaseBackup, Download, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { MIN_MASTER_PASSWORD_LENGTH } from "@/lib/crypto/vault-key-manager";
+import {
+  collectBackupAttachments,
+  createVaultBackup,
+  decryptVaultBackup,
+  parseVaultBackup,
+  planRestore,
+  type RestoreMode,
+  type RestorePlan,
+} from "@/lib/backup/vault-backup";
+
+interface BackupDialogProps {
+  onRestore: (plan: RestorePlan) => Promise<void>;
+}
+
+const RESTORE_MODE_LABELS: Record<RestoreMode, string> = {
+  merge: "Gộp - giữ dữ liệu hiện có, thêm và cập nhật từ backup",
+  replace: "Thay thế - vault sẽ giống hệt file backup",
+};
+
+const downloadJson = (fileName: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Dialog xuất file backup đã mã hóa và khôi phục từ backup
+ * Backup dùng mật khẩu riêng, không phụ thuộc master password của vault
+ */
+export const BackupDialog = ({ onRestore }: BackupDialogProps) => {
+  const { storage } = useStorageBackend();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Export state
+  const [exportPassword, setExportPassword] = useState("");
+  const [exportConfirm, setExportConfirm] = useState("");
+
+  // Restore state
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restorePassword, setRestorePassword] = useState("");
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+
+  const reset = () => {
+    setError(null);
+    setExportPassword("");
+    setExportConfirm("");
+    setRestoreFile(null);
+    setRestorePassword("");
+    setMode("merge");
+    setPlan(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (busy) return;
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const handleExport = async () => {
+    if (exportPassword.length < MIN_MASTER_PASSWORD_LENGTH) {
+      setError(`Mật khẩu backup phải có ít nhất ${MIN_MASTER_PASSWORD_LENGTH} ký tự`);
+      return;
+    }
+    if (exportPassword !== exportConfirm) {
+      setError("Mật khẩu xác nhận không khớp");
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const entries = await storage.getAllPasswords();
+      const attachments = await collectBackupAttachments(storage, entries);
+      const backup = await createVaultBackup(entries, exportPassword, attachments);
+      downloadJson(`memory-safe-guard-backup-${backup.createdAt.slice(0, 10)}.json`, backup);
+      toast({
+        title: "Đã xuất backup",
+        description: `${entries.length} mật khẩu${attachments.length ? ` và ${attachments.length} file đính kèm` : ""} đã được mã hóa vào file`,
+      });
+      setExportPassword("");
+      setExportConfirm("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Không thể xuất backup");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePreviewRestore = async (nextMode: RestoreMode = mode) => {
+    if (!restoreFile) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const backup = parseVaultBackup(await restoreFile.text());
+      const { entries, attachments } = await decryptVaultBackup(backup, restorePassword);
+      const existing = await storage.getAllPasswords();
+      setPlan(planRestore(entries, existing, nextMode, attachments));
+    } catch (err) {
+      setPlan(null);
+      setError(err instanceof Error ? err.message : "Không thể đọc file backup");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleModeChange = (nextMode: RestoreMode) => {
+    setMode(nextMode);
+    if (plan) handlePreviewRestore(nextMode);
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+    setBusy(true);
+    try {
+      await onRestore(plan);
+      setOpen(false);
+      reset();
+    } catch {
+      // Lỗi đã được hiển thị qua toast trong usePasswords
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeCount = plan ? plan.toAdd.length + plan.toOverwrite.length + plan.toDelete.length : 0;
+
+  return (
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        variant="outline"
+        size="icon"
+        title="Sao lưu & khôi phục"
+      >
+        <DatabaseBackup className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Sao lưu & khôi phục</DialogTitle>
+            <DialogDescription>
+              File backup được mã hóa AES-GCM bằng mật khẩu riêng. Hãy lưu mật khẩu này cẩn thận
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <section className="space-y-3">
+              <h3 className="font-semibold">Xuất backup</h3>
+              <div className="space-y-2">
+                <Label htmlFor="backup-password">Mật khẩu backup</Label>
+                <Input
+                  id="backup-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={exportPassword}
+                  onChange={(e) => setExportPassword(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="backup-password-confirm">Xác nhận mật khẩu</Label>
+                <Input
+                  id="backup-password-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={exportConfirm}
+                  onChange={(e) => setExportConfirm(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleExport} disabled={busy || !exportPassword} className="gap-2">
+                <Download className="w-4 h-4" />
+                Tải file backup
+              </Button>
+            </section>
+
+            <section className="space-y-3 border-t border-border/50 pt-6">
+              <h3 className="font-semibold">Khôi phục</h3>
+              <div className="space-y-2">
+                <Label htmlFor="restore-file">File backup</Label>
+                <Input
+                  id="restore-file"
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(e) => {
+                    setRestoreFile(e.target.files?.[0] ?? null);
+                    setPlan(null);
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restore-password">Mật khẩu backup</Label>
+                <Input
+                  id="restore-password"
+                  type="password"
+                  value={restorePassword}
+                  onChange={(e) => {
+                    setRestorePassword(e.target.value);
+                    setPlan(null);
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                {(Object.keys(RESTORE_MODE_LABELS) as RestoreMode[]).map((key) => (
+                  <label key={key} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="radio"
+                      name="restore-mode"
+                      value={key}
+                      checked={mode === key}
+                      onChange={() => handleModeChange(key)}
+                    />
+                    {RESTORE_MODE_LABELS[key]}
+                  </label>
+                ))}
+              </div>
+
+              {plan && (
+                <div className="rounded-md border border-border/50 p-3 text-sm space-y-1">
+                  <p>Thêm mới: <strong>{plan.toAdd.length}</strong></p>
+                  <p>Ghi đè: <strong>{plan.toOverwrite.length}</strong></p>
+                  {plan.attachments.length > 0 && <p>File đính kèm: <strong>{plan.attachments.length}</strong></p>}
+                  {plan.mode === "replace" && <p>Xóa khỏi vault: <strong>{plan.toDelete.length}</strong></p>}
+                  {plan.mode === "merge" && plan.keptLocal.length > 0 && (
+                    <p>Giữ bản trong vault (mới hơn): <strong>{plan.keptLocal.length}</strong></p>
+                  )}
+                  <p className="text-muted-foreground">Không thay đổi: {plan.unchanged.length}</p>
+                  {plan.toOverwrite.length + plan.toDelete.length > 0 && (
+                    <ul className="mt-2 max-h-32 overflow-y-auto text-xs text-muted-foreground list-disc pl-4">
+                      {plan.toOverwrite.map((entry) => (
+                        <li key={`overwrite-${entry.id}`}>Ghi đè: {entry.service} ({entry.username})</li>
+                      ))}
+                      {plan.toDelete.map((entry) => (
+                        <li key={`delete-${entry.id}`} className="text-destructive">Xóa: {entry.service} ({entry.username})</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {plan ? (
+                <Button onClick={handleRestore} disabled={busy || changeCount === 0} className="gap-2">
+                  <RotateCcw className="w-4 h-4" />
+                  {busy ? "Đang khôi phục..." : "Khôi phục"}
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  onClick={() => handlePreviewRestore()}
+                  disabled={busy || !restoreFile || !restorePassword}
+                >
+                  {busy ? "Đang giải mã..." : "Kiểm tra file"}
+                </Button>
+              )}
+            </section>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Copy, Eye, EyeOff } from "lucide-react";
+import type { CustomField } from "@/lib/types/password";
+import { parseUrl } from "@/lib/urls/url-matcher";
+
+interface CustomFieldListProps {
+  fields: CustomField[];
+  onCopy: (value: string, label: string) => void;
+}
+
+const CustomFieldValue = ({ field, onCopy }: { field: CustomField; onCopy: CustomFieldListProps["onCopy"] }) => {
+  const [revealed, setRevealed] = useState(false);
+
+  if (field.type === "boolean") {
+    return <span className="flex-1">{field.value === "true" ? "Có" : "Không"}</span>;
+  }
+
+  const url = field.type === "url" ? parseUrl(field.value) : null;
+
+  return (
+    <>
+      {url && /^https?:$/.test(url.protocol) ? (
+        <a href={url.href} target="_blank" rel="noopener noreferrer" className="flex-1 truncate text-primary hover:underline">
+          {field.value}
+        </a>
+      ) : (
+        <span className="flex-1 truncate font-mono">
+          {field.type === "hidden" && !revealed ? "••••••••" : field.value}
+        </span>
+      )}
+      {field.type === "hidden" && (
+        <Button variant="ghost" size="icon" onClick={() => setRevealed(!revealed)} className="h-7 w-7">
+          {revealed ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onCopy(field.value, field.name)}
+        className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+      >
+        <Copy className="w-3 h-3" />
+      </Button>
+    </>
+  );
+};
+
+/**
+ * Hiển thị custom fields trên PasswordCard với reveal/copy từng trường
+ */
+export const CustomFieldList = ({ fields, onCopy }: CustomFieldListProps) => (
+  <div className="space-y-1 rounded-md border border-border/50 p-2">
+    {fields.map((field) => (
+      <div key={field.id} className="flex items-center gap-2 text-xs">
+        <span className="w-1/3 truncate text-muted-foreground" title={field.name}>{field.name}</span>
+        <CustomFieldValue field={field} onCopy={onCopy} />
+      </div>
+    ))}
+  </div>
+);
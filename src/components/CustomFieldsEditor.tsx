@@ -0,0 +1,105 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react";
+import type { CustomField, CustomFieldType } from "@/lib/types/password";
+
+const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Văn bản",
+  hidden: "Ẩn",
+  boolean: "Có/Không",
+  url: "URL",
+};
+
+interface CustomFieldsEditorProps {
+  fields: CustomField[];
+  onChange: (fields: CustomField[]) => void;
+}
+
+/**
+ * Trình chỉnh sửa danh sách custom fields có thứ tự (mã PIN, câu hỏi bảo mật, recovery codes...)
+ */
+export const CustomFieldsEditor = ({ fields, onChange }: CustomFieldsEditorProps) => {
+  const updateField = (index: number, patch: Partial<CustomField>) => {
+    onChange(fields.map((field, i) => (i === index ? { ...field, ...patch } : field)));
+  };
+
+  const moveField = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= fields.length) return;
+    const next = [...fields];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const changeType = (index: number, type: CustomFieldType) => {
+    // Đổi sang boolean thì chuẩn hóa giá trị về 'true' | 'false'
+    const value = type === "boolean" ? String(fields[index].value === "true") : fields[index].value;
+    updateField(index, { type, value });
+  };
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field, index) => (
+        <div key={field.id} className="space-y-2 rounded-md border border-border/50 p-2">
+          <div className="flex gap-2">
+            <Input
+              value={field.name}
+              onChange={(e) => updateField(index, { name: e.target.value })}
+              placeholder="Tên trường"
+              className="flex-1"
+            />
+            <select
+              value={field.type}
+              onChange={(e) => changeType(index, e.target.value as CustomFieldType)}
+              className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+              title="Loại trường"
+            >
+              {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map((type) => (
+                <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            {field.type === "boolean" ? (
+              <div className="flex flex-1 items-center">
+                <Switch
+                  checked={field.value === "true"}
+                  onCheckedChange={(checked) => updateField(index, { value: String(checked) })}
+                />
+              </div>
+            ) : (
+              <Input
+                type={field.type === "hidden" ? "password" : field.type === "url" ? "url" : "text"}
+                value={field.value}
+                onChange={(e) => updateField(index, { value: e.target.value })}
+                placeholder="Giá trị"
+                autoComplete="off"
+                className="flex-1"
+              />
+            )}
+            <Button type="button" variant="ghost" size="icon" onClick={() => moveField(index, -1)} disabled={index === 0} title="Lên">
+              <ArrowUp className="w-4 h-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => moveField(index, 1)} disabled={index === fields.length - 1} title="Xuống">
+              <ArrowDown className="w-4 h-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => onChange(fields.filter((_, i) => i !== index))} title="Xóa trường">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        onClick={() => onChange([...fields, { id: crypto.randomUUID(), name: "", value: "", type: "text" }])}
+      >
+        <Plus className="w-4 h-4" />
+        Thêm trường
+      </Button>
+    </div>
+  );
+};
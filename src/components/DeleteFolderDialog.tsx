@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { Folder, FolderDeleteMode } from "@/lib/types/folder";
+
+const DELETE_MODE_LABELS: Record<FolderDeleteMode, string> = {
+  "move-contents": "Chuyển mật khẩu và thư mục con lên thư mục cha",
+  "delete-contents": "Xóa thư mục con, chuyển toàn bộ mật khẩu bên trong vào thùng rác",
+};
+
+interface DeleteFolderDialogProps {
+  folder: Folder | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (folder: Folder, mode: FolderDeleteMode) => Promise<void>;
+}
+
+/**
+ * Xác nhận xóa thư mục với lựa chọn giữ lại hoặc xóa nội dung
+ */
+export const DeleteFolderDialog = ({ folder, onOpenChange, onConfirm }: DeleteFolderDialogProps) => {
+  const [mode, setMode] = useState<FolderDeleteMode>("move-contents");
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    if (folder) setMode("move-contents");
+  }, [folder]);
+
+  const handleConfirm = async () => {
+    if (!folder) return;
+    setDeleting(true);
+    try {
+      await onConfirm(folder, mode);
+      onOpenChange(false);
+    } catch {
+      // Lỗi đã được hiển thị bằng toast trong useFolders
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog open={folder !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Xóa thư mục "{folder?.name}"</DialogTitle>
+          <DialogDescription>
+            Chọn cách xử lý mật khẩu và thư mục con bên trong
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {(Object.keys(DELETE_MODE_LABELS) as FolderDeleteMode[]).map((key) => (
+            <label key={key} className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name="folder-delete-mode"
+                value={key}
+                checked={mode === key}
+                onChange={() => setMode(key)}
+              />
+              {DELETE_MODE_LABELS[key]}
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Hủy
+          </Button>
+          <Button type="button" variant="destructive" onClick={handleConfirm} disabled={deleting}>
+            Xóa thư mục
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
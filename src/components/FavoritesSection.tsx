@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { GripVertical, Star } from "lucide-react";
+import type { PasswordEntry } from "@/lib/types/password";
+import { moveFavorite, type FavoriteOrderChange } from "@/lib/favorites/favorites";
+
+interface FavoritesSectionProps {
+  // Đã sort bằng sortFavorites
+  favorites: PasswordEntry[];
+  renderCard: (entry: PasswordEntry) => React.ReactNode;
+  onReorder: (changes: FavoriteOrderChange[]) => void;
+}
+
+/**
+ * Mục Yêu thích ghim trên đầu danh sách, kéo thả thẻ để sắp xếp lại
+ */
+export const FavoritesSection = ({ favorites, renderCard, onReorder }: FavoritesSectionProps) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  const endDrag = () => {
+    setDraggingId(null);
+    setOverId(null);
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (draggingId) {
+      onReorder(moveFavorite(favorites, draggingId, targetId));
+    }
+    endDrag();
+  };
+
+  return (
+    <section className="mb-10">
+      <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold">
+        <Star className="w-5 h-5 fill-yellow-400 text-yellow-400" />
+        Yêu thích
+        <span className="text-sm font-normal text-muted-foreground">
+          ({favorites.length}) · kéo thả để sắp xếp
+        </span>
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+        {favorites.map((entry) => (
+          <div
+            key={entry.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              setDraggingId(entry.id);
+            }}
+            onDragOver={(e) => {
+              if (!draggingId) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = "move";
+              setOverId(entry.id);
+            }}
+            onDragLeave={() => setOverId((current) => (current === entry.id ? null : current))}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(entry.id);
+            }}
+            onDragEnd={endDrag}
+            className={[
+              "relative rounded-lg transition-opacity",
+              draggingId === entry.id ? "opacity-50" : "",
+              overId === entry.id && draggingId !== entry.id ? "ring-2 ring-primary" : "",
+            ].join(" ")}
+          >
+            <GripVertical
+              className="absolute -left-4 top-5 hidden w-4 h-4 cursor-grab text-muted-foreground md:block"
+              aria-hidden
+            />
+            {renderCard(entry)}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FolderSelect } from "@/components/FolderSelect";
+import { RotationIntervalSelect } from "@/components/RotationIntervalSelect";
+import type { CreateFolder, Folder } from "@/lib/types/folder";
+import { FOLDER_NAME_MAX_LENGTH } from "@/lib/folders/folder-tree";
+import { getFolderRotationIntervalDays } from "@/lib/rotation/rotation";
+
+interface FolderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  folders: Folder[];
+  // Folder đang sửa, undefined khi tạo mới
+  folder?: Folder;
+  defaultParentId?: string | null;
+  onSave: (data: CreateFolder) => Promise<unknown>;
+}
+
+/**
+ * Dialog tạo mới hoặc sửa thư mục (tên, vị trí, chu kỳ nhắc đổi mật khẩu)
+ */
+export const FolderDialog = ({ open, onOpenChange, folders, folder, defaultParentId = null, onSave }: FolderDialogProps) => {
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState<string | null>(null);
+  const [rotationIntervalDays, setRotationIntervalDays] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(folder?.name ?? "");
+      setParentId(folder ? folder.parentId : defaultParentId);
+      setRotationIntervalDays(folder?.rotationIntervalDays ?? null);
+    }
+  }, [open, folder, defaultParentId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await onSave({ name: name.trim(), parentId, rotationIntervalDays });
+      onOpenChange(false);
+    } catch {
+      // Lỗi đã được hiển thị bằng toast trong useFolders
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{folder ? "Sửa thư mục" : "Thư mục mới"}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="folder-name">Tên thư mục</Label>
+            <Input
+              id="folder-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={FOLDER_NAME_MAX_LENGTH}
+              placeholder="Công việc, Ngân hàng, ..."
+              autoFocus
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="folder-parent">Nằm trong</Label>
+            <FolderSelect
+              id="folder-parent"
+              folders={folders}
+              value={parentId}
+              onChange={setParentId}
+              excludeId={folder?.id}
+              noneLabel="(Thư mục gốc)"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="folder-rotation">Nhắc đổi mật khẩu bên trong</Label>
+            <RotationIntervalSelect
+              id="folder-rotation"
+              value={rotationIntervalDays}
+              onChange={setRotationIntervalDays}
+              inheritLabel="Theo thư mục cha"
+              inheritedDays={getFolderRotationIntervalDays(folders, parentId)}
+            />
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Hủy
+            </Button>
+            <Button type="submit" variant="security" disabled={saving || !name.trim()}>
+              {folder ? "Cập nhật" : "Tạo"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
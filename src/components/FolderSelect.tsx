@@ -0,0 +1,49 @@
+import { useMemo } from "react";
+import type { Folder } from "@/lib/types/folder";
+import { buildFolderTree, flattenFolderTree, getDescendantFolderIds } from "@/lib/folders/folder-tree";
+import { cn } from "@/lib/utils";
+
+interface FolderSelectProps {
+  id?: string;
+  folders: Folder[];
+  value: string | null;
+  onChange: (folderId: string | null) => void;
+  // Ẩn folder này và các folder con (khi chọn folder cha cho chính nó)
+  excludeId?: string;
+  noneLabel?: string;
+  className?: string;
+}
+
+/**
+ * Chọn folder dạng cây (thụt lề theo cấp)
+ */
+export const FolderSelect = ({
+  id,
+  folders,
+  value,
+  onChange,
+  excludeId,
+  noneLabel = "Chưa phân loại",
+  className,
+}: FolderSelectProps) => {
+  const options = useMemo(() => {
+    const excluded = excludeId ? getDescendantFolderIds(folders, excludeId) : new Set<string>();
+    return flattenFolderTree(buildFolderTree(folders)).filter((node) => !excluded.has(node.folder.id));
+  }, [folders, excludeId]);
+
+  return (
+    <select
+      id={id}
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value || null)}
+      className={cn("h-10 w-full rounded-md border border-input bg-background px-2 text-sm", className)}
+    >
+      <option value="">{noneLabel}</option>
+      {options.map(({ folder, depth }) => (
+        <option key={folder.id} value={folder.id}>
+          {"\u00A0\u00A0".repeat(depth)}{folder.name}
+        </option>
+      ))}
+    </select>
+  );
+};
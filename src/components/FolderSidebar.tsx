@@ -0,0 +1,114 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, ChevronRight, Folder as FolderIcon, FolderOpen, FolderPlus, Inbox, Layers, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import type { Folder } from "@/lib/types/folder";
+import { buildFolderTree, type FolderFilter, type FolderNode } from "@/lib/folders/folder-tree";
+import { cn } from "@/lib/utils";
+
+interface FolderSidebarProps {
+  folders: Folder[];
+  selected: FolderFilter;
+  onSelect: (filter: FolderFilter) => void;
+  onCreate: (parentId: string | null) => void;
+  onEdit: (folder: Folder) => void;
+  onDelete: (folder: Folder) => void;
+}
+
+const itemClass = (active: boolean) => cn(
+  "flex flex-1 items-center gap-2 truncate rounded-md px-2 py-1.5 text-left text-sm transition-colors",
+  active ? "bg-primary/15 text-primary font-medium" : "hover:bg-muted/50"
+);
+
+/**
+ * Sidebar thư mục trên trang chính: lọc theo thư mục và quản lý cây thư mục
+ */
+export const FolderSidebar = ({ folders, selected, onSelect, onCreate, onEdit, onDelete }: FolderSidebarProps) => {
+  const tree = useMemo(() => buildFolderTree(folders), [folders]);
+  // Thư mục đang thu gọn (mặc định mở hết)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const renderNode = ({ folder, depth, children }: FolderNode) => {
+    const isCollapsed = collapsed.has(folder.id);
+    const isActive = selected === folder.id;
+
+    return (
+      <li key={folder.id}>
+        <div className="group flex items-center gap-1" style={{ paddingLeft: `${depth * 12}px` }}>
+          <button
+            type="button"
+            onClick={() => toggleCollapsed(folder.id)}
+            className={cn("rounded p-0.5 text-muted-foreground hover:text-foreground", children.length === 0 && "invisible")}
+            aria-label={isCollapsed ? "Mở rộng" : "Thu gọn"}
+          >
+            {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          </button>
+          <button type="button" onClick={() => onSelect(folder.id)} className={itemClass(isActive)} title={folder.name}>
+            {isActive ? <FolderOpen className="w-4 h-4 shrink-0" /> : <FolderIcon className="w-4 h-4 shrink-0" />}
+            <span className="truncate">{folder.name}</span>
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-7 w-7 opacity-0 group-hover:opacity-100 focus:opacity-100">
+                <MoreHorizontal className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => onCreate(folder.id)}>
+                <FolderPlus className="w-4 h-4 mr-2" />
+                Thư mục con
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onEdit(folder)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Đổi tên / di chuyển
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => onDelete(folder)} className="text-destructive focus:text-destructive">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Xóa
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {!isCollapsed && children.length > 0 && <ul>{children.map(renderNode)}</ul>}
+      </li>
+    );
+  };
+
+  return (
+    <nav className="glass-effect rounded-xl p-3 space-y-1">
+      <div className="flex items-center justify-between px-2 pb-2">
+        <span className="text-sm font-semibold text-muted-foreground">Thư mục</span>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onCreate(null)} title="Thư mục mới">
+          <FolderPlus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <button type="button" onClick={() => onSelect(undefined)} className={cn(itemClass(selected === undefined), "w-full")}>
+        <Layers className="w-4 h-4" />
+        Tất cả
+      </button>
+      <button type="button" onClick={() => onSelect(null)} className={cn(itemClass(selected === null), "w-full")}>
+        <Inbox className="w-4 h-4" />
+        Chưa phân loại
+      </button>
+
+      {tree.length > 0 && <ul className="pt-1">{tree.map(renderNode)}</ul>}
+    </nav>
+  );
+};
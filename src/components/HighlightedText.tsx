@@ -0,0 +1,37 @@
+import { Fragment } from "react";
+
+interface HighlightedTextProps {
+  text: string;
+  // Vị trí ký tự cần tô sáng (tăng dần), rỗng thì hiển thị nguyên văn
+  indices?: number[];
+}
+
+/**
+ * Hiển thị chuỗi với các ký tự khớp từ khóa tìm kiếm được tô sáng
+ * Các ký tự liền nhau được gộp vào một <mark>
+ */
+export const HighlightedText = ({ text, indices = [] }: HighlightedTextProps) => {
+  if (indices.length === 0) return <>{text}</>;
+
+  const highlighted = new Set(indices);
+  const parts: { text: string; match: boolean }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const match = highlighted.has(i);
+    const last = parts[parts.length - 1];
+    if (last && last.match === match) {
+      last.text += text[i];
+    } else {
+      parts.push({ text: text[i], match });
+    }
+  }
+
+  return (
+    <>
+      {parts.map((part, index) => part.match ? (
+        <mark key={index} className="rounded-sm bg-primary/20 text-inherit">{part.text}</mark>
+      ) : (
+        <Fragment key={index}>{part.text}</Fragment>
+      ))}
+    </>
+  );
+};
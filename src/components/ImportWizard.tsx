@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Upload, AlertTriangle, CheckCircle2, Copy } from "lucide-react";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import {
+  buildImportPreview,
+  parseImportFile,
+  IMPORT_FORMAT_LABELS,
+  type ImportFormat,
+  type ImportPreviewRow,
+} from "@/lib/import";
+import type { CreatePasswordEntry, PasswordEntry } from "@/lib/types/password";
+
+interface ImportWizardProps {
+  onImport: (entries: CreatePasswordEntry[]) => Promise<PasswordEntry[]>;
+}
+
+type WizardStep = "select" | "preview";
+
+const AUTO_DETECT = "auto";
+
+/**
+ * Wizard nhập mật khẩu từ Bitwarden, 1Password, LastPass và trình duyệt
+ * Bước 1: chọn file - Bước 2: xem trước, bỏ chọn dòng trùng - Bước 3: ghi vào storage
+ */
+export const ImportWizard = ({ onImport }: ImportWizardProps) => {
+  const { storage } = useStorageBackend();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<WizardStep>("select");
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<ImportFormat | typeof AUTO_DETECT>(AUTO_DETECT);
+  const [detectedFormat, setDetectedFormat] = useState<ImportFormat | null>(null);
+  const [rows, setRows] = useState<ImportPreviewRow[]>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const reset = () => {
+    setStep("select");
+    setFile(null);
+    setFormat(AUTO_DETECT);
+    setDetectedFormat(null);
+    setRows([]);
+    setIncludeDuplicates(false);
+    setError(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (busy) return;
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const parsed = await parseImportFile(file, format === AUTO_DETECT ? undefined : format);
+      const existing = await storage.getAllPasswords();
+      setDetectedFormat(parsed.format);
+      setRows(buildImportPreview(parsed.rows, existing));
+      setStep("preview");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Không thể đọc file");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectedRows = rows.filter(
+    (row) => row.status === "ready" || (includeDuplicates && row.status === "duplicate")
+  );
+  const invalidCount = rows.filter((row) => row.status === "invalid").length;
+  const duplicateCount = rows.filter((row) => row.status === "duplicate").length;
+
+  const handleImport = async () => {
+    setBusy(true);
+    try {
+      await onImport(selectedRows.map((row) => row.entry));
+      setOpen(false);
+      reset();
+    } catch {
+      // Lỗi đã được hiển thị qua toast trong usePasswords
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        variant="outline"
+        size="sm"
+        className="gap-2"
+      >
+        <Upload className="w-4 h-4" />
+        Nhập
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Nhập mật khẩu</DialogTitle>
+            <DialogDescription>
+              Hỗ trợ Bitwarden (JSON), 1Password (1PUX/CSV), LastPass (CSV), Chrome và Firefox (CSV)
+            </DialogDescription>
+          </DialogHeader>
+
+          {step === "select" && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="import-format">Định dạng</Label>
+                <select
+                  id="import-format"
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as ImportFormat | typeof AUTO_DETECT)}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value={AUTO_DETECT}>Tự nhận diện</option>
+                  {(Object.keys(IMPORT_FORMAT_LABELS) as ImportFormat[]).map((key) => (
+                    <option key={key} value={key}>{IMPORT_FORMAT_LABELS[key]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="import-file">File export</Label>
+                <Input
+                  id="import-file"
+                  type="file"
+                  accept=".json,.csv,.1pux"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+              </div>
+
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+          )}
+
+          {step === "preview" && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {detectedFormat && IMPORT_FORMAT_LABELS[detectedFormat]} · {rows.length} dòng ·{" "}
+                {invalidCount} lỗi · {duplicateCount} trùng lặp
+              </p>
+
+              <div className="max-h-80 overflow-y-auto rounded-md border border-border/50 divide-y divide-border/50">
+                {rows.map((row) => (
+                  <div key={row.index} className="flex items-start gap-3 p-3 text-sm">
+                    {row.status === "ready" && <CheckCircle2 className="w-4 h-4 mt-0.5 text-security" />}
+                    {row.status === "duplicate" && <Copy className="w-4 h-4 mt-0.5 text-muted-foreground" />}
+                    {row.status === "invalid" && <AlertTriangle className="w-4 h-4 mt-0.5 text-destructive" />}
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium truncate">{row.entry.service || "(không có tên)"}</p>
+                      <p className="text-muted-foreground truncate">{row.entry.username || "—"}</p>
+                      {row.status === "duplicate" && (
+                        <p className="text-xs text-muted-foreground">
+                          {row.duplicateOf === "existing" ? "Đã có trong vault" : "Trùng với dòng khác trong file"}
+                        </p>
+                      )}
+                      {row.errors.map((message) => (
+                        <p key={message} className="text-xs text-destructive">{message}</p>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {duplicateCount > 0 && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={includeDuplicates}
+                    onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                  />
+                  Vẫn nhập các dòng trùng lặp
+                </label>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {step === "select" ? (
+              <Button onClick={handlePreview} disabled={!file || busy}>
+                {busy ? "Đang đọc..." : "Xem trước"}
+              </Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setStep("select")} disabled={busy}>
+                  Quay lại
+                </Button>
+                <Button onClick={handleImport} disabled={selectedRows.length === 0 || busy}>
+                  {busy ? "Đang nhập..." : `Nhập ${selectedRows.length} mật khẩu`}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,91 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { ItemDetails } from "@/lib/types/password";
+import { ITEM_DETAIL_FIELDS, isDetailItemType, type DetailFieldDef } from "@/lib/items/item-types";
+
+interface ItemDetailsFieldsProps {
+  details: ItemDetails;
+  onChange: (details: ItemDetails) => void;
+}
+
+const INPUT_TYPES: Partial<Record<DetailFieldDef["kind"], string>> = {
+  secret: "password",
+  email: "email",
+  tel: "tel",
+  date: "date",
+};
+
+/**
+ * Phần form riêng theo loại item (thẻ, danh tính, khóa SSH, Wi-Fi, API key)
+ * Danh sách field lấy từ ITEM_DETAIL_FIELDS
+ */
+export const ItemDetailsFields = ({ details, onChange }: ItemDetailsFieldsProps) => {
+  if (!isDetailItemType(details.type)) return null;
+
+  const values = details as unknown as Record<string, string | boolean>;
+  const fields = ITEM_DETAIL_FIELDS[details.type] as DetailFieldDef[];
+  const update = (key: string, value: string | boolean) => onChange({ ...details, [key]: value } as ItemDetails);
+
+  return (
+    <>
+      {fields.map((field) => {
+        // Mạng Wi-Fi mở không có mật khẩu
+        if (details.type === "wifi" && details.security === "open" && field.key === "password") return null;
+
+        const id = `detail-${field.key}`;
+        const value = values[field.key];
+
+        if (field.kind === "boolean") {
+          return (
+            <div key={field.key} className="flex items-center justify-between gap-4">
+              <Label htmlFor={id}>{field.label}</Label>
+              <Switch id={id} checked={value === true} onCheckedChange={(checked) => update(field.key, checked)} />
+            </div>
+          );
+        }
+
+        return (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={id}>{field.label}</Label>
+            {field.kind === "select" ? (
+              <select
+                id={id}
+                value={String(value)}
+                onChange={(e) => update(field.key, e.target.value)}
+                className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+              >
+                {Object.entries(field.options ?? {}).map(([option, label]) => (
+                  <option key={option} value={option}>{label}</option>
+                ))}
+              </select>
+            ) : field.kind === "multiline" || field.kind === "secret-multiline" ? (
+              <Textarea
+                id={id}
+                value={String(value)}
+                onChange={(e) => update(field.key, e.target.value)}
+                placeholder={field.placeholder}
+                required={field.required}
+                rows={field.kind === "secret-multiline" ? 6 : 3}
+                spellCheck={false}
+                className={field.kind === "secret-multiline" ? "font-mono text-xs" : undefined}
+              />
+            ) : (
+              <Input
+                id={id}
+                type={INPUT_TYPES[field.kind] ?? "text"}
+                inputMode={field.kind === "card-number" ? "numeric" : undefined}
+                value={String(value)}
+                onChange={(e) => update(field.key, e.target.value)}
+                placeholder={field.placeholder}
+                required={field.required}
+                autoComplete="off"
+              />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Copy, Eye, EyeOff } from "lucide-react";
+import type { ItemDetails } from "@/lib/types/password";
+import { ITEM_DETAIL_FIELDS, isDetailItemType, maskCardNumber, type DetailFieldDef } from "@/lib/items/item-types";
+
+interface ItemDetailsListProps {
+  details: ItemDetails;
+  onCopy: (value: string, label: string) => void;
+}
+
+const SECRET_KINDS: DetailFieldDef["kind"][] = ["secret", "card-number", "secret-multiline"];
+
+const DetailValue = ({ field, value, onCopy }: { field: DetailFieldDef; value: string; onCopy: ItemDetailsListProps["onCopy"] }) => {
+  const [revealed, setRevealed] = useState(false);
+  const isSecret = SECRET_KINDS.includes(field.kind);
+  const isMultiline = field.kind === "multiline" || field.kind === "secret-multiline";
+
+  const display = !isSecret || revealed
+    ? field.options?.[value] ?? value
+    : field.kind === "card-number" ? maskCardNumber(value) : "••••••••";
+
+  return (
+    <>
+      <span
+        className={
+          isMultiline && (revealed || !isSecret)
+            ? "flex-1 max-h-24 overflow-auto whitespace-pre-wrap break-all font-mono"
+            : "flex-1 truncate font-mono"
+        }
+      >
+        {display}
+      </span>
+      {isSecret && (
+        <Button variant="ghost" size="icon" onClick={() => setRevealed(!revealed)} className="h-7 w-7">
+          {revealed ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onCopy(value, field.label)}
+        className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+      >
+        <Copy className="w-3 h-3" />
+      </Button>
+    </>
+  );
+};
+
+/**
+ * Hiển thị field riêng theo loại item trên PasswordCard, bỏ qua field trống
+ */
+export const ItemDetailsList = ({ details, onCopy }: ItemDetailsListProps) => {
+  if (!isDetailItemType(details.type)) return null;
+
+  const values = details as unknown as Record<string, string | boolean>;
+  const fields = (ITEM_DETAIL_FIELDS[details.type] as DetailFieldDef[])
+    .filter((field) => values[field.key] !== "" && values[field.key] !== undefined);
+
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="space-y-1 text-sm">
+      {fields.map((field) => (
+        <div key={field.key} className="flex items-center gap-2">
+          <span className="w-1/3 shrink-0 truncate text-xs text-muted-foreground" title={field.label}>{field.label}</span>
+          {field.kind === "boolean" ? (
+            <span className="flex-1">{values[field.key] ? "Có" : "Không"}</span>
+          ) : (
+            <DetailValue field={field} value={String(values[field.key])} onCopy={onCopy} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,355 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { PasswordGenerator } from "@/components/PasswordGenerator";
+import { CustomFieldsEditor } from "@/components/CustomFieldsEditor";
+import { FolderSelect } from "@/components/FolderSelect";
+import { TagInput } from "@/components/TagInput";
+import { ItemDetailsFields } from "@/components/ItemDetailsFields";
+import { RotationIntervalSelect } from "@/components/RotationIntervalSelect";
+import { Plus, X } from "lucide-react";
+import type { CreatePasswordEntry, CustomField, EntryUrl, ItemDetails, ItemType, PasswordEntry, UrlMatchMode } from "@/lib/types/password";
+import type { Folder } from "@/lib/types/folder";
+import { DEFAULT_URL_MATCH_MODE, URL_MATCH_MODE_LABELS } from "@/lib/urls/url-matcher";
+import { isValidTotpSecret } from "@/lib/totp/totp";
+import { ITEM_TYPES, ITEM_TYPE_LABELS, createEmptyDetails, isDetailItemType } from "@/lib/items/item-types";
+import { getEntryValidationErrors } from "@/lib/password-validation";
+import { getFolderRotationIntervalDays } from "@/lib/rotation/rotation";
+
+interface ItemFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (entry: CreatePasswordEntry) => void;
+  editEntry?: PasswordEntry;
+  folders: Folder[];
+  // Folder mặc định khi thêm mới (folder đang xem trên sidebar)
+  defaultFolderId?: string | null;
+  // Tag đã có trong vault để gợi ý
+  tagSuggestions?: string[];
+}
+
+interface ItemFormData {
+  details: ItemDetails;
+  service: string;
+  username: string;
+  password: string;
+  urls: EntryUrl[];
+  notes: string;
+  customFields: CustomField[];
+  totp: string;
+  // null: theo thư mục
+  rotationIntervalDays: number | null;
+  folderId: string | null;
+  tags: string[];
+}
+
+const EMPTY_FORM: ItemFormData = {
+  details: createEmptyDetails("login"),
+  service: "",
+  username: "",
+  password: "",
+  urls: [],
+  notes: "",
+  customFields: [],
+  totp: "",
+  rotationIntervalDays: null,
+  folderId: null,
+  tags: [],
+};
+
+/**
+ * Form thêm/sửa item - phần field thay đổi theo loại item
+ * Loại item chỉ chọn được khi thêm mới
+ */
+export const ItemForm = ({ isOpen, onClose, onSave, editEntry, folders, defaultFolderId = null, tagSuggestions = [] }: ItemFormProps) => {
+  const [formData, setFormData] = useState<ItemFormData>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const itemType = formData.details.type;
+
+  useEffect(() => {
+    setError(null);
+    if (editEntry) {
+      setFormData({
+        details: editEntry.details ?? createEmptyDetails("login"),
+        service: editEntry.service,
+        username: editEntry.username,
+        password: editEntry.password,
+        urls: editEntry.urls ?? [],
+        notes: editEntry.notes ?? "",
+        customFields: editEntry.customFields ?? [],
+        totp: editEntry.totp ?? "",
+        rotationIntervalDays: editEntry.rotationIntervalDays ?? null,
+        folderId: editEntry.folderId ?? null,
+        tags: editEntry.tags ?? [],
+      });
+    } else {
+      setFormData({ ...EMPTY_FORM, folderId: defaultFolderId });
+    }
+  }, [editEntry, isOpen, defaultFolderId]);
+
+  const updateUrl = (index: number, patch: Partial<EntryUrl>) => {
+    setFormData((prev) => ({
+      ...prev,
+      urls: prev.urls.map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    }));
+  };
+
+  const changeType = (type: ItemType) => {
+    setError(null);
+    setFormData((prev) => ({ ...prev, details: createEmptyDetails(type) }));
+  };
+
+  const totpInvalid = formData.totp.trim() !== "" && !isValidTotpSecret(formData.totp);
+
+  const buildEntry = (): CreatePasswordEntry => {
+    const common = {
+      service: formData.service,
+      notes: formData.notes,
+      // Bỏ các trường chưa đặt tên
+      customFields: formData.customFields.filter((field) => field.name.trim()),
+      folderId: formData.folderId,
+      tags: formData.tags,
+      details: formData.details,
+    };
+    if (itemType !== "login") {
+      // Field đăng nhập chỉ dùng cho login
+      return { ...common, username: "", password: "", urls: [], totp: "", rotationIntervalDays: null };
+    }
+    return {
+      ...common,
+      username: formData.username,
+      password: formData.password,
+      urls: formData.urls
+        .map((item) => ({ ...item, url: item.url.trim() }))
+        .filter((item) => item.url),
+      totp: formData.totp.trim(),
+      rotationIntervalDays: formData.rotationIntervalDays,
+    };
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.service.trim()) return;
+    if (itemType === "login" && (!formData.username || !formData.password || totpInvalid)) return;
+    if (itemType === "note" && !formData.notes.trim()) return;
+
+    const entry = buildEntry();
+    const [firstError] = getEntryValidationErrors(entry);
+    if (firstError) {
+      setError(firstError);
+      return;
+    }
+    onSave(entry);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {editEntry ? `Chỉnh sửa ${ITEM_TYPE_LABELS[itemType].toLowerCase()}` : "Thêm mục mới"}
+          </DialogTitle>
+        </DialogHeader>
+        
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!editEntry && (
+            <div className="space-y-2">
+              <Label htmlFor="item-type">Loại</Label>
+              <select
+                id="item-type"
+                value={itemType}
+                onChange={(e) => changeType(e.target.value as ItemType)}
+                className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+              >
+                {ITEM_TYPES.map((type) => (
+                  <option key={type} value={type}>{ITEM_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="service">{itemType === "login" ? "Dịch vụ" : "Tên"}</Label>
+            <Input
+              id="service"
+              value={formData.service}
+              onChange={(e) => setFormData({ ...formData, service: e.target.value })}
+              placeholder={itemType === "login" ? "Tên dịch vụ hoặc website" : `Tên ${ITEM_TYPE_LABELS[itemType].toLowerCase()}`}
+              required
+            />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="folder">Thư mục</Label>
+            <FolderSelect
+              id="folder"
+              folders={folders}
+              value={formData.folderId}
+              onChange={(folderId) => setFormData((prev) => ({ ...prev, folderId }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tag</Label>
+            <TagInput
+              id="tags"
+              value={formData.tags}
+              onChange={(tags) => setFormData((prev) => ({ ...prev, tags }))}
+              suggestions={tagSuggestions}
+            />
+          </div>
+
+          {itemType === "login" && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="username">Tên đăng nhập</Label>
+                <Input
+                  id="username"
+                  value={formData.username}
+                  onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                  placeholder="Email hoặc tên đăng nhập"
+                  required
+                />
+              </div>
+          
+              <div className="space-y-2">
+                <Label htmlFor="password">Mật khẩu</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="password"
+                    type="password"
+                    value={formData.password}
+                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                    placeholder="Mật khẩu"
+                    required
+                    className="flex-1"
+                  />
+                  <PasswordGenerator
+                    onUse={(password) => setFormData((prev) => ({ ...prev, password }))}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rotation-interval">Nhắc đổi mật khẩu</Label>
+                <RotationIntervalSelect
+                  id="rotation-interval"
+                  value={formData.rotationIntervalDays}
+                  onChange={(rotationIntervalDays) => setFormData((prev) => ({ ...prev, rotationIntervalDays }))}
+                  inheritLabel="Theo thư mục"
+                  inheritedDays={getFolderRotationIntervalDays(folders, formData.folderId)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="totp">Mã xác thực 2 bước (TOTP)</Label>
+                <Input
+                  id="totp"
+                  value={formData.totp}
+                  onChange={(e) => setFormData({ ...formData, totp: e.target.value })}
+                  placeholder="Secret base32 hoặc otpauth://totp/..."
+                  autoComplete="off"
+                  spellCheck={false}
+                  aria-invalid={totpInvalid}
+                />
+                {totpInvalid && (
+                  <p className="text-xs text-destructive">
+                    Secret không hợp lệ - cần chuỗi base32 hoặc URI otpauth://totp
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Website</Label>
+                {formData.urls.map((item, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      value={item.url}
+                      onChange={(e) => updateUrl(index, { url: e.target.value })}
+                      placeholder={item.match === "regex" ? "^https://.*\\.example\\.com/" : "https://example.com"}
+                      className="flex-1"
+                    />
+                    <select
+                      value={item.match ?? DEFAULT_URL_MATCH_MODE}
+                      onChange={(e) => updateUrl(index, { match: e.target.value as UrlMatchMode })}
+                      className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+                      title="Cách so khớp URL"
+                    >
+                      {(Object.keys(URL_MATCH_MODE_LABELS) as UrlMatchMode[]).map((mode) => (
+                        <option key={mode} value={mode}>{URL_MATCH_MODE_LABELS[mode]}</option>
+                      ))}
+                    </select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setFormData((prev) => ({ ...prev, urls: prev.urls.filter((_, i) => i !== index) }))}
+                      title="Xóa URL"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setFormData((prev) => ({ ...prev, urls: [...prev.urls, { url: "" }] }))}
+                >
+                  <Plus className="w-4 h-4" />
+                  Thêm URL
+                </Button>
+              </div>
+            </>
+          )}
+
+          {isDetailItemType(itemType) && (
+            <ItemDetailsFields
+              details={formData.details}
+              onChange={(details) => {
+                setError(null);
+                setFormData((prev) => ({ ...prev, details }));
+              }}
+            />
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">{itemType === "note" ? "Nội dung" : "Ghi chú"}</Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder={itemType === "note" ? "Nội dung ghi chú (được mã hóa)" : "Recovery codes, câu hỏi bảo mật, ghi chú khác..."}
+              rows={itemType === "note" ? 8 : 3}
+              required={itemType === "note"}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Trường tùy chỉnh</Label>
+            <CustomFieldsEditor
+              fields={formData.customFields}
+              onChange={(customFields) => setFormData((prev) => ({ ...prev, customFields }))}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Hủy
+            </Button>
+            <Button type="submit" variant="security">
+              {editEntry ? "Cập nhật" : "Lưu"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { CreditCard, FileLock, Globe, IdCard, KeyRound, Terminal, Wifi, type LucideIcon } from "lucide-react";
+import type { ItemType } from "@/lib/types/password";
+
+const ITEM_TYPE_ICONS: Record<ItemType, LucideIcon> = {
+  login: Globe,
+  card: CreditCard,
+  identity: IdCard,
+  note: FileLock,
+  "ssh-key": Terminal,
+  wifi: Wifi,
+  "api-key": KeyRound,
+};
+
+/**
+ * Icon tương ứng với loại item
+ */
+export const ItemTypeIcon = ({ type, className }: { type: ItemType; className?: string }) => {
+  const Icon = ITEM_TYPE_ICONS[type];
+  return <Icon className={className} />;
+};
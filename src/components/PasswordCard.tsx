@@ -1,9 +1,23 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Eye, EyeOff, Copy, Edit, Trash2, User, Key, Globe, Calendar } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Eye, EyeOff, Copy, Edit, Trash2, User, Key, Calendar, AlertTriangle, ExternalLink, StickyNote, Folder, Clock, Star } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { PasswordEntry } from "@/lib/db/db";
+import type { PasswordEntry } from "@/lib/types/password";
+import { estimatePasswordStrength } from "@/lib/security/password-strength";
+import { PasswordStrengthBadge } from "@/components/PasswordStrengthBadge";
+import { CustomFieldList } from "@/components/CustomFieldList";
+import { TotpCode } from "@/components/TotpCode";
+import { ItemDetailsList } from "@/components/ItemDetailsList";
+import { ItemTypeIcon } from "@/components/ItemTypeIcon";
+import { PasswordHistoryPanel } from "@/components/PasswordHistoryPanel";
+import { AttachmentsPanel } from "@/components/AttachmentsPanel";
+import { HighlightedText } from "@/components/HighlightedText";
+import { parseUrl } from "@/lib/urls/url-matcher";
+import { ITEM_TYPE_LABELS, getItemType } from "@/lib/items/item-types";
+import type { RotationStatus } from "@/lib/rotation/rotation";
+import { getSearchHighlights } from "@/lib/search/search-index";
 import { format } from "date-fns";
 import { vi } from "date-fns/locale";
 
@@ -11,11 +25,148 @@ interface PasswordCardProps {
   entry: PasswordEntry;
   onEdit: (entry: PasswordEntry) => void;
   onDelete: (id: string) => void;
+  // Số dịch vụ dùng chung mật khẩu này (gồm cả entry hiện tại), 0 nếu không dùng lại
+  reusedCount?: number;
+  // Đường dẫn thư mục chứa entry, rỗng nếu chưa phân loại
+  folderPath?: string;
+  // Click vào tag để thêm vào bộ lọc
+  onTagClick?: (tag: string) => void;
+  // Khôi phục một mật khẩu trong lịch sử
+  onRestorePassword?: (id: string, password: string) => void;
+  // Trạng thái nhắc đổi mật khẩu, null nếu entry không có chu kỳ đổi
+  rotation?: RotationStatus | null;
+  // Bật/tắt yêu thích
+  onToggleFavorite?: (entry: PasswordEntry) => void;
+  // File đính kèm - panel chỉ hiện khi có đủ ba handler
+  onAddAttachment?: (entryId: string, file: File) => Promise<void>;
+  onLoadAttachment?: (entryId: string, attachmentId: string) => Promise<ArrayBuffer | null>;
+  onDeleteAttachment?: (entryId: string, attachmentId: string) => Promise<void>;
+  // Từ khóa tìm kiếm hiện tại - tô sáng phần khớp trong tên và tên đăng nhập
+  highlightQuery?: string;
 }
 
-export const PasswordCard = ({ entry, onEdit, onDelete }: PasswordCardProps) => {
+type CopyHandler = (text: string, label: string) => void;
+
+/**
+ * Phần thân card của item đăng nhập: username, mật khẩu, TOTP, website
+ */
+const LoginItemBody = ({ entry, onCopy, onRestorePassword, usernameHighlights }: {
+  entry: PasswordEntry;
+  onCopy: CopyHandler;
+  onRestorePassword?: PasswordCardProps["onRestorePassword"];
+  usernameHighlights?: number[];
+}) => {
   const [showPassword, setShowPassword] = useState(false);
+
+  // URL mở được trên trình duyệt (bỏ qua pattern regex)
+  const openableUrls = useMemo(
+    () => (entry.urls ?? [])
+      .filter((item) => item.match !== "regex")
+      .map((item) => parseUrl(item.url))
+      .filter((url): url is URL => url !== null && /^https?:$/.test(url.protocol)),
+    [entry.urls]
+  );
+
+  return (
+    <>
+      <div className="flex items-center gap-2 text-sm">
+        <User className="w-4 h-4 text-muted-foreground" />
+        <span className="flex-1 font-mono">
+          <HighlightedText text={entry.username} indices={usernameHighlights} />
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onCopy(entry.username, "Tên đăng nhập")}
+          className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
+        >
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+      
+      <div className="flex items-center gap-2 text-sm">
+        <Key className="w-4 h-4 text-muted-foreground" />
+        <span className="flex-1 font-mono">
+          {showPassword ? entry.password : "••••••••"}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setShowPassword(!showPassword)}
+          className="h-8 w-8"
+        >
+          {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onCopy(entry.password, "Mật khẩu")}
+          className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
+        >
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {entry.totp && <TotpCode secret={entry.totp} onCopy={onCopy} />}
+
+      {openableUrls.length > 0 && (
+        <div className="flex items-center gap-2 text-sm">
+          <ExternalLink className="w-4 h-4 text-muted-foreground" />
+          <a
+            href={openableUrls[0].href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex-1 truncate text-primary hover:underline"
+          >
+            {openableUrls[0].host}
+          </a>
+          {openableUrls.length > 1 && (
+            <span className="text-xs text-muted-foreground" title={openableUrls.map((url) => url.host).join("\n")}>
+              +{openableUrls.length - 1}
+            </span>
+          )}
+        </div>
+      )}
+
+      {entry.passwordHistory && entry.passwordHistory.length > 0 && (
+        <PasswordHistoryPanel
+          history={entry.passwordHistory}
+          onCopy={onCopy}
+          onRestore={onRestorePassword && ((password) => onRestorePassword(entry.id, password))}
+        />
+      )}
+    </>
+  );
+};
+
+export const PasswordCard = ({
+  entry,
+  onEdit,
+  onDelete,
+  reusedCount = 0,
+  folderPath,
+  onTagClick,
+  onRestorePassword,
+  rotation,
+  onToggleFavorite,
+  onAddAttachment,
+  onLoadAttachment,
+  onDeleteAttachment,
+  highlightQuery = "",
+}: PasswordCardProps) => {
+  const [showNotes, setShowNotes] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
   const { toast } = useToast();
+  const itemType = getItemType(entry);
+  // Chỉ item đăng nhập có mật khẩu để đánh giá
+  const strength = useMemo(
+    () => itemType === "login" ? estimatePasswordStrength(entry.password, [entry.service, entry.username]) : null,
+    [itemType, entry.password, entry.service, entry.username]
+  );
+  const highlights = useMemo(
+    () => getSearchHighlights(entry, highlightQuery),
+    [entry, highlightQuery]
+  );
 
   const copyToClipboard = (text: string, type: string) => {
     navigator.clipboard.writeText(text);
@@ -39,50 +190,116 @@ export const PasswordCard = ({ entry, onEdit, onDelete }: PasswordCardProps) =>
     <Card className="hover:shadow-glow transition-all duration-300 group">
       <CardHeader className="pb-3">
         <CardTitle className="flex items-center gap-2 text-lg">
-          <Globe className="w-5 h-5 text-primary" />
-          {entry.service}
+          <ItemTypeIcon type={itemType} className="w-5 h-5 shrink-0 text-primary" />
+          <span className="flex-1 truncate">
+            <HighlightedText text={entry.service} indices={highlights.service} />
+          </span>
+          {onToggleFavorite && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onToggleFavorite(entry)}
+              className="h-7 w-7 shrink-0"
+              title={entry.favorite ? "Bỏ yêu thích" : "Thêm vào yêu thích"}
+              aria-pressed={entry.favorite === true}
+            >
+              <Star className={entry.favorite ? "w-4 h-4 fill-yellow-400 text-yellow-400" : "w-4 h-4 text-muted-foreground"} />
+            </Button>
+          )}
+          {strength ? (
+            <PasswordStrengthBadge strength={strength} />
+          ) : (
+            <span className="text-xs font-normal text-muted-foreground">{ITEM_TYPE_LABELS[itemType]}</span>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="flex items-center gap-2 text-sm">
-          <User className="w-4 h-4 text-muted-foreground" />
-          <span className="flex-1 font-mono">{entry.username}</span>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => copyToClipboard(entry.username, "Tên đăng nhập")}
-            className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
-          >
-            <Copy className="w-4 h-4" />
-          </Button>
-        </div>
-        
-        <div className="flex items-center gap-2 text-sm">
-          <Key className="w-4 h-4 text-muted-foreground" />
-          <span className="flex-1 font-mono">
-            {showPassword ? entry.password : "••••••••"}
-          </span>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => setShowPassword(!showPassword)}
-            className="h-8 w-8"
-          >
-            {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-          </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => copyToClipboard(entry.password, "Mật khẩu")}
-            className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
+        {itemType === "login" && (
+          <LoginItemBody
+            entry={entry}
+            onCopy={copyToClipboard}
+            onRestorePassword={onRestorePassword}
+            usernameHighlights={highlights.username}
+          />
+        )}
+
+        {entry.details && <ItemDetailsList details={entry.details} onCopy={copyToClipboard} />}
+
+        {entry.notes && (
+          <div className="text-sm">
+            <button
+              type="button"
+              onClick={() => setShowNotes(!showNotes)}
+              className="flex items-center gap-2 text-muted-foreground hover:text-foreground"
+            >
+              <StickyNote className="w-4 h-4" />
+              {itemType === "note"
+                ? showNotes ? "Ẩn nội dung" : "Xem nội dung"
+                : showNotes ? "Ẩn ghi chú" : "Xem ghi chú"}
+            </button>
+            {showNotes && (
+              <p className="mt-2 whitespace-pre-wrap break-words rounded-md bg-muted/30 p-2 text-xs">{entry.notes}</p>
+            )}
+          </div>
+        )}
+
+        {entry.customFields && entry.customFields.length > 0 && (
+          <CustomFieldList fields={entry.customFields} onCopy={copyToClipboard} />
+        )}
+
+        {onAddAttachment && onLoadAttachment && onDeleteAttachment && (
+          <AttachmentsPanel
+            attachments={entry.attachments ?? []}
+            onUpload={(file) => onAddAttachment(entry.id, file)}
+            onLoad={(attachment) => onLoadAttachment(entry.id, attachment.id)}
+            onDelete={(attachment) => onDeleteAttachment(entry.id, attachment.id)}
+          />
+        )}
+
+        {entry.tags && entry.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {entry.tags.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => onTagClick?.(tag)}
+                className="rounded-full bg-primary/15 px-2 py-0.5 text-xs text-primary hover:bg-primary/25"
+                title="Lọc theo tag này"
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {reusedCount > 1 && (
+          <div className="flex items-center gap-2 rounded-md bg-destructive/10 px-2 py-1 text-xs text-destructive">
+            <AlertTriangle className="w-3 h-3" />
+            <span>Dùng lại trên {reusedCount} dịch vụ</span>
+          </div>
+        )}
+
+        {rotation?.overdue && (
+          <div
+            className="flex items-center gap-2 rounded-md bg-yellow-500/10 px-2 py-1 text-xs text-yellow-600 dark:text-yellow-400"
+            title={`Chu kỳ đổi ${rotation.intervalDays} ngày, đổi lần cuối ${formatDate(rotation.changedAt)}`}
           >
-            <Copy className="w-4 h-4" />
-          </Button>
-        </div>
+            <Clock className="w-3 h-3" />
+            <span>
+              {rotation.daysLeft < 0 ? `Quá hạn đổi mật khẩu ${-rotation.daysLeft} ngày` : "Đến hạn đổi mật khẩu"}
+            </span>
+          </div>
+        )}
 
         <div className="flex items-center gap-2 text-xs text-muted-foreground mt-2">
           <Calendar className="w-3 h-3" />
           <span>Cập nhật: {formatDate(entry.updatedAt)}</span>
+          {folderPath && (
+            <span className="ml-auto flex min-w-0 items-center gap-1" title={folderPath}>
+              <Folder className="w-3 h-3 shrink-0" />
+              <span className="truncate">{folderPath}</span>
+            </span>
+          )}
         </div>
         
         <div className="flex gap-2 pt-4">
@@ -98,7 +315,7 @@ export const PasswordCard = ({ entry, onEdit, onDelete }: PasswordCardProps) =>
           <Button
             variant="destructive"
             size="sm"
-            onClick={() => onDelete(entry.id)}
+            onClick={() => setConfirmDelete(true)}
             className="flex-1"
           >
             <Trash2 className="w-4 h-4 mr-2" />
@@ -106,6 +323,32 @@ export const PasswordCard = ({ entry, onEdit, onDelete }: PasswordCardProps) =>
           </Button>
         </div>
       </CardContent>
+
+      <Dialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Xóa "{entry.service}"?</DialogTitle>
+            <DialogDescription>
+              Mục sẽ được chuyển vào thùng rác và có thể khôi phục trước khi bị xóa vĩnh viễn.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={() => setConfirmDelete(false)}>
+              Hủy
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => {
+                setConfirmDelete(false);
+                onDelete(entry.id);
+              }}
+            >
+              Chuyển vào thùng rác
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
\ No newline at end of file
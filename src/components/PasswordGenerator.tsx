@@ -0,0 +1,262 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RefreshCw, Wand2 } from "lucide-react";
+import {
+  DEFAULT_GENERATOR_OPTIONS,
+  GENERATOR_LIMITS,
+  estimateGeneratorEntropy,
+  generatePassword,
+  getEntropyStrength,
+  validateGeneratorOptions,
+  type CharacterClass,
+  type EntropyStrength,
+  type PasswordGeneratorOptions,
+} from "@/lib/generator/password-generator";
+import { generatorHistory } from "@/lib/generator/generator-history";
+import { cn } from "@/lib/utils";
+
+interface PasswordGeneratorProps {
+  onUse: (value: string) => void;
+}
+
+const OPTIONS_STORAGE_KEY = "memory-safe-guard-generator-options";
+
+const CLASS_LABELS: Record<CharacterClass, string> = {
+  lowercase: "Chữ thường (a-z)",
+  uppercase: "Chữ hoa (A-Z)",
+  digits: "Chữ số (0-9)",
+  symbols: "Ký tự đặc biệt (!@#...)",
+};
+
+const STRENGTH_DISPLAY: Record<EntropyStrength, { label: string; className: string; width: string }> = {
+  weak: { label: "Yếu", className: "bg-destructive", width: "w-1/4" },
+  fair: { label: "Trung bình", className: "bg-yellow-500", width: "w-2/4" },
+  strong: { label: "Mạnh", className: "bg-security", width: "w-3/4" },
+  "very-strong": { label: "Rất mạnh", className: "bg-security", width: "w-full" },
+};
+
+const loadOptions = (): PasswordGeneratorOptions => {
+  try {
+    const saved = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return {
+        ...DEFAULT_GENERATOR_OPTIONS,
+        ...parsed,
+        classes: { ...DEFAULT_GENERATOR_OPTIONS.classes, ...parsed.classes },
+      };
+    }
+  } catch {
+    // Bỏ qua cấu hình hỏng, dùng mặc định
+  }
+  return DEFAULT_GENERATOR_OPTIONS;
+};
+
+/**
+ * Popover sinh mật khẩu/passphrase an toàn
+ * Tùy chọn được lưu lại, lịch sử giá trị chỉ nằm trong bộ nhớ
+ */
+export const PasswordGenerator = ({ onUse }: PasswordGeneratorProps) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<PasswordGeneratorOptions>(loadOptions);
+  const [value, setValue] = useState("");
+  const history = useSyncExternalStore(generatorHistory.subscribe, generatorHistory.getAll);
+
+  const optionsError = validateGeneratorOptions(options);
+  const entropy = estimateGeneratorEntropy(options);
+  const strength = STRENGTH_DISPLAY[getEntropyStrength(entropy)];
+
+  const regenerate = useCallback(() => {
+    if (validateGeneratorOptions(options)) {
+      setValue("");
+      return;
+    }
+    setValue(generatePassword(options));
+  }, [options]);
+
+  // Sinh lại mỗi khi mở popover hoặc đổi tùy chọn
+  useEffect(() => {
+    if (open) regenerate();
+  }, [open, regenerate]);
+
+  useEffect(() => {
+    localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+  }, [options]);
+
+  const updateOptions = (patch: Partial<PasswordGeneratorOptions>) => {
+    setOptions((prev) => ({ ...prev, ...patch }));
+  };
+
+  const handleUse = (selected: string) => {
+    generatorHistory.add(selected);
+    onUse(selected);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" className="whitespace-nowrap gap-2">
+          <Wand2 className="w-4 h-4" />
+          Tạo ngẫu nhiên
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            type="button"
+            size="sm"
+            variant={options.mode === "password" ? "default" : "outline"}
+            onClick={() => updateOptions({ mode: "password" })}
+          >
+            Mật khẩu
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={options.mode === "passphrase" ? "default" : "outline"}
+            onClick={() => updateOptions({ mode: "passphrase" })}
+          >
+            Passphrase
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <code className="flex-1 rounded-md border bg-muted/30 px-2 py-1.5 text-sm font-mono break-all">
+              {value || "—"}
+            </code>
+            <Button type="button" variant="outline" size="icon" onClick={regenerate} title="Sinh lại">
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="h-1.5 w-full rounded-full bg-muted">
+            <div className={cn("h-1.5 rounded-full transition-all", strength.className, strength.width)} />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {strength.label} · ~{Math.round(entropy)} bits entropy
+          </p>
+        </div>
+
+        {options.mode === "password" ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="generator-length">Độ dài</Label>
+                <Input
+                  id="generator-length"
+                  type="number"
+                  min={GENERATOR_LIMITS.minLength}
+                  max={GENERATOR_LIMITS.maxLength}
+                  value={options.length}
+                  onChange={(e) => updateOptions({ length: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="generator-min-per-class">Tối thiểu mỗi nhóm</Label>
+                <Input
+                  id="generator-min-per-class"
+                  type="number"
+                  min={0}
+                  max={GENERATOR_LIMITS.maxMinPerClass}
+                  value={options.minPerClass}
+                  onChange={(e) => updateOptions({ minPerClass: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            {(Object.keys(CLASS_LABELS) as CharacterClass[]).map((characterClass) => (
+              <div key={characterClass} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`generator-${characterClass}`}>{CLASS_LABELS[characterClass]}</Label>
+                <Switch
+                  id={`generator-${characterClass}`}
+                  checked={options.classes[characterClass]}
+                  onCheckedChange={(checked) =>
+                    updateOptions({ classes: { ...options.classes, [characterClass]: checked } })
+                  }
+                />
+              </div>
+            ))}
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="generator-ambiguous">Bỏ ký tự dễ nhầm (I, l, 1, O, 0...)</Label>
+              <Switch
+                id="generator-ambiguous"
+                checked={options.excludeAmbiguous}
+                onCheckedChange={(checked) => updateOptions({ excludeAmbiguous: checked })}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="generator-words">Số từ</Label>
+                <Input
+                  id="generator-words"
+                  type="number"
+                  min={GENERATOR_LIMITS.minWords}
+                  max={GENERATOR_LIMITS.maxWords}
+                  value={options.wordCount}
+                  onChange={(e) => updateOptions({ wordCount: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="generator-separator">Ký tự nối</Label>
+                <Input
+                  id="generator-separator"
+                  maxLength={3}
+                  value={options.separator}
+                  onChange={(e) => updateOptions({ separator: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="generator-capitalize">Viết hoa chữ đầu mỗi từ</Label>
+              <Switch
+                id="generator-capitalize"
+                checked={options.capitalize}
+                onCheckedChange={(checked) => updateOptions({ capitalize: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="generator-number">Thêm một chữ số</Label>
+              <Switch
+                id="generator-number"
+                checked={options.includeNumber}
+                onCheckedChange={(checked) => updateOptions({ includeNumber: checked })}
+              />
+            </div>
+          </div>
+        )}
+
+        {optionsError && <p className="text-xs text-destructive">{optionsError}</p>}
+
+        <Button type="button" className="w-full" disabled={!value} onClick={() => handleUse(value)}>
+          Dùng giá trị này
+        </Button>
+
+        {history.length > 0 && (
+          <div className="space-y-1 border-t pt-3">
+            <p className="text-xs font-medium text-muted-foreground">Gần đây</p>
+            <ul className="max-h-28 overflow-y-auto space-y-1">
+              {history.map((item) => (
+                <li key={item.createdAt + item.value}>
+                  <button
+                    type="button"
+                    className="w-full truncate rounded px-1 text-left font-mono text-xs hover:bg-accent"
+                    onClick={() => handleUse(item.value)}
+                  >
+                    {item.value}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
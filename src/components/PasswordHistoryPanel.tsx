@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Copy, Eye, EyeOff, History, RotateCcw } from "lucide-react";
+import type { PasswordHistoryItem } from "@/lib/types/password";
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
+
+interface PasswordHistoryPanelProps {
+  history: PasswordHistoryItem[];
+  onCopy: (value: string, label: string) => void;
+  // Khôi phục mật khẩu cũ - mật khẩu hiện tại sẽ được đưa vào lịch sử
+  onRestore?: (password: string) => void;
+}
+
+const HistoryRow = ({ item, onCopy, onRestore }: { item: PasswordHistoryItem } & Omit<PasswordHistoryPanelProps, "history">) => {
+  const [revealed, setRevealed] = useState(false);
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="w-28 shrink-0 text-muted-foreground">
+        {format(new Date(item.changedAt), "dd/MM/yyyy HH:mm", { locale: vi })}
+      </span>
+      <span className="flex-1 truncate font-mono">{revealed ? item.password : "••••••••"}</span>
+      <Button variant="ghost" size="icon" onClick={() => setRevealed(!revealed)} className="h-7 w-7" title={revealed ? "Ẩn" : "Hiện"}>
+        {revealed ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+      </Button>
+      <Button variant="ghost" size="icon" onClick={() => onCopy(item.password, "Mật khẩu cũ")} className="h-7 w-7" title="Sao chép">
+        <Copy className="w-3 h-3" />
+      </Button>
+      {onRestore && (
+        <Button variant="ghost" size="icon" onClick={() => onRestore(item.password)} className="h-7 w-7" title="Khôi phục mật khẩu này">
+          <RotateCcw className="w-3 h-3" />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lịch sử mật khẩu của entry trên PasswordCard (mới nhất trước)
+ */
+export const PasswordHistoryPanel = ({ history, onCopy, onRestore }: PasswordHistoryPanelProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="text-sm">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 text-muted-foreground hover:text-foreground"
+      >
+        <History className="w-4 h-4" />
+        {open ? "Ẩn lịch sử mật khẩu" : `Lịch sử mật khẩu (${history.length})`}
+      </button>
+      {open && (
+        <div className="mt-2 space-y-1 rounded-md border border-border/50 p-2">
+          {history.map((item, index) => (
+            <HistoryRow key={`${item.changedAt}-${index}`} item={item} onCopy={onCopy} onRestore={onRestore} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import type { PasswordStrength, StrengthScore } from "@/lib/security/password-strength";
+import { cn } from "@/lib/utils";
+
+const SCORE_STYLES: Record<StrengthScore, string> = {
+  0: "bg-destructive/15 text-destructive border-destructive/30",
+  1: "bg-destructive/10 text-destructive border-destructive/20",
+  2: "bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/30",
+  3: "bg-security/10 text-security border-security/30",
+  4: "bg-security/20 text-security border-security/40",
+};
+
+/**
+ * Badge hiển thị độ mạnh mật khẩu, tooltip liệt kê các điểm yếu
+ */
+export const PasswordStrengthBadge = ({ strength, className }: { strength: PasswordStrength; className?: string }) => (
+  <span
+    className={cn(
+      "inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-medium",
+      SCORE_STYLES[strength.score],
+      className
+    )}
+    title={strength.warnings.join("\n") || `~${Math.round(strength.entropy)} bits entropy`}
+  >
+    {strength.label}
+  </span>
+);
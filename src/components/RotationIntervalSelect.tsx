@@ -0,0 +1,47 @@
+import { ROTATION_INTERVAL_PRESETS } from "@/lib/rotation/rotation";
+import { cn } from "@/lib/utils";
+
+interface RotationIntervalSelectProps {
+  id?: string;
+  // null: kế thừa từ folder, 0: không nhắc
+  value: number | null;
+  onChange: (days: number | null) => void;
+  inheritLabel: string;
+  // Chu kỳ đang kế thừa, hiển thị kèm lựa chọn kế thừa
+  inheritedDays?: number | null;
+  className?: string;
+}
+
+/**
+ * Chọn chu kỳ nhắc đổi mật khẩu cho entry hoặc folder
+ */
+export const RotationIntervalSelect = ({
+  id,
+  value,
+  onChange,
+  inheritLabel,
+  inheritedDays,
+  className,
+}: RotationIntervalSelectProps) => {
+  // Giữ được chu kỳ không nằm trong preset (ví dụ nhập từ backup)
+  const presets = value && !ROTATION_INTERVAL_PRESETS.includes(value)
+    ? [...ROTATION_INTERVAL_PRESETS, value].sort((a, b) => a - b)
+    : ROTATION_INTERVAL_PRESETS;
+
+  return (
+    <select
+      id={id}
+      value={value === null ? "" : String(value)}
+      onChange={(e) => onChange(e.target.value === "" ? null : Number(e.target.value))}
+      className={cn("h-10 w-full rounded-md border border-input bg-background px-2 text-sm", className)}
+    >
+      <option value="">
+        {inheritLabel}{inheritedDays ? ` (${inheritedDays} ngày)` : ""}
+      </option>
+      <option value="0">Không nhắc</option>
+      {presets.map((days) => (
+        <option key={days} value={days}>Mỗi {days} ngày</option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Bell, Edit } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { PasswordEntry } from "@/lib/types/password";
+import {
+  getRotationNotificationsEnabled,
+  setRotationNotificationsEnabled,
+  type OverdueEntry,
+} from "@/lib/rotation/rotation";
+
+interface RotationRemindersProps {
+  overdue: OverdueEntry[];
+  onEdit: (entry: PasswordEntry) => void;
+}
+
+const notificationsSupported = typeof Notification !== "undefined";
+
+/**
+ * Nút chuông trên header: danh sách mật khẩu quá hạn đổi và bật thông báo trình duyệt
+ */
+export const RotationReminders = ({ overdue, onEdit }: RotationRemindersProps) => {
+  const [open, setOpen] = useState(false);
+  const [notify, setNotify] = useState(getRotationNotificationsEnabled);
+  const { toast } = useToast();
+
+  const changeNotify = async (enabled: boolean) => {
+    if (enabled && Notification.permission !== "granted") {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        toast({
+          title: "Không thể bật thông báo",
+          description: "Trình duyệt đã chặn quyền hiển thị thông báo",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    setRotationNotificationsEnabled(enabled);
+    setNotify(enabled);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="relative" title="Nhắc đổi mật khẩu">
+          <Bell className="w-4 h-4" />
+          {overdue.length > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 rounded-full bg-destructive px-1 text-[10px] leading-4 text-destructive-foreground">
+              {overdue.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <h4 className="font-medium">Nhắc đổi mật khẩu</h4>
+          <p className="text-xs text-muted-foreground">
+            {overdue.length > 0 ? `${overdue.length} mật khẩu đã quá hạn đổi` : "Không có mật khẩu nào quá hạn đổi"}
+          </p>
+        </div>
+
+        {overdue.length > 0 && (
+          <div className="max-h-64 divide-y divide-border/50 overflow-auto">
+            {overdue.map(({ entry, status }) => (
+              <div key={entry.id} className="flex items-center gap-2 py-2">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{entry.service}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {status.daysLeft < 0 ? `Quá hạn ${-status.daysLeft} ngày` : "Đến hạn hôm nay"} · chu kỳ {status.intervalDays} ngày
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Đổi mật khẩu"
+                  onClick={() => {
+                    setOpen(false);
+                    onEdit(entry);
+                  }}
+                >
+                  <Edit className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {notificationsSupported && (
+          <div className="flex items-center justify-between gap-4 border-t border-border/50 pt-3">
+            <Label htmlFor="rotation-notify" className="text-sm">Thông báo trình duyệt mỗi ngày</Label>
+            <Switch id="rotation-notify" checked={notify} onCheckedChange={changeNotify} />
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -1,21 +1,224 @@
+import { useMemo, useRef, useState } from "react";
 import { Input } from "@/components/ui/input";
-import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertCircle, Search, Tag, X } from "lucide-react";
+import type { TagMatchMode } from "@/lib/tags/tags";
+import type { Folder } from "@/lib/types/folder";
+import { getFolderPath } from "@/lib/folders/folder-tree";
+import { parseSearchQuery } from "@/lib/search/query-parser";
+import { getQuerySuggestions } from "@/lib/search/query-suggestions";
 
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
+  // Lọc theo tag - chỉ hiển thị khi truyền onSelectedTagsChange
+  tags?: string[];
+  selectedTags?: string[];
+  onSelectedTagsChange?: (tags: string[]) => void;
+  tagMode?: TagMatchMode;
+  onTagModeChange?: (mode: TagMatchMode) => void;
+  // Gợi ý giá trị cho folder: khi gõ query có cấu trúc
+  folders?: Folder[];
 }
 
-export const SearchBar = ({ value, onChange }: SearchBarProps) => {
+const TAG_MODE_LABELS: Record<TagMatchMode, string> = {
+  and: "Có tất cả tag",
+  or: "Có bất kỳ tag nào",
+};
+
+export const SearchBar = ({
+  value,
+  onChange,
+  tags = [],
+  selectedTags = [],
+  onSelectedTagsChange,
+  tagMode = "and",
+  onTagModeChange,
+  folders = [],
+}: SearchBarProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const parseErrors = useMemo(() => parseSearchQuery(value).errors, [value]);
+  const folderPaths = useMemo(() => folders.map((folder) => getFolderPath(folders, folder.id)), [folders]);
+  // cursor null: input không focus hoặc đã đóng gợi ý
+  const completion = useMemo(
+    () => cursor === null ? null : getQuerySuggestions(value, cursor, { tags, folders: folderPaths }),
+    [value, cursor, tags, folderPaths]
+  );
+  const suggestions = completion?.suggestions ?? [];
+
+  const updateCursor = (input: HTMLInputElement) => {
+    setCursor(input.selectionStart ?? input.value.length);
+    setActiveIndex(0);
+  };
+
+  const applySuggestion = (index: number) => {
+    if (!completion || !suggestions[index]) return;
+    const { insertText } = suggestions[index];
+    const rest = value.slice(completion.replaceEnd);
+    // Tránh hai khoảng trắng liền nhau khi chèn value vào giữa query
+    const next = value.slice(0, completion.replaceStart) + (insertText.endsWith(" ") && /^\s/.test(rest) ? insertText.trimEnd() : insertText) + rest;
+    const nextCursor = completion.replaceStart + insertText.length;
+    onChange(next);
+    setCursor(nextCursor);
+    setActiveIndex(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCursor, nextCursor));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      applySuggestion(activeIndex);
+    } else if (event.key === "Escape") {
+      setCursor(null);
+    }
+  };
+
+  const toggleTag = (tag: string) => {
+    onSelectedTagsChange?.(
+      selectedTags.includes(tag) ? selectedTags.filter((item) => item !== tag) : [...selectedTags, tag]
+    );
+  };
+
   return (
-    <div className="relative">
-      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-      <Input
-        placeholder="Tìm kiếm dịch vụ hoặc tên đăng nhập..."
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        className="pl-10 bg-card/50 backdrop-blur-sm"
-      />
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+          <Input
+            ref={inputRef}
+            placeholder="Tìm theo tên, website, ghi chú... hoặc tag:, folder:, type:, age:>90d"
+            value={value}
+            onChange={(e) => {
+              onChange(e.target.value);
+              updateCursor(e.target);
+            }}
+            onClick={(e) => updateCursor(e.currentTarget)}
+            onKeyUp={(e) => {
+              if (e.key === "ArrowLeft" || e.key === "ArrowRight" || e.key === "Home" || e.key === "End") {
+                updateCursor(e.currentTarget);
+              }
+            }}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setCursor(null)}
+            className="pl-10 bg-card/50 backdrop-blur-sm"
+            role="combobox"
+            aria-expanded={suggestions.length > 0}
+            aria-autocomplete="list"
+          />
+          {suggestions.length > 0 && (
+            <ul
+              role="listbox"
+              className="absolute left-0 right-0 top-full z-50 mt-1 max-h-72 overflow-y-auto rounded-md border bg-popover p-1 text-sm shadow-md"
+            >
+              {suggestions.map((suggestion, index) => (
+                <li
+                  key={suggestion.insertText}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // Giữ focus trên input khi click chọn gợi ý
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    applySuggestion(index);
+                  }}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`flex cursor-pointer items-center justify-between gap-4 rounded-sm px-2 py-1.5 ${index === activeIndex ? "bg-accent text-accent-foreground" : ""}`}
+                >
+                  <span className="truncate font-mono">{suggestion.label}</span>
+                  {suggestion.description && (
+                    <span className="shrink-0 text-xs text-muted-foreground">{suggestion.description}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {onSelectedTagsChange && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant={selectedTags.length > 0 ? "default" : "outline"} className="gap-2" disabled={tags.length === 0}>
+                <Tag className="w-4 h-4" />
+                Tag{selectedTags.length > 0 && ` (${selectedTags.length})`}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+              <DropdownMenuLabel>Lọc theo tag</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {tags.map((tag) => (
+                <DropdownMenuCheckboxItem
+                  key={tag}
+                  checked={selectedTags.includes(tag)}
+                  onCheckedChange={() => toggleTag(tag)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  #{tag}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+
+      {parseErrors.length > 0 && (
+        <div className="space-y-0.5 text-xs text-destructive">
+          {parseErrors.map((error) => (
+            <p key={`${error.start}-${error.message}`} className="flex items-center gap-1">
+              <AlertCircle className="w-3 h-3 shrink-0" />
+              <span className="font-mono">{value.slice(error.start, error.end)}</span>: {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {selectedTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          {selectedTags.length > 1 && onTagModeChange && (
+            <div className="mr-1 flex rounded-md border border-border/50 p-0.5 text-xs">
+              {(Object.keys(TAG_MODE_LABELS) as TagMatchMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => onTagModeChange(mode)}
+                  className={`rounded px-2 py-0.5 ${tagMode === mode ? "bg-primary text-primary-foreground" : "text-muted-foreground"}`}
+                  title={TAG_MODE_LABELS[mode]}
+                >
+                  {mode.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          )}
+          {selectedTags.map((tag) => (
+            <span key={tag} className="flex items-center gap-1 rounded-full bg-primary/15 px-2 py-0.5 text-xs text-primary">
+              #{tag}
+              <button type="button" onClick={() => toggleTag(tag)} aria-label={`Bỏ lọc tag ${tag}`}>
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <button
+            type="button"
+            onClick={() => onSelectedTagsChange?.([])}
+            className="ml-1 text-xs text-muted-foreground hover:text-foreground"
+          >
+            Xóa lọc
+          </button>
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,54 @@
+import { Cloud, HardDrive } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { STORAGE_BACKEND_LABELS } from "@/lib/storage";
+
+const BACKEND_ICONS = {
+  indexeddb: HardDrive,
+  supabase: Cloud,
+} as const;
+
+/**
+ * Storage Backend Toggle Component
+ * Cho phép user chọn lưu vault trên thiết bị (IndexedDB) hoặc trên đám mây (Supabase)
+ */
+export const StorageBackendToggle = () => {
+  const { backend, setBackend } = useStorageBackend();
+  const CurrentIcon = backend === "indexeddb" ? HardDrive : Cloud;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="bg-card/50 border-border/50 hover:bg-accent hover:text-accent-foreground backdrop-blur-sm"
+        >
+          <CurrentIcon className="h-[1.2rem] w-[1.2rem]" />
+          <span className="sr-only">Chọn nơi lưu trữ</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-card/95 backdrop-blur-sm border-border/50">
+        {(Object.keys(STORAGE_BACKEND_LABELS) as Array<keyof typeof STORAGE_BACKEND_LABELS>).map((key) => {
+          const Icon = BACKEND_ICONS[key];
+          return (
+            <DropdownMenuItem
+              key={key}
+              onClick={() => setBackend(key)}
+              className={`cursor-pointer ${backend === key ? "bg-accent text-accent-foreground" : ""}`}
+            >
+              <Icon className="mr-2 h-4 w-4" />
+              <span>{STORAGE_BACKEND_LABELS[key]}</span>
+            </DropdownMenuItem>
+          );
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
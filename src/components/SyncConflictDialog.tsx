@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Cloud, HardDrive, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
+import { pickNewerSide, type ConflictResolution, type SyncConflict } from "@/lib/sync/sync-engine";
+import { decryptEntrySecrets } from "@/lib/crypto/entry-cipher";
+import { PasswordEntryMapper } from "@/lib/types/database";
+import type { PasswordEntry } from "@/lib/types/password";
+
+interface SyncConflictDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conflicts: SyncConflict[];
+  onResolve: (entryId: string, resolution: ConflictResolution) => Promise<void>;
+  onResolveAll: () => Promise<void>;
+}
+
+interface DecryptedConflict {
+  entryId: string;
+  local: PasswordEntry | null;
+  remote: PasswordEntry | null;
+  newer: ConflictResolution;
+}
+
+const formatDate = (dateString: string) => {
+  try {
+    return format(new Date(dateString), "dd/MM/yyyy HH:mm:ss", { locale: vi });
+  } catch {
+    return "Không xác định";
+  }
+};
+
+/**
+ * Hiển thị một phía của xung đột
+ */
+const ConflictSide = ({ title, icon: Icon, entry, isNewer }: {
+  title: string;
+  icon: React.ComponentType<{ className?: string }>;
+  entry: PasswordEntry | null;
+  isNewer: boolean;
+}) => (
+  <div className={`rounded-lg border p-3 space-y-1 text-sm ${isNewer ? "border-primary" : "border-border"}`}>
+    <div className="flex items-center gap-2 font-medium">
+      <Icon className="w-4 h-4" />
+      {title}
+      {isNewer && <span className="ml-auto text-xs text-primary">Mới hơn</span>}
+    </div>
+    {entry ? (
+      <>
+        <div className="font-semibold">{entry.service}</div>
+        <div className="font-mono text-muted-foreground">{entry.username}</div>
+        <div className="font-mono">{entry.password}</div>
+        <div className="text-xs text-muted-foreground">Cập nhật: {formatDate(entry.updatedAt)}</div>
+      </>
+    ) : (
+      <div className="flex items-center gap-2 text-destructive">
+        <Trash2 className="w-4 h-4" />
+        Đã bị xóa
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Dialog giải quyết xung đột đồng bộ thủ công
+ * Hiển thị bản trên thiết bị và bản trên Supabase (đã giải mã trong bộ nhớ) để user chọn
+ */
+export const SyncConflictDialog = ({ isOpen, onClose, conflicts, onResolve, onResolveAll }: SyncConflictDialogProps) => {
+  const [decrypted, setDecrypted] = useState<DecryptedConflict[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setDecrypted([]);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all(conflicts.map(async (conflict) => ({
+      entryId: conflict.entryId,
+      local: conflict.local ? await decryptEntrySecrets(conflict.local) : null,
+      remote: conflict.remote ? await decryptEntrySecrets(PasswordEntryMapper.toLocal(conflict.remote)) : null,
+      newer: pickNewerSide(conflict),
+    })))
+      .then((result) => {
+        if (!cancelled) setDecrypted(result);
+      })
+      .catch((error) => console.error("Không thể giải mã dữ liệu xung đột:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, conflicts]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Không thể giải quyết xung đột:", error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Xung đột đồng bộ ({conflicts.length})</DialogTitle>
+          <DialogDescription>
+            Các mật khẩu dưới đây đã bị thay đổi trên cả thiết bị này và trên đám mây. Chọn bản muốn giữ lại.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {decrypted.map((conflict) => (
+            <div key={conflict.entryId} className="space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <ConflictSide title="Thiết bị này" icon={HardDrive} entry={conflict.local} isNewer={conflict.newer === "local"} />
+                <ConflictSide title="Đám mây" icon={Cloud} entry={conflict.remote} isNewer={conflict.newer === "remote"} />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  disabled={busy}
+                  onClick={() => run(() => onResolve(conflict.entryId, "local"))}
+                >
+                  Giữ bản trên thiết bị
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  disabled={busy}
+                  onClick={() => run(() => onResolve(conflict.entryId, "remote"))}
+                >
+                  Dùng bản trên đám mây
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Để sau
+          </Button>
+          <Button variant="security" disabled={busy || conflicts.length === 0} onClick={() => run(onResolveAll)}>
+            Giữ bản mới nhất cho tất cả
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { AlertTriangle, CloudOff, RefreshCw, Cloud } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { SyncConflictDialog } from "@/components/SyncConflictDialog";
+import type { useSync } from "@/hooks/use-sync";
+
+const PHASE_LABELS = {
+  disabled: "Đồng bộ đang tắt",
+  idle: "Đã đồng bộ",
+  syncing: "Đang đồng bộ...",
+  offline: "Ngoại tuyến - thay đổi sẽ được đồng bộ khi có mạng",
+  error: "Đồng bộ thất bại",
+} as const;
+
+/**
+ * Nút trạng thái đồng bộ IndexedDB <-> Supabase
+ * Hiển thị số thay đổi chờ đồng bộ, xung đột và cho phép đồng bộ thủ công
+ */
+export const SyncStatusButton = ({ sync }: { sync: ReturnType<typeof useSync> }) => {
+  const { status, syncNow, setEnabled, resolveConflict, resolveAllByUpdatedAt } = sync;
+  const [conflictsOpen, setConflictsOpen] = useState(false);
+
+  const hasConflicts = status.conflicts.length > 0;
+  const Icon = hasConflicts || status.phase === "error"
+    ? AlertTriangle
+    : status.phase === "offline" || status.phase === "disabled"
+      ? CloudOff
+      : status.phase === "syncing"
+        ? RefreshCw
+        : Cloud;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="icon"
+            className={`relative bg-card/50 border-border/50 backdrop-blur-sm ${hasConflicts ? "text-destructive" : ""}`}
+          >
+            <Icon className={`h-[1.2rem] w-[1.2rem] ${status.phase === "syncing" ? "animate-spin" : ""}`} />
+            {status.pendingCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-primary text-primary-foreground text-xs flex items-center justify-center">
+                {status.pendingCount}
+              </span>
+            )}
+            <span className="sr-only">Trạng thái đồng bộ</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72 bg-card/95 backdrop-blur-sm border-border/50">
+          <DropdownMenuLabel className="space-y-1">
+            <div>{PHASE_LABELS[status.phase]}</div>
+            {status.error && <div className="text-xs font-normal text-destructive">{status.error}</div>}
+            {status.lastSyncedAt && (
+              <div className="text-xs font-normal text-muted-foreground">
+                Lần cuối: {formatDistanceToNow(new Date(status.lastSyncedAt), { addSuffix: true, locale: vi })}
+              </div>
+            )}
+            {status.pendingCount > 0 && (
+              <div className="text-xs font-normal text-muted-foreground">
+                {status.pendingCount} thay đổi chờ đồng bộ
+              </div>
+            )}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {status.enabled && (
+            <DropdownMenuItem className="cursor-pointer" onClick={() => syncNow()}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Đồng bộ ngay
+            </DropdownMenuItem>
+          )}
+          {hasConflicts && (
+            <DropdownMenuItem className="cursor-pointer text-destructive" onClick={() => setConflictsOpen(true)}>
+              <AlertTriangle className="mr-2 h-4 w-4" />
+              Xử lý {status.conflicts.length} xung đột
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem className="cursor-pointer" onClick={() => setEnabled(!status.enabled)}>
+            {status.enabled ? <CloudOff className="mr-2 h-4 w-4" /> : <Cloud className="mr-2 h-4 w-4" />}
+            {status.enabled ? "Tắt đồng bộ với Supabase" : "Bật đồng bộ với Supabase"}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <SyncConflictDialog
+        isOpen={conflictsOpen && hasConflicts}
+        onClose={() => setConflictsOpen(false)}
+        conflicts={status.conflicts}
+        onResolve={resolveConflict}
+        onResolveAll={resolveAllByUpdatedAt}
+      />
+    </>
+  );
+};
@@ -0,0 +1,117 @@
+import { useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+import { TAG_LIMITS, normalizeTag } from "@/lib/tags/tags";
+import { cn } from "@/lib/utils";
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Tag đã có trong vault để gợi ý
+  suggestions: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Nhập tag dạng chip với gợi ý từ các tag đã dùng
+ * Enter, dấu phẩy hoặc chọn gợi ý để thêm; Backspace khi ô trống để xóa tag cuối
+ */
+export const TagInput = ({ id, value, onChange, suggestions }: TagInputProps) => {
+  const [draft, setDraft] = useState("");
+  const [focused, setFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const matches = useMemo(() => {
+    const query = normalizeTag(draft);
+    return suggestions
+      .filter((tag) => !value.includes(tag) && tag.includes(query))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [draft, suggestions, value]);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw).slice(0, TAG_LIMITS.tagLength);
+    if (tag && !value.includes(tag) && value.length < TAG_LIMITS.tagsPerEntry) {
+      onChange([...value, tag]);
+    }
+    setDraft("");
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === "Enter" && draft.trim()) || e.key === ",") {
+      e.preventDefault();
+      const suggestion = draft && matches[highlighted];
+      addTag(suggestion || draft);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    } else if (e.key === "ArrowDown" && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((prev) => (prev + 1) % matches.length);
+    } else if (e.key === "ArrowUp" && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((prev) => (prev - 1 + matches.length) % matches.length);
+    }
+  };
+
+  const showSuggestions = focused && matches.length > 0;
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 rounded-md border border-input bg-background px-2 py-1.5">
+        {value.map((tag) => (
+          <span key={tag} className="flex items-center gap-1 rounded-full bg-primary/15 px-2 py-0.5 text-xs text-primary">
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((item) => item !== tag))}
+              className="hover:text-foreground"
+              aria-label={`Xóa tag ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <Input
+          id={id}
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            if (draft.trim()) addTag(draft);
+          }}
+          placeholder={value.length === 0 ? "prod, shared, billing..." : ""}
+          className="h-7 min-w-[8rem] flex-1 border-0 p-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+          autoComplete="off"
+        />
+      </div>
+
+      {showSuggestions && (
+        <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 text-sm shadow-md">
+          {matches.map((tag, index) => (
+            <li key={tag}>
+              <button
+                type="button"
+                // Giữ focus ở ô nhập để blur không thêm draft dở dang
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+                className={cn(
+                  "w-full rounded-sm px-2 py-1 text-left",
+                  index === highlighted ? "bg-accent text-accent-foreground" : "hover:bg-muted/50"
+                )}
+              >
+                #{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import { Button } from "@/components/ui/button";
+import { Copy, ShieldCheck } from "lucide-react";
+import { useTotp } from "@/hooks/use-totp";
+import { cn } from "@/lib/utils";
+
+interface TotpCodeProps {
+  secret: string;
+  onCopy: (value: string, label: string) => void;
+}
+
+// Nhóm chữ số cho dễ đọc: 123 456, 1234 5678
+const formatCode = (code: string) => {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)} ${code.slice(half)}`;
+};
+
+/**
+ * Mã TOTP hiện tại với thanh đếm ngược và nút sao chép
+ */
+export const TotpCode = ({ secret, onCopy }: TotpCodeProps) => {
+  const totp = useTotp(secret);
+
+  if (!totp) {
+    return null;
+  }
+
+  const expiring = totp.remainingSeconds <= 5;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-sm">
+        <ShieldCheck className="w-4 h-4 text-muted-foreground" />
+        <button
+          type="button"
+          onClick={() => onCopy(totp.code, "Mã 2FA")}
+          className={cn("flex-1 text-left font-mono tracking-wider", expiring && "text-destructive")}
+          title="Nhấn để sao chép"
+        >
+          {formatCode(totp.code)}
+        </button>
+        <span className="w-6 text-right text-xs tabular-nums text-muted-foreground">{totp.remainingSeconds}s</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onCopy(totp.code, "Mã 2FA")}
+          className="h-8 w-8"
+        >
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="h-1 overflow-hidden rounded-full bg-muted">
+        <div
+          className={cn("h-full transition-[width] duration-1000 ease-linear", expiring ? "bg-destructive" : "bg-primary")}
+          style={{ width: `${(totp.remainingSeconds / totp.period) * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Lock, Shield } from "lucide-react";
+import { MIN_MASTER_PASSWORD_LENGTH } from "@/lib/crypto/vault-key-manager";
+import { useVaultSession } from "@/hooks/use-vault-session";
+import { useAuth } from "@/hooks/use-auth";
+
+/**
+ * Form thiết lập master password (lần đầu) hoặc mở khóa vault
+ * Master password không bao giờ được lưu - chỉ dùng để derive key trong bộ nhớ
+ */
+export const UnlockVault = () => {
+  const { isInitialized, isMetadataLoading, setupMasterPassword, unlock } = useVaultSession();
+  const { loading: authLoading } = useAuth();
+  const isSetup = !isInitialized;
+  const [masterPassword, setMasterPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (isSetup && masterPassword !== confirmPassword) {
+      setError("Master password nhập lại không khớp");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      if (isSetup) {
+        await setupMasterPassword(masterPassword);
+      } else if (!(await unlock(masterPassword))) {
+        setError("Master password không đúng");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Không thể mở khóa vault");
+    } finally {
+      setSubmitting(false);
+      setMasterPassword("");
+      setConfirmPassword("");
+    }
+  };
+
+  // Chờ biết vault đã được thiết lập trên thiết bị khác chưa để không hiện nhầm form tạo vault
+  if (authLoading || isMetadataLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md glass-effect">
+          <CardHeader className="text-center">
+            <div className="p-3 rounded-xl bg-gradient-primary w-fit mx-auto mb-4">
+              <Loader2 className="w-8 h-8 text-primary-foreground animate-spin" />
+            </div>
+            <CardTitle className="text-2xl text-gradient">Đang tải vault</CardTitle>
+            <CardDescription>Đang đọc thông tin vault từ tài khoản của bạn...</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md glass-effect">
+        <CardHeader className="text-center">
+          <div className="p-3 rounded-xl bg-gradient-primary w-fit mx-auto mb-4">
+            {isSetup ? (
+              <Shield className="w-8 h-8 text-primary-foreground" />
+            ) : (
+              <Lock className="w-8 h-8 text-primary-foreground" />
+            )}
+          </div>
+          <CardTitle className="text-2xl text-gradient">
+            {isSetup ? "Tạo master password" : "Mở khóa vault"}
+          </CardTitle>
+          <CardDescription>
+            {isSetup
+              ? "Master password dùng để mã hóa toàn bộ mật khẩu. Hãy ghi nhớ kỹ - không thể khôi phục nếu quên."
+              : "Nhập master password để giải mã dữ liệu của bạn"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="master-password">Master password</Label>
+              <Input
+                id="master-password"
+                type="password"
+                autoComplete={isSetup ? "new-password" : "current-password"}
+                value={masterPassword}
+                onChange={(e) => setMasterPassword(e.target.value)}
+                minLength={isSetup ? MIN_MASTER_PASSWORD_LENGTH : undefined}
+                autoFocus
+                required
+              />
+            </div>
+
+            {isSetup && (
+              <div className="space-y-2">
+                <Label htmlFor="confirm-master-password">Nhập lại master password</Label>
+                <Input
+                  id="confirm-master-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button type="submit" variant="security" className="w-full" disabled={submitting}>
+              {submitting ? "Đang xử lý..." : isSetup ? "Tạo vault" : "Mở khóa"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
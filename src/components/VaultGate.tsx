@@ -0,0 +1,17 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { useVaultSession } from "@/hooks/use-vault-session";
+
+/**
+ * Chỉ render nội dung vault khi đã mở khóa bằng master password
+ * Khi vault bị khóa sẽ chuyển về màn hình khóa và quay lại trang cũ sau khi unlock
+ */
+export const VaultGate = ({ children }: { children: React.ReactNode }) => {
+  const { isUnlocked } = useVaultSession();
+  const location = useLocation();
+
+  if (!isUnlocked) {
+    return <Navigate to="/lock" replace state={{ from: location }} />;
+  }
+
+  return <>{children}</>;
+};
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Timer } from "lucide-react";
+import { useVaultSession } from "@/hooks/use-vault-session";
+import { MAX_PASSWORD_HISTORY_DEPTH, getPasswordHistoryDepth, setPasswordHistoryDepth } from "@/lib/history/password-history";
+
+/**
+ * Dialog cấu hình auto-lock và lịch sử mật khẩu của vault
+ */
+export const VaultLockSettings = () => {
+  const [open, setOpen] = useState(false);
+  const [historyDepth, setHistoryDepth] = useState(getPasswordHistoryDepth);
+  const { settings, updateSettings } = useVaultSession();
+
+  const changeHistoryDepth = (depth: number) => {
+    setPasswordHistoryDepth(depth);
+    setHistoryDepth(getPasswordHistoryDepth());
+  };
+
+  return (
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        variant="outline"
+        size="icon"
+        title="Cài đặt vault"
+      >
+        <Timer className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cài đặt vault</DialogTitle>
+            <DialogDescription>
+              Khi vault bị khóa, toàn bộ dữ liệu đã giải mã sẽ bị xóa khỏi bộ nhớ
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="idle-minutes">Khóa sau khi không hoạt động (phút)</Label>
+              <Input
+                id="idle-minutes"
+                type="number"
+                min={0}
+                value={settings.idleMinutes}
+                onChange={(e) => updateSettings({ idleMinutes: Number(e.target.value) })}
+              />
+              <p className="text-xs text-muted-foreground">Đặt 0 để tắt tự động khóa</p>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="lock-on-hide">Khóa khi chuyển tab hoặc thu nhỏ cửa sổ</Label>
+              <Switch
+                id="lock-on-hide"
+                checked={settings.lockOnHide}
+                onCheckedChange={(checked) => updateSettings({ lockOnHide: checked })}
+              />
+            </div>
+
+            <div className="space-y-2 border-t border-border/50 pt-4">
+              <Label htmlFor="history-depth">Số mật khẩu cũ giữ lại cho mỗi mục</Label>
+              <Input
+                id="history-depth"
+                type="number"
+                min={0}
+                max={MAX_PASSWORD_HISTORY_DEPTH}
+                value={historyDepth}
+                onChange={(e) => changeHistoryDepth(Number(e.target.value))}
+              />
+              <p className="text-xs text-muted-foreground">
+                Đặt 0 để tắt lịch sử mật khẩu. Áp dụng từ lần đổi mật khẩu tiếp theo
+              </p>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
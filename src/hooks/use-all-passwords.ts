@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import type { PasswordEntry } from '@/lib/types/password';
+import type { VaultStorage } from '@/lib/storage';
+import { vaultKeyManager } from '@/lib/crypto/vault-key-manager';
+
+/**
+ * Hook đọc toàn bộ vault (ngoài thùng rác), không theo tìm kiếm, bộ lọc hay trang đang xem
+ * Tải một lần cho cả trang và chỉ tải lại khi đổi storage hoặc revision tăng
+ * (sau khi thêm/sửa/xóa hoặc đồng bộ) - tìm kiếm và tải thêm trang không đọc lại vault
+ * Dùng chung cho audit, phát hiện mật khẩu dùng lại và nhắc đổi mật khẩu
+ */
+export function useAllPasswords(storage: VaultStorage, revision: number): PasswordEntry[] {
+  const [allPasswords, setAllPasswords] = useState<PasswordEntry[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    storage.getAllPasswords()
+      .then((result) => {
+        if (!cancelled) setAllPasswords(result);
+      })
+      .catch((err) => {
+        console.error('Không thể đọc toàn bộ vault:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, revision]);
+
+  useEffect(() => {
+    return vaultKeyManager.subscribe(() => {
+      if (!vaultKeyManager.isUnlocked()) {
+        setAllPasswords([]);
+      }
+    });
+  }, []);
+
+  return allPasswords;
+}
@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import type { Session, User } from '@/lib/auth-service';
+
+export type AuthState = {
+  session: Session | null;
+  user: User | null;
+  loading: boolean;
+  signOut: () => Promise<void>;
+};
+
+export const AuthContext = createContext<AuthState | undefined>(undefined);
+
+/**
+ * Hook để sử dụng auth context
+ * @returns Session hiện tại và hàm đăng xuất
+ */
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+
+  if (context === undefined)
+    throw new Error('useAuth must be used within an AuthProvider');
+
+  return context;
+};
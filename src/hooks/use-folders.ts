@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Folder, CreateFolder, FolderDeleteMode, UpdateFolder } from '@/lib/types/folder';
+import type { VaultStorage } from '@/lib/storage';
+import { useToast } from '@/hooks/use-toast';
+import { vaultKeyManager } from '@/lib/crypto/vault-key-manager';
+
+/**
+ * Hook quản lý thư mục trên VaultStorage hiện tại
+ * Tự động tải lại khi đổi storage backend, xóa khỏi state khi vault bị khóa
+ */
+
+interface UseFoldersReturn {
+  folders: Folder[];
+  fetchFolders: () => Promise<void>;
+  addFolder: (folder: CreateFolder) => Promise<Folder>;
+  updateFolder: (id: string, folder: UpdateFolder) => Promise<Folder>;
+  deleteFolder: (id: string, mode: FolderDeleteMode) => Promise<void>;
+}
+
+export function useFolders(storage: VaultStorage): UseFoldersReturn {
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const { toast } = useToast();
+
+  const handleError = useCallback((error: unknown, message: string) => {
+    console.error('Folder operation error:', error);
+    toast({
+      title: 'Lỗi',
+      description: error instanceof Error ? `${message}: ${error.message}` : message,
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  /**
+   * Lấy tất cả thư mục từ storage hiện tại
+   */
+  const fetchFolders = useCallback(async () => {
+    try {
+      setFolders(await storage.getAllFolders());
+    } catch (err) {
+      handleError(err, 'Không thể lấy danh sách thư mục');
+    }
+  }, [storage, handleError]);
+
+  /**
+   * Tạo thư mục mới
+   */
+  const addFolder = useCallback(async (folder: CreateFolder): Promise<Folder> => {
+    try {
+      const created = await storage.addFolder(folder);
+      setFolders(await storage.getAllFolders());
+      return created;
+    } catch (err) {
+      handleError(err, 'Không thể tạo thư mục');
+      throw err;
+    }
+  }, [storage, handleError]);
+
+  /**
+   * Đổi tên, di chuyển hoặc đổi chu kỳ nhắc đổi mật khẩu của thư mục
+   */
+  const updateFolder = useCallback(async (id: string, folder: UpdateFolder): Promise<Folder> => {
+    try {
+      const updated = await storage.updateFolder(id, folder);
+      setFolders(await storage.getAllFolders());
+      return updated;
+    } catch (err) {
+      handleError(err, 'Không thể cập nhật thư mục');
+      throw err;
+    }
+  }, [storage, handleError]);
+
+  /**
+   * Xóa thư mục, nội dung được chuyển lên thư mục cha hoặc xóa theo mode
+   */
+  const deleteFolder = useCallback(async (id: string, mode: FolderDeleteMode): Promise<void> => {
+    try {
+      await storage.deleteFolder(id, mode);
+      setFolders(await storage.getAllFolders());
+      toast({
+        title: 'Thành công',
+        description: 'Thư mục đã được xóa',
+      });
+    } catch (err) {
+      handleError(err, 'Không thể xóa thư mục');
+      throw err;
+    }
+  }, [storage, handleError, toast]);
+
+  useEffect(() => {
+    fetchFolders();
+  }, [fetchFolders]);
+
+  useEffect(() => {
+    return vaultKeyManager.subscribe(() => {
+      if (!vaultKeyManager.isUnlocked()) {
+        setFolders([]);
+      }
+    });
+  }, []);
+
+  return {
+    folders,
+    fetchFolders,
+    addFolder,
+    updateFolder,
+    deleteFolder,
+  };
+}
@@ -0,0 +1,32 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Hook gọi onLoadMore khi phần tử sentinel ở cuối danh sách xuất hiện trong viewport
+ * Trả về callback ref để gắn vào sentinel
+ *
+ * Observer được tạo lại mỗi khi enabled bật lại (ví dụ sau khi tải xong một trang),
+ * nên sentinel vẫn nằm trong viewport thì trang tiếp theo được tải tiếp.
+ */
+export function useInfiniteScroll(onLoadMore: () => void, enabled: boolean, rootMargin = '400px') {
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  useEffect(() => {
+    if (!sentinel || !enabled) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        onLoadMoreRef.current();
+      }
+    }, { rootMargin });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [sentinel, enabled, rootMargin]);
+
+  return setSentinel;
+}
@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+import type { PasswordEntry } from '@/lib/types/password';
+import { auditPasswords, type VaultAudit } from '@/lib/security/password-audit';
+import { useReusedPasswords } from '@/hooks/use-reused-passwords';
+
+/**
+ * Hook tính audit bảo mật cho danh sách mật khẩu
+ * Chỉ tính lại khi danh sách thay đổi
+ */
+export function usePasswordAudit(passwords: PasswordEntry[]): VaultAudit {
+  const reuseGroups = useReusedPasswords(passwords);
+  return useMemo(() => auditPasswords(passwords, reuseGroups), [passwords, reuseGroups]);
+}
@@ -0,0 +1,13 @@
+import { SupabaseVaultStorage } from '@/lib/storage';
+import { usePasswords } from '@/hooks/use-passwords';
+
+// Storage instance dùng chung - SupabaseVaultStorage không giữ state riêng
+const supabaseStorage = new SupabaseVaultStorage();
+
+/**
+ * Hook quản lý mật khẩu cố định trên Supabase backend
+ * Dùng usePasswords với storage từ useStorageBackend nếu cần chọn backend tại runtime
+ */
+export function usePasswordsSupabase() {
+  return usePasswords(supabaseStorage);
+}
@@ -1,17 +1,19 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { dbManager, PasswordEntry } from '@/lib/db/db';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { PasswordEntry, CreatePasswordEntry, UpdatePasswordEntry } from '@/lib/types/password';
+import { hasSearchFilters, type PasswordSearchFilters, type SearchCursor, type VaultStorage } from '@/lib/storage';
 import { useToast } from '@/hooks/use-toast';
+import { vaultKeyManager } from '@/lib/crypto/vault-key-manager';
+import { applyRestorePlan, type RestorePlan } from '@/lib/backup/vault-backup';
+import { findMatchingEntries, looksLikeUrl } from '@/lib/urls/url-matcher';
+import { getFavoriteTogglePatch, type FavoriteOrderChange } from '@/lib/favorites/favorites';
 
 /**
- * Hook để quản lý mật khẩu với IndexedDB
+ * Hook để quản lý mật khẩu trên một VaultStorage bất kỳ (IndexedDB, Supabase, in-memory)
  * 
  * Cung cấp CRUD operations cho passwords với error handling và toast notifications
- * Sử dụng optimistic updates để cải thiện UX
+ * Tự động tải lại dữ liệu khi đổi storage backend
  */
 
-// Types cho hook operations
-type PasswordInput = Omit<PasswordEntry, 'id' | 'createdAt' | 'updatedAt'>;
-
 interface UsePasswordsReturn {
   passwords: PasswordEntry[];
   loading: boolean;
@@ -20,18 +22,40 @@ interface UsePasswordsReturn {
     total: number;
     hasPasswords: boolean;
   };
+  // Còn trang kết quả tìm kiếm tiếp theo
+  hasMore: boolean;
+  loadingMore: boolean;
+  // Tăng sau mỗi lần dữ liệu được thay đổi qua hook - dùng để tải lại dữ liệu tính trên cả vault
+  revision: number;
   fetchPasswords: () => Promise<void>;
-  searchPasswords: (query: string) => Promise<void>;
-  addPassword: (entry: PasswordInput) => Promise<PasswordEntry>;
-  updatePassword: (id: string, entry: PasswordInput) => Promise<PasswordEntry | null>;
-  deletePassword: (id: string) => Promise<boolean>;
+  searchPasswords: (query: string, filters?: PasswordSearchFilters) => Promise<void>;
+  loadMore: () => Promise<void>;
+  addPassword: (entry: CreatePasswordEntry) => Promise<PasswordEntry>;
+  importPasswords: (entries: CreatePasswordEntry[]) => Promise<PasswordEntry[]>;
+  restorePasswords: (plan: RestorePlan) => Promise<void>;
+  updatePassword: (id: string, entry: UpdatePasswordEntry) => Promise<PasswordEntry>;
+  deletePassword: (id: string) => Promise<void>;
+  toggleFavorite: (entry: PasswordEntry) => Promise<void>;
+  reorderFavorites: (changes: FavoriteOrderChange[]) => Promise<void>;
+  addAttachment: (entryId: string, file: File) => Promise<void>;
+  getAttachmentData: (entryId: string, attachmentId: string) => Promise<ArrayBuffer | null>;
+  deleteAttachment: (entryId: string, attachmentId: string) => Promise<void>;
 }
 
-export function usePasswords(): UsePasswordsReturn {
+export function usePasswords(storage: VaultStorage): UsePasswordsReturn {
   // State hooks - đảm bảo thứ tự nhất quán
   const [passwords, setPasswords] = useState<PasswordEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [revision, setRevision] = useState(0);
+
+  // Request tải danh sách đang chạy - request mới hủy request cũ, response cũ bị bỏ qua
+  const requestIdRef = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null);
+  // Query, filter và cursor của trang kết quả tìm kiếm gần nhất
+  const pageRef = useRef<{ query: string; filters: PasswordSearchFilters; cursor: SearchCursor | null } | null>(null);
   
   // Toast hook
   const { toast } = useToast();
@@ -49,6 +73,11 @@ export function usePasswords(): UsePasswordsReturn {
     });
   }, [toast]);
 
+  /**
+   * Đánh dấu dữ liệu vừa thay đổi để các hook tính trên cả vault tải lại
+   */
+  const markChanged = useCallback(() => setRevision((prev) => prev + 1), []);
+
   /**
    * Helper function để hiển thị thông báo thành công
    */
@@ -60,93 +89,275 @@ export function usePasswords(): UsePasswordsReturn {
   }, [toast]);
 
   /**
-   * Lấy tất cả mật khẩu từ IndexedDB
+   * Bắt đầu request tải danh sách mới: hủy request đang chạy và bỏ trang kết quả cũ
+   */
+  const beginRequest = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    pageRef.current = null;
+    setHasMore(false);
+    setLoadingMore(false);
+    return { id: ++requestIdRef.current, signal: controller.signal };
+  }, []);
+
+  /**
+   * Lấy tất cả mật khẩu từ storage hiện tại
    */
   const fetchPasswords = useCallback(async () => {
+    const request = beginRequest();
     try {
       setLoading(true);
       setError(null);
-      const data = await dbManager.getAllPasswords();
+      const data = await storage.getAllPasswords();
+      if (request.id !== requestIdRef.current) return;
       setPasswords(data);
     } catch (err) {
+      if (request.id !== requestIdRef.current) return;
       handleError(err, 'Không thể lấy danh sách mật khẩu');
     } finally {
-      setLoading(false);
+      if (request.id === requestIdRef.current) setLoading(false);
     }
-  }, [handleError]);
+  }, [storage, handleError, beginRequest]);
 
   /**
-   * Tìm kiếm mật khẩu theo service hoặc username
+   * Tìm kiếm mật khẩu theo trang (trang tiếp theo tải bằng loadMore), lọc thêm theo folder và tag nếu có
+   * Lần tìm mới hủy request đang chạy, kết quả của lần tìm cũ về muộn bị bỏ qua
+   * Nếu query là URL thì các entry có URL khớp (theo domain) được đưa lên đầu
    */
-  const searchPasswords = useCallback(async (query: string) => {
+  const searchPasswords = useCallback(async (query: string, filters: PasswordSearchFilters = {}) => {
+    const request = beginRequest();
     try {
       setLoading(true);
       setError(null);
       
-      const data = query.trim() 
-        ? await dbManager.searchPasswords(query)
-        : await dbManager.getAllPasswords();
+      const hasFilters = hasSearchFilters(filters);
+      let data: PasswordEntry[];
+      let cursor: SearchCursor | null = null;
+      if (query.trim() || hasFilters) {
+        const page = await storage.searchPasswordsPage(query, filters, { signal: request.signal });
+        data = page.entries;
+        cursor = page.nextCursor;
+      } else {
+        data = await storage.getAllPasswords();
+      }
+
+      // Query dạng URL: ưu tiên các entry có URL khớp với trang đó
+      if (looksLikeUrl(query)) {
+        const candidates = hasFilters ? await storage.searchPasswords('', filters) : await storage.getAllPasswords();
+        const urlMatches = findMatchingEntries(candidates, query);
+        const matchedIds = new Set(urlMatches.map((entry) => entry.id));
+        data = [...urlMatches, ...data.filter((entry) => !matchedIds.has(entry.id))];
+      }
       
+      if (request.id !== requestIdRef.current) return;
+      pageRef.current = cursor ? { query, filters, cursor } : null;
+      setHasMore(cursor !== null);
       setPasswords(data);
     } catch (err) {
+      // Request đã bị hủy hoặc bị thay bởi lần tìm mới
+      if (request.id !== requestIdRef.current || request.signal.aborted) return;
       handleError(err, 'Không thể tìm kiếm mật khẩu');
     } finally {
-      setLoading(false);
+      if (request.id === requestIdRef.current) setLoading(false);
+    }
+  }, [storage, handleError, beginRequest]);
+
+  /**
+   * Tải trang kết quả tìm kiếm tiếp theo và nối vào danh sách (bỏ entry đã có)
+   */
+  const loadMore = useCallback(async () => {
+    const page = pageRef.current;
+    if (!page || loadingMore) return;
+
+    const requestId = requestIdRef.current;
+    const signal = controllerRef.current?.signal;
+    try {
+      setLoadingMore(true);
+      const next = await storage.searchPasswordsPage(page.query, page.filters, { cursor: page.cursor, signal });
+      if (requestId !== requestIdRef.current) return;
+
+      pageRef.current = next.nextCursor ? { ...page, cursor: next.nextCursor } : null;
+      setHasMore(next.nextCursor !== null);
+      setPasswords((prev) => {
+        const ids = new Set(prev.map((entry) => entry.id));
+        return [...prev, ...next.entries.filter((entry) => !ids.has(entry.id))];
+      });
+    } catch (err) {
+      if (requestId !== requestIdRef.current || signal?.aborted) return;
+      handleError(err, 'Không thể tải thêm kết quả');
+    } finally {
+      if (requestId === requestIdRef.current) setLoadingMore(false);
     }
-  }, [handleError]);
+  }, [storage, handleError, loadingMore]);
 
   /**
    * Thêm mật khẩu mới
    */
-  const addPassword = useCallback(async (entry: PasswordInput): Promise<PasswordEntry> => {
+  const addPassword = useCallback(async (entry: CreatePasswordEntry): Promise<PasswordEntry> => {
     try {
-      const newEntry = await dbManager.addPassword(entry);
+      const newEntry = await storage.addPassword(entry);
       setPasswords((prev) => [newEntry, ...prev]);
+      markChanged();
       showSuccess('Mật khẩu mới đã được thêm thành công');
       return newEntry;
     } catch (err) {
       handleError(err, 'Không thể thêm mật khẩu mới');
       throw err;
     }
-  }, [handleError, showSuccess]);
+  }, [storage, handleError, showSuccess, markChanged]);
+
+  /**
+   * Thêm nhiều mật khẩu cùng lúc (import wizard)
+   */
+  const importPasswords = useCallback(async (entries: CreatePasswordEntry[]): Promise<PasswordEntry[]> => {
+    try {
+      const added = await storage.batchAddPasswords(entries);
+      setPasswords((prev) => [...added, ...prev]);
+      markChanged();
+      showSuccess(`Đã nhập ${added.length} mật khẩu`);
+      return added;
+    } catch (err) {
+      handleError(err, 'Không thể nhập mật khẩu');
+      throw err;
+    }
+  }, [storage, handleError, showSuccess, markChanged]);
+
+  /**
+   * Khôi phục từ file backup theo plan đã xem trước
+   */
+  const restorePasswords = useCallback(async (plan: RestorePlan): Promise<void> => {
+    try {
+      await applyRestorePlan(storage, plan);
+      setPasswords(await storage.getAllPasswords());
+      markChanged();
+      showSuccess(`Đã khôi phục ${plan.toAdd.length + plan.toOverwrite.length} mật khẩu`);
+    } catch (err) {
+      handleError(err, 'Không thể khôi phục backup');
+      throw err;
+    }
+  }, [storage, handleError, showSuccess, markChanged]);
 
   /**
    * Cập nhật mật khẩu
    */
-  const updatePassword = useCallback(async (id: string, entry: PasswordInput): Promise<PasswordEntry | null> => {
+  const updatePassword = useCallback(async (id: string, entry: UpdatePasswordEntry): Promise<PasswordEntry> => {
     try {
-      const updatedEntry = await dbManager.updatePassword(id, entry);
-      if (updatedEntry) {
-        setPasswords((prev) =>
-          prev.map((item) => (item.id === id ? updatedEntry : item))
-        );
-        showSuccess('Mật khẩu đã được cập nhật thành công');
-        return updatedEntry;
-      }
-      return null;
+      const updatedEntry = await storage.updatePassword(id, entry);
+      setPasswords((prev) =>
+        prev.map((item) => (item.id === id ? updatedEntry : item))
+      );
+      markChanged();
+      showSuccess('Mật khẩu đã được cập nhật thành công');
+      return updatedEntry;
     } catch (err) {
       handleError(err, 'Không thể cập nhật mật khẩu');
       throw err;
     }
-  }, [handleError, showSuccess]);
+  }, [storage, handleError, showSuccess, markChanged]);
 
   /**
-   * Xóa mật khẩu
+   * Bật/tắt yêu thích - không hiện toast vì ngôi sao trên thẻ đã đổi ngay
    */
-  const deletePassword = useCallback(async (id: string): Promise<boolean> => {
+  const toggleFavorite = useCallback(async (entry: PasswordEntry): Promise<void> => {
     try {
-      const success = await dbManager.deletePassword(id);
-      if (success) {
-        setPasswords((prev) => prev.filter((entry) => entry.id !== id));
-        showSuccess('Mật khẩu đã được xóa');
-        return true;
-      }
-      return false;
+      const updatedEntry = await storage.updatePassword(entry.id, getFavoriteTogglePatch(entry));
+      setPasswords((prev) =>
+        prev.map((item) => (item.id === entry.id ? updatedEntry : item))
+      );
+      markChanged();
+    } catch (err) {
+      handleError(err, 'Không thể cập nhật mục yêu thích');
+    }
+  }, [storage, handleError, markChanged]);
+
+  /**
+   * Lưu thứ tự mới của mục yêu thích sau khi kéo thả
+   * Cập nhật state trước để thẻ không nhảy về chỗ cũ trong lúc chờ storage
+   */
+  const reorderFavorites = useCallback(async (changes: FavoriteOrderChange[]): Promise<void> => {
+    if (changes.length === 0) return;
+    const orders = new Map(changes.map((change) => [change.id, change.favoriteOrder]));
+    setPasswords((prev) =>
+      prev.map((item) => (orders.has(item.id) ? { ...item, favoriteOrder: orders.get(item.id) } : item))
+    );
+
+    try {
+      const updated = await Promise.all(
+        changes.map((change) => storage.updatePassword(change.id, { favoriteOrder: change.favoriteOrder }))
+      );
+      const updatedById = new Map(updated.map((entry) => [entry.id, entry]));
+      setPasswords((prev) => prev.map((item) => updatedById.get(item.id) ?? item));
+      markChanged();
+    } catch (err) {
+      handleError(err, 'Không thể lưu thứ tự mục yêu thích');
+      // Tải lại để bỏ thứ tự chưa lưu được
+      await fetchPasswords();
+    }
+  }, [storage, handleError, fetchPasswords, markChanged]);
+
+  /**
+   * Đính kèm file vào entry - lỗi quota được hiển thị nguyên văn để user biết giới hạn nào bị vượt
+   */
+  const addAttachment = useCallback(async (entryId: string, file: File): Promise<void> => {
+    try {
+      const updatedEntry = await storage.addAttachment(entryId, {
+        name: file.name,
+        mimeType: file.type,
+        data: await file.arrayBuffer(),
+      });
+      setPasswords((prev) =>
+        prev.map((item) => (item.id === entryId ? updatedEntry : item))
+      );
+      markChanged();
+      showSuccess(`Đã đính kèm ${file.name}`);
+    } catch (err) {
+      handleError(err, err instanceof Error ? `Không thể đính kèm file: ${err.message}` : 'Không thể đính kèm file');
+    }
+  }, [storage, handleError, showSuccess, markChanged]);
+
+  /**
+   * Đọc nội dung file đính kèm (đã giải mã) để tải xuống
+   */
+  const getAttachmentData = useCallback(async (entryId: string, attachmentId: string): Promise<ArrayBuffer | null> => {
+    try {
+      return await storage.getAttachmentData(entryId, attachmentId);
+    } catch (err) {
+      handleError(err, 'Không thể tải file đính kèm');
+      return null;
+    }
+  }, [storage, handleError]);
+
+  /**
+   * Xóa file đính kèm khỏi entry (xóa ngay, không qua thùng rác)
+   */
+  const deleteAttachment = useCallback(async (entryId: string, attachmentId: string): Promise<void> => {
+    try {
+      const updatedEntry = await storage.deleteAttachment(entryId, attachmentId);
+      setPasswords((prev) =>
+        prev.map((item) => (item.id === entryId ? updatedEntry : item))
+      );
+      markChanged();
+      showSuccess('Đã xóa file đính kèm');
+    } catch (err) {
+      handleError(err, 'Không thể xóa file đính kèm');
+    }
+  }, [storage, handleError, showSuccess, markChanged]);
+
+  /**
+   * Xóa mật khẩu (chuyển vào thùng rác)
+   */
+  const deletePassword = useCallback(async (id: string): Promise<void> => {
+    try {
+      await storage.deletePassword(id);
+      setPasswords((prev) => prev.filter((entry) => entry.id !== id));
+      markChanged();
+      showSuccess('Đã chuyển vào thùng rác');
     } catch (err) {
       handleError(err, 'Không thể xóa mật khẩu');
       throw err;
     }
-  }, [handleError, showSuccess]);
+  }, [storage, handleError, showSuccess, markChanged]);
 
   /**
    * Computed stats - sử dụng useMemo để tối ưu performance
@@ -158,21 +369,46 @@ export function usePasswords(): UsePasswordsReturn {
 
   /**
    * Effect để lấy dữ liệu khi component mount
-   * Chỉ chạy một lần
+   * Chạy lại khi đổi storage backend
    */
   useEffect(() => {
     fetchPasswords();
-  }, []); // Empty dependency array - chỉ chạy một lần
+  }, [fetchPasswords]); // fetchPasswords chỉ đổi khi storage thay đổi
+
+  /**
+   * Effect xóa dữ liệu đã giải mã khỏi state khi vault bị khóa
+   */
+  useEffect(() => {
+    return vaultKeyManager.subscribe(() => {
+      if (!vaultKeyManager.isUnlocked()) {
+        // Hủy request đang chạy để kết quả đã giải mã không quay lại state
+        beginRequest();
+        setLoading(false);
+        setPasswords([]);
+      }
+    });
+  }, [beginRequest]);
 
   return {
     passwords,
     loading,
     error,
     stats,
+    hasMore,
+    loadingMore,
+    revision,
     fetchPasswords,
     searchPasswords,
+    loadMore,
     addPassword,
+    importPasswords,
+    restorePasswords,
     updatePassword,
     deletePassword,
+    toggleFavorite,
+    reorderFavorites,
+    addAttachment,
+    getAttachmentData,
+    deleteAttachment,
   };
 }
\ No newline at end of file
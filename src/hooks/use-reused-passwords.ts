@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import type { PasswordEntry } from '@/lib/types/password';
+import { findReusedPasswords, type ReuseGroups } from '@/lib/security/reuse-detector';
+
+/**
+ * Hook tính các nhóm mật khẩu dùng chung (bất đồng bộ qua WebCrypto)
+ * Kết quả cũ được bỏ qua nếu danh sách đã thay đổi trước khi tính xong
+ */
+export function useReusedPasswords(passwords: PasswordEntry[]): ReuseGroups {
+  const [groups, setGroups] = useState<ReuseGroups>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    findReusedPasswords(passwords)
+      .then((result) => {
+        if (!cancelled) setGroups(result);
+      })
+      .catch((err) => {
+        console.error('Không thể kiểm tra mật khẩu dùng lại:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [passwords]);
+
+  return groups;
+}
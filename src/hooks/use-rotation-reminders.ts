@@ -0,0 +1,32 @@
+import { useEffect, useMemo } from 'react';
+import type { PasswordEntry } from '@/lib/types/password';
+import type { Folder } from '@/lib/types/folder';
+import {
+  claimDailyRotationNotification,
+  getOverdueEntries,
+  getRotationNotificationsEnabled,
+  type OverdueEntry,
+} from '@/lib/rotation/rotation';
+
+/**
+ * Hook lấy danh sách entry quá hạn đổi mật khẩu trên toàn vault (không theo bộ lọc đang xem)
+ * Nhận danh sách từ useAllPasswords để không đọc lại vault
+ * Nếu bật thông báo trình duyệt thì nhắc tối đa một lần mỗi ngày
+ */
+export function useRotationReminders(allPasswords: PasswordEntry[], folders: Folder[]): OverdueEntry[] {
+  const overdue = useMemo(() => getOverdueEntries(allPasswords, folders), [allPasswords, folders]);
+
+  useEffect(() => {
+    if (overdue.length === 0 || !getRotationNotificationsEnabled()) return;
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+    if (!claimDailyRotationNotification()) return;
+
+    // Chỉ báo số lượng, không đưa tên dịch vụ ra thông báo hệ thống
+    new Notification('Đến hạn đổi mật khẩu', {
+      body: `${overdue.length} mật khẩu đã quá hạn đổi. Mở vault để xem chi tiết.`,
+      tag: 'password-rotation',
+    });
+  }, [overdue]);
+
+  return overdue;
+}
@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import type { StorageBackend, VaultStorage } from '@/lib/storage';
+
+export type StorageBackendState = {
+  backend: StorageBackend;
+  setBackend: (backend: StorageBackend) => void;
+  storage: VaultStorage;
+};
+
+export const StorageBackendContext = createContext<StorageBackendState | undefined>(undefined);
+
+/**
+ * Hook để sử dụng storage backend context
+ * @returns Backend hiện tại, storage instance và hàm đổi backend
+ */
+export const useStorageBackend = () => {
+  const context = useContext(StorageBackendContext);
+
+  if (context === undefined)
+    throw new Error('useStorageBackend must be used within a StorageBackendProvider');
+
+  return context;
+};
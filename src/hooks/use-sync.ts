@@ -0,0 +1,27 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { syncEngine } from '@/lib/sync/sync-engine';
+
+const subscribe = (listener: () => void) => syncEngine.subscribe(listener);
+const getSnapshot = () => syncEngine.getStatus();
+
+/**
+ * Hook theo dõi trạng thái đồng bộ IndexedDB <-> Supabase
+ * 
+ * @param active - Khởi động sync engine khi component mount (chỉ nên bật cho backend IndexedDB)
+ */
+export function useSync(active = true) {
+  const status = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!active) return;
+    return syncEngine.start();
+  }, [active]);
+
+  return {
+    status,
+    syncNow: () => syncEngine.sync(),
+    setEnabled: (enabled: boolean) => syncEngine.setEnabled(enabled),
+    resolveConflict: syncEngine.resolveConflict.bind(syncEngine),
+    resolveAllByUpdatedAt: () => syncEngine.resolveAllByUpdatedAt(),
+  };
+}
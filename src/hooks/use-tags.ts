@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import type { PasswordEntry } from '@/lib/types/password';
+import type { VaultStorage } from '@/lib/storage';
+
+/**
+ * Hook lấy danh sách tag đang dùng trong vault (gợi ý khi nhập và lọc)
+ * Tải lại mỗi khi danh sách entry hiển thị thay đổi (thêm/sửa/xóa/tìm kiếm)
+ */
+export function useTags(storage: VaultStorage, passwords: PasswordEntry[]): string[] {
+  const [tags, setTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    storage.getAllTags()
+      .then((result) => {
+        if (!cancelled) setTags(result);
+      })
+      .catch((err) => {
+        console.error('Không thể lấy danh sách tag:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, passwords]);
+
+  return tags;
+}
@@ -0,0 +1,47 @@
+import { useEffect, useMemo, useState } from 'react';
+import { generateTotp, parseTotpSecret, type TotpCode, type TotpParams } from '@/lib/totp/totp';
+
+/**
+ * Hook sinh mã TOTP hiện tại, tự cập nhật mỗi giây để hiển thị countdown
+ * Trả về null khi chưa có secret hoặc secret không hợp lệ
+ */
+export function useTotp(secret: string | undefined): TotpCode | null {
+  const params = useMemo<TotpParams | null>(() => {
+    if (!secret) return null;
+    try {
+      return parseTotpSecret(secret);
+    } catch {
+      return null;
+    }
+  }, [secret]);
+
+  const [current, setCurrent] = useState<TotpCode | null>(null);
+
+  useEffect(() => {
+    if (!params) {
+      setCurrent(null);
+      return;
+    }
+
+    let cancelled = false;
+    const tick = () => {
+      generateTotp(params)
+        .then((code) => {
+          if (!cancelled) setCurrent(code);
+        })
+        .catch((err) => {
+          console.error('Không thể sinh mã TOTP:', err);
+        });
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [params]);
+
+  return current;
+}
@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { PasswordEntry } from '@/lib/types/password';
+import type { VaultStorage } from '@/lib/storage';
+import { useToast } from '@/hooks/use-toast';
+import { vaultKeyManager } from '@/lib/crypto/vault-key-manager';
+import { getTrashPurgeCutoff } from '@/lib/trash/trash';
+
+// Kiểm tra tự xóa định kỳ khi app mở lâu
+const AUTO_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+interface UseTrashReturn {
+  trashed: PasswordEntry[];
+  loading: boolean;
+  fetchTrash: () => Promise<void>;
+  restorePassword: (id: string) => Promise<void>;
+  purgePassword: (id: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+}
+
+/**
+ * Hook quản lý thùng rác: danh sách entry đã xóa, khôi phục và xóa vĩnh viễn
+ */
+export function useTrash(storage: VaultStorage): UseTrashReturn {
+  const [trashed, setTrashed] = useState<PasswordEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const handleError = useCallback((error: unknown, message: string) => {
+    console.error('Trash operation error:', error);
+    toast({
+      title: 'Lỗi',
+      description: message,
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  const showSuccess = useCallback((message: string) => {
+    toast({
+      title: 'Thành công',
+      description: message,
+    });
+  }, [toast]);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTrashed(await storage.getTrashedPasswords());
+    } catch (err) {
+      handleError(err, 'Không thể lấy danh sách thùng rác');
+    } finally {
+      setLoading(false);
+    }
+  }, [storage, handleError]);
+
+  const restorePassword = useCallback(async (id: string): Promise<void> => {
+    try {
+      await storage.restorePassword(id);
+      setTrashed((prev) => prev.filter((entry) => entry.id !== id));
+      showSuccess('Đã khôi phục mục từ thùng rác');
+    } catch (err) {
+      handleError(err, 'Không thể khôi phục mục');
+      throw err;
+    }
+  }, [storage, handleError, showSuccess]);
+
+  const purgePassword = useCallback(async (id: string): Promise<void> => {
+    try {
+      await storage.purgePassword(id);
+      setTrashed((prev) => prev.filter((entry) => entry.id !== id));
+      showSuccess('Đã xóa vĩnh viễn');
+    } catch (err) {
+      handleError(err, 'Không thể xóa vĩnh viễn');
+      throw err;
+    }
+  }, [storage, handleError, showSuccess]);
+
+  const emptyTrash = useCallback(async (): Promise<void> => {
+    try {
+      const count = await storage.purgeTrash();
+      setTrashed([]);
+      showSuccess(`Đã xóa vĩnh viễn ${count} mục`);
+    } catch (err) {
+      handleError(err, 'Không thể dọn sạch thùng rác');
+      throw err;
+    }
+  }, [storage, handleError, showSuccess]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  useEffect(() => {
+    return vaultKeyManager.subscribe(() => {
+      if (!vaultKeyManager.isUnlocked()) {
+        setTrashed([]);
+      }
+    });
+  }, []);
+
+  return {
+    trashed,
+    loading,
+    fetchTrash,
+    restorePassword,
+    purgePassword,
+    emptyTrash,
+  };
+}
+
+/**
+ * Tự xóa vĩnh viễn các entry quá thời gian lưu giữ trong thùng rác
+ * Chạy khi mount (vault vừa mở khóa), khi đổi backend và định kỳ mỗi giờ
+ */
+export function useTrashAutoPurge(storage: VaultStorage): void {
+  useEffect(() => {
+    const purge = () => {
+      const cutoff = getTrashPurgeCutoff();
+      if (!cutoff || !vaultKeyManager.isUnlocked()) return;
+
+      storage.purgeTrash(cutoff).catch((err) => {
+        console.error('Không thể tự dọn thùng rác:', err);
+      });
+    };
+
+    purge();
+    const timer = window.setInterval(purge, AUTO_PURGE_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [storage]);
+}
@@ -0,0 +1,35 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * Cấu hình auto-lock, được lưu trong localStorage
+ */
+export type AutoLockSettings = {
+  idleMinutes: number; // 0 = tắt auto-lock khi không hoạt động
+  lockOnHide: boolean;
+};
+
+export type VaultSessionState = {
+  isUnlocked: boolean;
+  isInitialized: boolean;
+  isMetadataLoading: boolean; // đang tải metadata của user từ server
+  settings: AutoLockSettings;
+  updateSettings: (settings: Partial<AutoLockSettings>) => void;
+  setupMasterPassword: (masterPassword: string) => Promise<void>;
+  unlock: (masterPassword: string) => Promise<boolean>;
+  lock: () => void;
+};
+
+export const VaultSessionContext = createContext<VaultSessionState | undefined>(undefined);
+
+/**
+ * Hook để sử dụng vault session context
+ * @returns Vault session state và functions
+ */
+export const useVaultSession = () => {
+  const context = useContext(VaultSessionContext);
+
+  if (context === undefined)
+    throw new Error('useVaultSession must be used within a VaultSessionProvider');
+
+  return context;
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ATTACHMENT_LIMITS,
+  createAttachmentMeta,
+  formatFileSize,
+  getAttachmentIds,
+  getAttachmentQuotaError,
+  getAttachmentUsage,
+} from './attachments'
+import type { AttachmentMeta } from '../types/password'
+
+const meta = (id: string, size: number): AttachmentMeta => ({
+  id,
+  name: `${id}.txt`,
+  mimeType: 'text/plain',
+  size,
+  createdAt: '2024-01-01T00:00:00.000Z',
+})
+
+const file = (size: number, name = 'codes.txt') => ({ name, data: new ArrayBuffer(size) })
+
+describe('getAttachmentQuotaError', () => {
+  it('chấp nhận file trong giới hạn', () => {
+    expect(getAttachmentQuotaError({}, file(ATTACHMENT_LIMITS.fileSize), 0)).toBeNull()
+  })
+
+  it('từ chối tên file rỗng hoặc quá dài', () => {
+    expect(getAttachmentQuotaError({}, file(10, '  '), 0)).toBe('File name must be between 1-255 characters')
+    expect(getAttachmentQuotaError({}, file(10, 'a'.repeat(256)), 0)).toBe('File name must be between 1-255 characters')
+  })
+
+  it('từ chối file vượt kích thước tối đa', () => {
+    expect(getAttachmentQuotaError({}, file(ATTACHMENT_LIMITS.fileSize + 1), 0)).toBe('File must be at most 10 MB')
+  })
+
+  it('giới hạn số file mỗi entry', () => {
+    const attachments = Array.from({ length: ATTACHMENT_LIMITS.attachmentsPerEntry }, (_, i) => meta(`f${i}`, 1))
+    expect(getAttachmentQuotaError({ attachments }, file(1), 0)).toBe('At most 10 attachments per entry')
+  })
+
+  it('giới hạn tổng dung lượng của vault', () => {
+    expect(getAttachmentQuotaError({}, file(2), ATTACHMENT_LIMITS.vaultSize - 1)).toBe('Attachments storage is full (100 MB per vault)')
+    expect(getAttachmentQuotaError({}, file(1), ATTACHMENT_LIMITS.vaultSize - 1)).toBeNull()
+  })
+})
+
+describe('attachment metadata', () => {
+  it('tạo metadata từ file mới với loại mặc định', () => {
+    expect(createAttachmentMeta({ name: ' key.pem ', mimeType: '', data: new ArrayBuffer(42) }, '2024-01-01T00:00:00.000Z')).toEqual({
+      id: expect.any(String),
+      name: 'key.pem',
+      mimeType: 'application/octet-stream',
+      size: 42,
+      createdAt: '2024-01-01T00:00:00.000Z',
+    })
+  })
+
+  it('tính tổng dung lượng và id file của các entry', () => {
+    const entries = [{ attachments: [meta('a', 100), meta('b', 50)] }, {}, { attachments: [meta('c', 1)] }]
+    expect(getAttachmentUsage(entries)).toBe(151)
+    expect(getAttachmentIds(entries)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('hiển thị kích thước dễ đọc', () => {
+    expect(formatFileSize(512)).toBe('512 B')
+    expect(formatFileSize(1536)).toBe('1.5 KB')
+    expect(formatFileSize(10 * 1024 * 1024)).toBe('10 MB')
+  })
+})
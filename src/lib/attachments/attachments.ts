@@ -0,0 +1,77 @@
+import type { AttachmentMeta, NewAttachment, PasswordEntry } from '../types/password'
+
+/**
+ * File đính kèm - license, mã khôi phục, chứng chỉ... lưu cạnh credential
+ *
+ * Metadata (tên file mã hóa, loại, kích thước) nằm trong entry nên đi cùng
+ * sync và backup như mọi field khác. Nội dung file được mã hóa bằng vault key
+ * rồi lưu riêng theo attachment id ở từng backend.
+ * Entry vào thùng rác vẫn giữ file để khôi phục được, chỉ xóa khi xóa vĩnh viễn.
+ */
+
+export const ATTACHMENT_LIMITS = {
+  fileSize: 10 * 1024 * 1024,
+  attachmentsPerEntry: 10,
+  vaultSize: 100 * 1024 * 1024, // Tổng dung lượng file của cả vault, gồm thùng rác
+  nameLength: 255,
+} as const
+
+/**
+ * Tổng dung lượng file đính kèm (plaintext) của các entry
+ */
+export const getAttachmentUsage = (entries: Pick<PasswordEntry, 'attachments'>[]): number =>
+  entries.reduce((total, entry) => total + (entry.attachments ?? []).reduce((sum, attachment) => sum + attachment.size, 0), 0)
+
+/**
+ * Kiểm tra file mới có vượt giới hạn không
+ * @param entry - Entry sẽ nhận file
+ * @param vaultUsage - Dung lượng đang dùng của cả vault (getAttachmentUsage)
+ * @returns Thông báo lỗi hoặc null nếu hợp lệ
+ */
+export function getAttachmentQuotaError(
+  entry: Pick<PasswordEntry, 'attachments'>,
+  file: Pick<NewAttachment, 'name' | 'data'>,
+  vaultUsage: number
+): string | null {
+  if (!file.name.trim() || file.name.length > ATTACHMENT_LIMITS.nameLength) {
+    return `File name must be between 1-${ATTACHMENT_LIMITS.nameLength} characters`
+  }
+  if (file.data.byteLength > ATTACHMENT_LIMITS.fileSize) {
+    return `File must be at most ${formatFileSize(ATTACHMENT_LIMITS.fileSize)}`
+  }
+  if ((entry.attachments?.length ?? 0) >= ATTACHMENT_LIMITS.attachmentsPerEntry) {
+    return `At most ${ATTACHMENT_LIMITS.attachmentsPerEntry} attachments per entry`
+  }
+  if (vaultUsage + file.data.byteLength > ATTACHMENT_LIMITS.vaultSize) {
+    return `Attachments storage is full (${formatFileSize(ATTACHMENT_LIMITS.vaultSize)} per vault)`
+  }
+  return null
+}
+
+/**
+ * Tạo metadata cho file mới
+ */
+export function createAttachmentMeta(file: NewAttachment, now: string = new Date().toISOString()): AttachmentMeta {
+  return {
+    id: crypto.randomUUID(),
+    name: file.name.trim(),
+    mimeType: file.mimeType || 'application/octet-stream',
+    size: file.data.byteLength,
+    createdAt: now,
+  }
+}
+
+/**
+ * Id các file đính kèm của danh sách entry
+ */
+export const getAttachmentIds = (entries: Pick<PasswordEntry, 'attachments'>[]): string[] =>
+  entries.flatMap((entry) => (entry.attachments ?? []).map((attachment) => attachment.id))
+
+/**
+ * Hiển thị kích thước file dễ đọc (B, KB, MB)
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1).replace(/\.0$/, '')} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState, useCallback, useMemo, useRef } from "react";
+import { AuthService, type Session } from "@/lib/auth-service";
+import { vaultKeyManager } from "@/lib/crypto/vault-key-manager";
+import { syncEngine } from "@/lib/sync/sync-engine";
+import { SupabaseVaultKeyService } from "@/lib/supabase-vault-key-service";
+import { AuthContext } from "@/hooks/use-auth";
+
+type AuthProviderProps = {
+  children: React.ReactNode;
+};
+
+/**
+ * Auth Provider
+ * Theo dõi session Supabase Auth (bao gồm session nhận từ magic link redirect)
+ */
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Effect để lấy session ban đầu và lắng nghe thay đổi
+  useEffect(() => {
+    let active = true;
+
+    AuthService.getSession()
+      .then((initialSession) => {
+        if (active) setSession(initialSession);
+      })
+      .catch((error) => {
+        console.error("Không thể lấy session:", error);
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    const unsubscribe = AuthService.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+      setLoading(false);
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const userId = session?.user.id ?? null;
+  const previousUserIdRef = useRef<string | null>(null);
+
+  // Dữ liệu local thuộc về một user: đăng xuất hoặc đổi tài khoản thì khóa vault của user cũ,
+  // user mới đăng nhập thì để sync engine chuyển sang database local của user đó
+  // và tải metadata vault của user đó từ server
+  useEffect(() => {
+    if (previousUserIdRef.current && previousUserIdRef.current !== userId) {
+      vaultKeyManager.lock();
+    }
+    previousUserIdRef.current = userId;
+    vaultKeyManager.setMetadataStore(userId ? SupabaseVaultKeyService.createStore(userId) : null);
+
+    if (userId) {
+      syncEngine.bindUser(userId).catch((error) => {
+        console.error("Không thể mở dữ liệu cục bộ của tài khoản:", error);
+      });
+    }
+  }, [userId]);
+
+  const signOut = useCallback(() => AuthService.signOut(), []);
+
+  // Memoized context value để tránh unnecessary re-renders
+  const contextValue = useMemo(() => ({
+    session,
+    user: session?.user ?? null,
+    loading,
+    signOut,
+  }), [session, loading, signOut]);
+
+  return (
+    <AuthContext.Provider value={contextValue}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
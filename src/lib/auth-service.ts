@@ -0,0 +1,130 @@
+import type { AuthChangeEvent, Session, User } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { logger } from './utils/logger'
+
+/**
+ * Supabase Auth Service
+ * Đăng nhập bằng email/password hoặc magic link, quản lý session hiện tại
+ *
+ * Mọi row trong bảng `passwords` thuộc về một user (cột user_id),
+ * RLS chỉ cho phép user truy cập rows của chính mình.
+ */
+export class AuthService {
+
+  /**
+   * Base error handler cho các auth operations
+   * @private
+   */
+  private static handleError(operation: string, error: unknown): never {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    logger.error(`${operation} failed:`, error)
+    throw new Error(errorMessage)
+  }
+
+  /**
+   * URL để Supabase redirect về sau khi bấm magic link / xác nhận email
+   * @private
+   */
+  private static getRedirectUrl(): string {
+    return `${window.location.origin}/`
+  }
+
+  /**
+   * Đăng nhập bằng email và mật khẩu
+   */
+  static async signInWithPassword(email: string, password: string): Promise<Session> {
+    const { data, error } = await supabase.auth.signInWithPassword({ email: email.trim(), password })
+
+    if (error || !data.session) {
+      this.handleError('SIGN_IN', error ?? new Error('Không nhận được session'))
+    }
+
+    logger.info('Signed in with email/password')
+    return data.session
+  }
+
+  /**
+   * Đăng ký tài khoản mới
+   * @returns Session nếu không cần xác nhận email, null nếu phải xác nhận qua email
+   */
+  static async signUp(email: string, password: string): Promise<Session | null> {
+    const { data, error } = await supabase.auth.signUp({
+      email: email.trim(),
+      password,
+      options: { emailRedirectTo: this.getRedirectUrl() },
+    })
+
+    if (error) {
+      this.handleError('SIGN_UP', error)
+    }
+
+    logger.info('Signed up new account')
+    return data.session
+  }
+
+  /**
+   * Gửi magic link đăng nhập qua email
+   */
+  static async signInWithMagicLink(email: string): Promise<void> {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: this.getRedirectUrl() },
+    })
+
+    if (error) {
+      this.handleError('MAGIC_LINK', error)
+    }
+
+    logger.info('Magic link sent')
+  }
+
+  /**
+   * Đăng xuất khỏi Supabase
+   */
+  static async signOut(): Promise<void> {
+    const { error } = await supabase.auth.signOut()
+
+    if (error) {
+      this.handleError('SIGN_OUT', error)
+    }
+
+    logger.info('Signed out')
+  }
+
+  /**
+   * Lấy session hiện tại (null nếu chưa đăng nhập)
+   */
+  static async getSession(): Promise<Session | null> {
+    const { data, error } = await supabase.auth.getSession()
+
+    if (error) {
+      logger.warn('Could not read auth session:', error)
+      return null
+    }
+
+    return data.session
+  }
+
+  /**
+   * Lấy ID của user đang đăng nhập
+   * @throws Error nếu chưa đăng nhập
+   */
+  static async requireUserId(): Promise<string> {
+    const session = await this.getSession()
+    if (!session?.user) {
+      throw new Error('Bạn cần đăng nhập để sử dụng lưu trữ đám mây')
+    }
+    return session.user.id
+  }
+
+  /**
+   * Lắng nghe thay đổi trạng thái đăng nhập
+   * @returns Hàm hủy đăng ký
+   */
+  static onAuthStateChange(callback: (event: AuthChangeEvent, session: Session | null) => void): () => void {
+    const { data } = supabase.auth.onAuthStateChange(callback)
+    return () => data.subscription.unsubscribe()
+  }
+}
+
+export type { Session, User }
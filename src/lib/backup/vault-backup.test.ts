@@ -0,0 +1,131 @@
+// @vitest-environment node
+// WebCrypto của Node không nhận ArrayBuffer tạo trong realm của jsdom
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+  VaultBackupError,
+  applyRestorePlan,
+  collectBackupAttachments,
+  createVaultBackup,
+  decryptVaultBackup,
+  parseVaultBackup,
+  planRestore,
+  type VaultBackupFile,
+} from './vault-backup'
+import { InMemoryVaultStorage } from '../storage/memory-storage'
+import type { PasswordEntry } from '../types/password'
+
+const BACKUP_PASSWORD = 'backup password'
+// Backup dùng KDF mặc định (600k vòng PBKDF2) nên mỗi lần derive key mất vài trăm ms
+const KDF_TIMEOUT = 60_000
+
+const entry = (id: string, fields: Partial<PasswordEntry> = {}): PasswordEntry => ({
+  id,
+  service: `Service ${id.slice(0, 4)}`,
+  username: 'alice',
+  password: 'secret',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...fields,
+})
+
+const ID_A = '11111111-1111-4111-8111-111111111111'
+const ID_B = '22222222-2222-4222-8222-222222222222'
+const ID_C = '33333333-3333-4333-8333-333333333333'
+
+describe('vault backup', () => {
+  let storage: InMemoryVaultStorage
+  let entries: PasswordEntry[]
+  let backup: VaultBackupFile
+
+  beforeAll(async () => {
+    storage = new InMemoryVaultStorage()
+    const withFile = await storage.addPassword({ service: 'GitHub', username: 'alice', password: 'hunter2', notes: 'Mã khôi phục' })
+    await storage.addAttachment(withFile.id, { name: 'codes.txt', mimeType: 'text/plain', data: new TextEncoder().encode('recovery').buffer })
+    await storage.addPassword({ service: 'Ngân hàng', username: 'bob', password: 'p@ss' })
+
+    entries = await storage.getAllPasswords()
+    backup = await createVaultBackup(entries, BACKUP_PASSWORD, await collectBackupAttachments(storage, entries))
+  }, KDF_TIMEOUT)
+
+  it('file backup chỉ chứa header và ciphertext', () => {
+    const text = JSON.stringify(backup)
+    expect(backup).toMatchObject({ format: 'memory-safe-guard-backup', version: 1, entryCount: 2, cipher: 'AES-GCM-256' })
+    expect(text).not.toContain('hunter2')
+    expect(text).not.toContain('GitHub')
+  })
+
+  it('giải mã về đúng entry và nội dung file đính kèm', async () => {
+    const contents = await decryptVaultBackup(parseVaultBackup(JSON.stringify(backup)), BACKUP_PASSWORD)
+
+    expect(contents.entries).toEqual(entries)
+    expect(contents.attachments).toHaveLength(1)
+    expect(Buffer.from(contents.attachments[0].data, 'base64').toString()).toBe('recovery')
+  }, KDF_TIMEOUT)
+
+  it('throw VaultBackupError khi sai mật khẩu hoặc header bị sửa', async () => {
+    await expect(decryptVaultBackup(backup, 'wrong password')).rejects.toThrow(VaultBackupError)
+    // entryCount nằm trong additional data của AES-GCM
+    await expect(decryptVaultBackup({ ...backup, entryCount: 3 }, BACKUP_PASSWORD)).rejects.toThrow('Sai mật khẩu backup hoặc file đã bị chỉnh sửa')
+  }, KDF_TIMEOUT)
+
+  it('từ chối file không phải backup hoặc có tham số KDF bất thường', () => {
+    expect(() => parseVaultBackup('not json')).toThrow('File backup không phải JSON hợp lệ')
+    expect(() => parseVaultBackup('{"format":"other"}')).toThrow('Đây không phải file backup của Memory Safe Guard')
+    expect(() => parseVaultBackup(JSON.stringify({ ...backup, kdf: { ...backup.kdf, iterations: 1 } }))).toThrow('Tham số KDF của file backup không hợp lệ')
+  })
+
+  it('khôi phục vào vault trống cả entry lẫn file đính kèm', async () => {
+    const contents = await decryptVaultBackup(backup, BACKUP_PASSWORD)
+    const target = new InMemoryVaultStorage()
+    const plan = planRestore(contents.entries, [], 'merge', contents.attachments)
+
+    expect(plan.toAdd).toHaveLength(2)
+    await applyRestorePlan(target, plan)
+
+    const restored = await target.getAllPasswords()
+    expect(restored).toEqual(entries)
+    const withFile = restored.find((item) => item.attachments?.length)
+    const [attachment] = withFile?.attachments ?? []
+    expect(new TextDecoder().decode(await target.getAttachmentData(withFile!.id, attachment.id))).toBe('recovery')
+  }, KDF_TIMEOUT)
+})
+
+describe('planRestore', () => {
+  const older = '2024-01-01T00:00:00.000Z'
+  const newer = '2024-06-01T00:00:00.000Z'
+
+  it('merge: thêm entry mới, ghi đè bản cũ hơn, giữ bản local mới hơn', () => {
+    const existing = [entry(ID_A, { password: 'local', updatedAt: older }), entry(ID_B, { password: 'local', updatedAt: newer }), entry(ID_C)]
+    const backupEntries = [entry(ID_A, { password: 'backup', updatedAt: newer }), entry(ID_B, { password: 'backup', updatedAt: older }), entry(ID_C)]
+    const added = entry('44444444-4444-4444-8444-444444444444')
+
+    const plan = planRestore([...backupEntries, added], existing, 'merge')
+
+    expect(plan.toAdd).toEqual([added])
+    expect(plan.toOverwrite.map((item) => item.id)).toEqual([ID_A])
+    expect(plan.keptLocal.map((item) => item.id)).toEqual([ID_B])
+    expect(plan.unchanged.map((item) => item.id)).toEqual([ID_C])
+    expect(plan.toDelete).toEqual([])
+  })
+
+  it('replace: ghi đè mọi bản khác và xóa entry không có trong backup', () => {
+    const existing = [entry(ID_A, { password: 'local', updatedAt: newer }), entry(ID_B)]
+    const plan = planRestore([entry(ID_A, { password: 'backup', updatedAt: older })], existing, 'replace')
+
+    expect(plan.toOverwrite.map((item) => item.id)).toEqual([ID_A])
+    expect(plan.toDelete.map((item) => item.id)).toEqual([ID_B])
+  })
+
+  it('cấp id UUID mới cho entry cũ có id không phải UUID', () => {
+    const plan = planRestore([entry('legacy-id')], [], 'merge')
+    expect(plan.toAdd[0].id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)
+  })
+
+  it('applyRestorePlan chuyển entry bị xóa vào thùng rác', async () => {
+    const target = new InMemoryVaultStorage([entry(ID_A), entry(ID_B)])
+    await applyRestorePlan(target, planRestore([entry(ID_A)], await target.getAllPasswords(), 'replace'))
+
+    expect((await target.getAllPasswords()).map((item) => item.id)).toEqual([ID_A])
+    expect((await target.getTrashedPasswords()).map((item) => item.id)).toEqual([ID_B])
+  })
+})
@@ -0,0 +1,341 @@
+import {
+  base64ToBytes,
+  bytesToBase64,
+  createKdfParams,
+  deriveVaultKey,
+  randomBytes,
+  type KdfParams,
+} from '../crypto/vault-crypto'
+import type { PasswordEntry } from '../types/password'
+import type { VaultStorage } from '../storage'
+
+/**
+ * Vault Backup - file sao lưu được bảo vệ bằng mật khẩu riêng
+ *
+ * File là JSON envelope gồm header (format, version, KDF params) và payload
+ * AES-GCM. Header được đưa vào additional data nên mọi chỉnh sửa header
+ * hoặc ciphertext đều làm auth tag không khớp khi giải mã.
+ * Nội dung file đính kèm (plaintext, base64) nằm trong payload cùng các entry.
+ */
+
+export const BACKUP_FORMAT = 'memory-safe-guard-backup'
+export const BACKUP_VERSION = 1
+
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+// Giới hạn iterations khi đọc file để tránh file độc hại treo trình duyệt
+const MIN_BACKUP_ITERATIONS = 100_000
+const MAX_BACKUP_ITERATIONS = 10_000_000
+
+export interface VaultBackupFile {
+  format: typeof BACKUP_FORMAT
+  version: typeof BACKUP_VERSION
+  createdAt: string
+  entryCount: number
+  kdf: KdfParams
+  cipher: 'AES-GCM-256'
+  iv: string // base64
+  ciphertext: string // base64, không gồm tag
+  tag: string // base64, auth tag 128-bit của AES-GCM
+}
+
+/**
+ * Nội dung một file đính kèm trong backup, metadata nằm ở entry tương ứng
+ */
+export interface BackupAttachment {
+  id: string
+  data: string // base64
+}
+
+interface BackupPayload {
+  entries: PasswordEntry[]
+  attachments?: BackupAttachment[] // Không có ở backup tạo trước khi hỗ trợ file đính kèm
+}
+
+export interface VaultBackupContents {
+  entries: PasswordEntry[]
+  attachments: BackupAttachment[]
+}
+
+/**
+ * Error khi file backup không hợp lệ hoặc sai mật khẩu
+ */
+export class VaultBackupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VaultBackupError'
+  }
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+// Additional data của AES-GCM: header theo thứ tự cố định
+function headerAad(file: Pick<VaultBackupFile, 'format' | 'version' | 'createdAt' | 'entryCount' | 'kdf' | 'cipher'>) {
+  return encoder.encode(JSON.stringify([
+    file.format,
+    file.version,
+    file.createdAt,
+    file.entryCount,
+    file.kdf.algorithm,
+    file.kdf.iterations,
+    file.kdf.salt,
+    file.cipher,
+  ]))
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+function isPasswordEntry(value: unknown): value is PasswordEntry {
+  const entry = value as PasswordEntry
+  return typeof entry === 'object' && entry !== null &&
+    isString(entry.id) &&
+    isString(entry.service) &&
+    isString(entry.username) &&
+    isString(entry.password) &&
+    isString(entry.createdAt) &&
+    isString(entry.updatedAt)
+}
+
+const isBackupAttachment = (value: unknown): value is BackupAttachment =>
+  typeof value === 'object' && value !== null &&
+  isString((value as BackupAttachment).id) &&
+  isString((value as BackupAttachment).data)
+
+/**
+ * Đọc nội dung mọi file đính kèm của các entry để đưa vào backup
+ */
+export async function collectBackupAttachments(storage: VaultStorage, entries: PasswordEntry[]): Promise<BackupAttachment[]> {
+  const attachments: BackupAttachment[] = []
+  for (const entry of entries) {
+    for (const attachment of entry.attachments ?? []) {
+      const data = await storage.getAttachmentData(entry.id, attachment.id)
+      attachments.push({ id: attachment.id, data: bytesToBase64(new Uint8Array(data)) })
+    }
+  }
+  return attachments
+}
+
+/**
+ * Tạo file backup đã mã hóa từ danh sách entry plaintext
+ */
+export async function createVaultBackup(
+  entries: PasswordEntry[],
+  backupPassword: string,
+  attachments: BackupAttachment[] = []
+): Promise<VaultBackupFile> {
+  const header = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    entryCount: entries.length,
+    kdf: createKdfParams(),
+    cipher: 'AES-GCM-256',
+  } as const
+
+  const key = await deriveVaultKey(backupPassword, header.kdf)
+  const iv = randomBytes(IV_LENGTH)
+  const payload: BackupPayload = { entries, attachments }
+
+  const sealed = new Uint8Array(await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: headerAad(header), tagLength: TAG_LENGTH * 8 },
+    key,
+    encoder.encode(JSON.stringify(payload))
+  ))
+
+  return {
+    ...header,
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(sealed.subarray(0, sealed.length - TAG_LENGTH)),
+    tag: bytesToBase64(sealed.subarray(sealed.length - TAG_LENGTH)),
+  }
+}
+
+/**
+ * Đọc và kiểm tra cấu trúc file backup (chưa giải mã)
+ */
+export function parseVaultBackup(text: string): VaultBackupFile {
+  let data: Partial<VaultBackupFile>
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new VaultBackupError('File backup không phải JSON hợp lệ')
+  }
+
+  if (data?.format !== BACKUP_FORMAT) {
+    throw new VaultBackupError('Đây không phải file backup của Memory Safe Guard')
+  }
+  if (data.version !== BACKUP_VERSION) {
+    throw new VaultBackupError(`Phiên bản backup ${data.version} không được hỗ trợ`)
+  }
+
+  const kdf = data.kdf
+  if (
+    kdf?.algorithm !== 'PBKDF2-SHA256' ||
+    !Number.isInteger(kdf.iterations) ||
+    kdf.iterations < MIN_BACKUP_ITERATIONS ||
+    kdf.iterations > MAX_BACKUP_ITERATIONS ||
+    !isString(kdf.salt)
+  ) {
+    throw new VaultBackupError('Tham số KDF của file backup không hợp lệ')
+  }
+
+  if (
+    data.cipher !== 'AES-GCM-256' ||
+    !isString(data.createdAt) ||
+    !Number.isInteger(data.entryCount) ||
+    !isString(data.iv) ||
+    !isString(data.ciphertext) ||
+    !isString(data.tag)
+  ) {
+    throw new VaultBackupError('File backup bị thiếu dữ liệu')
+  }
+
+  return data as VaultBackupFile
+}
+
+/**
+ * Giải mã file backup
+ * @throws VaultBackupError nếu sai mật khẩu hoặc file đã bị chỉnh sửa
+ */
+export async function decryptVaultBackup(file: VaultBackupFile, backupPassword: string): Promise<VaultBackupContents> {
+  const key = await deriveVaultKey(backupPassword, file.kdf)
+  const ciphertext = base64ToBytes(file.ciphertext)
+  const tag = base64ToBytes(file.tag)
+  const sealed = new Uint8Array(ciphertext.length + tag.length)
+  sealed.set(ciphertext)
+  sealed.set(tag, ciphertext.length)
+
+  let plaintext: ArrayBuffer
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(file.iv), additionalData: headerAad(file), tagLength: TAG_LENGTH * 8 },
+      key,
+      sealed
+    )
+  } catch {
+    throw new VaultBackupError('Sai mật khẩu backup hoặc file đã bị chỉnh sửa')
+  }
+
+  const payload = JSON.parse(decoder.decode(plaintext)) as BackupPayload
+  if (!Array.isArray(payload.entries) || !payload.entries.every(isPasswordEntry)) {
+    throw new VaultBackupError('Dữ liệu trong file backup không hợp lệ')
+  }
+  if (payload.entries.length !== file.entryCount) {
+    throw new VaultBackupError('Số lượng mục trong backup không khớp với header')
+  }
+  const attachments = payload.attachments ?? []
+  if (!Array.isArray(attachments) || !attachments.every(isBackupAttachment)) {
+    throw new VaultBackupError('Dữ liệu file đính kèm trong backup không hợp lệ')
+  }
+
+  return { entries: payload.entries, attachments }
+}
+
+/**
+ * Chế độ khôi phục:
+ * - merge: thêm entry mới, ghi đè entry cùng id nếu bản backup mới hơn hoặc bằng
+ * - replace: vault sau khi khôi phục giống hệt backup (xóa entry không có trong backup)
+ */
+export type RestoreMode = 'merge' | 'replace'
+
+export interface RestorePlan {
+  mode: RestoreMode
+  toAdd: PasswordEntry[]
+  toOverwrite: PasswordEntry[]
+  toDelete: PasswordEntry[]
+  // Bản trong vault mới hơn bản backup (chỉ ở chế độ merge)
+  keptLocal: PasswordEntry[]
+  unchanged: PasswordEntry[]
+  // Nội dung file đính kèm của toAdd và toOverwrite
+  attachments: BackupAttachment[]
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Các field nội dung theo thứ tự cố định để so sánh hai phiên bản của một entry
+const contentKey = (entry: PasswordEntry): string => JSON.stringify([
+  entry.service,
+  entry.username,
+  entry.password,
+  entry.passwordHistory ?? [],
+  entry.passwordChangedAt ?? null,
+  entry.rotationIntervalDays ?? null,
+  entry.urls ?? [],
+  entry.notes ?? '',
+  entry.customFields ?? [],
+  entry.totp ?? '',
+  entry.folderId ?? null,
+  entry.tags ?? [],
+  entry.favorite ?? false,
+  entry.favoriteOrder ?? null,
+  entry.attachments ?? [],
+  entry.details ?? null,
+  entry.updatedAt,
+])
+
+const isSameContent = (a: PasswordEntry, b: PasswordEntry): boolean => contentKey(a) === contentKey(b)
+
+/**
+ * So sánh backup với dữ liệu hiện có để xem trước những gì sẽ thay đổi
+ */
+export function planRestore(
+  backupEntries: PasswordEntry[],
+  existing: PasswordEntry[],
+  mode: RestoreMode,
+  backupAttachments: BackupAttachment[] = []
+): RestorePlan {
+  const existingById = new Map(existing.map((entry) => [entry.id, entry]))
+  const plan: RestorePlan = { mode, toAdd: [], toOverwrite: [], toDelete: [], keptLocal: [], unchanged: [], attachments: [] }
+
+  // Entry cũ dùng id không phải UUID không ghi được lên Supabase - cấp id mới nếu chưa có trong vault
+  const entries = backupEntries.map((entry) =>
+    UUID_PATTERN.test(entry.id) || existingById.has(entry.id) ? entry : { ...entry, id: crypto.randomUUID() }
+  )
+
+  for (const entry of entries) {
+    const current = existingById.get(entry.id)
+
+    if (!current) {
+      plan.toAdd.push(entry)
+    } else if (isSameContent(current, entry)) {
+      plan.unchanged.push(entry)
+    } else if (mode === 'merge' && current.updatedAt > entry.updatedAt) {
+      plan.keptLocal.push(current)
+    } else {
+      plan.toOverwrite.push(entry)
+    }
+  }
+
+  if (mode === 'replace') {
+    const backupIds = new Set(entries.map((entry) => entry.id))
+    plan.toDelete = existing.filter((entry) => !backupIds.has(entry.id))
+  }
+
+  const restoredIds = new Set([...plan.toAdd, ...plan.toOverwrite].flatMap((entry) => (entry.attachments ?? []).map((attachment) => attachment.id)))
+  plan.attachments = backupAttachments.filter((attachment) => restoredIds.has(attachment.id))
+
+  return plan
+}
+
+/**
+ * Thực hiện restore plan trên storage hiện tại
+ */
+export async function applyRestorePlan(storage: VaultStorage, plan: RestorePlan): Promise<void> {
+  const restored = [...plan.toAdd, ...plan.toOverwrite]
+  await storage.putPasswords(restored)
+
+  const dataById = new Map(plan.attachments.map((attachment) => [attachment.id, attachment.data]))
+  for (const entry of restored) {
+    for (const attachment of entry.attachments ?? []) {
+      const data = dataById.get(attachment.id)
+      if (data) {
+        await storage.putAttachmentData(entry.id, attachment.id, base64ToBytes(data).buffer)
+      }
+    }
+  }
+
+  for (const entry of plan.toDelete) {
+    await storage.deletePassword(entry.id)
+  }
+}
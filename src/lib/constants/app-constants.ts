@@ -0,0 +1,33 @@
+/**
+ * Hằng số dùng chung cho UI và service
+ */
+
+export const TIMING = {
+  SEARCH_DEBOUNCE_DELAY: 300,
+  ANIMATION_STAGGER_DELAY: 50,
+  MAX_ANIMATION_DELAY: 500,
+} as const
+
+export const UI_CONFIG = {
+  HERO_SECTION: {
+    title: 'Quản lý mật khẩu an toàn',
+    subtitle: 'Lưu trữ và quản lý mật khẩu của bạn với mã hóa đầu cuối.',
+    highlight: 'Bảo vệ mật khẩu của bạn một cách an toàn và hiện đại.',
+  },
+} as const
+
+// Thông báo lỗi theo operation của SupabasePasswordService.handleError
+export const ERROR_MESSAGES = {
+  FETCH_FAILED: 'Không thể tải danh sách mật khẩu',
+  SEARCH_FAILED: 'Không thể tìm kiếm mật khẩu',
+  ADD_FAILED: 'Không thể thêm mật khẩu',
+  UPDATE_FAILED: 'Không thể cập nhật mật khẩu',
+  DELETE_FAILED: 'Không thể xóa mật khẩu',
+  STATS_FAILED: 'Không thể tải thống kê',
+} as const
+
+export const SUCCESS_MESSAGES = {
+  ADD: 'Đã thêm mật khẩu',
+  UPDATE: 'Đã cập nhật mật khẩu',
+  DELETE: 'Đã xóa mật khẩu',
+} as const
@@ -0,0 +1,95 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { decryptEntrySecrets, encryptEntrySecrets } from './entry-cipher'
+import { isEncryptedValue } from './vault-crypto'
+import { vaultKeyManager } from './vault-key-manager'
+
+const MASTER_PASSWORD = 'correct horse battery'
+
+const entry = {
+  id: '3f1c2a9e-5b7d-4c1e-9a2f-6d8b0e4c7a11',
+  service: 'GitHub',
+  username: 'alice',
+  password: 'hunter2',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+}
+
+describe('entry-cipher', () => {
+  beforeAll(async () => {
+    await vaultKeyManager.setupMasterPassword(MASTER_PASSWORD)
+  }, 30_000)
+
+  afterEach(async () => {
+    if (!vaultKeyManager.isUnlocked()) {
+      await vaultKeyManager.unlock(MASTER_PASSWORD)
+    }
+  }, 30_000)
+
+  it('chỉ mã hóa mật khẩu, giữ plaintext các field dùng để tìm kiếm và sắp xếp', async () => {
+    const encrypted = await encryptEntrySecrets(entry)
+
+    expect(isEncryptedValue(encrypted.password)).toBe(true)
+    expect(encrypted).toMatchObject({ service: 'GitHub', username: 'alice', updatedAt: entry.updatedAt })
+  })
+
+  it('giải mã về đúng entry ban đầu', async () => {
+    expect(await decryptEntrySecrets(await encryptEntrySecrets(entry))).toEqual(entry)
+  })
+
+  it('mã hóa lịch sử mật khẩu, notes, secret TOTP và tên, giá trị custom field, tên file đính kèm, bỏ qua chuỗi rỗng', async () => {
+    const withExtras = {
+      ...entry,
+      notes: 'mã khôi phục',
+      totp: 'JBSWY3DPEHPK3PXP',
+      passwordHistory: [{ password: 'old-password', changedAt: '2024-01-01T00:00:00.000Z' }],
+      attachments: [{ id: 'a1', name: 'recovery.txt', mimeType: 'text/plain', size: 4, createdAt: '2024-01-01T00:00:00.000Z' }],
+      customFields: [{ id: 'f1', name: 'PIN', value: '1234', type: 'hidden' as const }, { id: 'f2', name: 'Ghi chú', value: '', type: 'text' as const }],
+    }
+    const encrypted = await encryptEntrySecrets(withExtras)
+
+    expect(isEncryptedValue(encrypted.notes)).toBe(true)
+    expect(isEncryptedValue(encrypted.totp)).toBe(true)
+    expect(isEncryptedValue(encrypted.passwordHistory[0].password)).toBe(true)
+    expect(isEncryptedValue(encrypted.attachments[0].name)).toBe(true)
+    expect(encrypted.attachments[0]).toMatchObject({ id: 'a1', mimeType: 'text/plain', size: 4 })
+    expect(isEncryptedValue(encrypted.customFields[0].name)).toBe(true)
+    expect(isEncryptedValue(encrypted.customFields[0].value)).toBe(true)
+    expect(encrypted.customFields[1]).toMatchObject({ id: 'f2', value: '', type: 'text' })
+    expect(await decryptEntrySecrets(encrypted)).toEqual(withExtras)
+  })
+
+  it('mã hóa giá trị chuỗi trong details nhưng giữ nguyên type', async () => {
+    const card = {
+      ...entry,
+      details: { type: 'card' as const, cardholderName: 'ALICE', number: '4111111111111111', expiry: '12/30', cvv: '123', pin: '' },
+    }
+    const encrypted = await encryptEntrySecrets(card)
+
+    expect(encrypted.details).toMatchObject({ type: 'card', pin: '' })
+    expect(isEncryptedValue(encrypted.details.number)).toBe(true)
+    expect(await decryptEntrySecrets(encrypted)).toEqual(card)
+  })
+
+  it('luôn mã hóa plaintext, kể cả khi trông giống ciphertext', async () => {
+    const lookalike = { ...entry, password: 'enc:v1:not-a-ciphertext' }
+    const encrypted = await encryptEntrySecrets(lookalike)
+
+    expect(encrypted.password).not.toBe(lookalike.password)
+    expect(await decryptEntrySecrets(encrypted)).toEqual(lookalike)
+  })
+
+  it('trả nguyên giá trị plaintext cũ khi giải mã', async () => {
+    expect(await decryptEntrySecrets(entry)).toEqual(entry)
+  })
+
+  it('throw khi vault bị khóa và chỉ mở lại được bằng đúng master password', async () => {
+    const encrypted = await encryptEntrySecrets(entry)
+    vaultKeyManager.lock()
+
+    await expect(encryptEntrySecrets(entry)).rejects.toThrow('Vault đang bị khóa')
+    await expect(decryptEntrySecrets(encrypted)).rejects.toThrow('Vault đang bị khóa')
+    expect(await vaultKeyManager.unlock('wrong password')).toBe(false)
+    expect(await vaultKeyManager.unlock(MASTER_PASSWORD)).toBe(true)
+    expect(await decryptEntrySecrets(encrypted)).toEqual(entry)
+  }, 30_000)
+})
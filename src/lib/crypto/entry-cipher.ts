@@ -0,0 +1,129 @@
+import { isEncryptedValue } from './vault-crypto'
+import { vaultKeyManager } from './vault-key-manager'
+import type { AttachmentMeta, CustomField, ItemDetails, PasswordHistoryItem } from '../types/password'
+
+/**
+ * Mã hóa/giải mã các field nhạy cảm của một entry trước khi ghi xuống
+ * và sau khi đọc lên từ storage backend (IndexedDB hoặc Supabase).
+ *
+ * Field được mã hóa: password, lịch sử password, notes, secret TOTP, tên và giá trị của custom fields,
+ * mọi giá trị chuỗi trong details (trừ type), tên file đính kèm.
+ * Các field khác (service, username, urls, timestamps) giữ nguyên plaintext
+ * để backend vẫn có thể sắp xếp và tìm kiếm.
+ */
+
+interface WithSecret {
+  password?: string
+  passwordHistory?: PasswordHistoryItem[]
+  notes?: string
+  totp?: string
+  customFields?: CustomField[]
+  details?: ItemDetails
+  attachments?: AttachmentMeta[]
+}
+
+// Áp dụng transform cho mọi giá trị chuỗi của details, giữ nguyên type để backend lọc theo loại
+async function mapDetailStrings(details: ItemDetails, transform: (value: string) => Promise<string>): Promise<ItemDetails> {
+  const entries = await Promise.all(Object.entries(details).map(async ([key, value]) => [
+    key,
+    key !== 'type' && typeof value === 'string' ? await transform(value) : value,
+  ]))
+  return Object.fromEntries(entries) as ItemDetails
+}
+
+// Chuỗi rỗng không cần mã hóa - tránh ciphertext cho field chưa dùng
+// Không đoán theo tiền tố enc:v1: vì plaintext của user cũng có thể bắt đầu như vậy
+async function encryptValue(value: string): Promise<string> {
+  return value === '' ? value : vaultKeyManager.encrypt(value)
+}
+
+// Giá trị cũ còn lưu plaintext được trả về nguyên trạng
+async function decryptValue(value: string): Promise<string> {
+  return isEncryptedValue(value) ? vaultKeyManager.decrypt(value) : value
+}
+
+/**
+ * Mã hóa secrets của entry - dùng trước khi ghi xuống backend
+ * Entry đưa vào luôn là plaintext và luôn được mã hóa. Dữ liệu đã mã hóa (LocalPasswordRecord,
+ * row Supabase) đi qua các hàm raw của backend, không qua hàm này.
+ */
+export async function encryptEntrySecrets<T extends WithSecret>(entry: T): Promise<T> {
+  const result: T = { ...entry }
+
+  if (entry.password !== undefined) {
+    result.password = await encryptValue(entry.password)
+  }
+  if (entry.passwordHistory !== undefined) {
+    result.passwordHistory = await Promise.all(entry.passwordHistory.map(async (item) => ({
+      ...item,
+      password: await encryptValue(item.password),
+    })))
+  }
+  if (entry.notes !== undefined) {
+    result.notes = await encryptValue(entry.notes)
+  }
+  if (entry.totp !== undefined) {
+    result.totp = await encryptValue(entry.totp)
+  }
+  if (entry.customFields !== undefined) {
+    result.customFields = await Promise.all(entry.customFields.map(async (field) => ({
+      ...field,
+      name: await encryptValue(field.name),
+      value: await encryptValue(field.value),
+    })))
+  }
+  if (entry.details !== undefined) {
+    result.details = await mapDetailStrings(entry.details, encryptValue)
+  }
+  if (entry.attachments !== undefined) {
+    result.attachments = await Promise.all(entry.attachments.map(async (attachment) => ({
+      ...attachment,
+      name: await encryptValue(attachment.name),
+    })))
+  }
+
+  return result
+}
+
+/**
+ * Giải mã secrets của entry - dùng sau khi đọc từ backend
+ * Entry cũ còn lưu plaintext (trước khi có mã hóa) được trả về nguyên trạng
+ * và sẽ được mã hóa ở lần cập nhật kế tiếp.
+ */
+export async function decryptEntrySecrets<T extends WithSecret>(entry: T): Promise<T> {
+  const result: T = { ...entry }
+
+  if (entry.password !== undefined) {
+    result.password = await decryptValue(entry.password)
+  }
+  if (entry.passwordHistory !== undefined) {
+    result.passwordHistory = await Promise.all(entry.passwordHistory.map(async (item) => ({
+      ...item,
+      password: await decryptValue(item.password),
+    })))
+  }
+  if (entry.notes !== undefined) {
+    result.notes = await decryptValue(entry.notes)
+  }
+  if (entry.totp !== undefined) {
+    result.totp = await decryptValue(entry.totp)
+  }
+  if (entry.customFields !== undefined) {
+    result.customFields = await Promise.all(entry.customFields.map(async (field) => ({
+      ...field,
+      name: await decryptValue(field.name),
+      value: await decryptValue(field.value),
+    })))
+  }
+  if (entry.details !== undefined) {
+    result.details = await mapDetailStrings(entry.details, decryptValue)
+  }
+  if (entry.attachments !== undefined) {
+    result.attachments = await Promise.all(entry.attachments.map(async (attachment) => ({
+      ...attachment,
+      name: await decryptValue(attachment.name),
+    })))
+  }
+
+  return result
+}
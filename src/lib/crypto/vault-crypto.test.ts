@@ -0,0 +1,78 @@
+// @vitest-environment node
+// WebCrypto của Node không nhận ArrayBuffer tạo trong realm của jsdom
+import { describe, expect, it } from 'vitest'
+import {
+  ENCRYPTED_VALUE_PREFIX,
+  base64ToBytes,
+  bytesToBase64,
+  createKdfParams,
+  decryptBytes,
+  decryptString,
+  deriveVaultKey,
+  encryptBytes,
+  encryptString,
+  isEncryptedValue,
+} from './vault-crypto'
+
+// Ít iterations để test chạy nhanh - thuật toán giống hệt với mặc định
+const TEST_ITERATIONS = 1000
+
+describe('vault-crypto', () => {
+  it('mã hóa rồi giải mã chuỗi (kể cả tiếng Việt) về đúng plaintext', async () => {
+    const key = await deriveVaultKey('master-password', createKdfParams(TEST_ITERATIONS))
+    const payload = await encryptString(key, 'Mật khẩu: đăng nhập 🔐')
+
+    expect(payload.startsWith(ENCRYPTED_VALUE_PREFIX)).toBe(true)
+    expect(isEncryptedValue(payload)).toBe(true)
+    expect(await decryptString(key, payload)).toBe('Mật khẩu: đăng nhập 🔐')
+  })
+
+  it('dùng IV ngẫu nhiên nên cùng plaintext cho ciphertext khác nhau', async () => {
+    const key = await deriveVaultKey('master-password', createKdfParams(TEST_ITERATIONS))
+    expect(await encryptString(key, 'secret')).not.toBe(await encryptString(key, 'secret'))
+  })
+
+  it('derive cùng key từ cùng master password và salt', async () => {
+    const params = createKdfParams(TEST_ITERATIONS)
+    const payload = await encryptString(await deriveVaultKey('master-password', params), 'secret')
+    expect(await decryptString(await deriveVaultKey('master-password', params), payload)).toBe('secret')
+  })
+
+  it('không giải mã được với master password hoặc salt khác', async () => {
+    const params = createKdfParams(TEST_ITERATIONS)
+    const payload = await encryptString(await deriveVaultKey('master-password', params), 'secret')
+
+    await expect(decryptString(await deriveVaultKey('wrong-password', params), payload)).rejects.toThrow()
+    await expect(decryptString(await deriveVaultKey('master-password', createKdfParams(TEST_ITERATIONS)), payload)).rejects.toThrow()
+  })
+
+  it('phát hiện ciphertext bị sửa nhờ auth tag của AES-GCM', async () => {
+    const key = await deriveVaultKey('master-password', createKdfParams(TEST_ITERATIONS))
+    const payload = await encryptString(key, 'secret')
+    const [iv, data] = payload.slice(ENCRYPTED_VALUE_PREFIX.length).split(':')
+    const bytes = base64ToBytes(data)
+    bytes[0] ^= 0xff
+
+    await expect(decryptString(key, `${ENCRYPTED_VALUE_PREFIX}${iv}:${bytesToBase64(bytes)}`)).rejects.toThrow()
+  })
+
+  it('từ chối giá trị không phải payload của vault', async () => {
+    const key = await deriveVaultKey('master-password', createKdfParams(TEST_ITERATIONS))
+    await expect(decryptString(key, 'plaintext')).rejects.toThrow('Value is not an encrypted vault payload')
+    await expect(decryptString(key, `${ENCRYPTED_VALUE_PREFIX}abc`)).rejects.toThrow('Malformed encrypted vault payload')
+  })
+
+  it('mã hóa rồi giải mã dữ liệu nhị phân', async () => {
+    const key = await deriveVaultKey('master-password', createKdfParams(TEST_ITERATIONS))
+    const data = new Uint8Array([0, 1, 2, 253, 254, 255])
+    const payload = await encryptBytes(key, data.buffer)
+
+    expect(new Uint8Array(await decryptBytes(key, payload))).toEqual(data)
+    await expect(decryptBytes(key, payload.subarray(0, 5))).rejects.toThrow('Malformed encrypted vault payload')
+  })
+
+  it('chuyển đổi base64 hai chiều', () => {
+    const bytes = new Uint8Array(Array.from({ length: 256 }, (_, index) => index))
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes)
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * Vault Crypto - các primitive mã hóa dựa trên WebCrypto
+ *
+ * - Key derivation: PBKDF2-SHA256 từ master password + salt ngẫu nhiên
+ * - Mã hóa: AES-GCM 256-bit với IV 12 byte ngẫu nhiên cho mỗi lần mã hóa
+ *
+ * Ciphertext được đóng gói thành chuỗi `enc:v1:<iv>:<data>` (base64)
+ * để lưu được vào cột text của Supabase lẫn IndexedDB.
+ * Dữ liệu nhị phân (file đính kèm) được đóng gói thành bytes `<version><iv><data>`
+ * để không phình kích thước vì base64.
+ */
+
+export const ENCRYPTED_VALUE_PREFIX = 'enc:v1:'
+
+const AES_KEY_LENGTH = 256
+const IV_LENGTH = 12
+const SALT_LENGTH = 16
+const ENCRYPTED_BYTES_VERSION = 1
+
+// Số vòng lặp PBKDF2 theo khuyến nghị OWASP cho SHA-256
+export const DEFAULT_KDF_ITERATIONS = 600_000
+
+/**
+ * Tham số key derivation, được lưu cùng vault để derive lại key khi unlock
+ */
+export interface KdfParams {
+  algorithm: 'PBKDF2-SHA256'
+  iterations: number
+  salt: string // base64
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/**
+ * Encode bytes sang base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+/**
+ * Decode base64 sang bytes
+ */
+export function base64ToBytes(value: string) {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Sinh bytes ngẫu nhiên an toàn
+ */
+export function randomBytes(length: number) {
+  return crypto.getRandomValues(new Uint8Array(length))
+}
+
+/**
+ * Tạo bộ tham số KDF mới với salt ngẫu nhiên
+ */
+export function createKdfParams(iterations: number = DEFAULT_KDF_ITERATIONS): KdfParams {
+  return {
+    algorithm: 'PBKDF2-SHA256',
+    iterations,
+    salt: bytesToBase64(randomBytes(SALT_LENGTH)),
+  }
+}
+
+/**
+ * Derive AES-GCM key từ master password
+ * Key được tạo non-extractable nên không thể đọc ra khỏi WebCrypto
+ */
+export async function deriveVaultKey(masterPassword: string, params: KdfParams): Promise<CryptoKey> {
+  if (params.algorithm !== 'PBKDF2-SHA256') {
+    throw new Error(`Unsupported KDF algorithm: ${params.algorithm}`)
+  }
+
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(masterPassword),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      salt: base64ToBytes(params.salt),
+      iterations: params.iterations,
+    },
+    baseKey,
+    { name: 'AES-GCM', length: AES_KEY_LENGTH },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Kiểm tra một giá trị đã được mã hóa bởi vault hay chưa
+ */
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_VALUE_PREFIX)
+}
+
+/**
+ * Mã hóa chuỗi plaintext bằng AES-GCM
+ * @returns Chuỗi dạng `enc:v1:<iv>:<ciphertext>`
+ */
+export async function encryptString(key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = randomBytes(IV_LENGTH)
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    encoder.encode(plaintext)
+  )
+
+  return `${ENCRYPTED_VALUE_PREFIX}${bytesToBase64(iv)}:${bytesToBase64(new Uint8Array(ciphertext))}`
+}
+
+/**
+ * Giải mã chuỗi đã mã hóa bởi encryptString
+ * AES-GCM tự kiểm tra auth tag nên sẽ throw nếu sai key hoặc dữ liệu bị sửa
+ */
+export async function decryptString(key: CryptoKey, payload: string): Promise<string> {
+  if (!isEncryptedValue(payload)) {
+    throw new Error('Value is not an encrypted vault payload')
+  }
+
+  const [ivPart, dataPart] = payload.slice(ENCRYPTED_VALUE_PREFIX.length).split(':')
+  if (!ivPart || !dataPart) {
+    throw new Error('Malformed encrypted vault payload')
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(ivPart) },
+    key,
+    base64ToBytes(dataPart)
+  )
+
+  return decoder.decode(plaintext)
+}
+
+/**
+ * Mã hóa dữ liệu nhị phân bằng AES-GCM
+ * @returns Bytes dạng `<version (1 byte)><iv (12 byte)><ciphertext + auth tag>`
+ */
+export async function encryptBytes(key: CryptoKey, data: ArrayBuffer): Promise<Uint8Array> {
+  const iv = randomBytes(IV_LENGTH)
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data)
+
+  const payload = new Uint8Array(1 + IV_LENGTH + ciphertext.byteLength)
+  payload[0] = ENCRYPTED_BYTES_VERSION
+  payload.set(iv, 1)
+  payload.set(new Uint8Array(ciphertext), 1 + IV_LENGTH)
+  return payload
+}
+
+/**
+ * Giải mã bytes đã mã hóa bởi encryptBytes
+ */
+export async function decryptBytes(key: CryptoKey, payload: ArrayBuffer | Uint8Array): Promise<ArrayBuffer> {
+  const bytes = new Uint8Array(payload)
+  if (bytes.length <= 1 + IV_LENGTH || bytes[0] !== ENCRYPTED_BYTES_VERSION) {
+    throw new Error('Malformed encrypted vault payload')
+  }
+
+  return crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.subarray(1, 1 + IV_LENGTH) },
+    key,
+    bytes.subarray(1 + IV_LENGTH)
+  )
+}
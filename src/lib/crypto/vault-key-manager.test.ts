@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { vaultKeyManager, type VaultMetadata, type VaultMetadataStore } from './vault-key-manager'
+
+const MASTER_PASSWORD = 'correct horse battery'
+// Mỗi lần derive key dùng KDF mặc định (600k vòng PBKDF2)
+const KDF_TIMEOUT = 30_000
+
+/**
+ * Metadata store trong bộ nhớ thay cho bảng vault_keys
+ * save chỉ ghi lần đầu như insert phía server
+ */
+const createStore = (userId: string, initial: VaultMetadata | null = null) => {
+  let saved = initial
+  const store: VaultMetadataStore = {
+    userId,
+    load: async () => saved,
+    save: async (metadata) => (saved ??= metadata),
+  }
+  return { store, current: () => saved }
+}
+
+// Gắn store và chờ tải metadata xong
+const attach = async (store: VaultMetadataStore | null) => {
+  vaultKeyManager.setMetadataStore(store)
+  await vi.waitFor(() => expect(vaultKeyManager.isMetadataLoading()).toBe(false))
+}
+
+// Metadata do thiết bị khác tạo cho cùng user
+const metadataFromAnotherDevice = async (userId: string) => {
+  const other = createStore(userId)
+  await attach(other.store)
+  await vaultKeyManager.setupMasterPassword(MASTER_PASSWORD)
+  vaultKeyManager.lock()
+  localStorage.clear()
+  await attach(null)
+  return other.current()
+}
+
+describe('VaultKeyManager', () => {
+  beforeEach(async () => {
+    vaultKeyManager.lock()
+    localStorage.clear()
+    await attach(null)
+  })
+
+  it('thiết lập master password, khóa và mở khóa lại', async () => {
+    expect(vaultKeyManager.isInitialized()).toBe(false)
+
+    await vaultKeyManager.setupMasterPassword(MASTER_PASSWORD)
+    expect(vaultKeyManager.isUnlocked()).toBe(true)
+    await expect(vaultKeyManager.setupMasterPassword(MASTER_PASSWORD)).rejects.toThrow('Vault đã được thiết lập master password')
+
+    vaultKeyManager.lock()
+    expect(await vaultKeyManager.unlock('wrong password')).toBe(false)
+    expect(await vaultKeyManager.unlock(MASTER_PASSWORD)).toBe(true)
+  }, KDF_TIMEOUT)
+
+  it('lưu metadata vào store khi thiết lập và mở khóa được trên thiết bị mới', async () => {
+    const { store, current } = createStore('user-setup')
+    await attach(store)
+    await vaultKeyManager.setupMasterPassword(MASTER_PASSWORD)
+    expect(current()).not.toBeNull()
+
+    // Thiết bị mới: không có cache local, chỉ có metadata trên server
+    vaultKeyManager.lock()
+    localStorage.clear()
+    await attach(null)
+    expect(vaultKeyManager.isInitialized()).toBe(false)
+
+    await attach(createStore('user-new-device', current()).store)
+    expect(vaultKeyManager.isInitialized()).toBe(true)
+    expect(await vaultKeyManager.unlock(MASTER_PASSWORD)).toBe(true)
+  }, KDF_TIMEOUT)
+
+  it('không dùng cache local của user khác', async () => {
+    await attach(createStore('user-a').store)
+    await vaultKeyManager.setupMasterPassword(MASTER_PASSWORD)
+    vaultKeyManager.lock()
+
+    await attach(createStore('user-b').store)
+    expect(vaultKeyManager.isInitialized()).toBe(false)
+    await expect(vaultKeyManager.unlock(MASTER_PASSWORD)).rejects.toThrow('Vault chưa được thiết lập master password')
+  }, KDF_TIMEOUT)
+
+  it('đẩy cache cũ chưa gắn user lên store', async () => {
+    await vaultKeyManager.setupMasterPassword(MASTER_PASSWORD)
+    vaultKeyManager.lock()
+
+    const { store, current } = createStore('user-legacy')
+    await attach(store)
+    expect(current()).not.toBeNull()
+    expect(await vaultKeyManager.unlock(MASTER_PASSWORD)).toBe(true)
+  }, KDF_TIMEOUT)
+
+  it('từ chối thiết lập khi thiết bị khác đã lưu metadata trước', async () => {
+    const existing = await metadataFromAnotherDevice('user-race')
+    // Lần tải đầu chưa thấy metadata, lúc lưu thì thiết bị khác đã lưu xong
+    const store: VaultMetadataStore = { userId: 'user-race', load: async () => null, save: async () => existing! }
+    await attach(store)
+
+    await expect(vaultKeyManager.setupMasterPassword('another master password')).rejects.toThrow('trên thiết bị khác')
+    expect(vaultKeyManager.isUnlocked()).toBe(false)
+    expect(await vaultKeyManager.unlock(MASTER_PASSWORD)).toBe(true)
+  }, KDF_TIMEOUT * 2)
+
+  it('giữ cache của đúng user khi không tải được metadata', async () => {
+    const { store } = createStore('user-offline')
+    await attach(store)
+    await vaultKeyManager.setupMasterPassword(MASTER_PASSWORD)
+    vaultKeyManager.lock()
+    await attach(null)
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await attach({ ...store, load: async () => { throw new Error('offline') } })
+    expect(await vaultKeyManager.unlock(MASTER_PASSWORD)).toBe(true)
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  }, KDF_TIMEOUT)
+})
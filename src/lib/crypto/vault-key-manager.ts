@@ -0,0 +1,296 @@
+import {
+  KdfParams,
+  createKdfParams,
+  decryptBytes,
+  decryptString,
+  deriveVaultKey,
+  encryptBytes,
+  encryptString,
+} from './vault-crypto'
+
+// Giá trị cố định được mã hóa để kiểm tra master password khi unlock
+const VERIFIER_PLAINTEXT = 'memory-safe-guard-vault-verifier'
+const VAULT_METADATA_KEY = 'memory-safe-guard-vault'
+
+// Độ dài tối thiểu của master password
+export const MIN_MASTER_PASSWORD_LENGTH = 8
+
+/**
+ * Metadata của vault
+ * Chỉ chứa tham số KDF và verifier đã mã hóa - không bao giờ chứa key hay master password
+ */
+export interface VaultMetadata {
+  version: 1
+  kdf: KdfParams
+  verifier: string
+}
+
+/**
+ * Nơi lưu metadata phía server cho user đang đăng nhập
+ * localStorage chỉ là bản cache để mở khóa khi offline
+ */
+export interface VaultMetadataStore {
+  userId: string
+  load(): Promise<VaultMetadata | null>
+  /**
+   * Lưu metadata lần đầu, không ghi đè metadata đã có
+   * @returns Metadata thực sự được lưu (của thiết bị khác nếu đã có trước)
+   */
+  save(metadata: VaultMetadata): Promise<VaultMetadata>
+}
+
+// Bản cache trong localStorage ghi lại user sở hữu; cache cũ không có userId
+interface CachedVaultMetadata extends VaultMetadata {
+  userId?: string
+}
+
+type VaultKeyListener = () => void
+
+/**
+ * Quản lý vault key trong bộ nhớ
+ *
+ * Key chỉ tồn tại trong RAM sau khi user unlock bằng master password.
+ * Tất cả storage backend đều mã hóa/giải mã secrets thông qua class này.
+ */
+export class VaultKeyManager {
+  private static instance: VaultKeyManager
+  private key: CryptoKey | null = null
+  private listeners = new Set<VaultKeyListener>()
+  private metadataStore: VaultMetadataStore | null = null
+  private metadataLoading = false
+  private pendingRefresh: Promise<void> | null = null
+
+  private constructor() {}
+
+  // Phương thức Singleton để lấy instance của VaultKeyManager
+  public static getInstance(): VaultKeyManager {
+    if (!VaultKeyManager.instance) {
+      VaultKeyManager.instance = new VaultKeyManager()
+    }
+    return VaultKeyManager.instance
+  }
+
+  private readCache(): CachedVaultMetadata | null {
+    try {
+      const raw = localStorage.getItem(VAULT_METADATA_KEY)
+      return raw ? (JSON.parse(raw) as CachedVaultMetadata) : null
+    } catch {
+      return null
+    }
+  }
+
+  private writeCache(metadata: VaultMetadata, userId: string | undefined): void {
+    const cached: CachedVaultMetadata = { version: metadata.version, kdf: metadata.kdf, verifier: metadata.verifier, userId }
+    localStorage.setItem(VAULT_METADATA_KEY, JSON.stringify(cached))
+  }
+
+  /**
+   * Metadata dùng để unlock: khi đã đăng nhập chỉ dùng cache của đúng user đó (hoặc cache cũ chưa gắn user)
+   */
+  private readMetadata(): VaultMetadata | null {
+    const cached = this.readCache()
+    if (!cached) return null
+    const owner = cached.userId
+    if (this.metadataStore && owner !== undefined && owner !== this.metadataStore.userId) return null
+    return cached
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+
+  /**
+   * Vault đã được thiết lập master password hay chưa
+   */
+  public isInitialized(): boolean {
+    return this.readMetadata() !== null
+  }
+
+  /**
+   * Đang tải metadata từ server sau khi đăng nhập
+   * Chưa tải xong thì chưa biết vault đã được thiết lập trên thiết bị khác hay chưa
+   */
+  public isMetadataLoading(): boolean {
+    return this.metadataLoading
+  }
+
+  /**
+   * Gắn metadata store của user đang đăng nhập, null khi đăng xuất (chỉ dùng cache local)
+   */
+  public setMetadataStore(store: VaultMetadataStore | null): void {
+    if (store?.userId === this.metadataStore?.userId) return
+
+    this.metadataStore = store
+    this.pendingRefresh = null
+    this.metadataLoading = store !== null
+    this.notify()
+
+    if (!store) return
+    this.refreshMetadata().finally(() => {
+      if (this.metadataStore !== store) return
+      this.metadataLoading = false
+      this.notify()
+    })
+  }
+
+  /**
+   * Tải metadata của user từ server và cập nhật cache local
+   *
+   * - Server đã có metadata: dùng metadata đó
+   * - Server chưa có, cache local là của user này hoặc từ trước khi có bảng vault_keys: đẩy cache lên
+   * - Không kết nối được: giữ cache nếu đúng user để vẫn mở khóa được khi offline
+   */
+  public refreshMetadata(): Promise<void> {
+    const store = this.metadataStore
+    if (!store) return Promise.resolve()
+
+    if (!this.pendingRefresh) {
+      const refresh = this.loadMetadata(store).finally(() => {
+        if (this.pendingRefresh === refresh) this.pendingRefresh = null
+      })
+      this.pendingRefresh = refresh
+    }
+    return this.pendingRefresh
+  }
+
+  private async loadMetadata(store: VaultMetadataStore): Promise<void> {
+    try {
+      let metadata = await store.load()
+      if (!metadata) {
+        const cached = this.readCache()
+        if (!cached || (cached.userId !== undefined && cached.userId !== store.userId)) return
+        metadata = await store.save({ version: cached.version, kdf: cached.kdf, verifier: cached.verifier })
+      }
+      if (this.metadataStore !== store) return
+      this.writeCache(metadata, store.userId)
+      this.notify()
+    } catch (error) {
+      console.warn('Không thể tải metadata vault từ server, dùng bản cache:', error)
+    }
+  }
+
+  /**
+   * Vault đang mở khóa (key có trong bộ nhớ)
+   */
+  public isUnlocked(): boolean {
+    return this.key !== null
+  }
+
+  /**
+   * Thiết lập master password lần đầu và mở khóa vault
+   */
+  public async setupMasterPassword(masterPassword: string): Promise<void> {
+    await this.refreshMetadata()
+    if (this.isInitialized()) {
+      throw new Error('Vault đã được thiết lập master password')
+    }
+    if (masterPassword.length < MIN_MASTER_PASSWORD_LENGTH) {
+      throw new Error(`Master password phải có ít nhất ${MIN_MASTER_PASSWORD_LENGTH} ký tự`)
+    }
+
+    const kdf = createKdfParams()
+    const key = await deriveVaultKey(masterPassword, kdf)
+    const metadata: VaultMetadata = {
+      version: 1,
+      kdf,
+      verifier: await encryptString(key, VERIFIER_PLAINTEXT),
+    }
+
+    // Lưu lên server trước: thiết bị khác có thể đã thiết lập trong lúc này
+    const store = this.metadataStore
+    const saved = store ? await store.save(metadata) : metadata
+    this.writeCache(saved, store?.userId)
+    if (saved.verifier !== metadata.verifier) {
+      this.notify()
+      throw new Error('Vault đã được thiết lập master password trên thiết bị khác')
+    }
+
+    this.key = key
+    this.notify()
+  }
+
+  /**
+   * Mở khóa vault bằng master password
+   * @returns true nếu master password đúng
+   */
+  public async unlock(masterPassword: string): Promise<boolean> {
+    await this.refreshMetadata()
+    const metadata = this.readMetadata()
+    if (!metadata) {
+      throw new Error('Vault chưa được thiết lập master password')
+    }
+
+    const key = await deriveVaultKey(masterPassword, metadata.kdf)
+    try {
+      const verifier = await decryptString(key, metadata.verifier)
+      if (verifier !== VERIFIER_PLAINTEXT) {
+        return false
+      }
+    } catch {
+      // AES-GCM auth tag không khớp => sai master password
+      return false
+    }
+
+    this.key = key
+    this.notify()
+    return true
+  }
+
+  /**
+   * Khóa vault - xóa key khỏi bộ nhớ
+   */
+  public lock(): void {
+    if (!this.key) return
+    this.key = null
+    this.notify()
+  }
+
+  /**
+   * Đăng ký lắng nghe thay đổi trạng thái lock/unlock và metadata của vault
+   * @returns Hàm hủy đăng ký
+   */
+  public subscribe(listener: VaultKeyListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private requireKey(): CryptoKey {
+    if (!this.key) {
+      throw new Error('Vault đang bị khóa')
+    }
+    return this.key
+  }
+
+  /**
+   * Mã hóa một secret bằng vault key hiện tại
+   */
+  public async encrypt(plaintext: string): Promise<string> {
+    return encryptString(this.requireKey(), plaintext)
+  }
+
+  /**
+   * Giải mã một secret bằng vault key hiện tại
+   */
+  public async decrypt(payload: string): Promise<string> {
+    return decryptString(this.requireKey(), payload)
+  }
+
+  /**
+   * Mã hóa dữ liệu nhị phân (file đính kèm) bằng vault key hiện tại
+   */
+  public async encryptBytes(data: ArrayBuffer): Promise<Uint8Array> {
+    return encryptBytes(this.requireKey(), data)
+  }
+
+  /**
+   * Giải mã dữ liệu nhị phân bằng vault key hiện tại
+   */
+  public async decryptBytes(payload: ArrayBuffer | Uint8Array): Promise<ArrayBuffer> {
+    return decryptBytes(this.requireKey(), payload)
+  }
+}
+
+// Export instance mặc định
+export const vaultKeyManager = VaultKeyManager.getInstance()
@@ -1,23 +1,106 @@
-// Định nghĩa interface cho đối tượng mật khẩu
-export interface PasswordEntry {
+import { decryptEntrySecrets, encryptEntrySecrets } from '@/lib/crypto/entry-cipher';
+import { vaultKeyManager } from '@/lib/crypto/vault-key-manager';
+import type { PasswordEntry, CreatePasswordEntry, NewAttachment, UpdatePasswordEntry } from '@/lib/types/password';
+import type { Folder, CreateFolder, FolderDeleteMode, UpdateFolder } from '@/lib/types/folder';
+import { planFolderDelete, validateFolderData } from '@/lib/folders/folder-tree';
+import { collectTags } from '@/lib/tags/tags';
+import { appendPasswordHistory } from '@/lib/history/password-history';
+import { isTrashed, sortByDeletedAtDesc } from '@/lib/trash/trash';
+import { createAttachmentMeta, getAttachmentQuotaError, getAttachmentUsage } from '@/lib/attachments/attachments';
+import { SearchIndex } from '@/lib/search/search-index';
+import { getRankingText, hasQueryClause, parseSearchQuery } from '@/lib/search/query-parser';
+import { createQueryMatcher } from '@/lib/search/query-matcher';
+import { matchesSearchFilters, type PasswordSearchFilters } from '@/lib/storage/vault-storage';
+
+// Re-export để giữ tương thích với các import hiện tại
+export type { PasswordEntry };
+
+/**
+ * Bản ghi mật khẩu được lưu trong IndexedDB
+ * Secrets đã được mã hóa, kèm metadata đồng bộ với Supabase
+ */
+export interface LocalPasswordRecord extends PasswordEntry {
+  // updated_at của bản trên Supabase ở lần đồng bộ gần nhất (undefined nếu chưa từng đồng bộ)
+  syncedAt?: string;
+}
+
+/**
+ * Một thay đổi cục bộ đang chờ đẩy lên Supabase
+ * Mỗi entry chỉ giữ thay đổi mới nhất (keyPath là entryId)
+ */
+export interface SyncQueueItem {
+  entryId: string;
+  op: 'upsert' | 'delete';
+  queuedAt: string;
+  // updated_at phía remote mà thay đổi này dựa trên - dùng để phát hiện xung đột
+  baseSyncedAt?: string;
+}
+
+/**
+ * Folder được lưu trong IndexedDB kèm metadata đồng bộ
+ */
+export interface LocalFolderRecord extends Folder {
+  syncedAt?: string;
+}
+
+/**
+ * Thay đổi folder chờ đẩy lên Supabase
+ * Folder dùng last-write-wins nên không cần baseSyncedAt
+ */
+export interface FolderSyncQueueItem {
+  folderId: string;
+  op: 'upsert' | 'delete';
+  queuedAt: string;
+}
+
+/**
+ * Nội dung file đính kèm đã mã hóa (vaultKeyManager.encryptBytes), keyPath là id của attachment
+ */
+export interface AttachmentBlobRecord {
   id: string;
-  service: string;
-  username: string;
-  password: string;
-  createdAt: string;
-  updatedAt: string;
+  entryId: string;
+  data: Uint8Array;
 }
 
+/**
+ * Thay đổi file đính kèm chờ đẩy lên Supabase Storage
+ * Metadata nằm trong entry nên đi theo syncQueue, hàng đợi này chỉ lo nội dung file
+ */
+export interface AttachmentSyncQueueItem {
+  attachmentId: string;
+  entryId: string;
+  op: 'upload' | 'delete';
+  queuedAt: string;
+}
+
+type LocalChangeListener = () => void;
+
+// Database gốc: dữ liệu tạo trước khi đăng nhập và của user đầu tiên đăng nhập trên thiết bị
+const DEFAULT_DB_NAME = 'memorySafeGuardDB';
+
 // Lớp quản lý cơ sở dữ liệu sử dụng IndexedDB
 export class DatabaseManager {
-  private dbName = 'memorySafeGuardDB';
-  private dbVersion = 1;
+  private dbName = DEFAULT_DB_NAME;
+  private dbVersion = 4;
   private db: IDBDatabase | null = null;
   private static instance: DatabaseManager;
+  private listeners = new Set<LocalChangeListener>();
+  // Chỉ mục tìm kiếm trên entry đã giải mã - dựng lần đầu khi tìm kiếm,
+  // sau đó chỉ giải mã lại các entry bị thay đổi (staleSearchIds)
+  private searchIndex = new SearchIndex();
+  private searchIndexReady = false;
+  private staleSearchIds = new Set<string>();
 
   private constructor() {
     // Khởi tạo cơ sở dữ liệu khi tạo instance
     this.initDatabase();
+
+    // Không giữ plaintext trong bộ nhớ khi vault đã khóa
+    vaultKeyManager.subscribe(() => {
+      if (!vaultKeyManager.isUnlocked()) {
+        this.resetSearchIndex();
+      }
+    });
   }
 
   // Phương thức Singleton để lấy instance của DatabaseManager
@@ -30,8 +113,9 @@ export class DatabaseManager {
 
   // Khởi tạo cơ sở dữ liệu
   private initDatabase(): Promise<void> {
+    const dbName = this.dbName;
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, this.dbVersion);
+      const request = indexedDB.open(dbName, this.dbVersion);
 
       request.onerror = (event) => {
         console.error('Lỗi khi mở cơ sở dữ liệu:', event);
@@ -39,23 +123,51 @@ export class DatabaseManager {
       };
 
       request.onsuccess = (event) => {
-        this.db = (event.target as IDBOpenDBRequest).result;
+        const db = (event.target as IDBOpenDBRequest).result;
+        // Đã chuyển sang database khác trong lúc đang mở
+        if (dbName !== this.dbName) {
+          db.close();
+          resolve();
+          return;
+        }
+        this.db = db;
         console.log('Đã kết nối thành công đến cơ sở dữ liệu');
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
-        
+
         // Tạo object store cho mật khẩu nếu chưa tồn tại
         if (!db.objectStoreNames.contains('passwords')) {
           const store = db.createObjectStore('passwords', { keyPath: 'id' });
-          
+
           // Tạo các chỉ mục để tìm kiếm nhanh hơn
           store.createIndex('service', 'service', { unique: false });
           store.createIndex('username', 'username', { unique: false });
           store.createIndex('updatedAt', 'updatedAt', { unique: false });
         }
+
+        // v2: hàng đợi thay đổi cục bộ chờ đồng bộ lên Supabase
+        if (!db.objectStoreNames.contains('syncQueue')) {
+          db.createObjectStore('syncQueue', { keyPath: 'entryId' });
+        }
+
+        // v3: thư mục lồng nhau và hàng đợi đồng bộ riêng cho thư mục
+        if (!db.objectStoreNames.contains('folders')) {
+          db.createObjectStore('folders', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('folderSyncQueue')) {
+          db.createObjectStore('folderSyncQueue', { keyPath: 'folderId' });
+        }
+
+        // v4: nội dung file đính kèm đã mã hóa và hàng đợi đồng bộ file
+        if (!db.objectStoreNames.contains('attachmentBlobs')) {
+          db.createObjectStore('attachmentBlobs', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('attachmentSyncQueue')) {
+          db.createObjectStore('attachmentSyncQueue', { keyPath: 'attachmentId' });
+        }
       };
     });
   }
@@ -71,18 +183,153 @@ export class DatabaseManager {
     return this.db;
   }
 
-  // Lấy tất cả mật khẩu
-  public async getAllPasswords(): Promise<PasswordEntry[]> {
+  // Chờ transaction hoàn tất
+  private waitForTransaction(transaction: IDBTransaction, errorMessage: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error(errorMessage));
+      transaction.onabort = () => reject(new Error(errorMessage));
+    });
+  }
+
+  // Ghi thay đổi vào hàng đợi đồng bộ, giữ nguyên baseSyncedAt nếu entry đã có thay đổi chờ
+  private enqueueChange(queueStore: IDBObjectStore, record: LocalPasswordRecord, op: SyncQueueItem['op']): void {
+    const getRequest = queueStore.get(record.id);
+    getRequest.onsuccess = () => {
+      const pending = getRequest.result as SyncQueueItem | undefined;
+
+      // Entry chưa từng lên Supabase bị xóa trước khi đồng bộ - không cần đẩy gì
+      if (op === 'delete' && !record.syncedAt && !pending?.baseSyncedAt) {
+        queueStore.delete(record.id);
+        return;
+      }
+
+      const item: SyncQueueItem = {
+        entryId: record.id,
+        op,
+        queuedAt: new Date().toISOString(),
+        baseSyncedAt: pending ? pending.baseSyncedAt : record.syncedAt,
+      };
+      queueStore.put(item);
+    };
+  }
+
+  // Ghi thay đổi folder vào hàng đợi đồng bộ
+  private enqueueFolderChange(queueStore: IDBObjectStore, record: LocalFolderRecord, op: FolderSyncQueueItem['op']): void {
+    // Folder chưa từng lên Supabase bị xóa - chỉ cần bỏ thay đổi đang chờ
+    if (op === 'delete' && !record.syncedAt) {
+      queueStore.delete(record.id);
+      return;
+    }
+    const item: FolderSyncQueueItem = { folderId: record.id, op, queuedAt: new Date().toISOString() };
+    queueStore.put(item);
+  }
+
+  // Ghi thay đổi file đính kèm vào hàng đợi đồng bộ
+  private enqueueAttachmentChange(queueStore: IDBObjectStore, entryId: string, attachmentId: string, op: AttachmentSyncQueueItem['op']): void {
+    const item: AttachmentSyncQueueItem = { attachmentId, entryId, op, queuedAt: new Date().toISOString() };
+    if (op === 'upload') {
+      queueStore.put(item);
+      return;
+    }
+
+    const getRequest = queueStore.get(attachmentId);
+    getRequest.onsuccess = () => {
+      // File chưa từng lên Supabase Storage bị xóa - chỉ cần bỏ lượt upload đang chờ
+      if ((getRequest.result as AttachmentSyncQueueItem | undefined)?.op === 'upload') {
+        queueStore.delete(attachmentId);
+      } else {
+        queueStore.put(item);
+      }
+    };
+  }
+
+  // Xóa nội dung mọi file đính kèm của entry bị xóa vĩnh viễn
+  private removeAttachmentBlobs(blobStore: IDBObjectStore, queueStore: IDBObjectStore, record: LocalPasswordRecord): void {
+    (record.attachments ?? []).forEach((attachment) => {
+      blobStore.delete(attachment.id);
+      this.enqueueAttachmentChange(queueStore, record.id, attachment.id, 'delete');
+    });
+  }
+
+  // Đọc toàn bộ một object store
+  private async getAllFromStore<T>(storeName: string, errorMessage: string): Promise<T[]> {
+    const db = await this.ensureDbReady();
+
+    return new Promise((resolve, reject) => {
+      const request = db.transaction([storeName], 'readonly').objectStore(storeName).getAll();
+      request.onsuccess = () => resolve(request.result as T[]);
+      request.onerror = () => reject(new Error(errorMessage));
+    });
+  }
+
+  // Thông báo có thay đổi cục bộ (dùng để kích hoạt đồng bộ)
+  private notifyLocalChange(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Đánh dấu entry cần index lại ở lần tìm kiếm tiếp theo
+  private markSearchStale(ids: string[]): void {
+    ids.forEach((id) => this.staleSearchIds.add(id));
+  }
+
+  // Hủy toàn bộ chỉ mục tìm kiếm, dựng lại ở lần tìm kiếm tiếp theo
+  private resetSearchIndex(): void {
+    this.searchIndex.clear();
+    this.searchIndexReady = false;
+    this.staleSearchIds.clear();
+  }
+
+  // Đảm bảo chỉ mục tìm kiếm phản ánh dữ liệu hiện tại
+  private async ensureSearchIndex(): Promise<SearchIndex> {
+    if (!this.searchIndexReady) {
+      this.staleSearchIds.clear();
+      this.searchIndex.replaceAll(await this.getAllPasswords());
+      this.searchIndexReady = true;
+      return this.searchIndex;
+    }
+
+    const staleIds = Array.from(this.staleSearchIds);
+    this.staleSearchIds.clear();
+    for (const id of staleIds) {
+      const record = await this.getRawPassword(id);
+      if (record && !isTrashed(record)) {
+        this.searchIndex.upsert(await decryptEntrySecrets(this.toPasswordEntry(record)));
+      } else {
+        this.searchIndex.remove(id);
+      }
+    }
+    return this.searchIndex;
+  }
+
+  // Bỏ metadata đồng bộ trước khi trả entry ra ngoài
+  private toPasswordEntry({ syncedAt, ...entry }: LocalPasswordRecord): PasswordEntry {
+    return entry;
+  }
+
+  /**
+   * Đăng ký lắng nghe thay đổi cục bộ (add/update/delete từ UI)
+   * @returns Hàm hủy đăng ký
+   */
+  public subscribe(listener: LocalChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Lấy tất cả bản ghi gốc (chưa giải mã), sắp xếp theo updatedAt giảm dần
+  public async getRawPasswords(): Promise<LocalPasswordRecord[]> {
     const db = await this.ensureDbReady();
-    
+
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(['passwords'], 'readonly');
       const store = transaction.objectStore('passwords');
       const index = store.index('updatedAt');
       const request = index.openCursor(null, 'prev'); // Sắp xếp theo updatedAt giảm dần
-      
-      const passwords: PasswordEntry[] = [];
-      
+
+      const passwords: LocalPasswordRecord[] = [];
+
       request.onsuccess = (event) => {
         const cursor = (event.target as IDBRequest).result;
         if (cursor) {
@@ -92,112 +339,766 @@ export class DatabaseManager {
           resolve(passwords);
         }
       };
-      
+
       request.onerror = (event) => {
         reject(new Error('Lỗi khi lấy dữ liệu mật khẩu'));
       };
     });
   }
 
-  // Tìm kiếm mật khẩu
-  public async searchPasswords(query: string): Promise<PasswordEntry[]> {
-    const allPasswords = await this.getAllPasswords();
-    const lowerQuery = query.toLowerCase();
-    
-    return allPasswords.filter(entry => 
-      entry.service.toLowerCase().includes(lowerQuery) || 
-      entry.username.toLowerCase().includes(lowerQuery)
-    );
-  }
-
-  // Thêm mật khẩu mới
-  public async addPassword(entry: Omit<PasswordEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<PasswordEntry> {
+  // Lấy một bản ghi gốc theo ID
+  public async getRawPassword(id: string): Promise<LocalPasswordRecord | null> {
     const db = await this.ensureDbReady();
-    
+
     return new Promise((resolve, reject) => {
-      const now = new Date().toISOString();
-      const id = Date.now().toString();
-      
-      const newEntry: PasswordEntry = {
-        id,
-        ...entry,
-        createdAt: now,
-        updatedAt: now
-      };
-      
-      const transaction = db.transaction(['passwords'], 'readwrite');
-      const store = transaction.objectStore('passwords');
-      const request = store.add(newEntry);
-      
+      const transaction = db.transaction(['passwords'], 'readonly');
+      const request = transaction.objectStore('passwords').get(id);
+
       request.onsuccess = () => {
-        resolve(newEntry);
+        resolve((request.result as LocalPasswordRecord | undefined) ?? null);
       };
-      
-      request.onerror = (event) => {
-        reject(new Error('Lỗi khi thêm mật khẩu mới'));
+
+      request.onerror = () => {
+        reject(new Error('Lỗi khi tìm mật khẩu'));
       };
     });
   }
 
-  // Cập nhật mật khẩu
-  public async updatePassword(id: string, entry: Omit<PasswordEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<PasswordEntry | null> {
+  // Lấy tất cả mật khẩu ngoài thùng rác (đã giải mã trong bộ nhớ)
+  public async getAllPasswords(): Promise<PasswordEntry[]> {
+    const records = (await this.getRawPasswords()).filter((record) => !isTrashed(record));
+    return Promise.all(records.map((record) => decryptEntrySecrets(this.toPasswordEntry(record))));
+  }
+
+  // Lấy các mật khẩu trong thùng rác, mới xóa trước
+  public async getTrashedPasswords(): Promise<PasswordEntry[]> {
+    const records = (await this.getRawPasswords()).filter(isTrashed);
+    const entries = await Promise.all(records.map((record) => decryptEntrySecrets(this.toPasswordEntry(record))));
+    return sortByDeletedAtDesc(entries);
+  }
+
+  // Tìm kiếm mật khẩu (fuzzy, xếp theo độ liên quan, hỗ trợ cú pháp tag:, folder:, age:...),
+  // lọc thêm theo folder, tag và loại item nếu có
+  public async searchPasswords(query: string, filters: PasswordSearchFilters = {}): Promise<PasswordEntry[]> {
+    const parsed = parseSearchQuery(query);
+    const index = await this.ensureSearchIndex();
+    const folders = filters.folderId !== undefined || hasQueryClause(parsed, 'folder') ? await this.getAllFolders() : [];
+    const matchesQuery = await createQueryMatcher(parsed, { folders, entries: index.entries() });
+
+    return index.search(getRankingText(parsed), (entry) => matchesSearchFilters(entry, filters, folders) && matchesQuery(entry));
+  }
+
+  // Lấy tất cả tag đang dùng (tag không mã hóa nên không cần giải mã entry)
+  public async getAllTags(): Promise<string[]> {
+    return collectTags((await this.getRawPasswords()).filter((record) => !isTrashed(record)));
+  }
+
+  // Thêm mật khẩu mới
+  public async addPassword(entry: CreatePasswordEntry): Promise<PasswordEntry> {
     const db = await this.ensureDbReady();
-    
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(['passwords'], 'readwrite');
-      const store = transaction.objectStore('passwords');
-      const getRequest = store.get(id);
-      
+    // Mã hóa secrets trước khi ghi xuống IndexedDB
+    const encrypted = await encryptEntrySecrets(entry);
+
+    const now = new Date().toISOString();
+    // UUID để có thể dùng làm khóa chính trên Supabase khi đồng bộ
+    const newEntry: LocalPasswordRecord = {
+      id: crypto.randomUUID(),
+      ...encrypted,
+      passwordChangedAt: entry.passwordChangedAt ?? now,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const transaction = db.transaction(['passwords', 'syncQueue'], 'readwrite');
+    transaction.objectStore('passwords').add(newEntry);
+    this.enqueueChange(transaction.objectStore('syncQueue'), newEntry, 'upsert');
+    await this.waitForTransaction(transaction, 'Lỗi khi thêm mật khẩu mới');
+
+    this.markSearchStale([newEntry.id]);
+    this.notifyLocalChange();
+    // Trả về bản plaintext cho caller, bản mã hóa chỉ nằm trong storage
+    return { ...this.toPasswordEntry(newEntry), ...entry };
+  }
+
+  // Thêm nhiều mật khẩu trong một transaction (dùng cho import)
+  public async batchAddPasswords(entries: CreatePasswordEntry[]): Promise<PasswordEntry[]> {
+    const db = await this.ensureDbReady();
+    const encryptedEntries = await Promise.all(entries.map((entry) => encryptEntrySecrets(entry)));
+
+    const now = new Date().toISOString();
+    const records: LocalPasswordRecord[] = encryptedEntries.map((encrypted) => ({
+      id: crypto.randomUUID(),
+      ...encrypted,
+      passwordChangedAt: encrypted.passwordChangedAt ?? now,
+      createdAt: now,
+      updatedAt: now
+    }));
+
+    const transaction = db.transaction(['passwords', 'syncQueue'], 'readwrite');
+    const store = transaction.objectStore('passwords');
+    const queueStore = transaction.objectStore('syncQueue');
+    records.forEach((record) => {
+      store.add(record);
+      this.enqueueChange(queueStore, record, 'upsert');
+    });
+    await this.waitForTransaction(transaction, 'Lỗi khi thêm danh sách mật khẩu');
+
+    this.markSearchStale(records.map((record) => record.id));
+    this.notifyLocalChange();
+    return records.map((record, index) => ({ ...this.toPasswordEntry(record), ...entries[index] }));
+  }
+
+  // Ghi đè/thêm entry giữ nguyên id và timestamps (dùng khi khôi phục backup)
+  public async putPasswords(entries: PasswordEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const db = await this.ensureDbReady();
+    const encryptedEntries = await Promise.all(entries.map((entry) => encryptEntrySecrets(entry)));
+
+    const transaction = db.transaction(['passwords', 'syncQueue'], 'readwrite');
+    const store = transaction.objectStore('passwords');
+    const queueStore = transaction.objectStore('syncQueue');
+    encryptedEntries.forEach((encrypted) => {
+      const getRequest = store.get(encrypted.id);
       getRequest.onsuccess = () => {
-        const existingEntry = getRequest.result as PasswordEntry | undefined;
-        
-        if (!existingEntry) {
-          resolve(null);
-          return;
-        }
-        
-        const updatedEntry: PasswordEntry = {
-          ...existingEntry,
-          ...entry,
-          updatedAt: new Date().toISOString()
-        };
-        
-        const updateRequest = store.put(updatedEntry);
-        
-        updateRequest.onsuccess = () => {
-          resolve(updatedEntry);
-        };
-        
-        updateRequest.onerror = () => {
-          reject(new Error('Lỗi khi cập nhật mật khẩu'));
-        };
-      };
-      
-      getRequest.onerror = () => {
-        reject(new Error('Lỗi khi tìm mật khẩu để cập nhật'));
+        const existing = getRequest.result as LocalPasswordRecord | undefined;
+        // Giữ syncedAt của bản cũ để sync engine nhận diện conflict chính xác
+        const record: LocalPasswordRecord = { ...encrypted, syncedAt: existing?.syncedAt };
+        store.put(record);
+        this.enqueueChange(queueStore, record, 'upsert');
       };
     });
+    await this.waitForTransaction(transaction, 'Lỗi khi khôi phục mật khẩu');
+
+    this.markSearchStale(entries.map((entry) => entry.id));
+    this.notifyLocalChange();
+  }
+
+  // Đưa mật khẩu hiện tại vào lịch sử và đặt passwordChangedAt nếu bản cập nhật đổi mật khẩu
+  // So sánh phải làm trên plaintext nên đọc và giải mã trước khi mở transaction ghi
+  private async withPasswordHistory(id: string, entry: UpdatePasswordEntry): Promise<UpdatePasswordEntry> {
+    if (entry.password === undefined) return entry;
+    const existing = await this.getRawPassword(id);
+    if (!existing) return entry;
+
+    const current = await decryptEntrySecrets({
+      password: existing.password,
+      passwordHistory: existing.passwordHistory ?? [],
+    });
+    const passwordHistory = appendPasswordHistory(current, entry.password);
+    return passwordHistory ? { ...entry, passwordHistory, passwordChangedAt: new Date().toISOString() } : entry;
+  }
+
+  // Cập nhật mật khẩu
+  public async updatePassword(id: string, entry: UpdatePasswordEntry): Promise<PasswordEntry | null> {
+    const db = await this.ensureDbReady();
+    const encrypted = await encryptEntrySecrets(await this.withPasswordHistory(id, entry));
+
+    const transaction = db.transaction(['passwords', 'syncQueue'], 'readwrite');
+    const store = transaction.objectStore('passwords');
+    const getRequest = store.get(id);
+    let updatedEntry: LocalPasswordRecord | null = null;
+
+    getRequest.onsuccess = () => {
+      const existingEntry = getRequest.result as LocalPasswordRecord | undefined;
+
+      if (!existingEntry) {
+        return;
+      }
+
+      updatedEntry = {
+        ...existingEntry,
+        ...encrypted,
+        updatedAt: new Date().toISOString()
+      };
+
+      store.put(updatedEntry);
+      this.enqueueChange(transaction.objectStore('syncQueue'), updatedEntry, 'upsert');
+    };
+
+    await this.waitForTransaction(transaction, 'Lỗi khi cập nhật mật khẩu');
+
+    if (!updatedEntry) {
+      return null;
+    }
+
+    this.markSearchStale([id]);
+    this.notifyLocalChange();
+    return decryptEntrySecrets(this.toPasswordEntry(updatedEntry));
+  }
+
+  // Đánh dấu/bỏ đánh dấu thùng rác - là một thay đổi bình thường nên được đồng bộ dạng upsert
+  private async setDeletedAt(id: string, deletedAt: string | null, errorMessage: string): Promise<LocalPasswordRecord | null> {
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['passwords', 'syncQueue'], 'readwrite');
+    const store = transaction.objectStore('passwords');
+    const getRequest = store.get(id);
+    let updatedEntry: LocalPasswordRecord | null = null;
+
+    getRequest.onsuccess = () => {
+      const existingEntry = getRequest.result as LocalPasswordRecord | undefined;
+      if (!existingEntry) {
+        return;
+      }
+
+      updatedEntry = { ...existingEntry, deletedAt, updatedAt: new Date().toISOString() };
+      store.put(updatedEntry);
+      this.enqueueChange(transaction.objectStore('syncQueue'), updatedEntry, 'upsert');
+    };
+
+    await this.waitForTransaction(transaction, errorMessage);
+
+    if (updatedEntry) {
+      this.markSearchStale([id]);
+      this.notifyLocalChange();
+    }
+    return updatedEntry;
   }
 
-  // Xóa mật khẩu
+  // Chuyển mật khẩu vào thùng rác
   public async deletePassword(id: string): Promise<boolean> {
+    return (await this.setDeletedAt(id, new Date().toISOString(), 'Lỗi khi xóa mật khẩu')) !== null;
+  }
+
+  // Khôi phục mật khẩu từ thùng rác
+  public async restorePassword(id: string): Promise<PasswordEntry | null> {
+    const restored = await this.setDeletedAt(id, null, 'Lỗi khi khôi phục mật khẩu');
+    return restored ? decryptEntrySecrets(this.toPasswordEntry(restored)) : null;
+  }
+
+  // Xóa vĩnh viễn các mật khẩu trong thùng rác trước mốc before (toàn bộ thùng rác nếu không truyền)
+  public async purgeTrash(before?: string): Promise<number> {
     const db = await this.ensureDbReady();
-    
+
+    const transaction = db.transaction(['passwords', 'syncQueue', 'attachmentBlobs', 'attachmentSyncQueue'], 'readwrite');
+    const store = transaction.objectStore('passwords');
+    const queueStore = transaction.objectStore('syncQueue');
+    const blobStore = transaction.objectStore('attachmentBlobs');
+    const attachmentQueueStore = transaction.objectStore('attachmentSyncQueue');
+    let purged = 0;
+
+    const request = store.getAll();
+    request.onsuccess = () => {
+      (request.result as LocalPasswordRecord[])
+        .filter((record) => record.deletedAt && (!before || record.deletedAt < before))
+        .forEach((record) => {
+          store.delete(record.id);
+          this.enqueueChange(queueStore, record, 'delete');
+          this.removeAttachmentBlobs(blobStore, attachmentQueueStore, record);
+          purged++;
+        });
+    };
+
+    await this.waitForTransaction(transaction, 'Lỗi khi dọn thùng rác');
+
+    if (purged > 0) {
+      this.notifyLocalChange();
+    }
+    return purged;
+  }
+
+  // Xóa vĩnh viễn mật khẩu
+  public async purgePassword(id: string): Promise<boolean> {
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['passwords', 'syncQueue', 'attachmentBlobs', 'attachmentSyncQueue'], 'readwrite');
+    const store = transaction.objectStore('passwords');
+    const getRequest = store.get(id);
+
+    getRequest.onsuccess = () => {
+      const existingEntry = getRequest.result as LocalPasswordRecord | undefined;
+      if (!existingEntry) {
+        return;
+      }
+
+      store.delete(id);
+      this.enqueueChange(transaction.objectStore('syncQueue'), existingEntry, 'delete');
+      this.removeAttachmentBlobs(transaction.objectStore('attachmentBlobs'), transaction.objectStore('attachmentSyncQueue'), existingEntry);
+    };
+
+    await this.waitForTransaction(transaction, 'Lỗi khi xóa mật khẩu');
+
+    this.markSearchStale([id]);
+    this.notifyLocalChange();
+    return true;
+  }
+
+  // ===== File đính kèm =====
+
+  // Đính kèm file vào entry - nội dung và tên file được mã hóa trước khi ghi
+  public async addAttachment(entryId: string, file: NewAttachment): Promise<PasswordEntry | null> {
+    const records = await this.getRawPasswords();
+    const existing = records.find((record) => record.id === entryId);
+    if (!existing) return null;
+
+    const quotaError = getAttachmentQuotaError(existing, file, getAttachmentUsage(records));
+    if (quotaError) {
+      throw new Error(quotaError);
+    }
+
+    const db = await this.ensureDbReady();
+    const now = new Date().toISOString();
+    const attachment = createAttachmentMeta(file, now);
+    const { attachments: [encryptedMeta] = [] } = await encryptEntrySecrets({ attachments: [attachment] });
+    const data = await vaultKeyManager.encryptBytes(file.data);
+
+    const transaction = db.transaction(['passwords', 'syncQueue', 'attachmentBlobs', 'attachmentSyncQueue'], 'readwrite');
+    const store = transaction.objectStore('passwords');
+    const getRequest = store.get(entryId);
+    let updatedEntry: LocalPasswordRecord | null = null;
+
+    getRequest.onsuccess = () => {
+      const record = getRequest.result as LocalPasswordRecord | undefined;
+      if (!record) {
+        return;
+      }
+
+      updatedEntry = { ...record, attachments: [...(record.attachments ?? []), encryptedMeta], updatedAt: now };
+      store.put(updatedEntry);
+      this.enqueueChange(transaction.objectStore('syncQueue'), updatedEntry, 'upsert');
+
+      const blob: AttachmentBlobRecord = { id: attachment.id, entryId, data };
+      transaction.objectStore('attachmentBlobs').put(blob);
+      this.enqueueAttachmentChange(transaction.objectStore('attachmentSyncQueue'), entryId, attachment.id, 'upload');
+    };
+
+    await this.waitForTransaction(transaction, 'Lỗi khi đính kèm file');
+
+    if (!updatedEntry) {
+      return null;
+    }
+
+    this.markSearchStale([entryId]);
+    this.notifyLocalChange();
+    return decryptEntrySecrets(this.toPasswordEntry(updatedEntry));
+  }
+
+  // Đọc và giải mã nội dung file, null nếu không có (hoặc chưa được đồng bộ về máy này)
+  public async getAttachmentData(entryId: string, attachmentId: string): Promise<ArrayBuffer | null> {
+    const record = await this.getRawPassword(entryId);
+    if (!record?.attachments?.some((attachment) => attachment.id === attachmentId)) {
+      return null;
+    }
+
+    const blob = await this.getRawAttachmentBlob(attachmentId);
+    return blob ? vaultKeyManager.decryptBytes(blob.data) : null;
+  }
+
+  // Gỡ file khỏi entry, null nếu không tìm thấy entry hoặc file
+  public async deleteAttachment(entryId: string, attachmentId: string): Promise<PasswordEntry | null> {
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['passwords', 'syncQueue', 'attachmentBlobs', 'attachmentSyncQueue'], 'readwrite');
+    const store = transaction.objectStore('passwords');
+    const getRequest = store.get(entryId);
+    let updatedEntry: LocalPasswordRecord | null = null;
+
+    getRequest.onsuccess = () => {
+      const record = getRequest.result as LocalPasswordRecord | undefined;
+      if (!record?.attachments?.some((attachment) => attachment.id === attachmentId)) {
+        return;
+      }
+
+      updatedEntry = {
+        ...record,
+        attachments: record.attachments.filter((attachment) => attachment.id !== attachmentId),
+        updatedAt: new Date().toISOString()
+      };
+      store.put(updatedEntry);
+      this.enqueueChange(transaction.objectStore('syncQueue'), updatedEntry, 'upsert');
+
+      transaction.objectStore('attachmentBlobs').delete(attachmentId);
+      this.enqueueAttachmentChange(transaction.objectStore('attachmentSyncQueue'), entryId, attachmentId, 'delete');
+    };
+
+    await this.waitForTransaction(transaction, 'Lỗi khi xóa file đính kèm');
+
+    if (!updatedEntry) {
+      return null;
+    }
+
+    this.markSearchStale([entryId]);
+    this.notifyLocalChange();
+    return decryptEntrySecrets(this.toPasswordEntry(updatedEntry));
+  }
+
+  // Ghi nội dung file cho metadata đã có trong entry (khôi phục backup)
+  public async putAttachmentData(entryId: string, attachmentId: string, data: ArrayBuffer): Promise<boolean> {
+    const record = await this.getRawPassword(entryId);
+    if (!record?.attachments?.some((attachment) => attachment.id === attachmentId)) {
+      return false;
+    }
+
+    const db = await this.ensureDbReady();
+    const blob: AttachmentBlobRecord = { id: attachmentId, entryId, data: await vaultKeyManager.encryptBytes(data) };
+
+    const transaction = db.transaction(['attachmentBlobs', 'attachmentSyncQueue'], 'readwrite');
+    transaction.objectStore('attachmentBlobs').put(blob);
+    this.enqueueAttachmentChange(transaction.objectStore('attachmentSyncQueue'), entryId, attachmentId, 'upload');
+    await this.waitForTransaction(transaction, 'Lỗi khi khôi phục file đính kèm');
+
+    this.notifyLocalChange();
+    return true;
+  }
+
+  // ===== Thư mục =====
+
+  // Lấy tất cả folder gốc (kèm metadata đồng bộ)
+  public getRawFolders(): Promise<LocalFolderRecord[]> {
+    return this.getAllFromStore<LocalFolderRecord>('folders', 'Lỗi khi lấy danh sách thư mục');
+  }
+
+  // Lấy tất cả folder, sắp xếp theo tên
+  public async getAllFolders(): Promise<Folder[]> {
+    const records = await this.getRawFolders();
+    return records
+      .map(({ syncedAt, ...folder }) => folder)
+      .sort((a, b) => a.name.localeCompare(b.name, 'vi', { sensitivity: 'base' }));
+  }
+
+  // Tạo folder mới
+  public async addFolder(folder: CreateFolder): Promise<Folder> {
+    validateFolderData(folder, await this.getAllFolders());
+    const db = await this.ensureDbReady();
+
+    const now = new Date().toISOString();
+    const record: LocalFolderRecord = {
+      id: crypto.randomUUID(),
+      name: folder.name.trim(),
+      parentId: folder.parentId ?? null,
+      rotationIntervalDays: folder.rotationIntervalDays ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const transaction = db.transaction(['folders', 'folderSyncQueue'], 'readwrite');
+    transaction.objectStore('folders').add(record);
+    this.enqueueFolderChange(transaction.objectStore('folderSyncQueue'), record, 'upsert');
+    await this.waitForTransaction(transaction, 'Lỗi khi tạo thư mục');
+
+    this.notifyLocalChange();
+    return { ...folder, ...record };
+  }
+
+  // Đổi tên, di chuyển hoặc đổi chu kỳ nhắc đổi mật khẩu của folder
+  public async updateFolder(id: string, folder: UpdateFolder): Promise<Folder | null> {
+    validateFolderData(folder, await this.getAllFolders(), id);
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['folders', 'folderSyncQueue'], 'readwrite');
+    const store = transaction.objectStore('folders');
+    const getRequest = store.get(id);
+    let updatedFolder: LocalFolderRecord | null = null;
+
+    getRequest.onsuccess = () => {
+      const existing = getRequest.result as LocalFolderRecord | undefined;
+      if (!existing) {
+        return;
+      }
+
+      updatedFolder = {
+        ...existing,
+        ...folder,
+        name: (folder.name ?? existing.name).trim(),
+        updatedAt: new Date().toISOString()
+      };
+      store.put(updatedFolder);
+      this.enqueueFolderChange(transaction.objectStore('folderSyncQueue'), updatedFolder, 'upsert');
+    };
+
+    await this.waitForTransaction(transaction, 'Lỗi khi cập nhật thư mục');
+
+    if (!updatedFolder) {
+      return null;
+    }
+
+    this.notifyLocalChange();
+    const { syncedAt, ...result } = updatedFolder as LocalFolderRecord;
+    return result;
+  }
+
+  // Xóa folder - chuyển nội dung lên folder cha hoặc xóa luôn, trong một transaction
+  public async deleteFolder(id: string, mode: FolderDeleteMode): Promise<boolean> {
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['passwords', 'folders', 'syncQueue', 'folderSyncQueue'], 'readwrite');
+    const passwordStore = transaction.objectStore('passwords');
+    const folderStore = transaction.objectStore('folders');
+    const queueStore = transaction.objectStore('syncQueue');
+    const folderQueueStore = transaction.objectStore('folderSyncQueue');
+    const changedEntryIds: string[] = [];
+    let found = false;
+
+    const foldersRequest = folderStore.getAll();
+    foldersRequest.onsuccess = () => {
+      const folders = foldersRequest.result as LocalFolderRecord[];
+      if (!folders.some((folder) => folder.id === id)) {
+        return;
+      }
+      found = true;
+
+      const { deletedFolderIds, targetParentId } = planFolderDelete(folders, id, mode);
+      const now = new Date().toISOString();
+
+      folders.forEach((folder) => {
+        if (deletedFolderIds.has(folder.id)) {
+          folderStore.delete(folder.id);
+          this.enqueueFolderChange(folderQueueStore, folder, 'delete');
+        } else if (folder.parentId && deletedFolderIds.has(folder.parentId)) {
+          const moved: LocalFolderRecord = { ...folder, parentId: targetParentId, updatedAt: now };
+          folderStore.put(moved);
+          this.enqueueFolderChange(folderQueueStore, moved, 'upsert');
+        }
+      });
+
+      const passwordsRequest = passwordStore.getAll();
+      passwordsRequest.onsuccess = () => {
+        (passwordsRequest.result as LocalPasswordRecord[])
+          .filter((record) => record.folderId && deletedFolderIds.has(record.folderId))
+          .forEach((record) => {
+            changedEntryIds.push(record.id);
+            if (mode === 'delete-contents') {
+              // Nội dung folder được chuyển vào thùng rác, không xóa vĩnh viễn
+              const trashed: LocalPasswordRecord = { ...record, deletedAt: record.deletedAt ?? now, updatedAt: now };
+              passwordStore.put(trashed);
+              this.enqueueChange(queueStore, trashed, 'upsert');
+            } else {
+              const moved: LocalPasswordRecord = { ...record, folderId: targetParentId, updatedAt: now };
+              passwordStore.put(moved);
+              this.enqueueChange(queueStore, moved, 'upsert');
+            }
+          });
+      };
+    };
+
+    await this.waitForTransaction(transaction, 'Lỗi khi xóa thư mục');
+
+    if (found) {
+      this.markSearchStale(changedEntryIds);
+      this.notifyLocalChange();
+    }
+    return found;
+  }
+
+  // ===== Các thao tác dành cho sync engine (không ghi vào hàng đợi đồng bộ) =====
+
+  // Ghi đè bản ghi từ Supabase xuống local
+  public async putRawPasswords(records: LocalPasswordRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['passwords'], 'readwrite');
+    const store = transaction.objectStore('passwords');
+    records.forEach((record) => store.put(record));
+    await this.waitForTransaction(transaction, 'Lỗi khi ghi dữ liệu đồng bộ');
+    this.markSearchStale(records.map((record) => record.id));
+  }
+
+  // Xóa bản ghi local theo thay đổi từ Supabase
+  public async deleteRawPasswords(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['passwords'], 'readwrite');
+    const store = transaction.objectStore('passwords');
+    ids.forEach((id) => store.delete(id));
+    await this.waitForTransaction(transaction, 'Lỗi khi xóa dữ liệu đồng bộ');
+    this.markSearchStale(ids);
+  }
+
+  // Lấy toàn bộ hàng đợi đồng bộ, cũ nhất trước
+  public async getSyncQueue(): Promise<SyncQueueItem[]> {
+    const db = await this.ensureDbReady();
+
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(['passwords'], 'readwrite');
-      const store = transaction.objectStore('passwords');
-      const request = store.delete(id);
-      
+      const transaction = db.transaction(['syncQueue'], 'readonly');
+      const request = transaction.objectStore('syncQueue').getAll();
+
       request.onsuccess = () => {
-        resolve(true);
+        const items = request.result as SyncQueueItem[];
+        resolve(items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt)));
       };
-      
+
       request.onerror = () => {
-        reject(new Error('Lỗi khi xóa mật khẩu'));
+        reject(new Error('Lỗi khi đọc hàng đợi đồng bộ'));
       };
     });
   }
+
+  /**
+   * Đánh dấu một thay đổi đã được đồng bộ xong
+   * - Cập nhật syncedAt của bản ghi local (nếu còn tồn tại)
+   * - Xóa thay đổi khỏi hàng đợi, hoặc nếu user đã sửa tiếp trong lúc đồng bộ
+   *   thì giữ lại thay đổi mới với baseSyncedAt mới để không bị báo xung đột giả
+   */
+  public async completeSyncQueueItem(item: SyncQueueItem, syncedAt?: string): Promise<void> {
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['passwords', 'syncQueue'], 'readwrite');
+    const passwordStore = transaction.objectStore('passwords');
+    const queueStore = transaction.objectStore('syncQueue');
+
+    const recordRequest = passwordStore.get(item.entryId);
+    recordRequest.onsuccess = () => {
+      const record = recordRequest.result as LocalPasswordRecord | undefined;
+      if (record) {
+        passwordStore.put({ ...record, syncedAt });
+      }
+    };
+
+    const queueRequest = queueStore.get(item.entryId);
+    queueRequest.onsuccess = () => {
+      const current = queueRequest.result as SyncQueueItem | undefined;
+      if (!current) return;
+
+      if (current.queuedAt === item.queuedAt) {
+        queueStore.delete(item.entryId);
+      } else {
+        queueStore.put({ ...current, baseSyncedAt: syncedAt });
+      }
+    };
+
+    await this.waitForTransaction(transaction, 'Lỗi khi cập nhật hàng đợi đồng bộ');
+  }
+
+  // Ghi đè folder từ Supabase xuống local
+  public async putRawFolders(records: LocalFolderRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['folders'], 'readwrite');
+    const store = transaction.objectStore('folders');
+    records.forEach((record) => store.put(record));
+    await this.waitForTransaction(transaction, 'Lỗi khi ghi thư mục đồng bộ');
+  }
+
+  // Xóa folder local theo thay đổi từ Supabase
+  public async deleteRawFolders(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['folders'], 'readwrite');
+    const store = transaction.objectStore('folders');
+    ids.forEach((id) => store.delete(id));
+    await this.waitForTransaction(transaction, 'Lỗi khi xóa thư mục đồng bộ');
+  }
+
+  // Lấy hàng đợi đồng bộ thư mục, cũ nhất trước
+  public async getFolderSyncQueue(): Promise<FolderSyncQueueItem[]> {
+    const items = await this.getAllFromStore<FolderSyncQueueItem>('folderSyncQueue', 'Lỗi khi đọc hàng đợi đồng bộ thư mục');
+    return items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  }
+
+  /**
+   * Đánh dấu thay đổi folder đã đồng bộ xong
+   * Giữ lại thay đổi nếu user đã sửa tiếp folder trong lúc đồng bộ
+   */
+  public async completeFolderSyncQueueItem(item: FolderSyncQueueItem, syncedAt?: string): Promise<void> {
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['folders', 'folderSyncQueue'], 'readwrite');
+    const folderStore = transaction.objectStore('folders');
+    const queueStore = transaction.objectStore('folderSyncQueue');
+
+    const recordRequest = folderStore.get(item.folderId);
+    recordRequest.onsuccess = () => {
+      const record = recordRequest.result as LocalFolderRecord | undefined;
+      if (record) {
+        folderStore.put({ ...record, syncedAt });
+      }
+    };
+
+    const queueRequest = queueStore.get(item.folderId);
+    queueRequest.onsuccess = () => {
+      if ((queueRequest.result as FolderSyncQueueItem | undefined)?.queuedAt === item.queuedAt) {
+        queueStore.delete(item.folderId);
+      }
+    };
+
+    await this.waitForTransaction(transaction, 'Lỗi khi cập nhật hàng đợi đồng bộ thư mục');
+  }
+
+  // Đọc bản mã hóa của một file đính kèm
+  public async getRawAttachmentBlob(id: string): Promise<AttachmentBlobRecord | null> {
+    const db = await this.ensureDbReady();
+
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(['attachmentBlobs'], 'readonly').objectStore('attachmentBlobs').get(id);
+      request.onsuccess = () => resolve((request.result as AttachmentBlobRecord | undefined) ?? null);
+      request.onerror = () => reject(new Error('Lỗi khi đọc file đính kèm'));
+    });
+  }
+
+  // Id của mọi file đính kèm đang có nội dung ở local
+  public async getRawAttachmentIds(): Promise<string[]> {
+    const db = await this.ensureDbReady();
+
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(['attachmentBlobs'], 'readonly').objectStore('attachmentBlobs').getAllKeys();
+      request.onsuccess = () => resolve(request.result as string[]);
+      request.onerror = () => reject(new Error('Lỗi khi đọc danh sách file đính kèm'));
+    });
+  }
+
+  // Ghi file tải từ Supabase Storage xuống local (đã mã hóa sẵn)
+  public async putRawAttachmentBlobs(records: AttachmentBlobRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['attachmentBlobs'], 'readwrite');
+    const store = transaction.objectStore('attachmentBlobs');
+    records.forEach((record) => store.put(record));
+    await this.waitForTransaction(transaction, 'Lỗi khi ghi file đính kèm đồng bộ');
+  }
+
+  // Xóa file local không còn entry nào tham chiếu
+  public async deleteRawAttachmentBlobs(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['attachmentBlobs'], 'readwrite');
+    const store = transaction.objectStore('attachmentBlobs');
+    ids.forEach((id) => store.delete(id));
+    await this.waitForTransaction(transaction, 'Lỗi khi xóa file đính kèm đồng bộ');
+  }
+
+  // Lấy hàng đợi đồng bộ file đính kèm, cũ nhất trước
+  public async getAttachmentSyncQueue(): Promise<AttachmentSyncQueueItem[]> {
+    const items = await this.getAllFromStore<AttachmentSyncQueueItem>('attachmentSyncQueue', 'Lỗi khi đọc hàng đợi đồng bộ file đính kèm');
+    return items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  }
+
+  // Đánh dấu thay đổi file đã đồng bộ xong (giữ lại nếu có thay đổi mới hơn)
+  public async completeAttachmentSyncQueueItem(item: AttachmentSyncQueueItem): Promise<void> {
+    const db = await this.ensureDbReady();
+
+    const transaction = db.transaction(['attachmentSyncQueue'], 'readwrite');
+    const queueStore = transaction.objectStore('attachmentSyncQueue');
+    const queueRequest = queueStore.get(item.attachmentId);
+    queueRequest.onsuccess = () => {
+      if ((queueRequest.result as AttachmentSyncQueueItem | undefined)?.queuedAt === item.queuedAt) {
+        queueStore.delete(item.attachmentId);
+      }
+    };
+
+    await this.waitForTransaction(transaction, 'Lỗi khi cập nhật hàng đợi đồng bộ file đính kèm');
+  }
+
+  /**
+   * Chuyển sang database của user (null: database gốc)
+   * Mỗi user một database nên đổi tài khoản không xóa hay trộn dữ liệu và hàng đợi chưa đồng bộ của user khác
+   */
+  public async useUserDatabase(userId: string | null): Promise<void> {
+    const dbName = userId ? `${DEFAULT_DB_NAME}-${userId}` : DEFAULT_DB_NAME;
+    if (dbName === this.dbName) return;
+
+    this.db?.close();
+    this.db = null;
+    this.dbName = dbName;
+    this.resetSearchIndex();
+    await this.ensureDbReady();
+  }
 }
 
 // Export instance mặc định
-export const dbManager = DatabaseManager.getInstance();
\ No newline at end of file
+export const dbManager = DatabaseManager.getInstance();
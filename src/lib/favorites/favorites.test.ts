@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { getFavoriteTogglePatch, moveFavorite, sortFavorites } from './favorites'
+import type { PasswordEntry } from '../types/password'
+
+const entry = (id: string, favoriteOrder?: number | null, favorite = true): PasswordEntry => ({
+  id,
+  service: id,
+  username: 'alice',
+  password: 'pw',
+  favorite,
+  favoriteOrder,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+})
+
+describe('sortFavorites', () => {
+  it('chỉ gồm entry yêu thích theo favoriteOrder, trùng thì theo tên', () => {
+    const entries = [entry('c', 2), entry('x', null, false), entry('B', 1), entry('a', 1)]
+    expect(sortFavorites(entries).map((item) => item.id)).toEqual(['a', 'B', 'c'])
+  })
+})
+
+describe('getFavoriteTogglePatch', () => {
+  it('entry mới yêu thích đứng cuối, bỏ yêu thích xóa thứ tự', () => {
+    expect(getFavoriteTogglePatch(entry('a', null, false), 1000)).toEqual({ favorite: true, favoriteOrder: 1000 })
+    expect(getFavoriteTogglePatch(entry('a', 5))).toEqual({ favorite: false, favoriteOrder: null })
+  })
+})
+
+describe('moveFavorite', () => {
+  const favorites = [entry('a', 10), entry('b', 20), entry('c', 30), entry('d', 40)]
+
+  it('kéo xuống: gán lại các giá trị favoriteOrder đang có theo vị trí mới', () => {
+    expect(moveFavorite(favorites, 'a', 'c')).toEqual([
+      { id: 'b', favoriteOrder: 10 },
+      { id: 'c', favoriteOrder: 20 },
+      { id: 'a', favoriteOrder: 30 },
+    ])
+  })
+
+  it('kéo lên: chỉ trả các entry đổi thứ tự', () => {
+    expect(moveFavorite(favorites, 'd', 'b')).toEqual([
+      { id: 'd', favoriteOrder: 20 },
+      { id: 'b', favoriteOrder: 30 },
+      { id: 'c', favoriteOrder: 40 },
+    ])
+  })
+
+  it('không đổi gì khi kéo vào chính nó hoặc id không tồn tại', () => {
+    expect(moveFavorite(favorites, 'a', 'a')).toEqual([])
+    expect(moveFavorite(favorites, 'a', 'missing')).toEqual([])
+  })
+
+  it('tách các giá trị trùng để thứ tự mới không bị sort lại', () => {
+    const legacy = [entry('a', 0), entry('b', 0), entry('c', 0)]
+    const changes = moveFavorite(legacy, 'c', 'a')
+    const orderOf = new Map(legacy.map((item) => [item.id, item.favoriteOrder ?? 0]))
+    changes.forEach(({ id, favoriteOrder }) => orderOf.set(id, favoriteOrder))
+
+    const resorted = sortFavorites(legacy.map((item) => ({ ...item, favoriteOrder: orderOf.get(item.id) })))
+    expect(resorted.map((item) => item.id)).toEqual(['c', 'a', 'b'])
+  })
+})
@@ -0,0 +1,62 @@
+import type { PasswordEntry, UpdatePasswordEntry } from '../types/password'
+
+/**
+ * Favorites - entry yêu thích được ghim lên đầu danh sách
+ *
+ * Thứ tự giữa các entry yêu thích lưu ở favoriteOrder (nhỏ đứng trước).
+ * Entry mới yêu thích nhận favoriteOrder theo thời điểm nên luôn đứng cuối,
+ * kéo thả chỉ hoán đổi các giá trị favoriteOrder đang có nên không ảnh hưởng
+ * tới thứ tự của entry yêu thích đang bị ẩn bởi bộ lọc.
+ */
+
+export const isFavorite = (entry: Pick<PasswordEntry, 'favorite'>): boolean => entry.favorite === true
+
+const compareFavorites = (a: PasswordEntry, b: PasswordEntry): number =>
+  (a.favoriteOrder ?? 0) - (b.favoriteOrder ?? 0) ||
+  a.service.localeCompare(b.service, 'vi', { sensitivity: 'base' })
+
+/**
+ * Các entry yêu thích theo thứ tự người dùng sắp xếp
+ */
+export const sortFavorites = (entries: PasswordEntry[]): PasswordEntry[] =>
+  entries.filter(isFavorite).sort(compareFavorites)
+
+/**
+ * Dữ liệu cập nhật khi bật/tắt yêu thích
+ */
+export function getFavoriteTogglePatch(entry: PasswordEntry, now: number = Date.now()): UpdatePasswordEntry {
+  return isFavorite(entry)
+    ? { favorite: false, favoriteOrder: null }
+    : { favorite: true, favoriteOrder: now }
+}
+
+export interface FavoriteOrderChange {
+  id: string
+  favoriteOrder: number
+}
+
+/**
+ * Kéo entry fromId tới vị trí của toId trong danh sách yêu thích
+ * @param favorites - Danh sách đã sort bằng sortFavorites
+ * @returns Các entry cần đổi favoriteOrder (rỗng nếu thứ tự không đổi)
+ */
+export function moveFavorite(favorites: PasswordEntry[], fromId: string, toId: string): FavoriteOrderChange[] {
+  const fromIndex = favorites.findIndex((entry) => entry.id === fromId)
+  const toIndex = favorites.findIndex((entry) => entry.id === toId)
+  if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return []
+
+  const reordered = [...favorites]
+  const [moved] = reordered.splice(fromIndex, 1)
+  reordered.splice(toIndex, 0, moved)
+
+  // Giữ nguyên tập giá trị favoriteOrder, gán lại theo vị trí mới
+  // Giá trị trùng nhau (dữ liệu cũ) được tách ra để thứ tự mới không bị sort lại
+  const orders = favorites.map((entry) => entry.favoriteOrder ?? 0).sort((a, b) => a - b)
+  for (let i = 1; i < orders.length; i++) {
+    if (orders[i] <= orders[i - 1]) orders[i] = orders[i - 1] + 1
+  }
+
+  return reordered
+    .map((entry, index) => ({ id: entry.id, favoriteOrder: orders[index] }))
+    .filter((change, index) => reordered[index].favoriteOrder !== change.favoriteOrder)
+}
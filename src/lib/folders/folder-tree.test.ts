@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildFolderTree,
+  flattenFolderTree,
+  getDescendantFolderIds,
+  getFolderPath,
+  getFolderValidationErrors,
+  matchesFolderFilter,
+  planFolderDelete,
+} from './folder-tree'
+import type { Folder } from '../types/folder'
+import type { PasswordEntry } from '../types/password'
+
+const folder = (id: string, name: string, parentId: string | null = null): Folder => ({
+  id,
+  name,
+  parentId,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+})
+
+const entry = (folderId?: string | null): PasswordEntry => ({
+  id: 'e1',
+  service: 'GitHub',
+  username: 'alice',
+  password: 'pw',
+  folderId,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+})
+
+// Công việc > Máy chủ > Production, Cá nhân
+const folders = [
+  folder('work', 'Công việc'),
+  folder('servers', 'Máy chủ', 'work'),
+  folder('prod', 'Production', 'servers'),
+  folder('personal', 'cá nhân'),
+]
+
+describe('buildFolderTree', () => {
+  it('dựng cây theo parentId, sắp xếp theo tên không phân biệt hoa thường', () => {
+    const flat = flattenFolderTree(buildFolderTree(folders))
+    expect(flat.map((node) => [node.folder.id, node.depth])).toEqual([
+      ['personal', 0],
+      ['work', 0],
+      ['servers', 1],
+      ['prod', 2],
+    ])
+  })
+
+  it('coi folder có cha không tồn tại là thư mục gốc và bỏ qua vòng lặp', () => {
+    const orphan = folder('orphan', 'Mồ côi', 'missing')
+    const loop = [folder('a', 'A', 'b'), folder('b', 'B', 'a')]
+
+    expect(buildFolderTree([orphan]).map((node) => node.folder.id)).toEqual(['orphan'])
+    expect(flattenFolderTree(buildFolderTree(loop))).toEqual([])
+  })
+})
+
+describe('getDescendantFolderIds / getFolderPath', () => {
+  it('gồm folder và mọi folder con cháu', () => {
+    expect(getDescendantFolderIds(folders, 'work')).toEqual(new Set(['work', 'servers', 'prod']))
+    expect(getDescendantFolderIds(folders, 'personal')).toEqual(new Set(['personal']))
+  })
+
+  it('hiển thị đường dẫn từ thư mục gốc', () => {
+    expect(getFolderPath(folders, 'prod')).toBe('Công việc / Máy chủ / Production')
+    expect(getFolderPath(folders, null)).toBe('')
+  })
+})
+
+describe('matchesFolderFilter', () => {
+  it('lọc theo folder gồm cả folder con', () => {
+    expect(matchesFolderFilter(entry('prod'), 'work', folders)).toBe(true)
+    expect(matchesFolderFilter(entry('personal'), 'work', folders)).toBe(false)
+    expect(matchesFolderFilter(entry(null), undefined, folders)).toBe(true)
+  })
+
+  it('coi entry trỏ tới folder không tồn tại là chưa phân loại', () => {
+    expect(matchesFolderFilter(entry(null), null, folders)).toBe(true)
+    expect(matchesFolderFilter(entry('deleted'), null, folders)).toBe(true)
+    expect(matchesFolderFilter(entry('work'), null, folders)).toBe(false)
+  })
+})
+
+describe('getFolderValidationErrors', () => {
+  it('kiểm tra tên và folder cha', () => {
+    expect(getFolderValidationErrors({ name: '  ' }, folders)).toEqual(['Folder name must be between 1-100 characters'])
+    expect(getFolderValidationErrors({ name: 'Mới', parentId: 'missing' }, folders)).toEqual(['Parent folder does not exist'])
+    expect(getFolderValidationErrors({ name: 'Mới', parentId: 'work' }, folders)).toEqual([])
+  })
+
+  it('không cho chuyển folder vào chính nó hoặc folder con', () => {
+    const error = 'A folder cannot be moved into itself or one of its subfolders'
+    expect(getFolderValidationErrors({ parentId: 'prod' }, folders, 'work')).toEqual([error])
+    expect(getFolderValidationErrors({ parentId: 'work' }, folders, 'work')).toEqual([error])
+    expect(getFolderValidationErrors({ parentId: 'personal' }, folders, 'work')).toEqual([])
+  })
+})
+
+describe('planFolderDelete', () => {
+  it('move-contents chỉ xóa folder đó và chuyển nội dung lên folder cha', () => {
+    expect(planFolderDelete(folders, 'servers', 'move-contents')).toEqual({
+      deletedFolderIds: new Set(['servers']),
+      targetParentId: 'work',
+    })
+  })
+
+  it('delete-contents xóa cả folder con cháu', () => {
+    expect(planFolderDelete(folders, 'work', 'delete-contents')).toEqual({
+      deletedFolderIds: new Set(['work', 'servers', 'prod']),
+      targetParentId: null,
+    })
+  })
+})
@@ -0,0 +1,165 @@
+import type { Folder, FolderDeleteMode, UpdateFolder } from '../types/folder'
+import type { PasswordEntry } from '../types/password'
+import { MAX_ROTATION_INTERVAL_DAYS, isValidRotationInterval } from '../rotation/rotation'
+
+/**
+ * Folder Tree - các thao tác trên cây thư mục dùng chung cho mọi backend và UI
+ *
+ * Folder chỉ tham chiếu cha qua parentId (không có foreign key), nên
+ * folder có cha không tồn tại được coi là thư mục gốc và entry trỏ tới
+ * folder không tồn tại được coi là chưa phân loại.
+ */
+
+export const FOLDER_NAME_MAX_LENGTH = 100
+
+/**
+ * Bộ lọc folder khi tìm kiếm
+ * - undefined: mọi entry
+ * - null: entry chưa phân loại
+ * - string: entry trong folder đó và mọi folder con
+ */
+export type FolderFilter = string | null | undefined
+
+export interface FolderNode {
+  folder: Folder
+  depth: number
+  children: FolderNode[]
+}
+
+const compareByName = (a: Folder, b: Folder) => a.name.localeCompare(b.name, 'vi', { sensitivity: 'base' })
+
+/**
+ * Dựng cây folder, các cấp được sắp xếp theo tên
+ */
+export function buildFolderTree(folders: Folder[]): FolderNode[] {
+  const ids = new Set(folders.map((folder) => folder.id))
+  const childrenOf = new Map<string | null, Folder[]>()
+  for (const folder of folders) {
+    const parentId = folder.parentId && ids.has(folder.parentId) ? folder.parentId : null
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), folder])
+  }
+
+  const build = (parentId: string | null, depth: number, visited: Set<string>): FolderNode[] =>
+    (childrenOf.get(parentId) ?? [])
+      .filter((folder) => !visited.has(folder.id))
+      .sort(compareByName)
+      .map((folder) => ({
+        folder,
+        depth,
+        children: build(folder.id, depth + 1, new Set(visited).add(folder.id)),
+      }))
+
+  return build(null, 0, new Set())
+}
+
+/**
+ * Duỗi cây thành danh sách theo thứ tự hiển thị (dùng cho select)
+ */
+export function flattenFolderTree(nodes: FolderNode[]): FolderNode[] {
+  return nodes.flatMap((node) => [node, ...flattenFolderTree(node.children)])
+}
+
+/**
+ * ID của folder và toàn bộ folder con cháu
+ */
+export function getDescendantFolderIds(folders: Folder[], folderId: string): Set<string> {
+  const result = new Set([folderId])
+  let added = true
+  while (added) {
+    added = false
+    for (const folder of folders) {
+      if (folder.parentId && result.has(folder.parentId) && !result.has(folder.id)) {
+        result.add(folder.id)
+        added = true
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Đường dẫn hiển thị của folder, ví dụ "Công việc / Máy chủ"
+ */
+export function getFolderPath(folders: Folder[], folderId: string | null | undefined): string {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]))
+  const names: string[] = []
+  const visited = new Set<string>()
+  let current = folderId ? byId.get(folderId) : undefined
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id)
+    names.unshift(current.name)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return names.join(' / ')
+}
+
+/**
+ * Entry có thuộc bộ lọc folder hay không
+ */
+export function matchesFolderFilter(entry: PasswordEntry, filter: FolderFilter, folders: Folder[]): boolean {
+  if (filter === undefined) return true
+
+  if (filter === null) {
+    return !entry.folderId || !folders.some((folder) => folder.id === entry.folderId)
+  }
+
+  return Boolean(entry.folderId) && getDescendantFolderIds(folders, filter).has(entry.folderId as string)
+}
+
+/**
+ * Thu thập lỗi validation khi tạo/cập nhật folder
+ * @param folderId - ID folder đang cập nhật (undefined khi tạo mới)
+ */
+export function getFolderValidationErrors(data: UpdateFolder, folders: Folder[], folderId?: string): string[] {
+  const errors: string[] = []
+
+  if (data.name !== undefined && (!data.name.trim() || data.name.length > FOLDER_NAME_MAX_LENGTH)) {
+    errors.push(`Folder name must be between 1-${FOLDER_NAME_MAX_LENGTH} characters`)
+  }
+
+  if (data.rotationIntervalDays !== undefined && data.rotationIntervalDays !== null && !isValidRotationInterval(data.rotationIntervalDays)) {
+    errors.push(`Rotation interval must be a whole number of days between 0-${MAX_ROTATION_INTERVAL_DAYS}`)
+  }
+
+  if (data.parentId) {
+    if (!folders.some((folder) => folder.id === data.parentId)) {
+      errors.push('Parent folder does not exist')
+    } else if (folderId && getDescendantFolderIds(folders, folderId).has(data.parentId)) {
+      errors.push('A folder cannot be moved into itself or one of its subfolders')
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Validate folder data, throw lỗi đầu tiên nếu không hợp lệ
+ */
+export function validateFolderData(data: UpdateFolder, folders: Folder[], folderId?: string): void {
+  const [firstError] = getFolderValidationErrors(data, folders, folderId)
+  if (firstError) {
+    throw new Error(firstError)
+  }
+}
+
+/**
+ * Kết quả của việc xóa folder - dùng chung để các backend áp dụng giống nhau
+ */
+export interface FolderDeletePlan {
+  // Folder bị xóa (gồm cả folder con khi delete-contents)
+  deletedFolderIds: Set<string>
+  // Folder cha mới của các folder con và entry khi move-contents
+  targetParentId: string | null
+}
+
+/**
+ * Tính các folder bị ảnh hưởng khi xóa một folder
+ */
+export function planFolderDelete(folders: Folder[], folderId: string, mode: FolderDeleteMode): FolderDeletePlan {
+  const folder = folders.find((item) => item.id === folderId)
+  const parentId = folder?.parentId ?? null
+  return {
+    deletedFolderIds: mode === 'delete-contents' ? getDescendantFolderIds(folders, folderId) : new Set([folderId]),
+    targetParentId: parentId && folders.some((item) => item.id === parentId) ? parentId : null,
+  }
+}
@@ -0,0 +1,50 @@
+import { vaultKeyManager } from '../crypto/vault-key-manager'
+
+/**
+ * Lịch sử các giá trị vừa sinh - chỉ giữ trong bộ nhớ
+ * Không bao giờ ghi xuống localStorage và bị xóa khi vault khóa
+ */
+
+const MAX_HISTORY = 10
+
+export interface GeneratedValue {
+  value: string
+  createdAt: string
+}
+
+type HistoryListener = () => void
+
+let history: GeneratedValue[] = []
+const listeners = new Set<HistoryListener>()
+
+const notify = () => listeners.forEach((listener) => listener())
+
+export const generatorHistory = {
+  getAll(): GeneratedValue[] {
+    return history
+  },
+
+  add(value: string): void {
+    history = [{ value, createdAt: new Date().toISOString() }, ...history.filter((item) => item.value !== value)]
+      .slice(0, MAX_HISTORY)
+    notify()
+  },
+
+  clear(): void {
+    history = []
+    notify()
+  },
+
+  subscribe(listener: HistoryListener): () => void {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+}
+
+vaultKeyManager.subscribe(() => {
+  if (!vaultKeyManager.isUnlocked() && history.length > 0) {
+    generatorHistory.clear()
+  }
+})
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_GENERATOR_OPTIONS,
+  GeneratorOptionsError,
+  estimateGeneratorEntropy,
+  generatePassword,
+  getEntropyStrength,
+  randomInt,
+  validateGeneratorOptions,
+  type PasswordGeneratorOptions,
+} from './password-generator'
+import { PASSPHRASE_WORDLIST } from './wordlist'
+
+const options = (overrides: Partial<PasswordGeneratorOptions> = {}): PasswordGeneratorOptions => ({
+  ...DEFAULT_GENERATOR_OPTIONS,
+  ...overrides,
+})
+
+describe('randomInt', () => {
+  it('luôn nằm trong [0, max) và phủ hết các giá trị', () => {
+    const seen = new Set<number>()
+    for (let i = 0; i < 500; i++) {
+      const value = randomInt(6)
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(6)
+      seen.add(value)
+    }
+    expect(seen.size).toBe(6)
+  })
+
+  it('throw với khoảng không hợp lệ', () => {
+    expect(() => randomInt(0)).toThrow(RangeError)
+    expect(() => randomInt(1.5)).toThrow(RangeError)
+  })
+})
+
+describe('generatePassword', () => {
+  it('sinh đúng độ dài và có đủ số ký tự tối thiểu mỗi nhóm', () => {
+    for (let i = 0; i < 50; i++) {
+      const password = generatePassword(options({ length: 12, minPerClass: 2 }))
+      expect(password).toHaveLength(12)
+      expect(password.match(/[a-z]/g)?.length).toBeGreaterThanOrEqual(2)
+      expect(password.match(/[A-Z]/g)?.length).toBeGreaterThanOrEqual(2)
+      expect(password.match(/[0-9]/g)?.length).toBeGreaterThanOrEqual(2)
+      expect(password.match(/[^a-zA-Z0-9]/g)?.length).toBeGreaterThanOrEqual(2)
+    }
+  })
+
+  it('chỉ dùng nhóm ký tự được bật và bỏ ký tự dễ nhầm', () => {
+    const classes = { lowercase: false, uppercase: false, digits: true, symbols: false }
+    for (let i = 0; i < 50; i++) {
+      expect(generatePassword(options({ classes, excludeAmbiguous: true }))).toMatch(/^[2-9]+$/)
+    }
+  })
+
+  it('sinh passphrase từ wordlist với separator, viết hoa và số', () => {
+    const passphrase = generatePassword(options({ mode: 'passphrase', wordCount: 4, separator: '.', capitalize: true, includeNumber: true }))
+    const words = passphrase.split('.')
+
+    expect(words).toHaveLength(4)
+    expect(words.filter((word) => /\d$/.test(word))).toHaveLength(1)
+    words.forEach((word) => {
+      const base = word.replace(/\d$/, '')
+      expect(base.charAt(0)).toBe(base.charAt(0).toUpperCase())
+      expect(PASSPHRASE_WORDLIST).toContain(base.toLowerCase())
+    })
+  })
+
+  it('throw GeneratorOptionsError khi tùy chọn không hợp lệ', () => {
+    const noClasses = { lowercase: false, uppercase: false, digits: false, symbols: false }
+    expect(() => generatePassword(options({ classes: noClasses }))).toThrow(GeneratorOptionsError)
+    expect(validateGeneratorOptions(options({ length: 4 }))).toBe('Độ dài phải trong khoảng 8-128')
+    expect(validateGeneratorOptions(options({ length: 8, minPerClass: 3 }))).toBe('Số ký tự tối thiểu mỗi nhóm vượt quá độ dài mật khẩu')
+    expect(validateGeneratorOptions(options({ mode: 'passphrase', wordCount: 2 }))).toBe('Số từ phải trong khoảng 3-12')
+  })
+})
+
+describe('estimateGeneratorEntropy', () => {
+  it('tính theo kích thước bộ ký tự và wordlist', () => {
+    const digitsOnly = { lowercase: false, uppercase: false, digits: true, symbols: false }
+    expect(estimateGeneratorEntropy(options({ length: 10, classes: digitsOnly, excludeAmbiguous: false }))).toBeCloseTo(10 * Math.log2(10))
+    expect(estimateGeneratorEntropy(options({ mode: 'passphrase', wordCount: 4 }))).toBeCloseTo(4 * Math.log2(PASSPHRASE_WORDLIST.length))
+  })
+
+  it('mặc định đủ mạnh', () => {
+    expect(getEntropyStrength(estimateGeneratorEntropy(DEFAULT_GENERATOR_OPTIONS))).toBe('very-strong')
+    expect(getEntropyStrength(estimateGeneratorEntropy({ ...DEFAULT_GENERATOR_OPTIONS, mode: 'passphrase' }))).toBe('strong')
+    expect(getEntropyStrength(39)).toBe('weak')
+    expect(getEntropyStrength(59)).toBe('fair')
+    expect(getEntropyStrength(79)).toBe('strong')
+  })
+})
+
+describe('PASSPHRASE_WORDLIST', () => {
+  it('không có từ trùng lặp', () => {
+    expect(new Set(PASSPHRASE_WORDLIST).size).toBe(PASSPHRASE_WORDLIST.length)
+  })
+})
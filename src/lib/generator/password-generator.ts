@@ -0,0 +1,207 @@
+import { PASSPHRASE_WORDLIST } from './wordlist'
+
+/**
+ * Password Generator - sinh mật khẩu/passphrase bằng crypto.getRandomValues
+ *
+ * Mọi lựa chọn ngẫu nhiên đi qua randomInt (rejection sampling)
+ * nên không bị lệch phân phối do phép chia lấy dư.
+ */
+
+export type GeneratorMode = 'password' | 'passphrase'
+
+export type CharacterClass = 'lowercase' | 'uppercase' | 'digits' | 'symbols'
+
+export interface PasswordGeneratorOptions {
+  mode: GeneratorMode
+  // Chế độ password
+  length: number
+  classes: Record<CharacterClass, boolean>
+  excludeAmbiguous: boolean
+  minPerClass: number
+  // Chế độ passphrase
+  wordCount: number
+  separator: string
+  capitalize: boolean
+  includeNumber: boolean
+}
+
+export const GENERATOR_LIMITS = {
+  minLength: 8,
+  maxLength: 128,
+  minWords: 3,
+  maxWords: 12,
+  maxMinPerClass: 10,
+} as const
+
+export const DEFAULT_GENERATOR_OPTIONS: PasswordGeneratorOptions = {
+  mode: 'password',
+  length: 20,
+  classes: { lowercase: true, uppercase: true, digits: true, symbols: true },
+  excludeAmbiguous: true,
+  minPerClass: 1,
+  // Wordlist ~1450 từ (~10.5 bit/từ): 7 từ ~73 bit, đạt mức strong
+  wordCount: 7,
+  separator: '-',
+  capitalize: false,
+  includeNumber: false,
+}
+
+const CHARACTER_SETS: Record<CharacterClass, string> = {
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digits: '0123456789',
+  symbols: '!@#$%^&*()-_=+[]{};:,.<>/?~',
+}
+
+// Ký tự dễ nhầm lẫn khi đọc hoặc gõ lại
+const AMBIGUOUS_CHARACTERS = new Set('Il1O0o|[]{}();:,.'.split(''))
+
+/**
+ * Error khi bộ tùy chọn không thể sinh mật khẩu hợp lệ
+ */
+export class GeneratorOptionsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GeneratorOptionsError'
+  }
+}
+
+/**
+ * Số nguyên ngẫu nhiên đều trong [0, max)
+ */
+export function randomInt(max: number): number {
+  if (!Number.isInteger(max) || max <= 0 || max > 0x100000000) {
+    throw new RangeError(`Invalid random range: ${max}`)
+  }
+
+  // Loại bỏ phần dư cuối dải uint32 để tránh modulo bias
+  const limit = Math.floor(0x100000000 / max) * max
+  const buffer = new Uint32Array(1)
+  let value: number
+  do {
+    crypto.getRandomValues(buffer)
+    value = buffer[0]
+  } while (value >= limit)
+
+  return value % max
+}
+
+function pick<T>(items: ArrayLike<T>): T {
+  return items[randomInt(items.length)]
+}
+
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1)
+    ;[items[i], items[j]] = [items[j], items[i]]
+  }
+  return items
+}
+
+/**
+ * Các bộ ký tự đang bật (đã lọc ký tự dễ nhầm nếu cần)
+ */
+export function getActiveCharacterSets(options: PasswordGeneratorOptions): string[] {
+  return (Object.keys(CHARACTER_SETS) as CharacterClass[])
+    .filter((characterClass) => options.classes[characterClass])
+    .map((characterClass) => {
+      const chars = CHARACTER_SETS[characterClass].split('')
+      return (options.excludeAmbiguous ? chars.filter((char) => !AMBIGUOUS_CHARACTERS.has(char)) : chars).join('')
+    })
+}
+
+/**
+ * Kiểm tra tùy chọn, trả về lỗi đầu tiên (null nếu hợp lệ)
+ */
+export function validateGeneratorOptions(options: PasswordGeneratorOptions): string | null {
+  if (options.mode === 'passphrase') {
+    if (options.wordCount < GENERATOR_LIMITS.minWords || options.wordCount > GENERATOR_LIMITS.maxWords) {
+      return `Số từ phải trong khoảng ${GENERATOR_LIMITS.minWords}-${GENERATOR_LIMITS.maxWords}`
+    }
+    return null
+  }
+
+  if (options.length < GENERATOR_LIMITS.minLength || options.length > GENERATOR_LIMITS.maxLength) {
+    return `Độ dài phải trong khoảng ${GENERATOR_LIMITS.minLength}-${GENERATOR_LIMITS.maxLength}`
+  }
+
+  const sets = getActiveCharacterSets(options)
+  if (sets.length === 0) {
+    return 'Cần bật ít nhất một nhóm ký tự'
+  }
+  if (options.minPerClass * sets.length > options.length) {
+    return 'Số ký tự tối thiểu mỗi nhóm vượt quá độ dài mật khẩu'
+  }
+  return null
+}
+
+function generateRandomPassword(options: PasswordGeneratorOptions): string {
+  const sets = getActiveCharacterSets(options)
+  const pool = sets.join('')
+
+  const chars: string[] = []
+  sets.forEach((set) => {
+    for (let i = 0; i < options.minPerClass; i++) {
+      chars.push(pick(set))
+    }
+  })
+  while (chars.length < options.length) {
+    chars.push(pick(pool))
+  }
+
+  return shuffle(chars).join('')
+}
+
+function generatePassphrase(options: PasswordGeneratorOptions): string {
+  const words = Array.from({ length: options.wordCount }, () => {
+    const word = pick(PASSPHRASE_WORDLIST)
+    return options.capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word
+  })
+
+  if (options.includeNumber) {
+    const index = randomInt(words.length)
+    words[index] = `${words[index]}${randomInt(10)}`
+  }
+
+  return words.join(options.separator)
+}
+
+/**
+ * Sinh mật khẩu hoặc passphrase theo tùy chọn
+ * @throws GeneratorOptionsError nếu tùy chọn không hợp lệ
+ */
+export function generatePassword(options: PasswordGeneratorOptions = DEFAULT_GENERATOR_OPTIONS): string {
+  const error = validateGeneratorOptions(options)
+  if (error) {
+    throw new GeneratorOptionsError(error)
+  }
+
+  return options.mode === 'passphrase' ? generatePassphrase(options) : generateRandomPassword(options)
+}
+
+/**
+ * Entropy (bits) của kết quả sinh ra với bộ tùy chọn này
+ * Ràng buộc tối thiểu mỗi nhóm làm giảm entropy không đáng kể nên được bỏ qua
+ */
+export function estimateGeneratorEntropy(options: PasswordGeneratorOptions): number {
+  if (options.mode === 'passphrase') {
+    const wordBits = options.wordCount * Math.log2(PASSPHRASE_WORDLIST.length)
+    const numberBits = options.includeNumber ? Math.log2(10 * options.wordCount) : 0
+    return wordBits + numberBits
+  }
+
+  const poolSize = getActiveCharacterSets(options).join('').length
+  return poolSize > 0 ? options.length * Math.log2(poolSize) : 0
+}
+
+export type EntropyStrength = 'weak' | 'fair' | 'strong' | 'very-strong'
+
+/**
+ * Phân loại độ mạnh theo entropy
+ */
+export function getEntropyStrength(bits: number): EntropyStrength {
+  if (bits < 40) return 'weak'
+  if (bits < 60) return 'fair'
+  if (bits < 80) return 'strong'
+  return 'very-strong'
+}
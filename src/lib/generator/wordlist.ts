@@ -0,0 +1,143 @@
+/**
+ * Wordlist cho chế độ passphrase (kiểu diceware)
+ * Từ tiếng Anh phổ biến, 3-8 ký tự, chỉ gồm chữ thường và không trùng lặp
+ */
+export const PASSPHRASE_WORDLIST: readonly string[] = [
+  'able', 'acid', 'acorn', 'adapt', 'admit', 'adobe', 'adult', 'aged', 'agent', 'agile', 'ahead',
+  'aisle', 'alarm', 'album', 'alert', 'algae', 'alien', 'alley', 'alpha', 'also', 'amber', 'amigo',
+  'ample', 'angle', 'ankle', 'anvil', 'apple', 'apron', 'area', 'arena', 'argue', 'armor', 'army',
+  'aroma', 'arrow', 'aspen', 'atlas', 'atom', 'attic', 'audio', 'aunt', 'avid', 'award', 'away',
+  'axis', 'baby', 'back', 'bacon', 'badge', 'bagel', 'bail', 'bake', 'baker', 'ball', 'balmy',
+  'bamboo', 'band', 'banjo', 'bank', 'barley', 'barn', 'base', 'basil', 'basin', 'bath', 'baton',
+  'beach', 'beam', 'bean', 'bear', 'beat', 'beaver', 'beef', 'beer', 'begin', 'bell', 'belly',
+  'belt', 'bench', 'berry', 'best', 'bike', 'bingo', 'birch', 'bird', 'bison', 'bite', 'blade',
+  'blank', 'blast', 'blaze', 'blend', 'bless', 'blimp', 'blind', 'block', 'blog', 'bloom', 'blue',
+  'bluff', 'blunt', 'blush', 'board', 'boat', 'bobcat', 'body', 'bold', 'bolt', 'bone', 'bonus',
+  'book', 'boost', 'boot', 'booth', 'boss', 'bottle', 'bounce', 'bowl', 'bracket', 'brain',
+  'brake', 'brand', 'brass', 'brave', 'bread', 'break', 'breeze', 'brick', 'bride', 'bridge',
+  'brief', 'bright', 'bring', 'brisk', 'broad', 'bronze', 'brook', 'broom', 'brown', 'brush',
+  'buck', 'buddy', 'buffalo', 'bugle', 'build', 'bulb', 'bulk', 'bull', 'bunch', 'bundle', 'bunny',
+  'burger', 'burn', 'burst', 'bush', 'busy', 'butter', 'button', 'buzz', 'cabbage', 'cabin',
+  'cable', 'cactus', 'cafe', 'cage', 'cake', 'calm', 'camel', 'camera', 'camp', 'canal', 'candy',
+  'cane', 'canoe', 'canvas', 'canyon', 'cape', 'captain', 'caramel', 'carbon', 'card', 'career',
+  'cargo', 'carpet', 'carrot', 'carry', 'cart', 'case', 'cash', 'cashew', 'casino', 'castle',
+  'cat', 'cattle', 'cause', 'cave', 'cedar', 'celery', 'cell', 'census', 'cereal', 'chain',
+  'chair', 'chalk', 'champ', 'chant', 'chaos', 'chapel', 'charm', 'chart', 'chase', 'cheap',
+  'check', 'cheek', 'cheer', 'cheese', 'chef', 'cherry', 'chess', 'chest', 'chew', 'chick',
+  'chief', 'child', 'chili', 'chill', 'chimp', 'chin', 'chip', 'chop', 'chord', 'chrome', 'chunk',
+  'churn', 'cider', 'cigar', 'cinema', 'cinnamon', 'circle', 'citrus', 'city', 'civic', 'claim',
+  'clamp', 'clap', 'clash', 'class', 'claw', 'clay', 'clean', 'clerk', 'click', 'cliff', 'climb',
+  'clinic', 'clip', 'cloak', 'clock', 'close', 'cloth', 'cloud', 'clover', 'clown', 'club', 'clue',
+  'coach', 'coal', 'coast', 'coat', 'cobalt', 'cobra', 'cocoa', 'coconut', 'code', 'coffee',
+  'coil', 'coin', 'cola', 'cold', 'collar', 'colt', 'comb', 'comet', 'comic', 'compass', 'condor',
+  'cookie', 'copper', 'coral', 'cord', 'core', 'cork', 'corn', 'cotton', 'couch', 'cougar',
+  'cough', 'count', 'court', 'cousin', 'cover', 'cow', 'coyote', 'crab', 'craft', 'crane', 'crash',
+  'crate', 'crawl', 'crayon', 'crazy', 'cream', 'creek', 'crew', 'cricket', 'crisp', 'crop',
+  'cross', 'crowd', 'crown', 'cruise', 'crumb', 'crush', 'crust', 'cube', 'cuff', 'cup', 'cupcake',
+  'curb', 'cure', 'curl', 'curtain', 'curve', 'custom', 'cutlet', 'cycle', 'dagger', 'daily',
+  'dairy', 'daisy', 'dance', 'dancer', 'dare', 'dark', 'dash', 'data', 'date', 'dawn', 'deal',
+  'dear', 'debt', 'decal', 'deck', 'deep', 'deer', 'delta', 'denim', 'dense', 'depth', 'desert',
+  'design', 'desk', 'detail', 'dial', 'diamond', 'diary', 'dice', 'diet', 'dime', 'diner', 'dingo',
+  'dinner', 'dish', 'disk', 'diver', 'dock', 'doctor', 'dodge', 'dog', 'doll', 'dolphin', 'domain',
+  'dome', 'donor', 'donut', 'door', 'dose', 'dove', 'down', 'dozen', 'draft', 'drag', 'dragon',
+  'drain', 'drama', 'drape', 'draw', 'drawer', 'dream', 'dress', 'drift', 'drill', 'drink',
+  'drive', 'drone', 'drop', 'drum', 'dryer', 'duck', 'dune', 'dusk', 'dust', 'duty', 'eager',
+  'eagle', 'early', 'earth', 'easel', 'east', 'easy', 'echo', 'eclipse', 'edge', 'eel', 'elbow',
+  'elder', 'elegant', 'elk', 'elm', 'email', 'embark', 'ember', 'emerald', 'emoji', 'empire',
+  'empty', 'energy', 'engine', 'enigma', 'enjoy', 'entry', 'envoy', 'epic', 'equal', 'erase',
+  'error', 'escape', 'espresso', 'essay', 'ethic', 'even', 'event', 'exact', 'exit', 'extra',
+  'fable', 'face', 'fact', 'fade', 'fair', 'faith', 'falcon', 'fall', 'fame', 'family', 'fancy',
+  'farm', 'fast', 'fawn', 'feast', 'feather', 'fence', 'fender', 'fern', 'ferret', 'ferry',
+  'festival', 'fever', 'fiber', 'fiddle', 'field', 'fig', 'figure', 'film', 'filter', 'final',
+  'finch', 'fire', 'firm', 'fish', 'fitness', 'five', 'flag', 'flame', 'flamingo', 'flannel',
+  'flash', 'flask', 'flat', 'fleet', 'flint', 'flip', 'float', 'flock', 'flood', 'floor', 'flour',
+  'flow', 'fluffy', 'fluid', 'flute', 'foam', 'focus', 'fog', 'foil', 'folk', 'font', 'food',
+  'foot', 'force', 'forest', 'fork', 'form', 'fort', 'forum', 'fossil', 'fountain', 'fox', 'frame',
+  'freckle', 'fresh', 'friday', 'frog', 'frost', 'fruit', 'fuel', 'fun', 'fund', 'fury', 'fuse',
+  'gala', 'galaxy', 'game', 'gap', 'garden', 'garlic', 'gate', 'gauge', 'gazebo', 'gear', 'gecko',
+  'gem', 'genre', 'gentle', 'ghost', 'giant', 'gift', 'ginger', 'giraffe', 'given', 'glacier',
+  'glad', 'glass', 'globe', 'glove', 'glow', 'glue', 'goal', 'goat', 'gold', 'golf', 'gong',
+  'good', 'goose', 'gossip', 'gown', 'grab', 'grace', 'grain', 'granite', 'grant', 'grape',
+  'graph', 'grass', 'gravel', 'gravy', 'gray', 'great', 'green', 'grid', 'grill', 'grin', 'grip',
+  'groom', 'group', 'grove', 'growl', 'guard', 'guava', 'guess', 'guest', 'guide', 'guitar',
+  'gulf', 'gull', 'gum', 'guru', 'gust', 'gutter', 'habit', 'hair', 'half', 'hall', 'halo', 'ham',
+  'hammer', 'hamster', 'hand', 'happy', 'harbor', 'hard', 'harp', 'harvest', 'hat', 'hatch',
+  'hawk', 'hazel', 'head', 'heap', 'heart', 'heat', 'hedge', 'helium', 'hello', 'helmet', 'help',
+  'herb', 'hermit', 'hero', 'heron', 'hickory', 'hike', 'hill', 'hint', 'hippo', 'hobby', 'hockey',
+  'hold', 'hole', 'hollow', 'holly', 'home', 'honey', 'hood', 'hook', 'hope', 'horizon', 'horn',
+  'hornet', 'horse', 'host', 'hotel', 'hour', 'house', 'hug', 'human', 'humor', 'hunt', 'husky',
+  'hut', 'hymn', 'iceberg', 'icon', 'idea', 'idle', 'igloo', 'iguana', 'image', 'impala', 'inch',
+  'index', 'ink', 'inlet', 'input', 'iron', 'island', 'ivory', 'ivy', 'jacket', 'jade', 'jaguar',
+  'jam', 'jar', 'jasmine', 'jazz', 'jeans', 'jelly', 'jewel', 'jigsaw', 'job', 'jockey', 'jog',
+  'joke', 'jolly', 'journal', 'joy', 'judge', 'juice', 'jumbo', 'jump', 'jungle', 'junior', 'jury',
+  'just', 'kale', 'kayak', 'keen', 'kernel', 'ketchup', 'kettle', 'key', 'kick', 'kid', 'kind',
+  'king', 'kite', 'kitten', 'kiwi', 'knee', 'knife', 'knot', 'koala', 'label', 'lace', 'ladder',
+  'lagoon', 'lake', 'lamb', 'lamp', 'land', 'lane', 'lantern', 'laptop', 'large', 'laser', 'latch',
+  'late', 'lattice', 'lava', 'lawn', 'layer', 'lazy', 'leaf', 'lean', 'learn', 'ledge', 'legend',
+  'lemon', 'lens', 'lentil', 'lettuce', 'level', 'lever', 'light', 'lilac', 'lily', 'limb', 'lime',
+  'limit', 'linen', 'lion', 'lip', 'list', 'lizard', 'llama', 'load', 'loaf', 'lobby', 'lobster',
+  'local', 'lock', 'locket', 'lodge', 'loft', 'logic', 'loop', 'lotus', 'loud', 'love', 'loyal',
+  'lucky', 'lumber', 'lunar', 'lunch', 'lung', 'lyric', 'macro', 'magic', 'magnet', 'major',
+  'maker', 'mammal', 'mango', 'mantis', 'maple', 'marble', 'march', 'marina', 'market', 'marlin',
+  'mask', 'mason', 'match', 'math', 'maze', 'meadow', 'medal', 'melon', 'memo', 'mercy', 'merit',
+  'mesh', 'metal', 'meteor', 'meter', 'micro', 'midst', 'mild', 'mile', 'milk', 'mill', 'mimic',
+  'mind', 'mint', 'minus', 'mirror', 'mist', 'mitten', 'mixer', 'mocha', 'model', 'modem', 'mole',
+  'money', 'monk', 'monkey', 'month', 'moon', 'moose', 'moral', 'morning', 'mosaic', 'moss',
+  'motel', 'moth', 'motor', 'mount', 'mouse', 'mouth', 'movie', 'mud', 'muffin', 'mule', 'mural',
+  'music', 'mustard', 'mute', 'myth', 'nail', 'name', 'nanny', 'napkin', 'navy', 'neat', 'neck',
+  'nectar', 'needle', 'nerve', 'nest', 'net', 'never', 'news', 'nickel', 'night', 'ninja', 'noble',
+  'noise', 'nomad', 'noodle', 'north', 'nose', 'note', 'novel', 'nugget', 'nurse', 'nut', 'nutmeg',
+  'oak', 'oasis', 'oat', 'oatmeal', 'ocean', 'octave', 'octopus', 'olive', 'omega', 'onion',
+  'opal', 'open', 'opera', 'orange', 'orbit', 'orchid', 'order', 'organ', 'organic', 'otter',
+  'ounce', 'outer', 'outlet', 'oval', 'oven', 'owl', 'owner', 'oxygen', 'oyster', 'pace', 'pack',
+  'paddle', 'page', 'paint', 'palm', 'panda', 'panel', 'panic', 'paper', 'paprika', 'parade',
+  'parcel', 'park', 'parrot', 'parsley', 'party', 'pasta', 'patch', 'path', 'patio', 'pause',
+  'peach', 'peak', 'peanut', 'pearl', 'pebble', 'pecan', 'pedal', 'pelican', 'penguin', 'penny',
+  'pepper', 'perch', 'piano', 'pickle', 'picnic', 'pie', 'pier', 'pig', 'pigeon', 'pillow',
+  'pilot', 'pine', 'pink', 'pinto', 'pipe', 'pirate', 'pitch', 'pixel', 'pizza', 'place', 'plain',
+  'plan', 'plane', 'planet', 'plank', 'plant', 'plaster', 'plate', 'plaza', 'plot', 'plum',
+  'plush', 'pocket', 'poem', 'poet', 'point', 'polar', 'pole', 'polka', 'pollen', 'pond', 'pony',
+  'pool', 'popcorn', 'poppy', 'porch', 'port', 'pose', 'post', 'potato', 'pouch', 'power', 'prank',
+  'press', 'pretzel', 'price', 'pride', 'prime', 'print', 'prism', 'prize', 'probe', 'prose',
+  'proud', 'prune', 'puffin', 'pulse', 'puma', 'pump', 'pumpkin', 'punch', 'pupil', 'puppy',
+  'purse', 'puzzle', 'python', 'quack', 'quail', 'quake', 'quart', 'quartz', 'queen', 'quest',
+  'quick', 'quiet', 'quilt', 'quiver', 'quiz', 'rabbit', 'raccoon', 'race', 'radar', 'radio',
+  'radish', 'raft', 'rail', 'rain', 'raisin', 'rake', 'ramp', 'ranch', 'range', 'ranger', 'rapid',
+  'rattle', 'raven', 'razor', 'ready', 'realm', 'rebel', 'recap', 'reef', 'relax', 'relay',
+  'remix', 'rent', 'reply', 'reptile', 'rhino', 'rhyme', 'ribbon', 'rice', 'rider', 'ridge',
+  'rifle', 'ring', 'rinse', 'ripple', 'river', 'road', 'roast', 'robe', 'robin', 'robot', 'rock',
+  'rocket', 'rodeo', 'roof', 'room', 'rooster', 'root', 'rope', 'rose', 'rough', 'round', 'route',
+  'rover', 'royal', 'ruby', 'rug', 'rugby', 'ruler', 'rumor', 'rural', 'rush', 'rust', 'saddle',
+  'safe', 'saffron', 'saga', 'sage', 'sail', 'salad', 'salmon', 'salsa', 'salt', 'sand', 'sandal',
+  'sardine', 'satin', 'sauce', 'sauna', 'scale', 'scallop', 'scarf', 'scene', 'scoop', 'scooter',
+  'scout', 'scrap', 'screen', 'scroll', 'seal', 'season', 'seat', 'seed', 'sesame', 'shade',
+  'shadow', 'shake', 'shape', 'share', 'shark', 'sheep', 'shelf', 'shell', 'shield', 'shift',
+  'shine', 'ship', 'shirt', 'shoe', 'shore', 'short', 'shout', 'shovel', 'shrimp', 'shrub', 'sick',
+  'siege', 'sign', 'signal', 'silk', 'silver', 'simple', 'siren', 'skater', 'sketch', 'skill',
+  'skirt', 'sky', 'slab', 'sled', 'sleep', 'slice', 'slide', 'slope', 'sloth', 'small', 'smart',
+  'smile', 'smoke', 'snack', 'snail', 'snake', 'sneaker', 'snow', 'soap', 'soccer', 'sock', 'soda',
+  'sofa', 'soft', 'solar', 'solid', 'sonar', 'song', 'sonic', 'soup', 'south', 'space', 'spark',
+  'sparrow', 'speak', 'spear', 'speed', 'spell', 'spice', 'spider', 'spike', 'spinach', 'spine',
+  'sponge', 'spoon', 'sport', 'spray', 'spring', 'spruce', 'squad', 'squash', 'squid', 'stable',
+  'stack', 'staff', 'stage', 'stair', 'stamp', 'stand', 'stapler', 'star', 'start', 'steam',
+  'steel', 'stem', 'stencil', 'step', 'stew', 'stick', 'still', 'sting', 'stone', 'stool', 'storm',
+  'story', 'stove', 'straw', 'stream', 'street', 'strip', 'stump', 'style', 'sugar', 'suit',
+  'summer', 'sun', 'sunset', 'super', 'surf', 'swamp', 'swan', 'sweet', 'swift', 'swing', 'sword',
+  'syrup', 'table', 'tablet', 'taco', 'tadpole', 'tail', 'talent', 'tango', 'tank', 'tape',
+  'target', 'task', 'taxi', 'tea', 'teacup', 'team', 'teapot', 'temple', 'tempo', 'tennis', 'tent',
+  'term', 'test', 'text', 'thimble', 'thistle', 'thorn', 'thumb', 'thunder', 'ticket', 'tidal',
+  'tide', 'tiger', 'tile', 'timber', 'toast', 'today', 'toffee', 'token', 'tomato', 'tone', 'tool',
+  'tooth', 'topic', 'torch', 'tornado', 'total', 'tour', 'towel', 'tower', 'town', 'toy', 'track',
+  'trade', 'trail', 'train', 'tray', 'treat', 'tree', 'trend', 'tribe', 'trick', 'trophy', 'truck',
+  'trumpet', 'trunk', 'trust', 'truth', 'tulip', 'tuna', 'tundra', 'tunnel', 'turkey', 'turnip',
+  'turtle', 'tutor', 'tuxedo', 'twig', 'twin', 'type', 'ultra', 'umbrella', 'uncle', 'union',
+  'unit', 'update', 'upper', 'urban', 'usage', 'user', 'valley', 'value', 'valve', 'vanilla',
+  'vapor', 'vault', 'velcro', 'velvet', 'vendor', 'venom', 'venue', 'verse', 'vest', 'video',
+  'view', 'villa', 'vinyl', 'violet', 'violin', 'visa', 'visit', 'vital', 'vivid', 'vocal',
+  'voice', 'volt', 'vote', 'voyage', 'wafer', 'wagon', 'waist', 'walk', 'wall', 'walnut', 'walrus',
+  'wand', 'warm', 'wave', 'wax', 'wealth', 'weather', 'web', 'wedge', 'whale', 'wheat', 'wheel',
+  'whisk', 'white', 'width', 'wild', 'willow', 'wind', 'window', 'wing', 'winter', 'wire', 'wise',
+  'wizard', 'wolf', 'wombat', 'wood', 'wool', 'word', 'work', 'world', 'worm', 'wren', 'wrist',
+  'yacht', 'yard', 'yarn', 'year', 'yeast', 'yellow', 'yield', 'yodel', 'yoga', 'yogurt', 'young',
+  'youth', 'zebra', 'zephyr', 'zero', 'zest', 'zigzag', 'zinc', 'zipper', 'zone', 'zoom'
+]
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  DEFAULT_PASSWORD_HISTORY_DEPTH,
+  MAX_PASSWORD_HISTORY_DEPTH,
+  appendPasswordHistory,
+  getPasswordHistoryDepth,
+  setPasswordHistoryDepth,
+} from './password-history'
+
+const CHANGED_AT = '2024-02-01T00:00:00.000Z'
+
+const history = (...passwords: string[]) =>
+  passwords.map((password) => ({ password, changedAt: '2024-01-01T00:00:00.000Z' }))
+
+describe('appendPasswordHistory', () => {
+  it('đưa mật khẩu hiện tại lên đầu lịch sử', () => {
+    expect(appendPasswordHistory({ password: 'v2', passwordHistory: history('v1') }, 'v3', 5, CHANGED_AT)).toEqual([
+      { password: 'v2', changedAt: CHANGED_AT },
+      ...history('v1'),
+    ])
+  })
+
+  it('trả undefined khi mật khẩu không đổi', () => {
+    expect(appendPasswordHistory({ password: 'same' }, 'same')).toBeUndefined()
+  })
+
+  it('cắt theo depth, bỏ mục cũ nhất', () => {
+    const result = appendPasswordHistory({ password: 'v4', passwordHistory: history('v3', 'v2', 'v1') }, 'v5', 2, CHANGED_AT)
+    expect(result?.map((item) => item.password)).toEqual(['v4', 'v3'])
+    expect(appendPasswordHistory({ password: 'v1' }, 'v2', 0)).toEqual([])
+  })
+
+  it('bỏ bản trùng khi khôi phục mật khẩu từ lịch sử', () => {
+    const result = appendPasswordHistory({ password: 'v3', passwordHistory: history('v2', 'v1') }, 'v2', 5, CHANGED_AT)
+    expect(result?.map((item) => item.password)).toEqual(['v3', 'v1'])
+  })
+
+  it('không lưu mật khẩu rỗng của entry chưa có mật khẩu', () => {
+    expect(appendPasswordHistory({ password: '' }, 'first', 5, CHANGED_AT)).toEqual([])
+  })
+})
+
+describe('password history depth', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('mặc định khi chưa cấu hình hoặc giá trị hỏng', () => {
+    expect(getPasswordHistoryDepth()).toBe(DEFAULT_PASSWORD_HISTORY_DEPTH)
+    localStorage.setItem('memory-safe-guard-password-history-depth', 'abc')
+    expect(getPasswordHistoryDepth()).toBe(DEFAULT_PASSWORD_HISTORY_DEPTH)
+  })
+
+  it('giới hạn depth trong khoảng cho phép', () => {
+    setPasswordHistoryDepth(1000)
+    expect(getPasswordHistoryDepth()).toBe(MAX_PASSWORD_HISTORY_DEPTH)
+    setPasswordHistoryDepth(-3)
+    expect(getPasswordHistoryDepth()).toBe(0)
+  })
+})
@@ -0,0 +1,60 @@
+import type { PasswordEntry, PasswordHistoryItem } from '../types/password'
+
+/**
+ * Password History - giữ lại mật khẩu cũ mỗi khi entry đổi mật khẩu
+ * để có thể khôi phục khi việc đổi mật khẩu trên dịch vụ thất bại giữa chừng.
+ *
+ * Lịch sử nằm trên entry và được mã hóa như password nên đi theo entry
+ * qua mọi backend, sync và backup.
+ */
+
+export const DEFAULT_PASSWORD_HISTORY_DEPTH = 5
+export const MAX_PASSWORD_HISTORY_DEPTH = 50
+
+const DEPTH_STORAGE_KEY = 'memory-safe-guard-password-history-depth'
+
+const clampDepth = (depth: number): number =>
+  Math.min(MAX_PASSWORD_HISTORY_DEPTH, Math.max(0, Math.floor(depth)))
+
+/**
+ * Số mật khẩu cũ tối đa giữ lại cho mỗi entry (0: tắt lịch sử)
+ */
+export function getPasswordHistoryDepth(): number {
+  try {
+    const stored = localStorage.getItem(DEPTH_STORAGE_KEY)
+    const depth = stored === null ? NaN : Number(stored)
+    return Number.isFinite(depth) ? clampDepth(depth) : DEFAULT_PASSWORD_HISTORY_DEPTH
+  } catch {
+    return DEFAULT_PASSWORD_HISTORY_DEPTH
+  }
+}
+
+export function setPasswordHistoryDepth(depth: number): void {
+  try {
+    localStorage.setItem(DEPTH_STORAGE_KEY, String(clampDepth(depth)))
+  } catch (error) {
+    console.warn('Failed to save password history depth to localStorage:', error)
+  }
+}
+
+/**
+ * Lịch sử mới khi entry đổi mật khẩu: mật khẩu hiện tại được đưa lên đầu,
+ * bỏ bản trùng với mật khẩu mới (khôi phục từ lịch sử) và cắt theo depth.
+ * Cả hai tham số đều phải là plaintext.
+ * @returns undefined nếu mật khẩu không đổi
+ */
+export function appendPasswordHistory(
+  current: Pick<PasswordEntry, 'password' | 'passwordHistory'>,
+  nextPassword: string,
+  depth: number = getPasswordHistoryDepth(),
+  changedAt: string = new Date().toISOString()
+): PasswordHistoryItem[] | undefined {
+  if (nextPassword === current.password) {
+    return undefined
+  }
+
+  const previous: PasswordHistoryItem[] = current.password ? [{ password: current.password, changedAt }] : []
+  return [...previous, ...(current.passwordHistory ?? [])]
+    .filter((item) => item.password !== nextPassword)
+    .slice(0, clampDepth(depth))
+}
@@ -0,0 +1,71 @@
+/**
+ * CSV parser theo RFC 4180 - hỗ trợ field trong dấu nháy kép,
+ * nháy kép escape ("") và xuống dòng bên trong field
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Bỏ BOM mà Excel/Windows hay thêm vào đầu file
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Bỏ các dòng trống hoàn toàn
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''))
+}
+
+/**
+ * Parse CSV có header thành danh sách record theo tên cột (lowercase)
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return []
+
+  const columns = header.map((column) => column.trim().toLowerCase())
+  return rows.map((cells) => {
+    const record: Record<string, string> = {}
+    columns.forEach((column, index) => {
+      record[column] = cells[index] ?? ''
+    })
+    return record
+  })
+}
@@ -0,0 +1,49 @@
+import { getEntryValidationErrors } from '../password-validation'
+import type { PasswordEntry } from '../types/password'
+import type { ParsedImportRow } from './parsers'
+
+export { parseImportFile, detectCsvFormat, serviceFromUrl, IMPORT_FORMAT_LABELS } from './parsers'
+export type { ImportFormat, ParsedImportRow } from './parsers'
+
+export type ImportRowStatus = 'ready' | 'invalid' | 'duplicate'
+
+export interface ImportPreviewRow {
+  index: number
+  entry: ParsedImportRow
+  status: ImportRowStatus
+  errors: string[]
+  // Trùng với entry đã có trong vault hay trùng ngay trong file import
+  duplicateOf?: 'existing' | 'file'
+}
+
+const duplicateKey = (entry: Pick<PasswordEntry, 'service' | 'username'>): string =>
+  `${entry.service.trim().toLowerCase()}\u0000${entry.username.trim().toLowerCase()}`
+
+/**
+ * Validate từng dòng và đánh dấu trùng lặp (cùng service + username, không phân biệt hoa thường)
+ */
+export function buildImportPreview(rows: ParsedImportRow[], existing: PasswordEntry[]): ImportPreviewRow[] {
+  const existingKeys = new Set(existing.map(duplicateKey))
+  const seenKeys = new Set<string>()
+
+  return rows.map((entry, index) => {
+    const errors = getEntryValidationErrors(entry)
+    if (!entry.service.trim()) errors.unshift('Thiếu tên dịch vụ')
+    if (!entry.password) errors.push('Thiếu mật khẩu')
+
+    if (errors.length > 0) {
+      return { index, entry, status: 'invalid', errors }
+    }
+
+    const key = duplicateKey(entry)
+    if (existingKeys.has(key)) {
+      return { index, entry, status: 'duplicate', errors, duplicateOf: 'existing' }
+    }
+    if (seenKeys.has(key)) {
+      return { index, entry, status: 'duplicate', errors, duplicateOf: 'file' }
+    }
+
+    seenKeys.add(key)
+    return { index, entry, status: 'ready', errors }
+  })
+}
@@ -0,0 +1,132 @@
+// @vitest-environment node
+// File của jsdom chưa có arrayBuffer(), File của Node thì có
+import { describe, expect, it } from 'vitest'
+import { buildImportPreview, detectCsvFormat, parseImportFile, serviceFromUrl } from './index'
+import { parseCsv } from './csv'
+import type { PasswordEntry } from '../types/password'
+
+const file = (content: string, name = 'export.csv') => new File([content], name)
+
+describe('parseCsv', () => {
+  it('đọc field trong nháy kép có dấu phẩy, nháy escape và xuống dòng, bỏ BOM và dòng trống', () => {
+    expect(parseCsv('﻿a,b\r\n"x, y","say ""hi""\nline 2"\n\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nline 2'],
+    ])
+  })
+})
+
+describe('detectCsvFormat', () => {
+  it.each([
+    ['url,username,password,totp,extra,name,grouping,fav', 'lastpass-csv'],
+    ['"url","username","password","httpRealm","formActionOrigin","guid"', 'firefox-csv'],
+    ['Title,Url,Username,Password,OTPAuth,Favorite,Archived,Tags,Notes', '1password-csv'],
+    ['name,url,username,password,note', 'chrome-csv'],
+  ])('nhận diện header %s', (header, format) => {
+    expect(detectCsvFormat(`${header}\n`)).toBe(format)
+  })
+
+  it('trả null với CSV không rõ nguồn', () => {
+    expect(detectCsvFormat('foo,bar\n1,2')).toBeNull()
+  })
+})
+
+describe('serviceFromUrl', () => {
+  it('lấy hostname bỏ www, chấp nhận URL không có scheme', () => {
+    expect(serviceFromUrl('https://www.github.com/login')).toBe('github.com')
+    expect(serviceFromUrl('accounts.google.com')).toBe('accounts.google.com')
+    expect(serviceFromUrl(undefined)).toBe('')
+  })
+})
+
+describe('parseImportFile', () => {
+  it('đọc Chrome CSV', async () => {
+    const result = await parseImportFile(file('name,url,username,password,note\nGitHub,https://github.com,alice,secret,"ghi chú"\n'))
+
+    expect(result.format).toBe('chrome-csv')
+    expect(result.rows).toEqual([
+      { service: 'GitHub', username: 'alice', password: 'secret', urls: [{ url: 'https://github.com' }], notes: 'ghi chú' },
+    ])
+  })
+
+  it('đọc Firefox CSV, lấy tên service từ URL', async () => {
+    const result = await parseImportFile(file('url,username,password,httpRealm,formActionOrigin\nhttps://www.example.com,bob,pw,,\n'))
+    expect(result.rows[0]).toMatchObject({ service: 'example.com', username: 'bob', password: 'pw' })
+  })
+
+  it('đọc LastPass CSV, bỏ secure note', async () => {
+    const result = await parseImportFile(file([
+      'url,username,password,extra,name,grouping,fav',
+      'https://github.com,alice,pw,notes,GitHub,Work,0',
+      'https://gitlab.com,bob,pw2,,,,0',
+      'http://sn,,,secret note,Note,,0',
+    ].join('\n')))
+
+    expect(result.format).toBe('lastpass-csv')
+    expect(result.rows.map((row) => row.service)).toEqual(['GitHub', 'gitlab.com'])
+  })
+
+  it('đọc 1Password CSV', async () => {
+    const result = await parseImportFile(file('Title,Url,Username,Password,Notes\nBank,https://bank.vn,carol,pw,PIN trong ví\n'))
+    expect(result.rows[0]).toMatchObject({ service: 'Bank', username: 'carol', password: 'pw', notes: 'PIN trong ví' })
+  })
+
+  it('đọc Bitwarden JSON: chỉ lấy item login, URI kèm kiểu match, custom field được hỗ trợ', async () => {
+    const exportData = {
+      encrypted: false,
+      items: [
+        {
+          type: 1,
+          notes: 'work',
+          fields: [
+            { name: 'PIN', value: '1234', type: 1 },
+            { name: 'Linked', value: null, type: 3 },
+          ],
+          login: {
+            username: 'alice',
+            password: 'pw',
+            uris: [{ uri: 'https://www.github.com/login', match: null }, { uri: 'https://gist.github.com', match: 1 }, { uri: 'https://never.example', match: 5 }],
+          },
+        },
+        { type: 2, name: 'Secure note', notes: 'text' },
+      ],
+    }
+    const result = await parseImportFile(file(JSON.stringify(exportData), 'bitwarden.json'))
+
+    expect(result.format).toBe('bitwarden-json')
+    expect(result.rows).toHaveLength(1)
+    expect(result.rows[0]).toMatchObject({
+      service: 'github.com',
+      username: 'alice',
+      password: 'pw',
+      notes: 'work',
+      urls: [{ url: 'https://www.github.com/login', match: 'base-domain' }, { url: 'https://gist.github.com', match: 'host' }],
+      customFields: [{ name: 'PIN', value: '1234', type: 'hidden' }],
+    })
+  })
+
+  it('từ chối Bitwarden JSON đã mã hóa và file không nhận diện được', async () => {
+    await expect(parseImportFile(file('{"encrypted":true}', 'bitwarden.json'))).rejects.toThrow('File Bitwarden đã được mã hóa')
+    await expect(parseImportFile(file('foo,bar\n1,2'))).rejects.toThrow('Không nhận diện được định dạng file')
+  })
+})
+
+describe('buildImportPreview', () => {
+  it('đánh dấu dòng thiếu dữ liệu và dòng trùng với vault hoặc trong file', () => {
+    const existing = [{ id: '1', service: 'GitHub', username: 'alice', password: 'x', createdAt: '', updatedAt: '' }] as PasswordEntry[]
+    const preview = buildImportPreview([
+      { service: 'github', username: 'ALICE', password: 'pw' },
+      { service: 'GitLab', username: 'bob', password: 'pw' },
+      { service: 'gitlab', username: 'bob', password: 'pw' },
+      { service: '', username: 'carol', password: '' },
+    ], existing)
+
+    expect(preview.map((row) => [row.status, row.duplicateOf])).toEqual([
+      ['duplicate', 'existing'],
+      ['ready', undefined],
+      ['duplicate', 'file'],
+      ['invalid', undefined],
+    ])
+    expect(preview[3].errors).toEqual(expect.arrayContaining(['Thiếu tên dịch vụ', 'Thiếu mật khẩu']))
+  })
+})
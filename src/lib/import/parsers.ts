@@ -0,0 +1,229 @@
+import type { CreatePasswordEntry, CustomField, CustomFieldType, UrlMatchMode } from '../types/password'
+import { parseCsv, parseCsvRecords } from './csv'
+import { isZipBuffer, readZipTextFile } from './zip'
+import { isValidTotpSecret } from '../totp/totp'
+
+export type ImportFormat =
+  | 'bitwarden-json'
+  | '1password-1pux'
+  | '1password-csv'
+  | 'lastpass-csv'
+  | 'chrome-csv'
+  | 'firefox-csv'
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  'bitwarden-json': 'Bitwarden (JSON)',
+  '1password-1pux': '1Password (1PUX)',
+  '1password-csv': '1Password (CSV)',
+  'lastpass-csv': 'LastPass (CSV)',
+  'chrome-csv': 'Chrome (CSV)',
+  'firefox-csv': 'Firefox (CSV)'
+}
+
+/**
+ * Một dòng dữ liệu đã map sang CreatePasswordEntry, chưa validate
+ */
+export type ParsedImportRow = CreatePasswordEntry
+
+// Các phần của file export mà wizard cần đọc (bỏ qua những field khác)
+interface BitwardenExport {
+  encrypted?: boolean
+  items?: Array<{
+    type: number
+    name?: string
+    notes?: string | null
+    fields?: Array<{ name?: string | null; value?: string | null; type?: number }>
+    login?: { username?: string; password?: string; totp?: string | null; uris?: Array<{ uri?: string; match?: number | null }> }
+  }>
+}
+
+interface OnePuxExport {
+  accounts?: Array<{
+    vaults?: Array<{
+      items?: Array<{
+        state?: string
+        overview?: { title?: string; url?: string }
+        details?: {
+          password?: string
+          notesPlain?: string
+          loginFields?: Array<{ designation?: string; value?: string }>
+        }
+      }>
+    }>
+  }>
+}
+
+// Kiểu match URI của Bitwarden: 0 domain, 1 host, 2 starts-with, 3 exact, 4 regex (5 = never, bỏ qua)
+const BITWARDEN_URI_MATCH: Record<number, UrlMatchMode> = {
+  0: 'base-domain',
+  1: 'host',
+  2: 'starts-with',
+  3: 'exact',
+  4: 'regex'
+}
+
+// Kiểu custom field của Bitwarden: 0 text, 1 hidden, 2 boolean (3 = linked, bỏ qua)
+const BITWARDEN_FIELD_TYPE: Record<number, CustomFieldType> = {
+  0: 'text',
+  1: 'hidden',
+  2: 'boolean'
+}
+
+// Cột đặc trưng để nhận diện từng loại CSV
+const CSV_SIGNATURES: Array<{ format: ImportFormat; columns: string[] }> = [
+  { format: 'lastpass-csv', columns: ['url', 'username', 'password', 'extra', 'name', 'grouping'] },
+  { format: 'firefox-csv', columns: ['url', 'username', 'password', 'httprealm', 'formactionorigin'] },
+  { format: '1password-csv', columns: ['title', 'url', 'username', 'password'] },
+  { format: 'chrome-csv', columns: ['name', 'url', 'username', 'password'] }
+]
+
+/**
+ * Lấy hostname từ URL làm tên service (bỏ "www.")
+ */
+export function serviceFromUrl(url: string | undefined): string {
+  if (!url) return ''
+  try {
+    return new URL(url.includes('://') ? url : `https://${url}`).hostname.replace(/^www\./, '')
+  } catch {
+    return url.trim()
+  }
+}
+
+// Secret TOTP không đọc được (vd. steam:// của Bitwarden) bị bỏ qua thay vì làm hỏng cả dòng
+function importTotp(value: string | null | undefined): string {
+  const trimmed = value?.trim() ?? ''
+  return trimmed && isValidTotpSecret(trimmed) ? trimmed : ''
+}
+
+function toEntry(service: string | undefined, url: string | undefined, username: string | undefined, password: string | undefined, notes?: string | null): ParsedImportRow {
+  const trimmedUrl = url?.trim()
+  return {
+    service: (service?.trim() || serviceFromUrl(url)),
+    username: username?.trim() ?? '',
+    password: password ?? '',
+    urls: trimmedUrl ? [{ url: trimmedUrl }] : [],
+    notes: notes?.trim() ?? ''
+  }
+}
+
+/**
+ * Nhận diện loại CSV dựa trên header
+ */
+export function detectCsvFormat(text: string): ImportFormat | null {
+  const [header] = parseCsv(text)
+  if (!header) return null
+
+  const columns = new Set(header.map((column) => column.trim().toLowerCase()))
+  const match = CSV_SIGNATURES.find((signature) => signature.columns.every((column) => columns.has(column)))
+  return match?.format ?? null
+}
+
+function parseBitwardenJson(text: string): ParsedImportRow[] {
+  const data: BitwardenExport = JSON.parse(text)
+  if (data.encrypted) {
+    throw new Error('File Bitwarden đã được mã hóa. Vui lòng export dạng JSON không mã hóa')
+  }
+  if (!Array.isArray(data.items)) {
+    throw new Error('File Bitwarden JSON không hợp lệ')
+  }
+
+  // type 1 = login, các loại khác (note, card, identity) chưa hỗ trợ
+  return data.items
+    .filter((item) => item.type === 1 && item.login)
+    .map((item) => {
+      const uris = (item.login?.uris ?? []).filter((uri) => uri.uri?.trim() && uri.match !== 5)
+      return {
+        ...toEntry(item.name, uris[0]?.uri, item.login?.username, item.login?.password, item.notes),
+        totp: importTotp(item.login?.totp),
+        customFields: (item.fields ?? [])
+          .filter((field) => field.name && BITWARDEN_FIELD_TYPE[field.type ?? 0])
+          .map((field): CustomField => ({
+            id: crypto.randomUUID(),
+            name: field.name ?? '',
+            value: field.value ?? '',
+            type: BITWARDEN_FIELD_TYPE[field.type ?? 0]
+          })),
+        urls: uris.map((uri) => ({
+          url: (uri.uri ?? '').trim(),
+          match: BITWARDEN_URI_MATCH[uri.match ?? 0] ?? 'base-domain'
+        }))
+      }
+    })
+}
+
+function parse1PuxData(text: string): ParsedImportRow[] {
+  const data: OnePuxExport = JSON.parse(text)
+  if (!Array.isArray(data.accounts)) {
+    throw new Error('File 1PUX không hợp lệ')
+  }
+
+  const rows: ParsedImportRow[] = []
+  for (const account of data.accounts) {
+    for (const vault of account.vaults ?? []) {
+      for (const item of vault.items ?? []) {
+        if (item.state && item.state !== 'active') continue
+
+        const fields = item.details?.loginFields ?? []
+        const username = fields.find((field) => field.designation === 'username')?.value
+        const password = fields.find((field) => field.designation === 'password')?.value ?? item.details?.password
+        if (!password) continue
+
+        rows.push(toEntry(item.overview?.title, item.overview?.url, username, password, item.details?.notesPlain))
+      }
+    }
+  }
+  return rows
+}
+
+function parseCsvRows(format: ImportFormat, text: string): ParsedImportRow[] {
+  const records = parseCsvRecords(text)
+
+  switch (format) {
+    case 'lastpass-csv':
+      // Secure note của LastPass có url "http://sn" và không có mật khẩu
+      return records
+        .filter((record) => record.url !== 'http://sn')
+        .map((record) => ({
+          ...toEntry(record.name, record.url, record.username, record.password, record.extra),
+          totp: importTotp(record.totp)
+        }))
+    case 'firefox-csv':
+      return records.map((record) => toEntry(undefined, record.url, record.username, record.password))
+    case '1password-csv':
+      return records.map((record) => ({
+        ...toEntry(record.title, record.url, record.username, record.password, record.notes),
+        totp: importTotp(record.otpauth)
+      }))
+    case 'chrome-csv':
+      return records.map((record) => toEntry(record.name, record.url, record.username, record.password, record.note))
+    default:
+      throw new Error(`Định dạng ${format} không phải CSV`)
+  }
+}
+
+/**
+ * Đọc file export và map sang danh sách entry
+ * @param format - Bỏ trống để tự nhận diện theo nội dung file
+ */
+export async function parseImportFile(file: File, format?: ImportFormat): Promise<{ format: ImportFormat; rows: ParsedImportRow[] }> {
+  const buffer = await file.arrayBuffer()
+
+  if (format === '1password-1pux' || (!format && isZipBuffer(buffer))) {
+    const exportData = await readZipTextFile(buffer, 'export.data')
+    if (exportData === null) {
+      throw new Error('Không tìm thấy export.data trong file 1PUX')
+    }
+    return { format: '1password-1pux', rows: parse1PuxData(exportData) }
+  }
+
+  const text = new TextDecoder().decode(buffer)
+  const detected = format ?? (text.trimStart().startsWith('{') ? 'bitwarden-json' : detectCsvFormat(text))
+  if (!detected) {
+    throw new Error('Không nhận diện được định dạng file. Vui lòng chọn định dạng thủ công')
+  }
+
+  if (detected === 'bitwarden-json') {
+    return { format: detected, rows: parseBitwardenJson(text) }
+  }
+  return { format: detected, rows: parseCsvRows(detected, text) }
+}
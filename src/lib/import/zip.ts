@@ -0,0 +1,99 @@
+/**
+ * Zip reader tối giản để đọc file 1PUX (zip chứa export.data)
+ * Chỉ hỗ trợ method stored (0) và deflate (8) - đủ cho export của 1Password
+ */
+
+const EOCD_SIGNATURE = 0x06054b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+
+interface ZipEntry {
+  name: string
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // EOCD dài tối thiểu 22 bytes, có thể kèm comment tối đa 65535 bytes
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff)
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      return offset
+    }
+  }
+  throw new Error('File zip không hợp lệ')
+}
+
+function readEntries(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer)
+  const eocd = findEndOfCentralDirectory(view)
+  const entryCount = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Central directory của file zip bị hỏng')
+    }
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(new Uint8Array(buffer, offset + 46, nameLength))
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+async function inflateRaw(data: Uint8Array<ArrayBuffer>): Promise<ArrayBuffer> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Response(stream).arrayBuffer()
+}
+
+/**
+ * Đọc nội dung text của một file trong zip
+ * @returns null nếu zip không chứa file đó
+ */
+export async function readZipTextFile(buffer: ArrayBuffer, fileName: string): Promise<string | null> {
+  const entry = readEntries(buffer).find((item) => item.name === fileName)
+  if (!entry) return null
+
+  const view = new DataView(buffer)
+  const headerOffset = entry.localHeaderOffset
+  if (view.getUint32(headerOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error('Local header của file zip bị hỏng')
+  }
+
+  const nameLength = view.getUint16(headerOffset + 26, true)
+  const extraLength = view.getUint16(headerOffset + 28, true)
+  const dataOffset = headerOffset + 30 + nameLength + extraLength
+  const data = new Uint8Array(buffer, dataOffset, entry.compressedSize)
+
+  let content: ArrayBuffer
+  if (entry.method === 0) {
+    content = data.slice().buffer
+  } else if (entry.method === 8) {
+    content = await inflateRaw(data)
+  } else {
+    throw new Error(`Không hỗ trợ phương thức nén zip ${entry.method}`)
+  }
+
+  return new TextDecoder().decode(content)
+}
+
+/**
+ * Kiểm tra nhanh buffer có phải file zip không (magic bytes "PK\x03\x04")
+ */
+export function isZipBuffer(buffer: ArrayBuffer): boolean {
+  return buffer.byteLength >= 4 && new DataView(buffer).getUint32(0, true) === LOCAL_HEADER_SIGNATURE
+}
@@ -0,0 +1,237 @@
+import type { CreatePasswordEntry, ItemDetails, UpdatePasswordEntry } from './types/password'
+import { isValidUrlPattern, parseUrl } from './urls/url-matcher'
+import { isValidTotpSecret } from './totp/totp'
+import { TAG_LIMITS, normalizeTag } from './tags/tags'
+import { MAX_PASSWORD_HISTORY_DEPTH } from './history/password-history'
+import { MAX_ROTATION_INTERVAL_DAYS, isValidRotationInterval } from './rotation/rotation'
+import { ATTACHMENT_LIMITS } from './attachments/attachments'
+import { ITEM_DETAIL_FIELDS, WIFI_SECURITY_LABELS, isDetailItemType, isValidCardNumber, type DetailFieldDef } from './items/item-types'
+
+/**
+ * Validation rules dùng chung cho mọi nơi ghi password data
+ * (SupabasePasswordService, import wizard, ...)
+ */
+export const PASSWORD_FIELD_LIMITS = {
+  service: 100,
+  username: 100,
+  password: 500,
+  url: 2048,
+  urlsPerEntry: 20,
+  notes: 10000,
+  customFieldsPerEntry: 50,
+  customFieldName: 100,
+  customFieldValue: 5000,
+  totp: 1024,
+  detailField: 500,
+  detailMultiline: 10000, // Private key RSA 4096 bit khoảng 3.3k ký tự
+} as const
+
+const CUSTOM_FIELD_TYPES = ['text', 'hidden', 'boolean', 'url']
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const isValidDate = (value: string): boolean =>
+  DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())
+
+/**
+ * Lỗi validation riêng theo loại item (field bắt buộc, định dạng)
+ */
+function getDetailsValidationErrors(details: ItemDetails): string[] {
+  if (details.type === 'login' || details.type === 'note') {
+    return []
+  }
+  if (!isDetailItemType(details.type)) {
+    return [`Unknown item type: ${(details as { type: string }).type}`]
+  }
+
+  const errors: string[] = []
+  const values = details as unknown as Record<string, unknown>
+  const fields = ITEM_DETAIL_FIELDS[details.type] as DetailFieldDef[]
+
+  fields.forEach(({ key, label, kind, required }) => {
+    const value = values[key]
+    if (kind === 'boolean') {
+      if (typeof value !== 'boolean') errors.push(`${label} must be true or false`)
+      return
+    }
+    if (typeof value !== 'string') {
+      errors.push(`${label} is missing`)
+      return
+    }
+    const maxLength = kind === 'multiline' || kind === 'secret-multiline'
+      ? PASSWORD_FIELD_LIMITS.detailMultiline
+      : PASSWORD_FIELD_LIMITS.detailField
+    if (required && !value.trim()) {
+      errors.push(`${label} is required`)
+    } else if (value.length > maxLength) {
+      errors.push(`${label} must be at most ${maxLength} characters`)
+    } else if (value && kind === 'date' && !isValidDate(value)) {
+      errors.push(`${label} must be a date (YYYY-MM-DD)`)
+    }
+  })
+
+  switch (details.type) {
+    case 'card':
+      if (details.number && !isValidCardNumber(details.number)) {
+        errors.push('Invalid card number')
+      }
+      if (details.expiry && !/^(0[1-9]|1[0-2])\/\d{2}$/.test(details.expiry)) {
+        errors.push('Card expiry must be MM/YY')
+      }
+      if (details.cvv && !/^\d{3,4}$/.test(details.cvv)) {
+        errors.push('CVV must be 3-4 digits')
+      }
+      if (details.pin && !/^\d{4,12}$/.test(details.pin)) {
+        errors.push('PIN must be 4-12 digits')
+      }
+      break
+    case 'identity':
+      if (details.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(details.email)) {
+        errors.push(`Invalid email: ${details.email}`)
+      }
+      break
+    case 'ssh-key':
+      if (details.privateKey.trim() && !/^-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(details.privateKey.trim())) {
+        errors.push('Private key must be in PEM or OpenSSH format')
+      }
+      if (details.publicKey.trim() && !/^(ssh-[a-z0-9-]+|ecdsa-sha2-[a-z0-9-]+|sk-[a-z0-9@.-]+) \S+/.test(details.publicKey.trim())) {
+        errors.push('Public key must be in OpenSSH format (ssh-ed25519 AAAA...)')
+      }
+      break
+    case 'wifi':
+      if (details.ssid.length > 32) {
+        errors.push('SSID must be at most 32 characters')
+      }
+      if (!(details.security in WIFI_SECURITY_LABELS)) {
+        errors.push(`Unknown Wi-Fi security: ${details.security}`)
+      } else if (details.security === 'wep' && ![5, 13].includes(details.password.length) && !/^([\da-f]{10}|[\da-f]{26})$/i.test(details.password)) {
+        errors.push('WEP key must be 5 or 13 characters (or 10 or 26 hex digits)')
+      } else if (details.security.startsWith('wpa') && (details.password.length < 8 || details.password.length > 63)) {
+        errors.push('WPA password must be between 8-63 characters')
+      }
+      break
+    case 'api-key':
+      if (details.endpoint && !parseUrl(details.endpoint)) {
+        errors.push(`Invalid endpoint URL: ${details.endpoint}`)
+      }
+      break
+  }
+
+  return errors
+}
+
+/**
+ * Thu thập tất cả lỗi validation của entry, gồm cả field riêng theo loại item
+ * @returns Danh sách lỗi (rỗng nếu hợp lệ)
+ */
+export function getEntryValidationErrors(data: CreatePasswordEntry | UpdatePasswordEntry): string[] {
+  const errors: string[] = []
+
+  if ('service' in data && data.service && (!data.service.trim() || data.service.length > PASSWORD_FIELD_LIMITS.service)) {
+    errors.push(`Service name must be between 1-${PASSWORD_FIELD_LIMITS.service} characters`)
+  }
+  if ('username' in data && data.username && (!data.username.trim() || data.username.length > PASSWORD_FIELD_LIMITS.username)) {
+    errors.push(`Username must be between 1-${PASSWORD_FIELD_LIMITS.username} characters`)
+  }
+  if ('password' in data && data.password && (!data.password.trim() || data.password.length > PASSWORD_FIELD_LIMITS.password)) {
+    errors.push(`Password must be between 1-${PASSWORD_FIELD_LIMITS.password} characters`)
+  }
+  if ('passwordHistory' in data && data.passwordHistory) {
+    if (data.passwordHistory.length > MAX_PASSWORD_HISTORY_DEPTH) {
+      errors.push(`At most ${MAX_PASSWORD_HISTORY_DEPTH} passwords in history`)
+    }
+    data.passwordHistory.forEach(({ password, changedAt }) => {
+      if (!password || password.length > PASSWORD_FIELD_LIMITS.password || Number.isNaN(new Date(changedAt).getTime())) {
+        errors.push('Password history items need a password and a valid change date')
+      }
+    })
+  }
+  if ('passwordChangedAt' in data && data.passwordChangedAt && Number.isNaN(new Date(data.passwordChangedAt).getTime())) {
+    errors.push('Password change date must be a valid date')
+  }
+  if ('rotationIntervalDays' in data && data.rotationIntervalDays !== undefined && data.rotationIntervalDays !== null && !isValidRotationInterval(data.rotationIntervalDays)) {
+    errors.push(`Rotation interval must be a whole number of days between 0-${MAX_ROTATION_INTERVAL_DAYS}`)
+  }
+  if ('favorite' in data && data.favorite !== undefined && typeof data.favorite !== 'boolean') {
+    errors.push('Favorite must be true or false')
+  }
+  if ('favoriteOrder' in data && data.favoriteOrder !== undefined && data.favoriteOrder !== null && !Number.isFinite(data.favoriteOrder)) {
+    errors.push('Favorite order must be a number')
+  }
+  if ('attachments' in data && data.attachments) {
+    if (data.attachments.length > ATTACHMENT_LIMITS.attachmentsPerEntry) {
+      errors.push(`At most ${ATTACHMENT_LIMITS.attachmentsPerEntry} attachments per entry`)
+    }
+    data.attachments.forEach(({ id, name, size }) => {
+      if (!id || !name || !Number.isInteger(size) || size < 0 || size > ATTACHMENT_LIMITS.fileSize) {
+        errors.push('Attachments need an id, a name and a valid size')
+      }
+    })
+  }
+  if ('urls' in data && data.urls) {
+    if (data.urls.length > PASSWORD_FIELD_LIMITS.urlsPerEntry) {
+      errors.push(`At most ${PASSWORD_FIELD_LIMITS.urlsPerEntry} URLs per entry`)
+    }
+    data.urls.forEach(({ url, match }) => {
+      if (!url.trim() || url.length > PASSWORD_FIELD_LIMITS.url) {
+        errors.push(`URL must be between 1-${PASSWORD_FIELD_LIMITS.url} characters`)
+      } else if (match === 'regex' ? !isValidUrlPattern(url) : !parseUrl(url)) {
+        errors.push(`Invalid URL: ${url}`)
+      }
+    })
+  }
+
+  if ('notes' in data && data.notes && data.notes.length > PASSWORD_FIELD_LIMITS.notes) {
+    errors.push(`Notes must be at most ${PASSWORD_FIELD_LIMITS.notes} characters`)
+  }
+  if ('customFields' in data && data.customFields) {
+    if (data.customFields.length > PASSWORD_FIELD_LIMITS.customFieldsPerEntry) {
+      errors.push(`At most ${PASSWORD_FIELD_LIMITS.customFieldsPerEntry} custom fields per entry`)
+    }
+    data.customFields.forEach((field) => {
+      if (!field.name.trim() || field.name.length > PASSWORD_FIELD_LIMITS.customFieldName) {
+        errors.push(`Custom field name must be between 1-${PASSWORD_FIELD_LIMITS.customFieldName} characters`)
+      }
+      if (field.value.length > PASSWORD_FIELD_LIMITS.customFieldValue) {
+        errors.push(`Custom field "${field.name}" must be at most ${PASSWORD_FIELD_LIMITS.customFieldValue} characters`)
+      }
+      if (!CUSTOM_FIELD_TYPES.includes(field.type)) {
+        errors.push(`Unknown custom field type: ${field.type}`)
+      }
+    })
+  }
+
+  if ('tags' in data && data.tags) {
+    if (data.tags.length > TAG_LIMITS.tagsPerEntry) {
+      errors.push(`At most ${TAG_LIMITS.tagsPerEntry} tags per entry`)
+    }
+    data.tags.forEach((tag) => {
+      if (!tag || tag.length > TAG_LIMITS.tagLength || normalizeTag(tag) !== tag) {
+        errors.push(`Invalid tag "${tag}": tags must be lowercase and between 1-${TAG_LIMITS.tagLength} characters`)
+      }
+    })
+  }
+  if ('totp' in data && data.totp) {
+    if (data.totp.length > PASSWORD_FIELD_LIMITS.totp) {
+      errors.push(`TOTP secret must be at most ${PASSWORD_FIELD_LIMITS.totp} characters`)
+    } else if (!isValidTotpSecret(data.totp)) {
+      errors.push('TOTP secret must be a base32 key or an otpauth://totp URI')
+    }
+  }
+
+  if ('details' in data && data.details) {
+    errors.push(...getDetailsValidationErrors(data.details))
+  }
+
+  return errors
+}
+
+/**
+ * Validate entry, throw lỗi đầu tiên nếu không hợp lệ
+ */
+export function validateEntryData(data: CreatePasswordEntry | UpdatePasswordEntry): void {
+  const [firstError] = getEntryValidationErrors(data)
+  if (firstError) {
+    throw new Error(firstError)
+  }
+}
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  claimDailyRotationNotification,
+  getFolderRotationIntervalDays,
+  getOverdueEntries,
+  getPasswordAgeDays,
+  getPasswordChangedAt,
+  getRotationStatus,
+  isValidRotationInterval,
+} from './rotation'
+import type { Folder } from '../types/folder'
+import type { PasswordEntry } from '../types/password'
+
+const NOW = new Date('2024-06-30T00:00:00.000Z')
+
+const folder = (id: string, parentId: string | null, rotationIntervalDays?: number | null): Folder => ({
+  id,
+  name: id,
+  parentId,
+  rotationIntervalDays,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+})
+
+const entry = (fields: Partial<PasswordEntry> = {}): PasswordEntry => ({
+  id: 'e1',
+  service: 'GitHub',
+  username: 'alice',
+  password: 'pw',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-06-29T00:00:00.000Z',
+  passwordChangedAt: '2024-05-31T00:00:00.000Z',
+  ...fields,
+})
+
+// work (90 ngày) > servers (theo cha) > legacy (tắt nhắc)
+const folders = [folder('work', null, 90), folder('servers', 'work', null), folder('legacy', 'servers', 0)]
+
+describe('getPasswordChangedAt', () => {
+  it('dùng passwordChangedAt, rồi lịch sử, rồi createdAt - không dùng updatedAt', () => {
+    expect(getPasswordChangedAt(entry())).toBe('2024-05-31T00:00:00.000Z')
+    expect(getPasswordChangedAt(entry({
+      passwordChangedAt: undefined,
+      passwordHistory: [{ password: 'old', changedAt: '2024-03-01T00:00:00.000Z' }],
+    }))).toBe('2024-03-01T00:00:00.000Z')
+    expect(getPasswordChangedAt(entry({ passwordChangedAt: undefined }))).toBe('2024-01-01T00:00:00.000Z')
+    expect(getPasswordAgeDays(entry(), NOW)).toBe(30)
+  })
+})
+
+describe('getFolderRotationIntervalDays', () => {
+  it('kế thừa chu kỳ từ folder cha gần nhất có đặt', () => {
+    expect(getFolderRotationIntervalDays(folders, 'work')).toBe(90)
+    expect(getFolderRotationIntervalDays(folders, 'servers')).toBe(90)
+    expect(getFolderRotationIntervalDays(folders, 'legacy')).toBe(0)
+    expect(getFolderRotationIntervalDays(folders, null)).toBeNull()
+    expect(getFolderRotationIntervalDays(folders, 'missing')).toBeNull()
+  })
+
+  it('không lặp vô hạn khi folder tạo thành vòng', () => {
+    expect(getFolderRotationIntervalDays([folder('a', 'b'), folder('b', 'a')], 'a')).toBeNull()
+  })
+})
+
+describe('getRotationStatus', () => {
+  it('dùng chu kỳ của entry trước chu kỳ kế thừa từ folder', () => {
+    expect(getRotationStatus(entry({ folderId: 'servers', rotationIntervalDays: 20 }), folders, NOW)).toMatchObject({
+      intervalDays: 20,
+      daysLeft: -10,
+      overdue: true,
+      inherited: false,
+    })
+    expect(getRotationStatus(entry({ folderId: 'servers' }), folders, NOW)).toMatchObject({
+      intervalDays: 90,
+      dueAt: '2024-08-29T00:00:00.000Z',
+      daysLeft: 60,
+      overdue: false,
+      inherited: true,
+    })
+  })
+
+  it('trả null khi tắt nhắc, không có chu kỳ hoặc không phải item đăng nhập', () => {
+    expect(getRotationStatus(entry({ folderId: 'legacy' }), folders, NOW)).toBeNull()
+    expect(getRotationStatus(entry({ folderId: 'work', rotationIntervalDays: 0 }), folders, NOW)).toBeNull()
+    expect(getRotationStatus(entry(), folders, NOW)).toBeNull()
+    expect(getRotationStatus(entry({ folderId: 'work', details: { type: 'note' } }), folders, NOW)).toBeNull()
+  })
+})
+
+describe('getOverdueEntries', () => {
+  it('chỉ gồm entry quá hạn, quá hạn lâu nhất trước', () => {
+    const entries = [
+      entry({ id: 'slightly', rotationIntervalDays: 25 }),
+      entry({ id: 'long', rotationIntervalDays: 10 }),
+      entry({ id: 'fresh', rotationIntervalDays: 90 }),
+    ]
+    expect(getOverdueEntries(entries, folders, NOW).map(({ entry }) => entry.id)).toEqual(['long', 'slightly'])
+  })
+})
+
+describe('rotation settings', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('chỉ nhận chu kỳ là số ngày nguyên trong giới hạn', () => {
+    expect(isValidRotationInterval(90)).toBe(true)
+    expect(isValidRotationInterval(0)).toBe(true)
+    expect(isValidRotationInterval(1.5)).toBe(false)
+    expect(isValidRotationInterval(-1)).toBe(false)
+    expect(isValidRotationInterval(5000)).toBe(false)
+  })
+
+  it('thông báo tối đa một lần mỗi ngày', () => {
+    expect(claimDailyRotationNotification(NOW)).toBe(true)
+    expect(claimDailyRotationNotification(NOW)).toBe(false)
+    expect(claimDailyRotationNotification(new Date('2024-07-01T00:00:00.000Z'))).toBe(true)
+  })
+})
@@ -0,0 +1,136 @@
+import type { Folder } from '../types/folder'
+import type { PasswordEntry } from '../types/password'
+import { isLoginItem } from '../items/item-types'
+
+/**
+ * Password Rotation - nhắc đổi mật khẩu theo chu kỳ
+ *
+ * Tuổi mật khẩu tính từ passwordChangedAt (backend tự đặt khi password đổi)
+ * thay vì updatedAt, vì updatedAt đổi theo mọi chỉnh sửa.
+ * Chu kỳ đổi đặt trên entry, nếu không đặt thì kế thừa từ folder gần nhất có đặt.
+ * Giá trị 0 tắt nhắc cho entry (hoặc cả nhánh folder).
+ */
+
+export const MAX_ROTATION_INTERVAL_DAYS = 3650
+export const ROTATION_INTERVAL_PRESETS = [30, 60, 90, 180, 365]
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const NOTIFICATIONS_STORAGE_KEY = 'memory-safe-guard-rotation-notifications'
+const LAST_NOTIFIED_STORAGE_KEY = 'memory-safe-guard-rotation-last-notified'
+
+export interface RotationStatus {
+  intervalDays: number
+  changedAt: string
+  dueAt: string
+  // Âm khi đã quá hạn
+  daysLeft: number
+  overdue: boolean
+  // Chu kỳ lấy từ folder thay vì đặt trên entry
+  inherited: boolean
+}
+
+export const isValidRotationInterval = (days: unknown): boolean =>
+  typeof days === 'number' && Number.isInteger(days) && days >= 0 && days <= MAX_ROTATION_INTERVAL_DAYS
+
+/**
+ * Thời điểm mật khẩu đổi lần cuối
+ * Entry tạo trước khi có passwordChangedAt: lấy từ lịch sử, không có thì lấy createdAt
+ */
+export function getPasswordChangedAt(entry: PasswordEntry): string {
+  return entry.passwordChangedAt ?? entry.passwordHistory?.[0]?.changedAt ?? entry.createdAt
+}
+
+export function getPasswordAgeDays(entry: PasswordEntry, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(getPasswordChangedAt(entry)).getTime()) / DAY_MS))
+}
+
+/**
+ * Chu kỳ đổi mật khẩu của folder, kế thừa từ folder cha nếu chưa đặt
+ * @returns null nếu không folder nào trên đường dẫn đặt chu kỳ
+ */
+export function getFolderRotationIntervalDays(folders: Folder[], folderId: string | null | undefined): number | null {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]))
+  const visited = new Set<string>()
+  let current = folderId ? byId.get(folderId) : undefined
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id)
+    if (current.rotationIntervalDays !== undefined && current.rotationIntervalDays !== null) {
+      return current.rotationIntervalDays
+    }
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return null
+}
+
+/**
+ * Trạng thái đổi mật khẩu của entry (chỉ item đăng nhập)
+ * @returns null nếu entry không có chu kỳ đổi
+ */
+export function getRotationStatus(entry: PasswordEntry, folders: Folder[], now: Date = new Date()): RotationStatus | null {
+  if (!isLoginItem(entry)) return null
+
+  const inherited = entry.rotationIntervalDays === undefined || entry.rotationIntervalDays === null
+  const intervalDays = inherited ? getFolderRotationIntervalDays(folders, entry.folderId) : entry.rotationIntervalDays
+  if (!intervalDays) return null
+
+  const changedAt = getPasswordChangedAt(entry)
+  const dueAt = new Date(new Date(changedAt).getTime() + intervalDays * DAY_MS)
+  const daysLeft = Math.ceil((dueAt.getTime() - now.getTime()) / DAY_MS)
+  return {
+    intervalDays,
+    changedAt,
+    dueAt: dueAt.toISOString(),
+    daysLeft,
+    overdue: dueAt.getTime() <= now.getTime(),
+    inherited,
+  }
+}
+
+export interface OverdueEntry {
+  entry: PasswordEntry
+  status: RotationStatus
+}
+
+/**
+ * Các entry đã quá hạn đổi mật khẩu, quá hạn lâu nhất trước
+ */
+export function getOverdueEntries(entries: PasswordEntry[], folders: Folder[], now: Date = new Date()): OverdueEntry[] {
+  return entries
+    .map((entry) => ({ entry, status: getRotationStatus(entry, folders, now) }))
+    .filter((item): item is OverdueEntry => item.status?.overdue === true)
+    .sort((a, b) => a.status.daysLeft - b.status.daysLeft)
+}
+
+/**
+ * Bật/tắt thông báo trình duyệt khi có mật khẩu quá hạn
+ */
+export function getRotationNotificationsEnabled(): boolean {
+  try {
+    return localStorage.getItem(NOTIFICATIONS_STORAGE_KEY) === 'true'
+  } catch {
+    return false
+  }
+}
+
+export function setRotationNotificationsEnabled(enabled: boolean): void {
+  try {
+    localStorage.setItem(NOTIFICATIONS_STORAGE_KEY, String(enabled))
+  } catch (error) {
+    console.warn('Failed to save rotation notifications setting to localStorage:', error)
+  }
+}
+
+/**
+ * Chỉ thông báo tối đa một lần mỗi ngày
+ * @returns true nếu hôm nay chưa thông báo (và đánh dấu đã thông báo)
+ */
+export function claimDailyRotationNotification(now: Date = new Date()): boolean {
+  const today = now.toISOString().slice(0, 10)
+  try {
+    if (localStorage.getItem(LAST_NOTIFIED_STORAGE_KEY) === today) return false
+    localStorage.setItem(LAST_NOTIFIED_STORAGE_KEY, today)
+    return true
+  } catch {
+    return false
+  }
+}
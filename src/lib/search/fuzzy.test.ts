@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { foldForSearch, fuzzyMatch, mapToOriginalIndices, normalizeForSearch, tokenizeQuery } from './fuzzy'
+
+describe('normalizeForSearch', () => {
+  it('chuyển chữ thường và bỏ dấu tiếng Việt, kể cả đ/Đ', () => {
+    expect(normalizeForSearch('Mật khẩu Ngân hàng')).toBe('mat khau ngan hang')
+    expect(normalizeForSearch('Đăng nhập ĐÀ NẴNG')).toBe('dang nhap da nang')
+  })
+
+  it('cho cùng kết quả với chuỗi dựng sẵn (NFC) và tổ hợp (NFD)', () => {
+    const text = 'Việt Nam'
+    expect(normalizeForSearch(text.normalize('NFD'))).toBe(normalizeForSearch(text.normalize('NFC')))
+  })
+
+  it('tách query thành các term đã chuẩn hóa', () => {
+    expect(tokenizeQuery('  Ngân   HÀNG ')).toEqual(['ngan', 'hang'])
+  })
+})
+
+describe('foldForSearch / mapToOriginalIndices', () => {
+  it('giữ vị trí trong chuỗi gốc cho từng ký tự đã chuẩn hóa', () => {
+    const folded = foldForSearch('Ngân')
+    expect(folded).toEqual({ text: 'ngan', offsets: [0, 1, 2, 3] })
+    expect(mapToOriginalIndices('Ngân', folded, [2])).toEqual([2])
+  })
+
+  it('tô sáng cả dấu rời đi sau ký tự khi chuỗi gốc ở dạng NFD', () => {
+    const original = 'Ngân'.normalize('NFD')
+    const folded = foldForSearch(original)
+    expect(folded.text).toBe('ngan')
+    expect(mapToOriginalIndices(original, folded, [2])).toEqual([2, 3])
+  })
+})
+
+describe('fuzzyMatch trên chuỗi không dấu', () => {
+  it('query không dấu khớp chuỗi có dấu', () => {
+    expect(fuzzyMatch('ngan', normalizeForSearch('Ngân hàng'))).not.toBeNull()
+    expect(fuzzyMatch('dang', normalizeForSearch('Đăng ký'))).not.toBeNull()
+  })
+})
@@ -0,0 +1,203 @@
+/**
+ * Fuzzy matching - so khớp một từ khóa với một chuỗi, chịu được lỗi gõ
+ *
+ * Thứ tự ưu tiên (chất lượng từ cao xuống thấp):
+ * - Chuỗi con liền mạch: khớp cả chuỗi > đầu chuỗi > đầu một từ > giữa từ
+ * - Sai chính tả: đầu một từ cách từ khóa tối đa 1-2 phép sửa (thêm, bớt, thay, đảo hai ký tự)
+ * - Dãy con: các ký tự của từ khóa xuất hiện theo thứ tự trong một đoạn ngắn ("ggl" ~ "google")
+ *
+ * So khớp trên chuỗi đã chuẩn hóa: chữ thường, bỏ dấu tiếng Việt (kể cả đ/Đ),
+ * nên "mat khau ngan hang" khớp "Mật khẩu Ngân hàng".
+ */
+
+export interface FuzzyMatch {
+  quality: number // 0-1
+  indices: number[] // Vị trí các ký tự khớp trong chuỗi đã chuẩn hóa
+}
+
+/**
+ * Chuỗi đã chuẩn hóa kèm vị trí tương ứng trong chuỗi gốc
+ */
+export interface FoldedText {
+  text: string
+  offsets: number[] // offsets[i]: vị trí (UTF-16) trong chuỗi gốc của ký tự thứ i
+}
+
+export interface FuzzyOptions {
+  // Dãy con dễ khớp nhầm trên văn bản dài (notes) nên có thể tắt
+  allowSubsequence?: boolean
+}
+
+// Từ khóa ngắn hơn thì không so sai chính tả (quá dễ khớp nhầm)
+const MIN_TYPO_TERM_LENGTH = 3
+const MIN_SUBSEQUENCE_TERM_LENGTH = 2
+
+const COMBINING_MARK = /\p{M}/u
+const COMBINING_MARKS = /\p{M}/gu
+
+const foldCache = new Map<string, string>()
+
+// Bỏ dấu và chuyển chữ thường một ký tự, dấu rời (NFD) thành chuỗi rỗng
+function foldChar(char: string): string {
+  let folded = foldCache.get(char)
+  if (folded === undefined) {
+    // đ/Đ là chữ riêng chứ không phải d + dấu nên NFD không tách được
+    folded = char === 'đ' || char === 'Đ' ? 'd' : char.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase()
+    foldCache.set(char, folded)
+  }
+  return folded
+}
+
+/**
+ * Chuẩn hóa để so khớp (chữ thường, bỏ dấu) và giữ vị trí trong chuỗi gốc để tô sáng
+ * Chuỗi gốc có thể ở dạng dựng sẵn (NFC) hoặc tổ hợp (NFD)
+ */
+export function foldForSearch(text: string): FoldedText {
+  let folded = ''
+  const offsets: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    for (const char of foldChar(text[i])) {
+      folded += char
+      offsets.push(i)
+    }
+  }
+  return { text: folded, offsets }
+}
+
+/**
+ * Chuẩn hóa để so khớp (chữ thường, bỏ dấu)
+ */
+export const normalizeForSearch = (text: string): string => foldForSearch(text).text
+
+/**
+ * Đổi vị trí khớp trên chuỗi đã chuẩn hóa về chuỗi gốc
+ * Gồm cả dấu rời (NFD) đi sau ký tự để tô sáng không tách chữ khỏi dấu
+ */
+export function mapToOriginalIndices(original: string, folded: FoldedText, indices: number[]): number[] {
+  const result = new Set<number>()
+  indices.forEach((index) => {
+    let position = folded.offsets[index]
+    if (position === undefined) return
+    result.add(position)
+    while (COMBINING_MARK.test(original[position + 1] ?? '')) {
+      result.add(++position)
+    }
+  })
+  return Array.from(result).sort((a, b) => a - b)
+}
+
+/**
+ * Tách từ khóa tìm kiếm thành các term (đã chuẩn hóa)
+ */
+export const tokenizeQuery = (query: string): string[] =>
+  normalizeForSearch(query).split(/\s+/).filter(Boolean)
+
+const isWordChar = (char: string | undefined): boolean => char !== undefined && /[\p{L}\p{N}]/u.test(char)
+
+const range = (start: number, length: number): number[] => Array.from({ length }, (_, i) => start + i)
+
+/**
+ * Khoảng cách Damerau-Levenshtein (optimal string alignment) giữa hai chuỗi
+ * Dừng sớm và trả về max + 1 khi chắc chắn vượt ngưỡng
+ */
+export function editDistance(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let prevPrev: number[] = []
+  let prev = range(0, b.length + 1)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    prevPrev = prev
+    prev = current
+  }
+  return prev[b.length]
+}
+
+// Chuỗi con liền mạch, ưu tiên vị trí đầu từ
+function matchSubstring(term: string, text: string): FuzzyMatch | null {
+  let best: FuzzyMatch | null = null
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + 1)) {
+    const quality = term.length === text.length ? 1
+      : index === 0 ? 0.95
+      : !isWordChar(text[index - 1]) ? 0.9
+      : 0.75
+    if (!best || quality > best.quality) {
+      best = { quality, indices: range(index, term.length) }
+    }
+    if (quality >= 0.9) break
+  }
+  return best
+}
+
+// Sai chính tả: so term với phần đầu của từng từ trong chuỗi
+function matchTypo(term: string, text: string): FuzzyMatch | null {
+  if (term.length < MIN_TYPO_TERM_LENGTH) return null
+  const maxTypos = term.length <= 4 ? 1 : 2
+
+  let best: { distance: number; indices: number[] } | null = null
+  for (let start = 0; start < text.length; start++) {
+    if (!isWordChar(text[start]) || isWordChar(text[start - 1])) continue
+
+    let end = start
+    while (end < text.length && isWordChar(text[end])) end++
+    const word = text.slice(start, end)
+
+    // So với phần đầu của từ dài hơn hoặc ngắn hơn term tối đa maxTypos ký tự
+    for (let length = Math.max(1, term.length - maxTypos); length <= Math.min(word.length, term.length + maxTypos); length++) {
+      const distance = editDistance(term, word.slice(0, length), maxTypos)
+      if (distance <= maxTypos && (!best || distance < best.distance)) {
+        best = { distance, indices: range(start, length) }
+      }
+    }
+    if (best?.distance === 1) break
+  }
+
+  return best ? { quality: best.distance === 1 ? 0.6 : 0.45, indices: best.indices } : null
+}
+
+// Dãy con trong một đoạn không quá dài so với term
+function matchSubsequence(term: string, text: string): FuzzyMatch | null {
+  if (term.length < MIN_SUBSEQUENCE_TERM_LENGTH) return null
+
+  let best: number[] | null = null
+  for (let start = text.indexOf(term[0]); start !== -1; start = text.indexOf(term[0], start + 1)) {
+    const indices = [start]
+    for (let i = 1, position = start + 1; i < term.length; i++, position++) {
+      position = text.indexOf(term[i], position)
+      if (position === -1) break
+      indices.push(position)
+    }
+    if (indices.length < term.length) break
+
+    const span = indices[indices.length - 1] - start + 1
+    if (span <= term.length * 2 && (!best || span < best[best.length - 1] - best[0] + 1)) {
+      best = indices
+    }
+  }
+
+  if (!best) return null
+  const span = best[best.length - 1] - best[0] + 1
+  return { quality: 0.35 * (term.length / span), indices: best }
+}
+
+/**
+ * So khớp một term (đã chuẩn hóa) với chuỗi (đã chuẩn hóa bằng normalizeForSearch)
+ * @returns Kết quả tốt nhất hoặc null nếu không khớp
+ */
+export function fuzzyMatch(term: string, text: string, options: FuzzyOptions = {}): FuzzyMatch | null {
+  if (!term || !text) return null
+  return matchSubstring(term, text) ??
+    matchTypo(term, text) ??
+    (options.allowSubsequence === false ? null : matchSubsequence(term, text))
+}
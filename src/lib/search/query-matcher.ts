@@ -0,0 +1,98 @@
+import type { PasswordEntry } from '../types/password'
+import type { Folder } from '../types/folder'
+import { getDescendantFolderIds, getFolderPath } from '../folders/folder-tree'
+import { getItemType, isLoginItem } from '../items/item-types'
+import { getPasswordAgeDays } from '../rotation/rotation'
+import { estimatePasswordStrength } from '../security/password-strength'
+import { isWeakStrength } from '../security/password-audit'
+import { findReusedPasswords } from '../security/reuse-detector'
+import { normalizeForSearch } from './fuzzy'
+import { getSearchableText } from './search-index'
+import { hasQueryClause, type AgeComparator, type ParsedSearchQuery, type QueryClause } from './query-parser'
+
+/**
+ * Đánh giá query có cấu trúc trên entry đã giải mã - dùng chung cho mọi backend
+ * Từ khóa tự do không xét ở đây mà do SearchIndex so khớp fuzzy và xếp hạng.
+ */
+
+export interface QueryMatchContext {
+  folders: Folder[]
+  // Toàn bộ entry của vault (ngoài thùng rác) - để phát hiện mật khẩu dùng lại
+  entries: PasswordEntry[]
+  now?: Date
+}
+
+// So sánh tên/đường dẫn folder không phân biệt hoa thường, dấu và khoảng trắng quanh dấu /
+const normalizeFolderName = (name: string): string =>
+  normalizeForSearch(name.trim()).replace(/\s*\/\s*/g, '/')
+
+/**
+ * Folder khớp folder:<value> (theo tên hoặc đường dẫn đầy đủ) và toàn bộ folder con
+ */
+export function resolveQueryFolderIds(folders: Folder[], value: string): Set<string> {
+  const target = normalizeFolderName(value)
+  const ids = new Set<string>()
+  folders
+    .filter((folder) => normalizeFolderName(folder.name) === target || normalizeFolderName(getFolderPath(folders, folder.id)) === target)
+    .forEach((folder) => getDescendantFolderIds(folders, folder.id).forEach((id) => ids.add(id)))
+  return ids
+}
+
+const compareAge = (ageDays: number, comparator: AgeComparator, days: number): boolean => {
+  switch (comparator) {
+    case '>': return ageDays > days
+    case '>=': return ageDays >= days
+    case '<': return ageDays < days
+    case '<=': return ageDays <= days
+    case '=': return ageDays === days
+  }
+}
+
+const isWeakEntry = (entry: PasswordEntry): boolean =>
+  isLoginItem(entry) && isWeakStrength(estimatePasswordStrength(entry.password, [entry.service, entry.username]))
+
+/**
+ * Tạo hàm kiểm tra entry có khớp các filter, cụm chính xác và từ loại trừ của query không
+ */
+export async function createQueryMatcher(parsed: ParsedSearchQuery, context: QueryMatchContext): Promise<(entry: PasswordEntry) => boolean> {
+  const now = context.now ?? new Date()
+  const reusedIds = hasQueryClause(parsed, 'reused')
+    ? new Set((await findReusedPasswords(context.entries.filter(isLoginItem))).flat())
+    : new Set<string>()
+  const folderIds = new Map<string, Set<string>>()
+  parsed.clauses.forEach((clause) => {
+    if (clause.key === 'folder') {
+      folderIds.set(clause.value, resolveQueryFolderIds(context.folders, clause.value))
+    }
+  })
+  // Tag và URL cũng so khớp không dấu để "tag:ngan-hang" khớp tag "ngân-hàng"
+  const clauseValues = new Map(parsed.clauses.flatMap((clause) =>
+    clause.key === 'tag' || clause.key === 'url' ? [[clause, normalizeForSearch(clause.value)] as const] : []
+  ))
+  const phrases = parsed.text
+    .filter((item) => item.exact || item.negated)
+    .map((item) => ({ value: normalizeForSearch(item.value), negated: item.negated }))
+
+  const matchesClause = (entry: PasswordEntry, clause: QueryClause): boolean => {
+    switch (clause.key) {
+      case 'tag': return (entry.tags ?? []).some((tag) => normalizeForSearch(tag) === clauseValues.get(clause))
+      case 'folder': return !!entry.folderId && (folderIds.get(clause.value)?.has(entry.folderId) ?? false)
+      case 'url': return (entry.urls ?? []).some((item) => normalizeForSearch(item.url).includes(clauseValues.get(clause) ?? clause.value))
+      case 'type': return getItemType(entry) === clause.value
+      case 'weak': return isWeakEntry(entry) === clause.value
+      case 'reused': return reusedIds.has(entry.id) === clause.value
+      case 'age': return compareAge(getPasswordAgeDays(entry, now), clause.comparator, clause.days)
+    }
+  }
+
+  return (entry) => {
+    if (!parsed.clauses.every((clause) => matchesClause(entry, clause) !== clause.negated)) {
+      return false
+    }
+    if (phrases.length === 0) {
+      return true
+    }
+    const text = getSearchableText(entry)
+    return phrases.every((phrase) => text.some((value) => value.includes(phrase.value)) !== phrase.negated)
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { getRankingText, hasQueryClause, parseSearchQuery, tokenizeSearchQuery } from './query-parser'
+
+describe('parseSearchQuery', () => {
+  it('tách từ khóa tự do, cụm chính xác và từ bị loại trừ', () => {
+    const parsed = parseSearchQuery('github "work account" -personal -"old phrase"')
+
+    expect(parsed.text).toEqual([
+      { value: 'github', negated: false, exact: false },
+      { value: 'work account', negated: false, exact: true },
+      { value: 'personal', negated: true, exact: false },
+      { value: 'old phrase', negated: true, exact: true },
+    ])
+    expect(parsed.errors).toEqual([])
+    expect(getRankingText(parsed)).toBe('github work account')
+  })
+
+  it('parse các filter key:value, kể cả value trong ngoặc kép và filter loại trừ', () => {
+    const parsed = parseSearchQuery('tag:Prod folder:"Công việc" type:card weak:true -reused:false url:GitHub.com')
+
+    expect(parsed.clauses).toEqual([
+      { key: 'tag', value: 'prod', negated: false },
+      { key: 'folder', value: 'Công việc', negated: false },
+      { key: 'type', value: 'card', negated: false },
+      { key: 'weak', value: true, negated: false },
+      { key: 'reused', value: false, negated: true },
+      { key: 'url', value: 'github.com', negated: false },
+    ])
+    expect(parsed.text).toEqual([])
+    expect(hasQueryClause(parsed, 'folder')).toBe(true)
+    expect(hasQueryClause(parsed, 'age')).toBe(false)
+  })
+
+  it('đổi age sang số ngày, mặc định là "ít nhất"', () => {
+    expect(parseSearchQuery('age:>90d age:2w age:<=1y').clauses).toEqual([
+      { key: 'age', comparator: '>', days: 90, negated: false },
+      { key: 'age', comparator: '>=', days: 14, negated: false },
+      { key: 'age', comparator: '<=', days: 365, negated: false },
+    ])
+  })
+
+  it('coi URL có scheme là từ khóa, không phải filter', () => {
+    const parsed = parseSearchQuery('https://github.com/login')
+    expect(parsed.text).toEqual([{ value: 'https://github.com/login', negated: false, exact: false }])
+    expect(parsed.errors).toEqual([])
+  })
+
+  it('bỏ qua phần không hợp lệ và trả lỗi kèm vị trí', () => {
+    const parsed = parseSearchQuery('github type:car foo:bar weak:maybe age:soon tag:')
+
+    expect(parsed.text).toEqual([{ value: 'github', negated: false, exact: false }])
+    expect(parsed.clauses).toEqual([])
+    expect(parsed.errors.map((error) => error.message)).toEqual([
+      expect.stringContaining('Unknown type "car"'),
+      expect.stringContaining('Unknown filter "foo:"'),
+      'Expected true or false for "weak:"',
+      expect.stringContaining('Invalid age "soon"'),
+      'Missing value for "tag:"',
+    ])
+    expect(parsed.errors[0]).toMatchObject({ start: 7, end: 15 })
+  })
+
+  it('báo lỗi thiếu ngoặc kép đóng nhưng vẫn dùng phần đã nhập', () => {
+    const parsed = parseSearchQuery('"work acc')
+    expect(parsed.text).toEqual([{ value: 'work acc', negated: false, exact: true }])
+    expect(parsed.errors).toEqual([{ message: 'Missing closing quote', start: 0, end: 9 }])
+  })
+})
+
+describe('tokenizeSearchQuery', () => {
+  it('giữ vị trí của key và value cho autocomplete', () => {
+    expect(tokenizeSearchQuery('-tag:"a b" x')).toEqual([
+      { start: 0, end: 10, negated: true, key: 'tag', valueStart: 5, value: 'a b', quoted: true, unterminated: false },
+      { start: 11, end: 12, negated: false, key: undefined, valueStart: 11, value: 'x', quoted: false, unterminated: false },
+    ])
+  })
+})
@@ -0,0 +1,199 @@
+import type { ItemType } from '../types/password'
+import { ITEM_TYPES } from '../items/item-types'
+import { normalizeTag } from '../tags/tags'
+
+/**
+ * Search Query - cú pháp tìm kiếm có cấu trúc trên SearchBar
+ *
+ * Ví dụ: tag:prod folder:Work type:card weak:true reused:true age:>90d url:github.com -tag:old "exact phrase"
+ * - key:value lọc theo thuộc tính, value có khoảng trắng thì đặt trong ngoặc kép (folder:"Công việc")
+ * - Dấu - phía trước để loại trừ (-tag:old, -facebook, -"exact phrase")
+ * - "..." yêu cầu khớp chính xác cả cụm
+ * - Từ còn lại được tìm fuzzy và dùng để xếp hạng kết quả
+ *
+ * Phần không hợp lệ được bỏ qua khi tìm kiếm và trả về trong errors để hiển thị.
+ */
+
+export const QUERY_KEYS = ['tag', 'folder', 'type', 'weak', 'reused', 'age', 'url'] as const
+
+export type QueryKey = typeof QUERY_KEYS[number]
+
+export type AgeComparator = '>' | '>=' | '<' | '<=' | '='
+
+export type QueryClause =
+  | { key: 'tag' | 'folder' | 'url'; value: string; negated: boolean }
+  | { key: 'type'; value: ItemType; negated: boolean }
+  | { key: 'weak' | 'reused'; value: boolean; negated: boolean }
+  | { key: 'age'; comparator: AgeComparator; days: number; negated: boolean }
+
+/**
+ * Từ khóa tự do hoặc cụm trong ngoặc kép (exact)
+ */
+export interface QueryText {
+  value: string
+  negated: boolean
+  exact: boolean
+}
+
+export interface QueryParseError {
+  message: string
+  // Vị trí token lỗi trong chuỗi query
+  start: number
+  end: number
+}
+
+export interface ParsedSearchQuery {
+  text: QueryText[]
+  clauses: QueryClause[]
+  errors: QueryParseError[]
+}
+
+/**
+ * Một token của query kèm vị trí - dùng cho parser và autocomplete
+ */
+export interface QueryToken {
+  start: number // Gồm cả dấu - nếu có
+  end: number
+  negated: boolean
+  key?: string // Chữ thường, undefined với từ tự do
+  valueStart: number
+  value: string // Đã bỏ ngoặc kép
+  quoted: boolean
+  unterminated: boolean // Thiếu ngoặc kép đóng
+}
+
+const AGE_UNIT_DAYS: Record<string, number> = { d: 1, w: 7, m: 30, y: 365 }
+
+export const isQueryKey = (key: string): key is QueryKey => (QUERY_KEYS as readonly string[]).includes(key)
+
+// Đọc value từ vị trí start: chuỗi trong ngoặc kép hoặc tới khoảng trắng tiếp theo
+function readValue(input: string, start: number): Pick<QueryToken, 'end' | 'value' | 'quoted' | 'unterminated'> {
+  if (input[start] === '"') {
+    const close = input.indexOf('"', start + 1)
+    return close === -1
+      ? { end: input.length, value: input.slice(start + 1), quoted: true, unterminated: true }
+      : { end: close + 1, value: input.slice(start + 1, close), quoted: true, unterminated: false }
+  }
+
+  let end = start
+  while (end < input.length && !/\s/.test(input[end])) end++
+  return { end, value: input.slice(start, end), quoted: false, unterminated: false }
+}
+
+/**
+ * Tách query thành các token (không validate)
+ */
+export function tokenizeSearchQuery(input: string): QueryToken[] {
+  const tokens: QueryToken[] = []
+  let position = 0
+
+  while (position < input.length) {
+    if (/\s/.test(input[position])) {
+      position++
+      continue
+    }
+
+    const start = position
+    const negated = input[position] === '-' && position + 1 < input.length && !/\s/.test(input[position + 1])
+    if (negated) position++
+
+    const keyMatch = /^([a-z]+):/i.exec(input.slice(position))
+    const key = keyMatch ? keyMatch[1].toLowerCase() : undefined
+    if (keyMatch) position += keyMatch[0].length
+
+    const value = readValue(input, position)
+    tokens.push({ start, negated, key, valueStart: position, ...value })
+    position = value.end
+  }
+
+  return tokens
+}
+
+// Chuyển value của một key thành clause, trả về thông báo lỗi nếu không hợp lệ
+function parseClause(key: QueryKey, value: string, negated: boolean): QueryClause | string {
+  const trimmed = value.trim()
+  if (!trimmed) {
+    return `Missing value for "${key}:"`
+  }
+
+  switch (key) {
+    case 'tag':
+      return { key, value: normalizeTag(trimmed), negated }
+    case 'folder':
+      return { key, value: trimmed, negated }
+    case 'url':
+      return { key, value: trimmed.toLowerCase(), negated }
+    case 'type': {
+      const type = ITEM_TYPES.find((item) => item === trimmed.toLowerCase())
+      return type ? { key, value: type, negated } : `Unknown type "${trimmed}". Use one of: ${ITEM_TYPES.join(', ')}`
+    }
+    case 'weak':
+    case 'reused': {
+      const lower = trimmed.toLowerCase()
+      return lower === 'true' || lower === 'false'
+        ? { key, value: lower === 'true', negated }
+        : `Expected true or false for "${key}:"`
+    }
+    case 'age': {
+      // Không có toán tử thì hiểu là "ít nhất": age:90d = age:>=90d
+      const match = /^(>=|<=|>|<|=)?(\d+)([dwmy])?$/i.exec(trimmed)
+      if (!match) {
+        return `Invalid age "${trimmed}". Use a comparison like >90d (units: d, w, m, y)`
+      }
+      const days = Number(match[2]) * AGE_UNIT_DAYS[(match[3] ?? 'd').toLowerCase()]
+      return { key, comparator: (match[1] ?? '>=') as AgeComparator, days, negated }
+    }
+  }
+}
+
+/**
+ * Parse query tìm kiếm
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: [], clauses: [], errors: [] }
+
+  for (const token of tokenizeSearchQuery(input)) {
+    const addError = (message: string) => parsed.errors.push({ message, start: token.start, end: token.end })
+    if (token.unterminated) {
+      addError('Missing closing quote')
+    }
+
+    if (!token.key) {
+      if (token.value.trim()) {
+        parsed.text.push({ value: token.value.trim(), negated: token.negated, exact: token.quoted })
+      }
+      continue
+    }
+
+    if (!isQueryKey(token.key)) {
+      // URL có scheme (https://...) là từ khóa bình thường, không phải filter
+      if (!token.quoted && token.value.startsWith('/')) {
+        parsed.text.push({ value: input.slice(token.start + (token.negated ? 1 : 0), token.end), negated: token.negated, exact: false })
+      } else {
+        addError(`Unknown filter "${token.key}:". Use one of: ${QUERY_KEYS.join(', ')}`)
+      }
+      continue
+    }
+
+    const clause = parseClause(token.key, token.value, token.negated)
+    if (typeof clause === 'string') {
+      addError(clause)
+    } else {
+      parsed.clauses.push(clause)
+    }
+  }
+
+  return parsed
+}
+
+/**
+ * Từ khóa dùng để tìm fuzzy và xếp hạng (các từ và cụm không bị loại trừ)
+ */
+export const getRankingText = (parsed: ParsedSearchQuery): string =>
+  parsed.text.filter((item) => !item.negated).map((item) => item.value).join(' ')
+
+/**
+ * Query có dùng filter key này không
+ */
+export const hasQueryClause = (parsed: ParsedSearchQuery, key: QueryKey): boolean =>
+  parsed.clauses.some((clause) => clause.key === key)
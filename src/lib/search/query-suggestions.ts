@@ -0,0 +1,107 @@
+import { ITEM_TYPES, ITEM_TYPE_LABELS } from '../items/item-types'
+import { normalizeForSearch } from './fuzzy'
+import { QUERY_KEYS, isQueryKey, tokenizeSearchQuery, type QueryKey } from './query-parser'
+
+/**
+ * Gợi ý autocomplete cho query có cấu trúc (key và value tại vị trí con trỏ)
+ */
+
+export interface QuerySuggestion {
+  label: string
+  description?: string
+  // Chuỗi thay cho đoạn [replaceStart, replaceEnd) của query
+  insertText: string
+}
+
+export interface QuerySuggestionResult {
+  suggestions: QuerySuggestion[]
+  replaceStart: number
+  replaceEnd: number
+}
+
+export interface QuerySuggestionSource {
+  tags: string[]
+  // Tên hoặc đường dẫn folder
+  folders: string[]
+}
+
+export const QUERY_KEY_DESCRIPTIONS: Record<QueryKey, string> = {
+  tag: 'Có tag',
+  folder: 'Trong thư mục (gồm thư mục con)',
+  type: 'Loại mục',
+  weak: 'Mật khẩu yếu (true/false)',
+  reused: 'Mật khẩu dùng lại (true/false)',
+  age: 'Tuổi mật khẩu, ví dụ >90d',
+  url: 'Website chứa',
+}
+
+const AGE_SUGGESTIONS: QuerySuggestion[] = [
+  { label: '>30d', description: 'Hơn 30 ngày', insertText: '>30d' },
+  { label: '>90d', description: 'Hơn 90 ngày', insertText: '>90d' },
+  { label: '>180d', description: 'Hơn 180 ngày', insertText: '>180d' },
+  { label: '>1y', description: 'Hơn 1 năm', insertText: '>1y' },
+  { label: '<7d', description: 'Trong 7 ngày qua', insertText: '<7d' },
+]
+
+const MAX_SUGGESTIONS = 8
+
+// Value có khoảng trắng hoặc ngoặc kép phải đặt trong ngoặc kép
+const quoteValue = (value: string): string => /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value
+
+function getValueSuggestions(key: QueryKey, source: QuerySuggestionSource): QuerySuggestion[] {
+  const plain = (values: string[], describe?: (value: string) => string) =>
+    values.map((value) => ({ label: value, description: describe?.(value), insertText: quoteValue(value) }))
+
+  switch (key) {
+    case 'tag': return plain(source.tags)
+    case 'folder': return plain(source.folders)
+    case 'type': return plain(ITEM_TYPES, (type) => ITEM_TYPE_LABELS[type as keyof typeof ITEM_TYPE_LABELS])
+    case 'weak':
+    case 'reused': return plain(['true', 'false'])
+    case 'age': return AGE_SUGGESTIONS
+    case 'url': return []
+  }
+}
+
+/**
+ * Gợi ý cho token tại vị trí con trỏ
+ * - Đang gõ key: các key bắt đầu bằng phần đã gõ (chèn "key:")
+ * - Đang gõ value của key đã biết: các value phù hợp (chèn "key:value ")
+ */
+export function getQuerySuggestions(input: string, cursor: number, source: QuerySuggestionSource): QuerySuggestionResult {
+  const token = tokenizeSearchQuery(input).find((item) => item.start <= cursor && cursor <= item.end)
+  const empty = { suggestions: [], replaceStart: cursor, replaceEnd: cursor }
+  if (!token) return empty
+
+  const prefix = token.negated ? '-' : ''
+  const result = (suggestions: QuerySuggestion[]): QuerySuggestionResult => ({
+    suggestions: suggestions.slice(0, MAX_SUGGESTIONS),
+    replaceStart: token.start,
+    replaceEnd: token.end,
+  })
+
+  // Con trỏ nằm sau dấu ":" - gợi ý value
+  if (token.key && cursor >= token.valueStart) {
+    if (!isQueryKey(token.key)) return empty
+    const key = token.key
+    // Không phân biệt dấu: "folder:nha" gợi ý "Nhà riêng"
+    const typed = normalizeForSearch(input.slice(token.valueStart, cursor).replace(/^"/, ''))
+    return result(
+      getValueSuggestions(key, source)
+        .filter((suggestion) => {
+          const label = normalizeForSearch(suggestion.label)
+          return label.startsWith(typed) && label !== typed
+        })
+        .map((suggestion) => ({ ...suggestion, insertText: `${prefix}${key}:${suggestion.insertText} ` }))
+    )
+  }
+
+  // Đang gõ từ tự do - gợi ý key nếu phần đã gõ là đầu của một key
+  const typed = input.slice(token.start + prefix.length, cursor).toLowerCase()
+  if (token.key || token.quoted || !/^[a-z]+$/.test(typed)) return empty
+  return result(
+    QUERY_KEYS
+      .filter((key) => key.startsWith(typed))
+      .map((key) => ({ label: `${key}:`, description: QUERY_KEY_DESCRIPTIONS[key], insertText: `${prefix}${key}:` }))
+  )
+}
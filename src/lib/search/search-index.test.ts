@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { SearchIndex, getSearchHighlights } from './search-index'
+import type { PasswordEntry } from '../types/password'
+
+let nextId = 0
+
+const entry = (fields: Partial<PasswordEntry>): PasswordEntry => ({
+  id: `entry-${++nextId}`,
+  service: '',
+  username: '',
+  password: '',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...fields,
+})
+
+const ids = (entries: PasswordEntry[]) => entries.map((item) => item.id)
+
+describe('SearchIndex', () => {
+  it('xếp hạng theo trọng số field: service > url > username > tags > notes', () => {
+    const inNotes = entry({ service: 'A', notes: 'github' })
+    const inTags = entry({ service: 'B', tags: ['github'] })
+    const inUsername = entry({ service: 'C', username: 'github' })
+    const inUrl = entry({ service: 'D', urls: [{ url: 'https://github.com' }] })
+    const inService = entry({ service: 'GitHub' })
+    const index = new SearchIndex()
+    index.replaceAll([inNotes, inTags, inUsername, inUrl, inService])
+
+    expect(ids(index.search('github'))).toEqual(ids([inService, inUrl, inUsername, inTags, inNotes]))
+  })
+
+  it('khớp chính xác đứng trước khớp gần đúng, cùng điểm thì mới cập nhật trước', () => {
+    const typo = entry({ service: 'Gitbuh' })
+    const older = entry({ service: 'GitHub', updatedAt: '2024-01-01T00:00:00.000Z' })
+    const newer = entry({ service: 'GitHub', updatedAt: '2024-06-01T00:00:00.000Z' })
+    const index = new SearchIndex()
+    index.replaceAll([typo, older, newer])
+
+    expect(ids(index.search('github'))).toEqual(ids([newer, older, typo]))
+  })
+
+  it('entry phải khớp mọi term, các term có thể nằm ở field khác nhau', () => {
+    const both = entry({ service: 'GitHub', username: 'alice' })
+    const serviceOnly = entry({ service: 'GitHub', username: 'bob' })
+    const index = new SearchIndex()
+    index.replaceAll([both, serviceOnly])
+
+    expect(ids(index.search('github alice'))).toEqual(ids([both]))
+  })
+
+  it('query rỗng trả về mọi entry qua filter, entry trong thùng rác không được index', () => {
+    const kept = entry({ service: 'GitHub', tags: ['work'] })
+    const filtered = entry({ service: 'GitLab' })
+    const trashed = entry({ service: 'Bitbucket', deletedAt: '2024-02-01T00:00:00.000Z' })
+    const index = new SearchIndex()
+    index.replaceAll([kept, filtered, trashed])
+
+    expect(index.size).toBe(2)
+    expect(ids(index.search('', (item) => item.tags?.includes('work') ?? false))).toEqual(ids([kept]))
+  })
+
+  it('sync index lại entry đổi nội dung dù updatedAt không đổi và bỏ entry đã xóa', () => {
+    const github = entry({ service: 'GitHub' })
+    const removed = entry({ service: 'GitLab' })
+    const index = new SearchIndex()
+    index.sync([github, removed])
+
+    index.sync([{ ...github, service: 'Facebook' }])
+
+    expect(index.size).toBe(1)
+    expect(index.search('github')).toEqual([])
+    expect(ids(index.search('facebook'))).toEqual(ids([github]))
+  })
+
+  it('sync trả về object entry mới nhất khi nội dung tìm được không đổi', () => {
+    const github = entry({ service: 'GitHub', password: 'old' })
+    const index = new SearchIndex()
+    index.sync([github])
+
+    const updated = { ...github, password: 'new' }
+    index.sync([updated])
+
+    expect(index.search('github')[0]).toBe(updated)
+  })
+})
+
+describe('getSearchHighlights', () => {
+  it('trả vị trí ký tự gốc khớp query, kể cả khi có dấu', () => {
+    expect(getSearchHighlights(entry({ service: 'Ngân hàng', username: 'alice' }), 'ngan')).toEqual({ service: [0, 1, 2, 3] })
+  })
+})
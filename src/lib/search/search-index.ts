@@ -0,0 +1,197 @@
+import type { PasswordEntry } from '../types/password'
+import { isTrashed } from '../trash/trash'
+import { foldForSearch, fuzzyMatch, mapToOriginalIndices, normalizeForSearch, tokenizeQuery, type FuzzyMatch } from './fuzzy'
+
+/**
+ * Search Index - chỉ mục tìm kiếm trong bộ nhớ dùng chung cho mọi backend
+ *
+ * Mỗi entry được chuẩn hóa sẵn các field tìm được, cập nhật từng entry khi
+ * thêm/sửa/xóa (upsert, remove) hoặc theo updatedAt khi nạp lại danh sách (sync).
+ * Kết quả xếp hạng theo tổng điểm của các term: điểm mỗi term là field khớp
+ * tốt nhất nhân trọng số field. Entry phải khớp mọi term.
+ *
+ * Index giữ entry đã giải mã - nơi sở hữu index phải gọi clear() khi vault khóa.
+ */
+
+export type SearchField = 'service' | 'url' | 'username' | 'tags' | 'notes'
+
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  service: 10,
+  url: 8,
+  username: 6,
+  tags: 4,
+  notes: 2,
+}
+
+// Notes dài nên không so khớp dãy con để tránh kết quả nhiễu
+const SUBSEQUENCE_FIELDS = new Set<SearchField>(['service', 'url', 'username', 'tags'])
+
+interface IndexedEntry {
+  entry: PasswordEntry
+  // Nội dung các field tìm được - khác nhau thì phải index lại
+  contentKey: string
+  fields: Record<SearchField, string[]>
+}
+
+/**
+ * Các field tìm được của entry (chuỗi gốc, chưa chuẩn hóa)
+ */
+const getSearchableFields = (entry: PasswordEntry): Record<SearchField, string[]> => ({
+  service: [entry.service],
+  url: (entry.urls ?? []).map((item) => item.url),
+  username: entry.username ? [entry.username] : [],
+  tags: entry.tags ?? [],
+  notes: entry.notes ? [entry.notes] : [],
+})
+
+/**
+ * Toàn bộ chuỗi tìm được của entry, đã chuẩn hóa - dùng cho so khớp chính xác cụm từ
+ */
+export const getSearchableText = (entry: PasswordEntry): string[] =>
+  Object.values(getSearchableFields(entry)).flat().map(normalizeForSearch)
+
+const getContentKey = (fields: Record<SearchField, string[]>): string => JSON.stringify(fields)
+
+const indexEntry = (entry: PasswordEntry): IndexedEntry => {
+  const fields = getSearchableFields(entry)
+  return {
+    entry,
+    contentKey: getContentKey(fields),
+    fields: {
+      service: fields.service.map(normalizeForSearch),
+      url: fields.url.map(normalizeForSearch),
+      username: fields.username.map(normalizeForSearch),
+      tags: fields.tags.map(normalizeForSearch),
+      notes: fields.notes.map(normalizeForSearch),
+    },
+  }
+}
+
+// Field khớp tốt nhất của một term
+function bestFieldMatch(term: string, fields: Record<SearchField, string[]>): { field: SearchField; value: number; match: FuzzyMatch } | null {
+  let best: { field: SearchField; value: number; match: FuzzyMatch } | null = null
+  for (const field of Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[]) {
+    for (const text of fields[field]) {
+      const match = fuzzyMatch(term, text, { allowSubsequence: SUBSEQUENCE_FIELDS.has(field) })
+      const value = match ? match.quality * SEARCH_FIELD_WEIGHTS[field] : 0
+      if (match && (!best || value > best.value)) {
+        best = { field, value, match }
+      }
+    }
+  }
+  return best
+}
+
+/**
+ * Điểm của entry với các term, null nếu có term không khớp
+ */
+function scoreEntry(terms: string[], fields: Record<SearchField, string[]>): number | null {
+  let score = 0
+  for (const term of terms) {
+    const best = bestFieldMatch(term, fields)
+    if (!best) return null
+    score += best.value
+  }
+  return score
+}
+
+export class SearchIndex {
+  private docs = new Map<string, IndexedEntry>()
+
+  get size(): number {
+    return this.docs.size
+  }
+
+  clear(): void {
+    this.docs.clear()
+  }
+
+  /**
+   * Thêm hoặc cập nhật một entry (entry trong thùng rác bị loại khỏi index)
+   */
+  upsert(entry: PasswordEntry): void {
+    if (isTrashed(entry)) {
+      this.docs.delete(entry.id)
+    } else {
+      this.docs.set(entry.id, indexEntry(entry))
+    }
+  }
+
+  remove(id: string): void {
+    this.docs.delete(id)
+  }
+
+  /**
+   * Dựng lại toàn bộ index
+   */
+  replaceAll(entries: PasswordEntry[]): void {
+    this.docs.clear()
+    entries.forEach((entry) => this.upsert(entry))
+  }
+
+  /**
+   * Đồng bộ index với danh sách entry mới nhất: chỉ index lại entry có nội dung tìm được thay đổi,
+   * bỏ entry không còn trong danh sách
+   * So nội dung thay vì updatedAt vì updatedAt không đổi chưa chắc nội dung không đổi
+   */
+  sync(entries: PasswordEntry[]): void {
+    const ids = new Set(entries.map((entry) => entry.id))
+    for (const id of Array.from(this.docs.keys())) {
+      if (!ids.has(id)) this.docs.delete(id)
+    }
+    entries.forEach((entry) => {
+      const current = this.docs.get(entry.id)
+      if (!current || isTrashed(entry) || current.contentKey !== getContentKey(getSearchableFields(entry))) {
+        this.upsert(entry)
+      } else if (current.entry !== entry) {
+        // Field tìm được không đổi nên giữ phần đã chuẩn hóa, chỉ thay object mới nhất để trả về cho caller
+        this.docs.set(entry.id, { ...current, entry })
+      }
+    })
+  }
+
+  /**
+   * Tất cả entry trong index
+   */
+  entries(): PasswordEntry[] {
+    return Array.from(this.docs.values(), (doc) => doc.entry)
+  }
+
+  /**
+   * Tìm và xếp hạng entry khớp query (điểm giảm dần, cùng điểm thì mới cập nhật trước)
+   * @param filter - Lọc thêm (folder, tag...) trước khi chấm điểm
+   */
+  search(query: string, filter: (entry: PasswordEntry) => boolean = () => true): PasswordEntry[] {
+    const terms = tokenizeQuery(query)
+    const results: { entry: PasswordEntry; score: number }[] = []
+
+    this.docs.forEach(({ entry, fields }) => {
+      if (!filter(entry)) return
+      const score = terms.length > 0 ? scoreEntry(terms, fields) : 0
+      if (score !== null) results.push({ entry, score })
+    })
+
+    return results
+      .sort((a, b) => b.score - a.score || b.entry.updatedAt.localeCompare(a.entry.updatedAt))
+      .map((result) => result.entry)
+  }
+}
+
+/**
+ * Vị trí ký tự khớp query trong service và username của entry - dùng để tô sáng trên thẻ
+ * Dùng cùng thuật toán với SearchIndex nên phần tô sáng luôn khớp với kết quả tìm kiếm
+ */
+export function getSearchHighlights(entry: PasswordEntry, query: string): Partial<Record<'service' | 'username', number[]>> {
+  const terms = tokenizeQuery(query)
+  const highlights: Partial<Record<'service' | 'username', number[]>> = {}
+  if (terms.length === 0) return highlights
+
+  for (const field of ['service', 'username'] as const) {
+    const folded = foldForSearch(entry[field])
+    const indices = terms.flatMap((term) => fuzzyMatch(term, folded.text)?.indices ?? [])
+    if (indices.length > 0) {
+      highlights[field] = mapToOriginalIndices(entry[field], folded, indices)
+    }
+  }
+  return highlights
+}
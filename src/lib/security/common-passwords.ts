@@ -0,0 +1,19 @@
+/**
+ * Các mật khẩu phổ biến nhất (theo thứ tự xếp hạng) từ các vụ lộ dữ liệu công khai
+ * kèm một số mật khẩu phổ biến với người dùng Việt Nam
+ */
+export const COMMON_PASSWORDS: readonly string[] = [
+  '123456', 'password', '123456789', '12345678', '12345', 'qwerty', '1234567', '111111', '123123',
+  'abc123', '1234567890', 'password1', '000000', 'iloveyou', '1234', 'qwerty123', 'dragon', 'monkey',
+  '123321', '654321', '666666', '121212', 'sunshine', 'princess', 'football', 'baseball', 'welcome',
+  'admin', 'letmein', 'master', 'shadow', 'superman', 'michael', 'login', 'starwars', 'passw0rd',
+  'trustno1', 'hello', 'freedom', 'whatever', 'charlie', 'donald', 'batman', 'zaq12wsx', 'qazwsx',
+  'access', 'mustang', 'jordan', 'hunter', 'ashley', 'bailey', 'jennifer', 'harley', 'ranger',
+  'thomas', 'robert', 'soccer', 'hockey', 'killer', 'george', 'andrew', 'michelle', 'jessica',
+  'pepper', 'daniel', 'summer', 'buster', 'secret', 'flower', 'cheese', 'computer', 'internet',
+  'matrix', 'samsung', 'google', 'naruto', 'pokemon', 'lovely', 'love', 'angel', 'default',
+  'changeme', 'root', 'toor', 'test', 'guest', 'administrator', 'qwertyuiop', 'asdfghjkl',
+  'zxcvbnm', '1q2w3e4r', '1qaz2wsx', 'aaaaaa', 'abcdef', 'abcd1234', 'matkhau', 'matkhau123',
+  'anhyeuem', 'emyeuanh', 'yeuem', 'iloveu', 'vietnam', 'hanoi', 'saigon', 'conmeo', 'hoilamgi',
+  'khongbiet', 'nguyen', 'tran', 'minhanh', 'thuytien', 'thanhnhan',
+]
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { OLD_PASSWORD_DAYS, auditPasswords } from './password-audit'
+import type { PasswordEntry } from '../types/password'
+
+const NOW = new Date('2024-12-31T00:00:00.000Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const entry = (id: string, password: string, daysAgo = 0): PasswordEntry => {
+  const updatedAt = new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString()
+  return { id, service: `Service ${id}`, username: 'alice', password, createdAt: updatedAt, updatedAt }
+}
+
+describe('auditPasswords', () => {
+  it('đánh dấu mật khẩu yếu, cũ và dùng lại', () => {
+    const audit = auditPasswords([
+      entry('weak', '123456'),
+      entry('old', 'vT9#qL2!xR7@mK4$', OLD_PASSWORD_DAYS),
+      entry('reused-a', 'Zq8#vT9!pL3@'),
+      entry('reused-b', 'Zq8#vT9!pL3@'),
+      entry('healthy', 'mK4$xR7@qL2!vT9#'),
+    ], [['reused-a', 'reused-b']], NOW)
+
+    expect(audit.weak.map((item) => item.entry.id)).toEqual(['weak'])
+    expect(audit.old.map((item) => item.entry.id)).toEqual(['old'])
+    expect(audit.old[0].ageDays).toBe(OLD_PASSWORD_DAYS)
+    expect(audit.reusedCount).toBe(2)
+    expect(audit.entries.find((item) => item.entry.id === 'reused-a')?.reusedWith.map((item) => item.id)).toEqual(['reused-b'])
+    expect(audit.securityScore).toBe(20)
+  })
+
+  it('bỏ qua nhóm dùng lại chỉ còn một entry trong danh sách', () => {
+    const audit = auditPasswords([entry('a', 'Zq8#vT9!pL3@')], [['a', 'missing']], NOW)
+    expect(audit.reusedGroups).toEqual([])
+    expect(audit.entries[0].reusedWith).toEqual([])
+  })
+
+  it('vault trống có điểm 100', () => {
+    expect(auditPasswords([], [], NOW)).toMatchObject({ entries: [], reusedCount: 0, securityScore: 100 })
+  })
+})
@@ -0,0 +1,79 @@
+import type { PasswordEntry } from '../types/password'
+import { estimatePasswordStrength, type PasswordStrength } from './password-strength'
+import type { ReuseGroups } from './reuse-detector'
+import { isLoginItem } from '../items/item-types'
+import { getPasswordAgeDays } from '../rotation/rotation'
+
+/**
+ * Password Audit - tổng hợp các vấn đề bảo mật của vault (chỉ tính trong bộ nhớ)
+ */
+
+// Mật khẩu không đổi quá số ngày này được coi là cũ
+export const OLD_PASSWORD_DAYS = 180
+
+/**
+ * Mật khẩu có bị coi là yếu không (Rất yếu hoặc Yếu)
+ */
+export const isWeakStrength = (strength: PasswordStrength): boolean => strength.score <= 1
+
+export interface EntryAudit {
+  entry: PasswordEntry
+  strength: PasswordStrength
+  isWeak: boolean
+  isOld: boolean
+  ageDays: number
+  // Các entry khác dùng chung mật khẩu
+  reusedWith: PasswordEntry[]
+}
+
+export interface VaultAudit {
+  entries: EntryAudit[]
+  weak: EntryAudit[]
+  strong: EntryAudit[]
+  old: EntryAudit[]
+  reusedGroups: PasswordEntry[][]
+  reusedCount: number
+  // Tỷ lệ % entry không có vấn đề nào
+  securityScore: number
+}
+
+/**
+ * Audit toàn bộ entries (chỉ tính item đăng nhập, loại khác không có mật khẩu)
+ * @param reuseGroups - Kết quả từ findReusedPasswords (so sánh qua salted hash)
+ */
+export function auditPasswords(allEntries: PasswordEntry[], reuseGroups: ReuseGroups, now: Date = new Date()): VaultAudit {
+  const entries = allEntries.filter(isLoginItem)
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]))
+  const reusedGroups = reuseGroups
+    .map((ids) => ids.map((id) => entriesById.get(id)).filter((entry): entry is PasswordEntry => !!entry))
+    .filter((group) => group.length > 1)
+  const reusedById = new Map<string, PasswordEntry[]>()
+  reusedGroups.forEach((group) => {
+    group.forEach((entry) => reusedById.set(entry.id, group.filter((other) => other.id !== entry.id)))
+  })
+
+  const audits: EntryAudit[] = entries.map((entry) => {
+    const strength = estimatePasswordStrength(entry.password, [entry.service, entry.username])
+    const ageDays = getPasswordAgeDays(entry, now)
+    return {
+      entry,
+      strength,
+      isWeak: isWeakStrength(strength),
+      isOld: ageDays >= OLD_PASSWORD_DAYS,
+      ageDays,
+      reusedWith: reusedById.get(entry.id) ?? [],
+    }
+  })
+
+  const healthy = audits.filter((audit) => !audit.isWeak && !audit.isOld && audit.reusedWith.length === 0)
+
+  return {
+    entries: audits,
+    weak: audits.filter((audit) => audit.isWeak),
+    strong: audits.filter((audit) => audit.strength.score >= 3),
+    old: audits.filter((audit) => audit.isOld),
+    reusedGroups,
+    reusedCount: reusedById.size,
+    securityScore: audits.length > 0 ? Math.round((healthy.length / audits.length) * 100) : 100,
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { estimatePasswordStrength } from './password-strength'
+
+describe('estimatePasswordStrength', () => {
+  it('mật khẩu rỗng có điểm 0 và không có cảnh báo', () => {
+    expect(estimatePasswordStrength('')).toEqual({ score: 0, entropy: 0, label: 'Rất yếu', patterns: [], warnings: [] })
+  })
+
+  it('mật khẩu phổ biến là rất yếu dù dài', () => {
+    const strength = estimatePasswordStrength('password123')
+    expect(strength.score).toBeLessThanOrEqual(1)
+    expect(strength.patterns).toContain('dictionary')
+  })
+
+  it('nhận ra leetspeak và chữ hoa trong từ điển', () => {
+    expect(estimatePasswordStrength('P@ssw0rd').patterns).toContain('dictionary')
+  })
+
+  it.each([
+    ['wertyuio', 'keyboard'],
+    ['abcdefghij', 'sequence'],
+    ['aaaaaaaaaa', 'repeat'],
+    ['xk19051990', 'date'],
+  ])('phát hiện pattern trong %s', (password, pattern) => {
+    expect(estimatePasswordStrength(password).patterns).toContain(pattern)
+  })
+
+  it('phạt mật khẩu chứa tên dịch vụ hoặc tên đăng nhập', () => {
+    const strength = estimatePasswordStrength('github-Zq8#', ['GitHub', 'alice'])
+    expect(strength.patterns).toContain('personal')
+    expect(strength.warnings).toContain('Chứa tên dịch vụ hoặc tên đăng nhập')
+  })
+
+  it('mật khẩu ngẫu nhiên dài là rất mạnh', () => {
+    const strength = estimatePasswordStrength('vT9#qL2!xR7@mK4$')
+    expect(strength.score).toBe(4)
+    expect(strength.patterns).toEqual([])
+  })
+
+  it('mật khẩu dưới 8 ký tự không bao giờ quá mức yếu', () => {
+    const strength = estimatePasswordStrength('Zq8#vT9')
+    expect(strength.score).toBeLessThanOrEqual(1)
+    expect(strength.warnings[0]).toBe('Mật khẩu quá ngắn (dưới 8 ký tự)')
+  })
+})
@@ -0,0 +1,237 @@
+import { COMMON_PASSWORDS } from './common-passwords'
+import { PASSPHRASE_WORDLIST } from '../generator/wordlist'
+
+/**
+ * Password Strength - ước lượng độ mạnh theo entropy và các pattern dễ đoán
+ *
+ * Ý tưởng tương tự zxcvbn nhưng gọn hơn: tìm các đoạn khớp pattern
+ * (từ điển, bàn phím, lặp, chuỗi liên tiếp, ngày tháng), mỗi đoạn có chi phí
+ * đoán (bits), rồi dùng quy hoạch động chọn cách phủ mật khẩu rẻ nhất.
+ * Phần không khớp pattern tính như brute-force theo bộ ký tự.
+ */
+
+export type StrengthScore = 0 | 1 | 2 | 3 | 4
+
+export type WeaknessPattern = 'dictionary' | 'keyboard' | 'repeat' | 'sequence' | 'date' | 'personal'
+
+export interface PasswordStrength {
+  score: StrengthScore
+  entropy: number // bits
+  label: string
+  patterns: WeaknessPattern[]
+  warnings: string[]
+}
+
+export const STRENGTH_LABELS: Record<StrengthScore, string> = {
+  0: 'Rất yếu',
+  1: 'Yếu',
+  2: 'Trung bình',
+  3: 'Mạnh',
+  4: 'Rất mạnh',
+}
+
+const PATTERN_WARNINGS: Record<WeaknessPattern, string> = {
+  dictionary: 'Chứa từ phổ biến hoặc mật khẩu hay bị lộ',
+  keyboard: 'Chứa chuỗi phím liền nhau trên bàn phím',
+  repeat: 'Chứa ký tự hoặc cụm ký tự lặp lại',
+  sequence: 'Chứa chuỗi liên tiếp như abc hoặc 123',
+  date: 'Chứa năm hoặc ngày tháng',
+  personal: 'Chứa tên dịch vụ hoặc tên đăng nhập',
+}
+
+// Ngưỡng entropy (bits) cho từng mức điểm 1..4
+const SCORE_THRESHOLDS = [25, 40, 55, 70]
+const MIN_DICTIONARY_WORD = 3
+
+const KEYBOARD_ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm']
+const SEQUENCES = ['abcdefghijklmnopqrstuvwxyz', '0123456789']
+
+// Chuẩn hóa leetspeak trước khi tra từ điển
+const LEET_MAP: Record<string, string> = {
+  '4': 'a', '@': 'a', '3': 'e', '1': 'i', '!': 'i', '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't',
+}
+
+interface PatternMatch {
+  start: number
+  end: number // exclusive
+  bits: number
+  pattern: WeaknessPattern
+}
+
+const commonRanks = new Map(COMMON_PASSWORDS.map((word, index) => [word, index + 1]))
+const dictionaryWords = new Set(PASSPHRASE_WORDLIST)
+const DICTIONARY_BITS = Math.log2(PASSPHRASE_WORDLIST.length)
+
+function charsetSize(password: string): number {
+  let size = 0
+  if (/[a-z]/.test(password)) size += 26
+  if (/[A-Z]/.test(password)) size += 26
+  if (/[0-9]/.test(password)) size += 10
+  if (/[^a-zA-Z0-9]/.test(password)) size += 33
+  return Math.max(size, 10)
+}
+
+function findDictionaryMatches(password: string, personalInputs: string[]): PatternMatch[] {
+  const lower = password.toLowerCase()
+  const unleet = lower.split('').map((char) => LEET_MAP[char] ?? char).join('')
+  const personal = new Set(personalInputs.map((input) => input.toLowerCase()).filter((input) => input.length >= MIN_DICTIONARY_WORD))
+  const matches: PatternMatch[] = []
+
+  for (let start = 0; start < lower.length; start++) {
+    for (let end = start + MIN_DICTIONARY_WORD; end <= lower.length; end++) {
+      const slice = password.slice(start, end)
+      // Biến thể hoa/thường và leetspeak chỉ tăng thêm vài bits
+      const variationBits = (slice !== slice.toLowerCase() ? 1 : 0) + (lower.slice(start, end) !== unleet.slice(start, end) ? 1 : 0)
+
+      for (const candidate of new Set([lower.slice(start, end), unleet.slice(start, end)])) {
+        const rank = commonRanks.get(candidate)
+        if (rank) {
+          matches.push({ start, end, bits: Math.log2(rank + 1) + variationBits, pattern: 'dictionary' })
+        } else if (dictionaryWords.has(candidate)) {
+          matches.push({ start, end, bits: DICTIONARY_BITS + variationBits, pattern: 'dictionary' })
+        }
+        if (personal.has(candidate)) {
+          matches.push({ start, end, bits: 1 + variationBits, pattern: 'personal' })
+        }
+      }
+    }
+  }
+  return matches
+}
+
+// Chuỗi tối đa liên tiếp theo một "bảng chữ" (hàng phím hoặc bảng chữ cái), xuôi hoặc ngược
+function findRunMatches(password: string, alphabets: string[], minLength: number, pattern: WeaknessPattern, bitsPerRun: number): PatternMatch[] {
+  const lower = password.toLowerCase()
+  const matches: PatternMatch[] = []
+
+  for (const alphabet of alphabets) {
+    for (const direction of [1, -1]) {
+      let start = 0
+      for (let i = 1; i <= lower.length; i++) {
+        const prev = alphabet.indexOf(lower[i - 1])
+        const current = i < lower.length ? alphabet.indexOf(lower[i]) : -1
+        const continues = prev !== -1 && current !== -1 && current - prev === direction
+        if (!continues) {
+          if (i - start >= minLength) {
+            matches.push({ start, end: i, bits: bitsPerRun + Math.log2(i - start), pattern })
+          }
+          start = i
+        }
+      }
+    }
+  }
+  return matches
+}
+
+function findRepeatMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = []
+
+  // Một ký tự lặp liên tiếp: aaaa, 1111
+  const singleRepeat = /(.)\1{2,}/g
+  for (const match of password.matchAll(singleRepeat)) {
+    const start = match.index ?? 0
+    matches.push({ start, end: start + match[0].length, bits: Math.log2(charsetSize(match[1])) + Math.log2(match[0].length), pattern: 'repeat' })
+  }
+
+  // Cụm ký tự lặp: abcabc, 123123
+  const chunkRepeat = /(.{2,}?)\1+/g
+  for (const match of password.matchAll(chunkRepeat)) {
+    const start = match.index ?? 0
+    const chunkBits = match[1].length * Math.log2(charsetSize(match[1]))
+    matches.push({ start, end: start + match[0].length, bits: chunkBits + Math.log2(match[0].length / match[1].length), pattern: 'repeat' })
+  }
+  return matches
+}
+
+function findDateMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = []
+  const patterns: Array<{ regex: RegExp; bits: number }> = [
+    // dd/mm/yyyy, dd-mm-yy, yyyy.mm.dd ...
+    { regex: /\d{1,4}[-/._]\d{1,2}[-/._]\d{2,4}/g, bits: Math.log2(365 * 200) + 2 },
+    // ddmmyyyy hoặc yyyymmdd
+    { regex: /(?:19|20)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])|(?:0[1-9]|[12]\d|3[01])(?:0[1-9]|1[0-2])(?:19|20)\d{2}/g, bits: Math.log2(365 * 200) },
+    // Năm đơn lẻ
+    { regex: /(?:19|20)\d{2}/g, bits: Math.log2(200) },
+  ]
+
+  for (const { regex, bits } of patterns) {
+    for (const match of password.matchAll(regex)) {
+      const start = match.index ?? 0
+      matches.push({ start, end: start + match[0].length, bits, pattern: 'date' })
+    }
+  }
+  return matches
+}
+
+function toScore(entropy: number): StrengthScore {
+  const score = SCORE_THRESHOLDS.filter((threshold) => entropy >= threshold).length
+  return score as StrengthScore
+}
+
+/**
+ * Ước lượng độ mạnh của mật khẩu
+ * @param personalInputs - Thông tin của entry (service, username) - dùng lại trong mật khẩu là điểm yếu
+ */
+export function estimatePasswordStrength(password: string, personalInputs: string[] = []): PasswordStrength {
+  if (!password) {
+    return { score: 0, entropy: 0, label: STRENGTH_LABELS[0], patterns: [], warnings: [] }
+  }
+
+  const matches = [
+    ...findDictionaryMatches(password, personalInputs),
+    ...findRunMatches(password, KEYBOARD_ROWS, 4, 'keyboard', Math.log2(KEYBOARD_ROWS.join('').length * 2)),
+    ...findRunMatches(password, SEQUENCES, 3, 'sequence', Math.log2(36 * 2)),
+    ...findRepeatMatches(password),
+    ...findDateMatches(password),
+  ]
+
+  const bruteForceBits = Math.log2(charsetSize(password))
+  const matchesByEnd = new Map<number, PatternMatch[]>()
+  matches.forEach((match) => {
+    matchesByEnd.set(match.end, [...(matchesByEnd.get(match.end) ?? []), match])
+  })
+
+  // cost[i]: số bits nhỏ nhất để đoán i ký tự đầu tiên
+  const cost: number[] = [0]
+  const via: Array<PatternMatch | null> = [null]
+  for (let i = 1; i <= password.length; i++) {
+    cost[i] = cost[i - 1] + bruteForceBits
+    via[i] = null
+    for (const match of matchesByEnd.get(i) ?? []) {
+      // +1 bit cho mỗi pattern để tính việc kẻ tấn công phải đoán cấu trúc
+      const candidate = cost[match.start] + match.bits + 1
+      if (candidate < cost[i]) {
+        cost[i] = candidate
+        via[i] = match
+      }
+    }
+  }
+
+  const patterns = new Set<WeaknessPattern>()
+  for (let i = password.length; i > 0;) {
+    const match = via[i]
+    if (match) {
+      patterns.add(match.pattern)
+      i = match.start
+    } else {
+      i--
+    }
+  }
+
+  const warnings = [...patterns].map((pattern) => PATTERN_WARNINGS[pattern])
+  if (password.length < 8) {
+    warnings.unshift('Mật khẩu quá ngắn (dưới 8 ký tự)')
+  }
+
+  const entropy = cost[password.length]
+  // Mật khẩu quá ngắn không bao giờ được coi là mạnh
+  const score = password.length < 8 ? (Math.min(toScore(entropy), 1) as StrengthScore) : toScore(entropy)
+
+  return {
+    score,
+    entropy,
+    label: STRENGTH_LABELS[score],
+    patterns: [...patterns],
+    warnings,
+  }
+}
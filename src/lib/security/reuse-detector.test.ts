@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { findReusedPasswords, resetReuseDetector } from './reuse-detector'
+import type { PasswordEntry } from '../types/password'
+
+const entry = (id: string, password: string, updatedAt = '2024-01-01T00:00:00.000Z'): PasswordEntry => ({
+  id,
+  service: `Service ${id}`,
+  username: 'alice',
+  password,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt,
+})
+
+describe('findReusedPasswords', () => {
+  beforeEach(() => {
+    resetReuseDetector()
+  })
+
+  it('nhóm các entry dùng chung mật khẩu, bỏ qua mật khẩu rỗng', async () => {
+    const groups = await findReusedPasswords([
+      entry('1', 'shared'),
+      entry('2', 'unique'),
+      entry('3', 'shared'),
+      entry('4', ''),
+      entry('5', ''),
+    ])
+    expect(groups).toEqual([['1', '3']])
+  })
+
+  it('phân biệt hoa thường', async () => {
+    expect(await findReusedPasswords([entry('1', 'Secret'), entry('2', 'secret')])).toEqual([])
+  })
+
+  it('hash lại entry đã được cập nhật', async () => {
+    expect(await findReusedPasswords([entry('1', 'shared'), entry('2', 'shared')])).toEqual([['1', '2']])
+    expect(await findReusedPasswords([entry('1', 'changed', '2024-02-01T00:00:00.000Z'), entry('2', 'shared')])).toEqual([])
+  })
+
+  it('chỉ hash lại khi mốc phiên bản đổi và bỏ entry không còn trong vault khỏi cache', async () => {
+    const sign = vi.spyOn(crypto.subtle, 'sign')
+
+    await findReusedPasswords([entry('1', 'a'), entry('2', 'b')])
+    await findReusedPasswords([entry('1', 'a')])
+    expect(sign).toHaveBeenCalledTimes(2)
+
+    // Entry 2 đã bị bỏ khỏi cache ở lần trước
+    await findReusedPasswords([entry('1', 'a'), entry('2', 'b')])
+    expect(sign).toHaveBeenCalledTimes(3)
+
+    await findReusedPasswords([{ ...entry('1', 'c'), passwordChangedAt: '2024-03-01T00:00:00.000Z' }, entry('2', 'b')])
+    expect(sign).toHaveBeenCalledTimes(4)
+
+    sign.mockRestore()
+  })
+})
@@ -0,0 +1,93 @@
+import { vaultKeyManager } from '../crypto/vault-key-manager'
+import { bytesToBase64, randomBytes } from '../crypto/vault-crypto'
+import type { PasswordEntry } from '../types/password'
+
+/**
+ * Reuse Detector - phát hiện mật khẩu dùng chung giữa các entry
+ *
+ * Mật khẩu được so sánh qua HMAC-SHA256 với salt ngẫu nhiên chỉ tồn tại
+ * trong phiên mở khóa hiện tại. Digest và salt không bao giờ được ghi xuống
+ * storage, và bị hủy khi vault khóa nên không thể dùng để dò mật khẩu sau đó.
+ */
+
+const SALT_LENGTH = 32
+
+/**
+ * Các nhóm entry id dùng chung mật khẩu (mỗi nhóm có từ 2 entry)
+ */
+export type ReuseGroups = string[][]
+
+interface CachedDigest {
+  version: string
+  digest: string
+}
+
+let hmacKey: Promise<CryptoKey> | null = null
+// Cache digest theo entry id - không giữ mật khẩu, chỉ giữ mốc phiên bản để biết khi nào cần hash lại
+const digestCache = new Map<string, CachedDigest>()
+
+// passwordChangedAt đổi khi mật khẩu đổi (mọi backend đều đặt); updatedAt phòng entry cũ chưa có mốc này
+const getDigestVersion = (entry: PasswordEntry): string => `${entry.passwordChangedAt ?? ''}|${entry.updatedAt}`
+
+function getSessionKey(): Promise<CryptoKey> {
+  if (!hmacKey) {
+    hmacKey = crypto.subtle.importKey(
+      'raw',
+      randomBytes(SALT_LENGTH),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    )
+  }
+  return hmacKey
+}
+
+async function digestEntry(entry: PasswordEntry): Promise<string> {
+  const version = getDigestVersion(entry)
+  const cached = digestCache.get(entry.id)
+  if (cached && cached.version === version) {
+    return cached.digest
+  }
+
+  const key = await getSessionKey()
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(entry.password))
+  const digest = bytesToBase64(new Uint8Array(signature))
+  digestCache.set(entry.id, { version, digest })
+  return digest
+}
+
+/**
+ * Nhóm các entry dùng chung mật khẩu
+ * Entry không còn trong danh sách (đã xóa hoặc mật khẩu rỗng) bị bỏ khỏi cache
+ */
+export async function findReusedPasswords(entries: PasswordEntry[]): Promise<ReuseGroups> {
+  const groups = new Map<string, string[]>()
+  const hashedIds = new Set<string>()
+
+  for (const entry of entries) {
+    if (!entry.password) continue
+    const digest = await digestEntry(entry)
+    hashedIds.add(entry.id)
+    groups.set(digest, [...(groups.get(digest) ?? []), entry.id])
+  }
+
+  for (const id of digestCache.keys()) {
+    if (!hashedIds.has(id)) digestCache.delete(id)
+  }
+
+  return [...groups.values()].filter((ids) => ids.length > 1)
+}
+
+/**
+ * Hủy salt và cache của phiên hiện tại (tự chạy khi vault khóa, kể cả khi đăng xuất)
+ */
+export function resetReuseDetector(): void {
+  hmacKey = null
+  digestCache.clear()
+}
+
+vaultKeyManager.subscribe(() => {
+  if (!vaultKeyManager.isUnlocked()) {
+    resetReuseDetector()
+  }
+})
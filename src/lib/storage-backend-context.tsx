@@ -0,0 +1,53 @@
+import { useState, useCallback, useMemo } from "react";
+import { createVaultStorage, isStorageBackend, type StorageBackend } from "@/lib/storage";
+import { StorageBackendContext } from "@/hooks/use-storage-backend";
+
+type StorageBackendProviderProps = {
+  children: React.ReactNode;
+  defaultBackend?: StorageBackend;
+  storageKey?: string;
+};
+
+/**
+ * Storage Backend Provider
+ * Cho phép chọn backend lưu trữ (IndexedDB hoặc Supabase) tại runtime
+ * Lựa chọn được lưu trong localStorage
+ */
+export function StorageBackendProvider({
+  children,
+  defaultBackend = "supabase",
+  storageKey = "memory-safe-guard-storage-backend",
+}: StorageBackendProviderProps) {
+  const [backend, setBackendState] = useState<StorageBackend>(() => {
+    try {
+      const stored = localStorage.getItem(storageKey);
+      return isStorageBackend(stored) ? stored : defaultBackend;
+    } catch {
+      return defaultBackend;
+    }
+  });
+
+  const setBackend = useCallback((newBackend: StorageBackend) => {
+    try {
+      localStorage.setItem(storageKey, newBackend);
+    } catch (error) {
+      console.warn("Failed to save storage backend to localStorage:", error);
+    }
+    setBackendState(newBackend);
+  }, [storageKey]);
+
+  // Tạo storage mới chỉ khi backend thay đổi
+  const storage = useMemo(() => createVaultStorage(backend), [backend]);
+
+  const contextValue = useMemo(() => ({
+    backend,
+    setBackend,
+    storage,
+  }), [backend, setBackend, storage]);
+
+  return (
+    <StorageBackendContext.Provider value={contextValue}>
+      {children}
+    </StorageBackendContext.Provider>
+  );
+}
@@ -0,0 +1,35 @@
+import { IndexedDBVaultStorage } from './indexeddb-storage'
+import { InMemoryVaultStorage } from './memory-storage'
+import { SupabaseVaultStorage } from './supabase-storage'
+import type { StorageBackend, VaultStorage } from './vault-storage'
+
+export * from './vault-storage'
+export { IndexedDBVaultStorage, InMemoryVaultStorage, SupabaseVaultStorage }
+
+/**
+ * Tên hiển thị của các backend có thể chọn trên UI
+ */
+export const STORAGE_BACKEND_LABELS: Record<Exclude<StorageBackend, 'memory'>, string> = {
+  indexeddb: 'Cục bộ (IndexedDB)',
+  supabase: 'Đám mây (Supabase)',
+}
+
+/**
+ * Tạo VaultStorage tương ứng với backend được chọn
+ */
+export function createVaultStorage(backend: StorageBackend): VaultStorage {
+  switch (backend) {
+    case 'indexeddb':
+      return new IndexedDBVaultStorage()
+    case 'supabase':
+      return new SupabaseVaultStorage()
+    case 'memory':
+      return new InMemoryVaultStorage()
+  }
+}
+
+/**
+ * Type guard cho giá trị backend đọc từ localStorage
+ */
+export const isStorageBackend = (value: unknown): value is StorageBackend =>
+  value === 'indexeddb' || value === 'supabase' || value === 'memory'
@@ -0,0 +1,137 @@
+import { dbManager, DatabaseManager } from '../db/db'
+import type { PasswordEntry, CreatePasswordEntry, NewAttachment, UpdatePasswordEntry } from '../types/password'
+import type { Folder, CreateFolder, FolderDeleteMode, UpdateFolder } from '../types/folder'
+import {
+  AttachmentNotFoundError,
+  FolderNotFoundError,
+  PasswordNotFoundError,
+  hasSearchFilters,
+  paginateSearchResults,
+  type PasswordSearchFilters,
+  type SearchPage,
+  type SearchPageOptions,
+  type VaultStorage,
+} from './vault-storage'
+
+/**
+ * VaultStorage dùng IndexedDB (DatabaseManager) - dữ liệu chỉ nằm trên thiết bị
+ */
+export class IndexedDBVaultStorage implements VaultStorage {
+  readonly backend = 'indexeddb' as const
+
+  constructor(private readonly db: DatabaseManager = dbManager) {}
+
+  getAllPasswords(): Promise<PasswordEntry[]> {
+    return this.db.getAllPasswords()
+  }
+
+  searchPasswords(query: string, filters: PasswordSearchFilters = {}): Promise<PasswordEntry[]> {
+    return query.trim() || hasSearchFilters(filters)
+      ? this.db.searchPasswords(query.trim(), filters)
+      : this.db.getAllPasswords()
+  }
+
+  async searchPasswordsPage(query: string, filters: PasswordSearchFilters = {}, options: SearchPageOptions = {}): Promise<SearchPage> {
+    return paginateSearchResults(await this.searchPasswords(query, filters), options)
+  }
+
+  addPassword(entry: CreatePasswordEntry): Promise<PasswordEntry> {
+    return this.db.addPassword(entry)
+  }
+
+  batchAddPasswords(entries: CreatePasswordEntry[]): Promise<PasswordEntry[]> {
+    return this.db.batchAddPasswords(entries)
+  }
+
+  putPasswords(entries: PasswordEntry[]): Promise<void> {
+    return this.db.putPasswords(entries)
+  }
+
+  async updatePassword(id: string, entry: UpdatePasswordEntry): Promise<PasswordEntry> {
+    const updated = await this.db.updatePassword(id, entry)
+    if (!updated) {
+      throw new PasswordNotFoundError(id)
+    }
+    return updated
+  }
+
+  async deletePassword(id: string): Promise<void> {
+    await this.db.deletePassword(id)
+  }
+
+  getTrashedPasswords(): Promise<PasswordEntry[]> {
+    return this.db.getTrashedPasswords()
+  }
+
+  async restorePassword(id: string): Promise<PasswordEntry> {
+    const restored = await this.db.restorePassword(id)
+    if (!restored) {
+      throw new PasswordNotFoundError(id)
+    }
+    return restored
+  }
+
+  async purgePassword(id: string): Promise<void> {
+    await this.db.purgePassword(id)
+  }
+
+  purgeTrash(before?: string): Promise<number> {
+    return this.db.purgeTrash(before)
+  }
+
+  async addAttachment(entryId: string, file: NewAttachment): Promise<PasswordEntry> {
+    const updated = await this.db.addAttachment(entryId, file)
+    if (!updated) {
+      throw new PasswordNotFoundError(entryId)
+    }
+    return updated
+  }
+
+  async getAttachmentData(entryId: string, attachmentId: string): Promise<ArrayBuffer> {
+    const data = await this.db.getAttachmentData(entryId, attachmentId)
+    if (!data) {
+      throw new AttachmentNotFoundError(attachmentId)
+    }
+    return data
+  }
+
+  async deleteAttachment(entryId: string, attachmentId: string): Promise<PasswordEntry> {
+    const updated = await this.db.deleteAttachment(entryId, attachmentId)
+    if (!updated) {
+      throw new AttachmentNotFoundError(attachmentId)
+    }
+    return updated
+  }
+
+  async putAttachmentData(entryId: string, attachmentId: string, data: ArrayBuffer): Promise<void> {
+    if (!(await this.db.putAttachmentData(entryId, attachmentId, data))) {
+      throw new AttachmentNotFoundError(attachmentId)
+    }
+  }
+
+  getAllFolders(): Promise<Folder[]> {
+    return this.db.getAllFolders()
+  }
+
+  addFolder(folder: CreateFolder): Promise<Folder> {
+    return this.db.addFolder(folder)
+  }
+
+  async updateFolder(id: string, folder: UpdateFolder): Promise<Folder> {
+    const updated = await this.db.updateFolder(id, folder)
+    if (!updated) {
+      throw new FolderNotFoundError(id)
+    }
+    return updated
+  }
+
+  async deleteFolder(id: string, mode: FolderDeleteMode): Promise<void> {
+    if (!(await this.db.deleteFolder(id, mode))) {
+      throw new FolderNotFoundError(id)
+    }
+  }
+
+  getAllTags(): Promise<string[]> {
+    return this.db.getAllTags()
+  }
+}
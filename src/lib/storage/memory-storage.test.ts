@@ -0,0 +1,267 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { InMemoryVaultStorage } from './memory-storage'
+import { AttachmentNotFoundError, FolderNotFoundError, PasswordNotFoundError } from './vault-storage'
+import { ATTACHMENT_LIMITS } from '../attachments/attachments'
+import type { CreatePasswordEntry } from '../types/password'
+
+const login = (service: string, username: string, extra: Partial<CreatePasswordEntry> = {}): CreatePasswordEntry => ({
+  service,
+  username,
+  password: `${service}-password`,
+  ...extra,
+})
+
+describe('InMemoryVaultStorage', () => {
+  let storage: InMemoryVaultStorage
+
+  beforeEach(() => {
+    storage = new InMemoryVaultStorage()
+  })
+
+  describe('CRUD', () => {
+    it('thêm entry với id và timestamp, danh sách mới cập nhật trước', async () => {
+      const first = await storage.addPassword(login('GitHub', 'alice'))
+      const second = await storage.addPassword(login('GitLab', 'bob'))
+
+      expect(first.id).toBeTruthy()
+      expect(first.createdAt).toBe(first.updatedAt)
+      expect((await storage.getAllPasswords()).map((entry) => entry.id)).toEqual([second.id, first.id])
+    })
+
+    it('cập nhật một phần và đưa entry vừa sửa lên đầu', async () => {
+      const entry = await storage.addPassword(login('GitHub', 'alice'))
+      const other = await storage.addPassword(login('GitLab', 'bob'))
+
+      const renamed = await storage.updatePassword(entry.id, { username: 'alice2' })
+      expect(renamed).toMatchObject({ service: 'GitHub', username: 'alice2', password: 'GitHub-password' })
+      expect(renamed.updatedAt > entry.updatedAt).toBe(true)
+      expect((await storage.getAllPasswords()).map((item) => item.id)).toEqual([entry.id, other.id])
+    })
+
+    it('ghi lịch sử khi đổi mật khẩu, không ghi khi sửa field khác', async () => {
+      const entry = await storage.addPassword(login('GitHub', 'alice'))
+
+      await storage.updatePassword(entry.id, { username: 'alice2' })
+      expect((await storage.getAllPasswords())[0].passwordHistory).toBeUndefined()
+
+      const changed = await storage.updatePassword(entry.id, { password: 'new-password' })
+      expect(changed.passwordHistory?.map((item) => item.password)).toEqual(['GitHub-password'])
+      expect(changed.passwordChangedAt).toBe(changed.updatedAt)
+      expect(changed.passwordChangedAt! > entry.passwordChangedAt!).toBe(true)
+    })
+
+    it('throw PasswordNotFoundError khi entry không tồn tại', async () => {
+      await expect(storage.updatePassword('missing', { service: 'x' })).rejects.toBeInstanceOf(PasswordNotFoundError)
+      await expect(storage.deletePassword('missing')).rejects.toBeInstanceOf(PasswordNotFoundError)
+    })
+
+    it('xóa entry khỏi danh sách', async () => {
+      const entry = await storage.addPassword(login('GitHub', 'alice'))
+      await storage.deletePassword(entry.id)
+
+      expect(await storage.getAllPasswords()).toEqual([])
+    })
+
+    it('trả bản sao để thay đổi bên ngoài không ghi vào storage', async () => {
+      const entry = await storage.addPassword(login('GitHub', 'alice'))
+      entry.service = 'Changed'
+
+      expect((await storage.getAllPasswords())[0].service).toBe('GitHub')
+    })
+  })
+
+  describe('folder', () => {
+    it('lọc tìm kiếm theo folder gồm folder con, hoặc entry chưa phân loại', async () => {
+      const work = await storage.addFolder({ name: 'Công việc', parentId: null })
+      const servers = await storage.addFolder({ name: 'Máy chủ', parentId: work.id })
+      const inServers = await storage.addPassword(login('Server', 'root', { folderId: servers.id }))
+      const loose = await storage.addPassword(login('Bank', 'carol'))
+
+      expect((await storage.searchPasswords('', { folderId: work.id })).map((entry) => entry.id)).toEqual([inServers.id])
+      expect((await storage.searchPasswords('', { folderId: null })).map((entry) => entry.id)).toEqual([loose.id])
+    })
+
+    it('không cho chuyển folder vào folder con của nó', async () => {
+      const work = await storage.addFolder({ name: 'Công việc', parentId: null })
+      const servers = await storage.addFolder({ name: 'Máy chủ', parentId: work.id })
+
+      await expect(storage.updateFolder(work.id, { parentId: servers.id })).rejects.toThrow('cannot be moved into itself')
+      await expect(storage.updateFolder('missing', { name: 'x' })).rejects.toBeInstanceOf(FolderNotFoundError)
+    })
+
+    it('move-contents chuyển entry và folder con lên folder cha', async () => {
+      const work = await storage.addFolder({ name: 'Công việc', parentId: null })
+      const servers = await storage.addFolder({ name: 'Máy chủ', parentId: work.id })
+      const prod = await storage.addFolder({ name: 'Production', parentId: servers.id })
+      const entry = await storage.addPassword(login('Server', 'root', { folderId: servers.id }))
+
+      await storage.deleteFolder(servers.id, 'move-contents')
+
+      expect((await storage.getAllFolders()).map((folder) => [folder.id, folder.parentId])).toEqual([[work.id, null], [prod.id, work.id]])
+      expect((await storage.getAllPasswords()).find((item) => item.id === entry.id)?.folderId).toBe(work.id)
+    })
+
+    it('delete-contents xóa folder con cháu và entry bên trong', async () => {
+      const work = await storage.addFolder({ name: 'Công việc', parentId: null })
+      const servers = await storage.addFolder({ name: 'Máy chủ', parentId: work.id })
+      await storage.addPassword(login('Server', 'root', { folderId: servers.id }))
+      const loose = await storage.addPassword(login('Bank', 'carol'))
+
+      await storage.deleteFolder(work.id, 'delete-contents')
+
+      expect(await storage.getAllFolders()).toEqual([])
+      expect((await storage.getAllPasswords()).map((entry) => entry.id)).toEqual([loose.id])
+    })
+  })
+
+  describe('thùng rác', () => {
+    it('xóa chuyển entry vào thùng rác và khôi phục được', async () => {
+      const entry = await storage.addPassword(login('GitHub', 'alice', { tags: ['work'] }))
+      await storage.deletePassword(entry.id)
+
+      expect(await storage.searchPasswords('github')).toEqual([])
+      expect(await storage.getAllTags()).toEqual([])
+      expect((await storage.getTrashedPasswords()).map((item) => item.id)).toEqual([entry.id])
+
+      const restored = await storage.restorePassword(entry.id)
+      expect(restored.deletedAt).toBeNull()
+      expect((await storage.getAllPasswords()).map((item) => item.id)).toEqual([entry.id])
+      expect(await storage.getTrashedPasswords()).toEqual([])
+    })
+
+    it('xóa vĩnh viễn một entry, các entry vào thùng rác trước mốc hoặc toàn bộ thùng rác', async () => {
+      const first = await storage.addPassword(login('GitHub', 'alice'))
+      const second = await storage.addPassword(login('GitLab', 'bob'))
+      const kept = await storage.addPassword(login('Bank', 'carol'))
+      await storage.deletePassword(first.id)
+      await storage.deletePassword(second.id)
+
+      await storage.purgePassword(first.id)
+      expect((await storage.getTrashedPasswords()).map((item) => item.id)).toEqual([second.id])
+
+      expect(await storage.purgeTrash('2000-01-01T00:00:00.000Z')).toBe(0)
+      expect(await storage.purgeTrash()).toBe(1)
+      expect(await storage.getTrashedPasswords()).toEqual([])
+      expect((await storage.getAllPasswords()).map((item) => item.id)).toEqual([kept.id])
+    })
+
+    it('xóa folder cùng nội dung chuyển entry vào thùng rác', async () => {
+      const work = await storage.addFolder({ name: 'Công việc', parentId: null })
+      const entry = await storage.addPassword(login('Server', 'root', { folderId: work.id }))
+
+      await storage.deleteFolder(work.id, 'delete-contents')
+
+      expect((await storage.getTrashedPasswords()).map((item) => item.id)).toEqual([entry.id])
+    })
+  })
+
+  describe('file đính kèm', () => {
+    const file = (text: string) => ({ name: 'codes.txt', mimeType: 'text/plain', data: new TextEncoder().encode(text).buffer as ArrayBuffer })
+
+    it('thêm, đọc và xóa file đính kèm', async () => {
+      const entry = await storage.addPassword(login('GitHub', 'alice'))
+      const withFile = await storage.addAttachment(entry.id, file('recovery'))
+      const [attachment] = withFile.attachments ?? []
+
+      expect(attachment).toMatchObject({ name: 'codes.txt', size: 8 })
+      expect(new TextDecoder().decode(await storage.getAttachmentData(entry.id, attachment.id))).toBe('recovery')
+
+      const withoutFile = await storage.deleteAttachment(entry.id, attachment.id)
+      expect(withoutFile.attachments).toEqual([])
+      await expect(storage.getAttachmentData(entry.id, attachment.id)).rejects.toBeInstanceOf(AttachmentNotFoundError)
+    })
+
+    it('từ chối file vượt giới hạn kích thước', async () => {
+      const entry = await storage.addPassword(login('GitHub', 'alice'))
+      const large = { name: 'big.bin', mimeType: '', data: new ArrayBuffer(ATTACHMENT_LIMITS.fileSize + 1) }
+
+      await expect(storage.addAttachment(entry.id, large)).rejects.toThrow('File must be at most 10 MB')
+      expect((await storage.getAllPasswords())[0].attachments).toBeUndefined()
+    })
+
+    it('giữ file khi entry vào thùng rác, xóa file khi xóa vĩnh viễn', async () => {
+      const entry = await storage.addPassword(login('GitHub', 'alice'))
+      const [attachment] = (await storage.addAttachment(entry.id, file('recovery'))).attachments ?? []
+
+      await storage.deletePassword(entry.id)
+      expect(new TextDecoder().decode(await storage.getAttachmentData(entry.id, attachment.id))).toBe('recovery')
+
+      await storage.purgePassword(entry.id)
+      await expect(storage.getAttachmentData(entry.id, attachment.id)).rejects.toBeInstanceOf(PasswordNotFoundError)
+    })
+  })
+
+  describe('tìm kiếm', () => {
+    it('tìm theo service hoặc username, không phân biệt hoa thường, khớp service xếp trước', async () => {
+      const github = await storage.addPassword(login('GitHub', 'alice'))
+      const mail = await storage.addPassword(login('Email', 'GITHUB-bot'))
+      await storage.addPassword(login('Bank', 'carol'))
+
+      expect((await storage.searchPasswords('github')).map((entry) => entry.id)).toEqual([github.id, mail.id])
+    })
+
+    it('lọc theo tag kết hợp and/or và liệt kê tag đang dùng', async () => {
+      const both = await storage.addPassword(login('GitHub', 'alice', { tags: ['work', 'dev'] }))
+      const work = await storage.addPassword(login('Jira', 'alice', { tags: ['work'] }))
+      await storage.addPassword(login('Bank', 'carol'))
+
+      expect((await storage.searchPasswords('', { tags: ['work', 'dev'] })).map((entry) => entry.id)).toEqual([both.id])
+      expect((await storage.searchPasswords('', { tags: ['work', 'dev'], tagMode: 'or' })).map((entry) => entry.id)).toEqual([work.id, both.id])
+      expect(await storage.getAllTags()).toEqual(['dev', 'work'])
+    })
+
+    it('chỉ lấy entry yêu thích khi bật favoritesOnly', async () => {
+      const favorite = await storage.addPassword(login('GitHub', 'alice', { favorite: true, favoriteOrder: 1 }))
+      await storage.addPassword(login('GitLab', 'bob'))
+
+      expect((await storage.searchPasswords('', { favoritesOnly: true })).map((entry) => entry.id)).toEqual([favorite.id])
+    })
+
+    it('không phân biệt dấu tiếng Việt', async () => {
+      const bank = await storage.addPassword(login('Ngân hàng Việt', 'bob'))
+      await storage.addPassword(login('GitHub', 'alice'))
+
+      expect((await storage.searchPasswords('ngan hang')).map((entry) => entry.id)).toEqual([bank.id])
+      expect((await storage.searchPasswords('NGÂN')).map((entry) => entry.id)).toEqual([bank.id])
+    })
+
+    it('cắt trang theo đúng thứ tự xếp hạng', async () => {
+      for (let index = 0; index < 5; index++) {
+        await storage.addPassword(login(`Service ${index}`, `user${index}`))
+      }
+      const all = await storage.searchPasswords('service')
+
+      const first = await storage.searchPasswordsPage('service', {}, { limit: 2 })
+      const second = await storage.searchPasswordsPage('service', {}, { limit: 2, cursor: first.nextCursor })
+      const last = await storage.searchPasswordsPage('service', {}, { limit: 2, cursor: second.nextCursor })
+
+      expect([...first.entries, ...second.entries, ...last.entries]).toEqual(all)
+      expect(last.nextCursor).toBeNull()
+    })
+
+    it('trả trang rỗng khi entry của cursor không còn trong kết quả', async () => {
+      for (let index = 0; index < 3; index++) {
+        await storage.addPassword(login(`Service ${index}`, `user${index}`))
+      }
+      const first = await storage.searchPasswordsPage('service', {}, { limit: 1 })
+      await storage.deletePassword(first.entries[0].id)
+
+      const next = await storage.searchPasswordsPage('service', {}, { limit: 1, cursor: first.nextCursor })
+
+      expect(next).toEqual({ entries: [], nextCursor: null })
+    })
+
+    it('throw AbortError khi signal đã bị hủy', async () => {
+      const controller = new AbortController()
+      controller.abort()
+      await expect(storage.searchPasswordsPage('', {}, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' })
+    })
+
+    it('query rỗng trả về mọi entry', async () => {
+      await storage.addPassword(login('GitHub', 'alice'))
+      await storage.addPassword(login('GitLab', 'bob'))
+
+      expect(await storage.searchPasswords('  ')).toHaveLength(2)
+    })
+  })
+})
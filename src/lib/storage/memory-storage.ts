@@ -0,0 +1,265 @@
+import type { PasswordEntry, CreatePasswordEntry, NewAttachment, UpdatePasswordEntry } from '../types/password'
+import type { Folder, CreateFolder, FolderDeleteMode, UpdateFolder } from '../types/folder'
+import { planFolderDelete, validateFolderData } from '../folders/folder-tree'
+import { collectTags } from '../tags/tags'
+import { appendPasswordHistory } from '../history/password-history'
+import { isTrashed, sortByDeletedAtDesc } from '../trash/trash'
+import { SearchIndex } from '../search/search-index'
+import { getRankingText, parseSearchQuery } from '../search/query-parser'
+import { createQueryMatcher } from '../search/query-matcher'
+import { createAttachmentMeta, getAttachmentQuotaError, getAttachmentUsage } from '../attachments/attachments'
+import {
+  AttachmentNotFoundError,
+  FolderNotFoundError,
+  PasswordNotFoundError,
+  matchesSearchFilters,
+  paginateSearchResults,
+  sortByUpdatedAtDesc,
+  sortFoldersByName,
+  type PasswordSearchFilters,
+  type SearchPage,
+  type SearchPageOptions,
+  type VaultStorage,
+} from './vault-storage'
+
+/**
+ * VaultStorage lưu trong bộ nhớ - dùng cho tests và chế độ demo
+ * Không mã hóa và mất toàn bộ dữ liệu khi reload trang
+ */
+export class InMemoryVaultStorage implements VaultStorage {
+  readonly backend = 'memory' as const
+  private entries = new Map<string, PasswordEntry>()
+  private folders = new Map<string, Folder>()
+  private attachmentBlobs = new Map<string, ArrayBuffer>()
+  private searchIndex = new SearchIndex()
+  private lastTimestamp = 0
+
+  constructor(initialEntries: PasswordEntry[] = [], initialFolders: Folder[] = []) {
+    initialEntries.forEach((entry) => this.entries.set(entry.id, { ...entry }))
+    initialFolders.forEach((folder) => this.folders.set(folder.id, { ...folder }))
+  }
+
+  // Đảm bảo timestamp tăng dần để thứ tự sort ổn định khi thao tác liên tiếp
+  private now(): string {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1)
+    return new Date(this.lastTimestamp).toISOString()
+  }
+
+  async getAllPasswords(): Promise<PasswordEntry[]> {
+    return sortByUpdatedAtDesc(Array.from(this.entries.values()).filter((entry) => !isTrashed(entry)))
+  }
+
+  async searchPasswords(query: string, filters: PasswordSearchFilters = {}): Promise<PasswordEntry[]> {
+    const folders = Array.from(this.folders.values())
+    const parsed = parseSearchQuery(query)
+    // Entry không đổi updatedAt thì không phải index lại
+    this.searchIndex.sync(await this.getAllPasswords())
+    const matchesQuery = await createQueryMatcher(parsed, { folders, entries: this.searchIndex.entries() })
+    return this.searchIndex.search(getRankingText(parsed), (entry) => matchesSearchFilters(entry, filters, folders) && matchesQuery(entry))
+  }
+
+  async searchPasswordsPage(query: string, filters: PasswordSearchFilters = {}, options: SearchPageOptions = {}): Promise<SearchPage> {
+    return paginateSearchResults(await this.searchPasswords(query, filters), options)
+  }
+
+  async addPassword(entry: CreatePasswordEntry): Promise<PasswordEntry> {
+    const now = this.now()
+    const newEntry: PasswordEntry = {
+      id: crypto.randomUUID(),
+      ...entry,
+      passwordChangedAt: entry.passwordChangedAt ?? now,
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.entries.set(newEntry.id, newEntry)
+    return { ...newEntry }
+  }
+
+  async batchAddPasswords(entries: CreatePasswordEntry[]): Promise<PasswordEntry[]> {
+    const added: PasswordEntry[] = []
+    for (const entry of entries) {
+      added.push(await this.addPassword(entry))
+    }
+    return added
+  }
+
+  async putPasswords(entries: PasswordEntry[]): Promise<void> {
+    entries.forEach((entry) => this.entries.set(entry.id, { ...entry }))
+  }
+
+  async updatePassword(id: string, entry: UpdatePasswordEntry): Promise<PasswordEntry> {
+    const existing = this.entries.get(id)
+    if (!existing) {
+      throw new PasswordNotFoundError(id)
+    }
+    const now = this.now()
+    const passwordHistory = entry.password !== undefined ? appendPasswordHistory(existing, entry.password) : undefined
+    const updated: PasswordEntry = {
+      ...existing,
+      ...entry,
+      ...(passwordHistory && { passwordHistory, passwordChangedAt: now }),
+      updatedAt: now,
+    }
+    this.entries.set(id, updated)
+    return { ...updated }
+  }
+
+  async deletePassword(id: string): Promise<void> {
+    this.setDeletedAt(id, this.now())
+  }
+
+  async getTrashedPasswords(): Promise<PasswordEntry[]> {
+    return sortByDeletedAtDesc(Array.from(this.entries.values()).filter(isTrashed))
+  }
+
+  async restorePassword(id: string): Promise<PasswordEntry> {
+    return this.setDeletedAt(id, null)
+  }
+
+  async purgePassword(id: string): Promise<void> {
+    const existing = this.entries.get(id)
+    if (!existing) {
+      throw new PasswordNotFoundError(id)
+    }
+    this.removeEntry(existing)
+  }
+
+  async purgeTrash(before?: string): Promise<number> {
+    const expired = Array.from(this.entries.values())
+      .filter((entry) => entry.deletedAt && (!before || entry.deletedAt < before))
+    expired.forEach((entry) => this.removeEntry(entry))
+    return expired.length
+  }
+
+  private removeEntry(entry: PasswordEntry): void {
+    this.entries.delete(entry.id)
+    entry.attachments?.forEach((attachment) => this.attachmentBlobs.delete(attachment.id))
+  }
+
+  private requireEntry(id: string): PasswordEntry {
+    const existing = this.entries.get(id)
+    if (!existing) {
+      throw new PasswordNotFoundError(id)
+    }
+    return existing
+  }
+
+  async addAttachment(entryId: string, file: NewAttachment): Promise<PasswordEntry> {
+    const existing = this.requireEntry(entryId)
+    const quotaError = getAttachmentQuotaError(existing, file, getAttachmentUsage(Array.from(this.entries.values())))
+    if (quotaError) {
+      throw new Error(quotaError)
+    }
+    const now = this.now()
+    const attachment = createAttachmentMeta(file, now)
+    this.attachmentBlobs.set(attachment.id, file.data.slice(0))
+    const updated: PasswordEntry = { ...existing, attachments: [...(existing.attachments ?? []), attachment], updatedAt: now }
+    this.entries.set(entryId, updated)
+    return { ...updated }
+  }
+
+  async getAttachmentData(entryId: string, attachmentId: string): Promise<ArrayBuffer> {
+    const existing = this.requireEntry(entryId)
+    const data = this.attachmentBlobs.get(attachmentId)
+    if (!data || !existing.attachments?.some((attachment) => attachment.id === attachmentId)) {
+      throw new AttachmentNotFoundError(attachmentId)
+    }
+    return data.slice(0)
+  }
+
+  async deleteAttachment(entryId: string, attachmentId: string): Promise<PasswordEntry> {
+    const existing = this.requireEntry(entryId)
+    if (!existing.attachments?.some((attachment) => attachment.id === attachmentId)) {
+      throw new AttachmentNotFoundError(attachmentId)
+    }
+    this.attachmentBlobs.delete(attachmentId)
+    const updated: PasswordEntry = {
+      ...existing,
+      attachments: existing.attachments.filter((attachment) => attachment.id !== attachmentId),
+      updatedAt: this.now(),
+    }
+    this.entries.set(entryId, updated)
+    return { ...updated }
+  }
+
+  async putAttachmentData(entryId: string, attachmentId: string, data: ArrayBuffer): Promise<void> {
+    if (!this.requireEntry(entryId).attachments?.some((attachment) => attachment.id === attachmentId)) {
+      throw new AttachmentNotFoundError(attachmentId)
+    }
+    this.attachmentBlobs.set(attachmentId, data.slice(0))
+  }
+
+  private setDeletedAt(id: string, deletedAt: string | null): PasswordEntry {
+    const existing = this.entries.get(id)
+    if (!existing) {
+      throw new PasswordNotFoundError(id)
+    }
+    const updated: PasswordEntry = { ...existing, deletedAt, updatedAt: this.now() }
+    this.entries.set(id, updated)
+    return { ...updated }
+  }
+
+  async getAllFolders(): Promise<Folder[]> {
+    return sortFoldersByName(Array.from(this.folders.values()))
+  }
+
+  async addFolder(folder: CreateFolder): Promise<Folder> {
+    validateFolderData(folder, Array.from(this.folders.values()))
+    const now = this.now()
+    const newFolder: Folder = {
+      id: crypto.randomUUID(),
+      name: folder.name.trim(),
+      parentId: folder.parentId ?? null,
+      rotationIntervalDays: folder.rotationIntervalDays ?? null,
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.folders.set(newFolder.id, newFolder)
+    return { ...newFolder }
+  }
+
+  async updateFolder(id: string, folder: UpdateFolder): Promise<Folder> {
+    const existing = this.folders.get(id)
+    if (!existing) {
+      throw new FolderNotFoundError(id)
+    }
+    validateFolderData(folder, Array.from(this.folders.values()), id)
+    const updated: Folder = {
+      ...existing,
+      ...folder,
+      name: (folder.name ?? existing.name).trim(),
+      updatedAt: this.now(),
+    }
+    this.folders.set(id, updated)
+    return { ...updated }
+  }
+
+  async deleteFolder(id: string, mode: FolderDeleteMode): Promise<void> {
+    if (!this.folders.has(id)) {
+      throw new FolderNotFoundError(id)
+    }
+    const { deletedFolderIds, targetParentId } = planFolderDelete(Array.from(this.folders.values()), id, mode)
+    const now = this.now()
+
+    for (const entry of Array.from(this.entries.values())) {
+      if (!entry.folderId || !deletedFolderIds.has(entry.folderId)) continue
+      if (mode === 'delete-contents') {
+        this.entries.set(entry.id, { ...entry, deletedAt: entry.deletedAt ?? now, updatedAt: now })
+      } else {
+        this.entries.set(entry.id, { ...entry, folderId: targetParentId, updatedAt: now })
+      }
+    }
+
+    for (const folder of Array.from(this.folders.values())) {
+      if (deletedFolderIds.has(folder.id)) {
+        this.folders.delete(folder.id)
+      } else if (folder.parentId && deletedFolderIds.has(folder.parentId)) {
+        this.folders.set(folder.id, { ...folder, parentId: targetParentId, updatedAt: now })
+      }
+    }
+  }
+
+  async getAllTags(): Promise<string[]> {
+    return collectTags(Array.from(this.entries.values()).filter((entry) => !isTrashed(entry)))
+  }
+}
@@ -0,0 +1,97 @@
+import { SupabasePasswordService } from '../supabase-service-fixed'
+import { SupabaseFolderService } from '../supabase-folder-service'
+import { SupabaseAttachmentService } from '../supabase-attachment-service'
+import type { PasswordEntry, CreatePasswordEntry, NewAttachment, UpdatePasswordEntry } from '../types/password'
+import type { Folder, CreateFolder, FolderDeleteMode, UpdateFolder } from '../types/folder'
+import type { PasswordSearchFilters, SearchPage, SearchPageOptions, VaultStorage } from './vault-storage'
+
+/**
+ * VaultStorage dùng Supabase (SupabasePasswordService) - đồng bộ giữa các thiết bị
+ */
+export class SupabaseVaultStorage implements VaultStorage {
+  readonly backend = 'supabase' as const
+
+  getAllPasswords(): Promise<PasswordEntry[]> {
+    return SupabasePasswordService.getAllPasswords()
+  }
+
+  searchPasswords(query: string, filters: PasswordSearchFilters = {}): Promise<PasswordEntry[]> {
+    return SupabasePasswordService.searchPasswords(query, filters)
+  }
+
+  searchPasswordsPage(query: string, filters: PasswordSearchFilters = {}, options: SearchPageOptions = {}): Promise<SearchPage> {
+    return SupabasePasswordService.searchPasswordsPage(query, filters, options)
+  }
+
+  addPassword(entry: CreatePasswordEntry): Promise<PasswordEntry> {
+    return SupabasePasswordService.addPassword(entry)
+  }
+
+  batchAddPasswords(entries: CreatePasswordEntry[]): Promise<PasswordEntry[]> {
+    return SupabasePasswordService.batchAddPasswords(entries)
+  }
+
+  putPasswords(entries: PasswordEntry[]): Promise<void> {
+    return SupabasePasswordService.upsertPasswords(entries)
+  }
+
+  updatePassword(id: string, entry: UpdatePasswordEntry): Promise<PasswordEntry> {
+    return SupabasePasswordService.updatePassword(id, entry)
+  }
+
+  deletePassword(id: string): Promise<void> {
+    return SupabasePasswordService.deletePassword(id)
+  }
+
+  getTrashedPasswords(): Promise<PasswordEntry[]> {
+    return SupabasePasswordService.getTrashedPasswords()
+  }
+
+  restorePassword(id: string): Promise<PasswordEntry> {
+    return SupabasePasswordService.restorePassword(id)
+  }
+
+  purgePassword(id: string): Promise<void> {
+    return SupabasePasswordService.purgePassword(id)
+  }
+
+  purgeTrash(before?: string): Promise<number> {
+    return SupabasePasswordService.purgeTrash(before)
+  }
+
+  addAttachment(entryId: string, file: NewAttachment): Promise<PasswordEntry> {
+    return SupabaseAttachmentService.addAttachment(entryId, file)
+  }
+
+  getAttachmentData(entryId: string, attachmentId: string): Promise<ArrayBuffer> {
+    return SupabaseAttachmentService.getAttachmentData(entryId, attachmentId)
+  }
+
+  deleteAttachment(entryId: string, attachmentId: string): Promise<PasswordEntry> {
+    return SupabaseAttachmentService.deleteAttachment(entryId, attachmentId)
+  }
+
+  putAttachmentData(entryId: string, attachmentId: string, data: ArrayBuffer): Promise<void> {
+    return SupabaseAttachmentService.putAttachmentData(entryId, attachmentId, data)
+  }
+
+  getAllFolders(): Promise<Folder[]> {
+    return SupabaseFolderService.getAllFolders()
+  }
+
+  addFolder(folder: CreateFolder): Promise<Folder> {
+    return SupabaseFolderService.addFolder(folder)
+  }
+
+  updateFolder(id: string, folder: UpdateFolder): Promise<Folder> {
+    return SupabaseFolderService.updateFolder(id, folder)
+  }
+
+  deleteFolder(id: string, mode: FolderDeleteMode): Promise<void> {
+    return SupabaseFolderService.deleteFolder(id, mode)
+  }
+
+  getAllTags(): Promise<string[]> {
+    return SupabasePasswordService.getAllTags()
+  }
+}
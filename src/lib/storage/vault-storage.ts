@@ -0,0 +1,177 @@
+import type { PasswordEntry, CreatePasswordEntry, ItemType, NewAttachment, UpdatePasswordEntry } from '../types/password'
+import type { Folder, CreateFolder, FolderDeleteMode, UpdateFolder } from '../types/folder'
+import { matchesFolderFilter, type FolderFilter } from '../folders/folder-tree'
+import { matchesTagFilter, type TagMatchMode } from '../tags/tags'
+import { matchesItemTypeFilter } from '../items/item-types'
+import { isFavorite } from '../favorites/favorites'
+
+/**
+ * Các storage backend được hỗ trợ
+ */
+export type StorageBackend = 'indexeddb' | 'supabase' | 'memory'
+
+/**
+ * Bộ lọc bổ sung khi tìm kiếm (ngoài từ khóa)
+ */
+export interface PasswordSearchFilters {
+  folderId?: FolderFilter
+  // Tag đã chuẩn hóa, kết hợp theo tagMode (mặc định and)
+  tags?: string[]
+  tagMode?: TagMatchMode
+  itemType?: ItemType
+  favoritesOnly?: boolean
+}
+
+/**
+ * Vị trí tiếp tục của trang kết quả tìm kiếm: entry cuối của trang trước
+ * - Supabase: keyset theo (updated_at, id), mới cập nhật trước
+ * - Backend cục bộ: tìm lại entry này trong danh sách đã xếp hạng (paginateSearchResults)
+ */
+export interface SearchCursor {
+  updatedAt: string
+  id: string
+}
+
+export interface SearchPageOptions {
+  // null/undefined: trang đầu tiên
+  cursor?: SearchCursor | null
+  limit?: number
+  // Hủy request khi có lượt tìm kiếm mới
+  signal?: AbortSignal
+}
+
+export interface SearchPage {
+  entries: PasswordEntry[]
+  // null khi đã hết kết quả
+  nextCursor: SearchCursor | null
+}
+
+export const SEARCH_PAGE_SIZE = 50
+
+/**
+ * Có bộ lọc nào đang bật hay không (ngoài từ khóa)
+ */
+export const hasSearchFilters = (filters: PasswordSearchFilters = {}): boolean =>
+  filters.folderId !== undefined || (filters.tags?.length ?? 0) > 0 || filters.itemType !== undefined || filters.favoritesOnly === true
+
+/**
+ * Vault Storage - interface chung cho mọi storage backend
+ *
+ * Quy ước thống nhất giữa các backend:
+ * - Danh sách luôn được sort theo updatedAt giảm dần
+ * - updatePassword nhận partial data và throw nếu không tìm thấy entry
+ * - deletePassword chuyển entry vào thùng rác, throw nếu thao tác thất bại
+ * - Danh sách, tìm kiếm và tag không gồm entry trong thùng rác
+ * - searchPasswords với query rỗng trả về mọi entry khớp bộ lọc
+ * - searchPasswords hiểu cú pháp query có cấu trúc (search/query-parser), phần không hợp lệ bị bỏ qua
+ * - searchPasswordsPage trả kết quả theo trang, throw AbortError khi signal bị hủy
+ * - Folder sắp xếp theo tên, entry trỏ tới folder không tồn tại coi như chưa phân loại
+ * - Secrets trả về luôn là plaintext (backend tự mã hóa nếu cần)
+ * - File đính kèm chỉ bị xóa khi xóa vĩnh viễn entry (purgePassword, purgeTrash)
+ */
+export interface VaultStorage {
+  readonly backend: StorageBackend
+  getAllPasswords(): Promise<PasswordEntry[]>
+  searchPasswords(query: string, filters?: PasswordSearchFilters): Promise<PasswordEntry[]>
+  searchPasswordsPage(query: string, filters?: PasswordSearchFilters, options?: SearchPageOptions): Promise<SearchPage>
+  addPassword(entry: CreatePasswordEntry): Promise<PasswordEntry>
+  batchAddPasswords(entries: CreatePasswordEntry[]): Promise<PasswordEntry[]>
+  // Thêm hoặc ghi đè entry theo id, giữ nguyên createdAt/updatedAt (khôi phục backup)
+  putPasswords(entries: PasswordEntry[]): Promise<void>
+  updatePassword(id: string, entry: UpdatePasswordEntry): Promise<PasswordEntry>
+  deletePassword(id: string): Promise<void>
+  // Entry trong thùng rác, mới xóa trước
+  getTrashedPasswords(): Promise<PasswordEntry[]>
+  restorePassword(id: string): Promise<PasswordEntry>
+  // Xóa vĩnh viễn một entry
+  purgePassword(id: string): Promise<void>
+  // Xóa vĩnh viễn entry vào thùng rác trước mốc before (mọi entry nếu không truyền), trả về số entry đã xóa
+  purgeTrash(before?: string): Promise<number>
+  // File đính kèm - kiểm tra quota, trả về entry với metadata mới
+  addAttachment(entryId: string, file: NewAttachment): Promise<PasswordEntry>
+  getAttachmentData(entryId: string, attachmentId: string): Promise<ArrayBuffer>
+  deleteAttachment(entryId: string, attachmentId: string): Promise<PasswordEntry>
+  // Ghi nội dung file theo metadata đã có trong entry (khôi phục backup)
+  putAttachmentData(entryId: string, attachmentId: string, data: ArrayBuffer): Promise<void>
+  getAllFolders(): Promise<Folder[]>
+  addFolder(folder: CreateFolder): Promise<Folder>
+  updateFolder(id: string, folder: UpdateFolder): Promise<Folder>
+  // Xóa folder, entry và folder con được chuyển lên folder cha hoặc xóa theo mode
+  deleteFolder(id: string, mode: FolderDeleteMode): Promise<void>
+  // Tất cả tag đang được dùng trong vault, sắp xếp theo tên (gợi ý khi nhập)
+  getAllTags(): Promise<string[]>
+}
+
+/**
+ * Error khi không tìm thấy entry cần thao tác
+ */
+export class PasswordNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Không tìm thấy mật khẩu với ID: ${id}`)
+    this.name = 'PasswordNotFoundError'
+  }
+}
+
+/**
+ * Error khi không tìm thấy folder cần thao tác
+ */
+export class FolderNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Không tìm thấy thư mục với ID: ${id}`)
+    this.name = 'FolderNotFoundError'
+  }
+}
+
+/**
+ * Error khi không tìm thấy file đính kèm (hoặc nội dung file chưa được tải về)
+ */
+export class AttachmentNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Không tìm thấy file đính kèm với ID: ${id}`)
+    this.name = 'AttachmentNotFoundError'
+  }
+}
+
+/**
+ * Sort folder theo tên - dùng chung cho các backend
+ */
+export const sortFoldersByName = (folders: Folder[]): Folder[] =>
+  [...folders].sort((a, b) => a.name.localeCompare(b.name, 'vi', { sensitivity: 'base' }))
+
+/**
+ * Sort theo updatedAt giảm dần - dùng chung cho các backend không tự sort
+ */
+export const sortByUpdatedAtDesc = (entries: PasswordEntry[]): PasswordEntry[] =>
+  [...entries].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+
+/**
+ * Cắt một trang từ danh sách kết quả đã có đủ trong bộ nhớ - dùng cho backend cục bộ
+ * Cursor là entry cuối của trang trước nên giữ được thứ tự xếp hạng của kết quả.
+ * Entry đó không còn trong kết quả (đã sửa hoặc xóa giữa hai trang) thì trả trang rỗng
+ * thay vì đọc lại từ đầu và lặp kết quả đã hiển thị.
+ */
+export function paginateSearchResults(results: PasswordEntry[], options: SearchPageOptions = {}): SearchPage {
+  options.signal?.throwIfAborted()
+  const limit = options.limit ?? SEARCH_PAGE_SIZE
+  const cursorIndex = options.cursor ? results.findIndex((entry) => entry.id === options.cursor?.id) : -1
+  if (options.cursor && cursorIndex === -1) {
+    return { entries: [], nextCursor: null }
+  }
+  const start = cursorIndex + 1
+  const entries = results.slice(start, start + limit)
+  const last = entries[entries.length - 1]
+  return {
+    entries,
+    nextCursor: last && start + limit < results.length ? { updatedAt: last.updatedAt, id: last.id } : null,
+  }
+}
+
+/**
+ * Entry có khớp bộ lọc tìm kiếm không (không xét từ khóa) - dùng chung cho các backend
+ * @param folders - Danh sách folder, chỉ cần khi lọc theo folder
+ */
+export const matchesSearchFilters = (entry: PasswordEntry, filters: PasswordSearchFilters, folders: Folder[]): boolean =>
+  matchesFolderFilter(entry, filters.folderId, folders) &&
+  matchesTagFilter(entry, filters.tags, filters.tagMode) &&
+  matchesItemTypeFilter(entry, filters.itemType) &&
+  (!filters.favoritesOnly || isFavorite(entry))
@@ -0,0 +1,215 @@
+import { supabase } from './supabase'
+import { logger } from './utils/logger'
+import { AuthService } from './auth-service'
+import { vaultKeyManager } from './crypto/vault-key-manager'
+import { decryptEntrySecrets, encryptEntrySecrets } from './crypto/entry-cipher'
+import { createAttachmentMeta, getAttachmentQuotaError, getAttachmentUsage } from './attachments/attachments'
+import { AttachmentNotFoundError, PasswordNotFoundError } from './storage/vault-storage'
+import type { AttachmentMeta, NewAttachment, PasswordEntry } from './types/password'
+import { PasswordEntryMapper, type SupabasePasswordEntry } from './types/database'
+
+const ATTACHMENTS_BUCKET = 'attachments'
+
+/**
+ * Vị trí nội dung một file đính kèm trong bucket
+ */
+export interface AttachmentBlobRef {
+  entryId: string
+  attachmentId: string
+}
+
+/**
+ * Supabase Attachment Service
+ * Nội dung file đính kèm (đã mã hóa phía client) lưu ở Supabase Storage bucket `attachments`
+ * theo đường dẫn `<user_id>/<entry_id>/<attachment_id>`, policy của bucket chỉ cho user
+ * truy cập thư mục của chính mình. Metadata nằm ở cột `attachments` của bảng passwords.
+ */
+export class SupabaseAttachmentService {
+
+  /**
+   * Base error handler cho các attachment operations
+   * @private
+   */
+  private static handleError(operation: string, error: unknown): never {
+    const errorMessage = error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error'
+    logger.error(`${operation} failed:`, error)
+    throw new Error(errorMessage)
+  }
+
+  private static async getPath(entryId: string, attachmentId: string): Promise<string> {
+    return `${await AuthService.requireUserId()}/${entryId}/${attachmentId}`
+  }
+
+  /**
+   * Đọc row của entry (đã mã hóa), throw nếu không tồn tại
+   * @private
+   */
+  private static async fetchRow(entryId: string): Promise<SupabasePasswordEntry> {
+    const { data, error } = await supabase
+      .from('passwords')
+      .select('*')
+      .eq('id', entryId)
+      .maybeSingle()
+
+    if (error) {
+      this.handleError('FETCH_ATTACHMENTS', error)
+    }
+    if (!data) {
+      throw new PasswordNotFoundError(entryId)
+    }
+
+    return data as SupabasePasswordEntry
+  }
+
+  /**
+   * Ghi lại metadata file đính kèm của entry
+   * @private
+   */
+  private static async updateAttachments(entryId: string, attachments: AttachmentMeta[]): Promise<PasswordEntry> {
+    const { data, error } = await supabase
+      .from('passwords')
+      .update({ attachments, updated_at: new Date().toISOString() })
+      .eq('id', entryId)
+      .select()
+      .single()
+
+    if (error) {
+      this.handleError('UPDATE_ATTACHMENTS', error)
+    }
+
+    return decryptEntrySecrets(PasswordEntryMapper.toLocal(data as SupabasePasswordEntry))
+  }
+
+  /**
+   * Đính kèm file vào entry: kiểm tra quota, upload bản mã hóa rồi ghi metadata
+   */
+  static async addAttachment(entryId: string, file: NewAttachment): Promise<PasswordEntry> {
+    const row = await this.fetchRow(entryId)
+
+    // Dung lượng tính trên cả entry trong thùng rác vì file của chúng vẫn còn trong bucket
+    const { data: usageRows, error } = await supabase
+      .from('passwords')
+      .select('attachments')
+
+    if (error) {
+      this.handleError('FETCH_ATTACHMENTS', error)
+    }
+
+    const existing = PasswordEntryMapper.toLocal(row)
+    const quotaError = getAttachmentQuotaError(existing, file, getAttachmentUsage(usageRows || []))
+    if (quotaError) {
+      throw new Error(quotaError)
+    }
+
+    const attachment = createAttachmentMeta(file)
+    await this.uploadBlob(entryId, attachment.id, await vaultKeyManager.encryptBytes(file.data))
+
+    const { attachments: [encryptedMeta] = [] } = await encryptEntrySecrets({ attachments: [attachment] })
+    return this.updateAttachments(entryId, [...(existing.attachments ?? []), encryptedMeta])
+  }
+
+  /**
+   * Tải và giải mã nội dung file
+   */
+  static async getAttachmentData(entryId: string, attachmentId: string): Promise<ArrayBuffer> {
+    const row = await this.fetchRow(entryId)
+    if (!row.attachments?.some((attachment) => attachment.id === attachmentId)) {
+      throw new AttachmentNotFoundError(attachmentId)
+    }
+
+    const data = await this.downloadBlob(entryId, attachmentId)
+    if (!data) {
+      throw new AttachmentNotFoundError(attachmentId)
+    }
+    return vaultKeyManager.decryptBytes(data)
+  }
+
+  /**
+   * Gỡ file khỏi entry và xóa nội dung trong bucket
+   */
+  static async deleteAttachment(entryId: string, attachmentId: string): Promise<PasswordEntry> {
+    const row = await this.fetchRow(entryId)
+    const attachments = row.attachments ?? []
+    if (!attachments.some((attachment) => attachment.id === attachmentId)) {
+      throw new AttachmentNotFoundError(attachmentId)
+    }
+
+    const updated = await this.updateAttachments(entryId, attachments.filter((attachment) => attachment.id !== attachmentId))
+    await this.removeBlobs([{ entryId, attachmentId }])
+    return updated
+  }
+
+  /**
+   * Upload nội dung file cho metadata đã có trong entry (khôi phục backup)
+   */
+  static async putAttachmentData(entryId: string, attachmentId: string, data: ArrayBuffer): Promise<void> {
+    const row = await this.fetchRow(entryId)
+    if (!row.attachments?.some((attachment) => attachment.id === attachmentId)) {
+      throw new AttachmentNotFoundError(attachmentId)
+    }
+
+    await this.uploadBlob(entryId, attachmentId, await vaultKeyManager.encryptBytes(data))
+  }
+
+  // ===== Thao tác trực tiếp trên bucket (dùng chung với sync engine) =====
+
+  /**
+   * Upload bản đã mã hóa, ghi đè nếu đã tồn tại
+   */
+  static async uploadBlob(entryId: string, attachmentId: string, data: Uint8Array): Promise<void> {
+    const { error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(await this.getPath(entryId, attachmentId), data, {
+        contentType: 'application/octet-stream',
+        upsert: true,
+      })
+
+    if (error) {
+      this.handleError('UPLOAD_ATTACHMENT', error)
+    }
+  }
+
+  /**
+   * Tải bản đã mã hóa, null nếu file không có trong bucket
+   */
+  static async downloadBlob(entryId: string, attachmentId: string): Promise<Uint8Array | null> {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .download(await this.getPath(entryId, attachmentId))
+
+    if (error) {
+      const status = (error as { statusCode?: string | number }).statusCode
+      if (String(status) === '404' || /not found/i.test(error.message)) {
+        return null
+      }
+      this.handleError('DOWNLOAD_ATTACHMENT', error)
+    }
+
+    return new Uint8Array(await data.arrayBuffer())
+  }
+
+  /**
+   * Xóa nội dung các file khỏi bucket (file không tồn tại được bỏ qua)
+   */
+  static async removeBlobs(refs: AttachmentBlobRef[]): Promise<void> {
+    if (!refs.length) {
+      return
+    }
+
+    const paths = await Promise.all(refs.map((ref) => this.getPath(ref.entryId, ref.attachmentId)))
+    const { error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .remove(paths)
+
+    if (error) {
+      this.handleError('DELETE_ATTACHMENT', error)
+    }
+  }
+
+  /**
+   * Vị trí nội dung mọi file đính kèm của các row bị xóa vĩnh viễn
+   */
+  static getBlobRefs(rows: Pick<SupabasePasswordEntry, 'id' | 'attachments'>[]): AttachmentBlobRef[] {
+    return rows.flatMap((row) => (row.attachments ?? []).map((attachment) => ({ entryId: row.id, attachmentId: attachment.id })))
+  }
+}
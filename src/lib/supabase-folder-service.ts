@@ -0,0 +1,177 @@
+import { SUPABASE_PAGE_SIZE, supabase } from './supabase'
+import { logger } from './utils/logger'
+import { AuthService } from './auth-service'
+import { planFolderDelete, validateFolderData } from './folders/folder-tree'
+import type { Folder, CreateFolder, FolderDeleteMode, UpdateFolder } from './types/folder'
+import { FolderMapper, type SupabaseFolder, type SupabaseFolderInsert } from './types/database'
+
+/**
+ * Supabase Folder Service
+ * Quản lý bảng `folders` (thư mục lồng nhau qua parent_id) theo cùng quy ước
+ * với SupabasePasswordService: RLS theo user_id, error được log và throw lại.
+ *
+ * Tên folder lưu plaintext giống service/username để có thể sắp xếp phía server.
+ */
+export class SupabaseFolderService {
+
+  /**
+   * Base error handler cho các folder operations
+   * @private
+   */
+  private static handleError(operation: string, error: unknown): never {
+    const errorMessage = error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error'
+    logger.error(`${operation} failed:`, error)
+    throw new Error(errorMessage)
+  }
+
+  /**
+   * Lấy tất cả folders sắp xếp theo tên
+   */
+  static async getAllFolders(): Promise<Folder[]> {
+    const rows = await this.fetchAllRows()
+    return rows
+      .map(FolderMapper.toLocal)
+      .sort((a, b) => a.name.localeCompare(b.name, 'vi', { sensitivity: 'base' }))
+  }
+
+  /**
+   * Tạo folder mới
+   */
+  static async addFolder(folder: CreateFolder): Promise<Folder> {
+    validateFolderData(folder, await this.getAllFolders())
+    const userId = await AuthService.requireUserId()
+
+    const { data, error } = await supabase
+      .from('folders')
+      .insert([{ name: folder.name.trim(), parent_id: folder.parentId ?? null, rotation_interval_days: folder.rotationIntervalDays ?? null, user_id: userId }])
+      .select()
+      .single()
+
+    if (error) {
+      this.handleError('ADD_FOLDER', error)
+    }
+
+    logger.info(`Created folder ${data.id}`)
+    return FolderMapper.toLocal(data as SupabaseFolder)
+  }
+
+  /**
+   * Đổi tên, di chuyển hoặc đổi chu kỳ nhắc đổi mật khẩu của folder
+   */
+  static async updateFolder(id: string, folder: UpdateFolder): Promise<Folder> {
+    validateFolderData(folder, await this.getAllFolders(), id)
+
+    const { data, error } = await supabase
+      .from('folders')
+      .update({ ...FolderMapper.toSupabaseFields({ ...folder, name: folder.name?.trim() }), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      this.handleError('UPDATE_FOLDER', error)
+    }
+
+    return FolderMapper.toLocal(data as SupabaseFolder)
+  }
+
+  /**
+   * Xóa folder
+   * - move-contents: entry và folder con chuyển lên folder cha
+   * - delete-contents: xóa folder con, mọi entry bên trong chuyển vào thùng rác
+   */
+  static async deleteFolder(id: string, mode: FolderDeleteMode): Promise<void> {
+    const folders = await this.getAllFolders()
+    const { deletedFolderIds, targetParentId } = planFolderDelete(folders, id, mode)
+    const ids = Array.from(deletedFolderIds)
+    const now = new Date().toISOString()
+    logger.info(`Deleting folder ${id} (${mode})`)
+
+    const passwordsResult = mode === 'delete-contents'
+      ? await supabase.from('passwords').update({ deleted_at: now, updated_at: now }).in('folder_id', ids).is('deleted_at', null)
+      : await supabase.from('passwords').update({ folder_id: targetParentId, updated_at: now }).in('folder_id', ids)
+    if (passwordsResult.error) {
+      this.handleError('DELETE_FOLDER', passwordsResult.error)
+    }
+
+    if (mode === 'move-contents') {
+      const { error } = await supabase.from('folders').update({ parent_id: targetParentId, updated_at: now }).eq('parent_id', id)
+      if (error) {
+        this.handleError('DELETE_FOLDER', error)
+      }
+    }
+
+    const { error } = await supabase.from('folders').delete().in('id', ids)
+    if (error) {
+      this.handleError('DELETE_FOLDER', error)
+    }
+  }
+
+  // ===== Raw row operations cho sync engine =====
+
+  /**
+   * Lấy tất cả rows của bảng folders
+   * Đọc từng trang bằng range() tới trang ngắn để không bị cắt ở max-rows của PostgREST
+   */
+  static async fetchAllRows(): Promise<SupabaseFolder[]> {
+    const rows: SupabaseFolder[] = []
+    for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('folders')
+        .select('*')
+        .order('id', { ascending: true })
+        .range(from, from + SUPABASE_PAGE_SIZE - 1)
+
+      if (error) {
+        this.handleError('FETCH_FOLDERS', error)
+      }
+
+      const page = (data || []) as SupabaseFolder[]
+      rows.push(...page)
+      if (page.length < SUPABASE_PAGE_SIZE) {
+        return rows
+      }
+    }
+  }
+
+  /**
+   * Upsert rows giữ nguyên id và timestamps từ client
+   */
+  static async upsertRows(rows: SupabaseFolderInsert[]): Promise<SupabaseFolder[]> {
+    if (!rows.length) {
+      return []
+    }
+
+    const userId = await AuthService.requireUserId()
+
+    // updated_at do server gán (trigger set_updated_at), giống SupabasePasswordService.upsertRows
+    const { data, error } = await supabase
+      .from('folders')
+      .upsert(rows.map(({ updated_at, ...row }) => ({ ...row, user_id: userId })), { onConflict: 'id' })
+      .select()
+
+    if (error) {
+      this.handleError('UPSERT_FOLDERS', error)
+    }
+
+    return (data || []) as SupabaseFolder[]
+  }
+
+  /**
+   * Xóa folder theo ID, không động tới entry (sync engine đẩy thay đổi entry riêng)
+   */
+  static async deleteRows(ids: string[]): Promise<void> {
+    if (!ids.length) {
+      return
+    }
+
+    const { error } = await supabase
+      .from('folders')
+      .delete()
+      .in('id', ids)
+
+    if (error) {
+      this.handleError('DELETE_FOLDER', error)
+    }
+  }
+}
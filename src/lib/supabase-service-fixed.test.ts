@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SupabasePasswordEntry } from './types/database'
+
+/**
+ * Bảng passwords giả lập cho query builder của Supabase: chỉ hỗ trợ các phép
+ * searchPasswordsPage và các hàm đọc cho sync dùng (is, gt, ilike, keyset or, order, limit, range)
+ * và ghi lại request
+ */
+const fake = vi.hoisted(() => {
+  const state = {
+    rows: [] as SupabasePasswordEntry[],
+    requests: [] as { limit?: number; or?: string; ilike: string[]; range?: [number, number] }[],
+  }
+
+  // ILIKE đã escape: \% \_ \\ là ký tự thường
+  const likeToRegExp = (pattern: string) => new RegExp(`^${pattern
+    .replace(/\\(.)|([%_])|([^\\%_]+)/g, (_, escaped, wildcard, text) =>
+      escaped ? escaped.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') :
+      wildcard ? (wildcard === '%' ? '.*' : '.') :
+      text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))}$`, 'i')
+
+  const createQuery = () => {
+    const request: { limit?: number; or?: string; ilike: string[]; range?: [number, number] } = { ilike: [] }
+    let ascending = false
+    state.requests.push(request)
+    const filters: ((row: SupabasePasswordEntry) => boolean)[] = []
+
+    const query = {
+      select: () => query,
+      is: (column: keyof SupabasePasswordEntry, value: null) => {
+        filters.push((row) => row[column] === value)
+        return query
+      },
+      gt: (column: keyof SupabasePasswordEntry, value: string) => {
+        filters.push((row) => String(row[column]) > value)
+        return query
+      },
+      ilike: (column: keyof SupabasePasswordEntry, pattern: string) => {
+        request.ilike.push(pattern)
+        filters.push((row) => likeToRegExp(pattern).test(String(row[column])))
+        return query
+      },
+      or: (expression: string) => {
+        request.or = expression
+        const [, updatedAt, id] = /^updated_at\.lt\."([^"]+)",and\(updated_at\.eq\."[^"]+",id\.lt\.([^)]+)\)$/.exec(expression) ?? []
+        filters.push((row) => row.updated_at < updatedAt || (row.updated_at === updatedAt && row.id < id))
+        return query
+      },
+      order: (column: string, options: { ascending: boolean }) => {
+        if (column === 'updated_at') ascending = options.ascending
+        return query
+      },
+      limit: (count: number) => {
+        request.limit = count
+        return query
+      },
+      range: (from: number, to: number) => {
+        request.range = [from, to]
+        return query
+      },
+      then: (resolve: (result: { data: SupabasePasswordEntry[]; error: null }) => void) => {
+        const data = state.rows
+          .filter((row) => filters.every((filter) => filter(row)))
+          .sort((a, b) => (b.updated_at.localeCompare(a.updated_at) || b.id.localeCompare(a.id)) * (ascending ? -1 : 1))
+          .slice(request.range?.[0] ?? 0, request.range ? request.range[1] + 1 : request.limit)
+        resolve({ data, error: null })
+      },
+    }
+    return query
+  }
+
+  return { state, createQuery }
+})
+
+vi.mock('./supabase', () => ({
+  supabase: { from: () => fake.createQuery() },
+  // Trang nhỏ để kiểm tra đọc nhiều trang
+  SUPABASE_PAGE_SIZE: 2,
+}))
+
+import { SupabasePasswordService } from './supabase-service-fixed'
+import { PasswordEntryMapper } from './types/database'
+import { normalizeForSearch } from './search/fuzzy'
+
+// Cùng updated_at để keyset phải dùng tới id
+const UPDATED_AT = '2024-01-01T00:00:00.000Z'
+
+const addRow = (index: number, service: string, updatedAt = UPDATED_AT) => {
+  const id = `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`
+  fake.state.rows.push({
+    ...PasswordEntryMapper.toSupabase({ id, service, username: 'alice', password: 'pw', createdAt: updatedAt, updatedAt }),
+    user_id: 'user-a',
+    search_text: normalizeForSearch(`${service} alice`),
+    updated_at: updatedAt,
+  } as SupabasePasswordEntry)
+}
+
+describe('SupabasePasswordService.searchPasswordsPage', () => {
+  beforeEach(() => {
+    fake.state.rows = []
+    fake.state.requests = []
+  })
+
+  it('đọc limit + 1 row sau cursor theo keyset (updated_at, id) và không lặp kết quả', async () => {
+    for (let index = 1; index <= 5; index++) {
+      addRow(index, `Service ${index}`)
+    }
+
+    const first = await SupabasePasswordService.searchPasswordsPage('service', {}, { limit: 2 })
+    const second = await SupabasePasswordService.searchPasswordsPage('service', {}, { limit: 2, cursor: first.nextCursor })
+    const last = await SupabasePasswordService.searchPasswordsPage('service', {}, { limit: 2, cursor: second.nextCursor })
+
+    expect([...first.entries, ...second.entries, ...last.entries].map((entry) => entry.service))
+      .toEqual(['Service 5', 'Service 4', 'Service 3', 'Service 2', 'Service 1'])
+    expect(last.nextCursor).toBeNull()
+    expect(fake.state.requests.map((request) => request.limit)).toEqual([3, 3, 3])
+    expect(fake.state.requests[1].or).toBe(`updated_at.lt."${UPDATED_AT}",and(updated_at.eq."${UPDATED_AT}",id.lt.${first.nextCursor?.id})`)
+  })
+
+  it('trả nextCursor null ngay khi trang cuối vừa đủ limit', async () => {
+    addRow(1, 'Service 1')
+    addRow(2, 'Service 2')
+
+    const page = await SupabasePasswordService.searchPasswordsPage('service', {}, { limit: 2 })
+
+    expect(page.entries).toHaveLength(2)
+    expect(page.nextCursor).toBeNull()
+    expect(fake.state.requests).toHaveLength(1)
+  })
+
+  it('đọc tiếp khi row bị loại phía client, cursor dừng ở row cuối đã xét', async () => {
+    addRow(1, 'GitHub', '2024-01-01T00:00:01.000Z')
+    addRow(2, 'GitHub', '2024-01-01T00:00:02.000Z')
+    addRow(3, 'GitHub', '2024-01-01T00:00:03.000Z')
+    addRow(4, 'GitLab', '2024-01-01T00:00:04.000Z')
+
+    // Cụm chính xác chỉ được đánh giá sau khi giải mã nên GitLab bị loại phía client
+    const first = await SupabasePasswordService.searchPasswordsPage('"github"', {}, { limit: 1 })
+    const second = await SupabasePasswordService.searchPasswordsPage('"github"', {}, { limit: 1, cursor: first.nextCursor })
+
+    expect(first.entries.map((entry) => entry.updatedAt)).toEqual(['2024-01-01T00:00:03.000Z'])
+    expect(first.nextCursor?.updatedAt).toBe('2024-01-01T00:00:03.000Z')
+    expect(second.entries.map((entry) => entry.updatedAt)).toEqual(['2024-01-01T00:00:02.000Z'])
+  })
+
+  it('escape %, _ và \\ trong từ khóa để so khớp nguyên văn', async () => {
+    addRow(1, '100% free')
+    addRow(2, '100 free')
+    addRow(3, 'a_b')
+    addRow(4, 'axb')
+
+    expect((await SupabasePasswordService.searchPasswordsPage('100%')).entries.map((entry) => entry.service)).toEqual(['100% free'])
+    expect((await SupabasePasswordService.searchPasswordsPage('a_b')).entries.map((entry) => entry.service)).toEqual(['a_b'])
+    expect(fake.state.requests.flatMap((request) => request.ilike)).toEqual(['%100\\%%', '%a\\_b%'])
+  })
+})
+
+describe('SupabasePasswordService - đọc cho sync', () => {
+  beforeEach(() => {
+    fake.state.rows = []
+    fake.state.requests = []
+    for (let index = 1; index <= 5; index++) {
+      addRow(index, `Service ${index}`, `2024-01-01T00:00:0${index}.000Z`)
+    }
+  })
+
+  it('fetchRowsUpdatedSince đọc từng trang bằng range tới trang ngắn', async () => {
+    const rows = await SupabasePasswordService.fetchRowsUpdatedSince('2024-01-01T00:00:01.000Z')
+
+    expect(rows.map((row) => row.service)).toEqual(['Service 2', 'Service 3', 'Service 4', 'Service 5'])
+    expect(fake.state.requests.map((request) => request.range)).toEqual([[0, 1], [2, 3], [4, 5]])
+  })
+
+  it('fetchAllIds không bị cắt ở trang đầu', async () => {
+    expect(await SupabasePasswordService.fetchAllIds()).toHaveLength(5)
+    expect(fake.state.requests).toHaveLength(3)
+  })
+})
@@ -1,33 +1,61 @@
-import { supabase } from './supabase'
+import { SUPABASE_PAGE_SIZE, supabase } from './supabase'
 import { ERROR_MESSAGES, SUCCESS_MESSAGES } from './constants/app-constants'
 import { logger } from './utils/logger'
+import { decryptEntrySecrets, encryptEntrySecrets } from './crypto/entry-cipher'
+import { AuthService } from './auth-service'
+import { validateEntryData } from './password-validation'
+import { SupabaseFolderService } from './supabase-folder-service'
+import { SupabaseAttachmentService } from './supabase-attachment-service'
+import { getDescendantFolderIds } from './folders/folder-tree'
+import { collectTags } from './tags/tags'
+import { appendPasswordHistory } from './history/password-history'
+import { sortByDeletedAtDesc } from './trash/trash'
+import { SearchIndex } from './search/search-index'
+import { getRankingText, hasQueryClause, parseSearchQuery, type ParsedSearchQuery } from './search/query-parser'
+import { normalizeForSearch, tokenizeQuery } from './search/fuzzy'
+import { createQueryMatcher } from './search/query-matcher'
+import { vaultKeyManager } from './crypto/vault-key-manager'
+import { SEARCH_PAGE_SIZE, hasSearchFilters, type PasswordSearchFilters, type SearchPage, type SearchPageOptions } from './storage/vault-storage'
+import type { PasswordEntry, CreatePasswordEntry, PasswordHistoryItem, UpdatePasswordEntry } from './types/password'
+import type { Folder } from './types/folder'
+import { PasswordEntryMapper, type SupabasePasswordEntry, type SupabasePasswordInsert } from './types/database'
+
+// Re-export để giữ tương thích với các import hiện tại
+export type { PasswordEntry, CreatePasswordEntry, UpdatePasswordEntry }
 
-// Type definitions tương thích với PasswordEntry hiện tại
-export interface PasswordEntry {
-  id: string
-  service: string
-  username: string
-  password: string
-  createdAt: string
-  updatedAt: string
-}
+// Database row type từ Supabase
+type DatabasePasswordRow = SupabasePasswordEntry
 
-// Type cho việc tạo mới password (không cần id, createdAt, updatedAt)
-export type CreatePasswordEntry = Omit<PasswordEntry, 'id' | 'createdAt' | 'updatedAt'>
+// Các field không được cập nhật thành chuỗi rỗng
+const REQUIRED_TEXT_FIELDS = ['service', 'username', 'password']
 
-// Type cho việc cập nhật password
-export type UpdatePasswordEntry = Partial<CreatePasswordEntry>
+// Các field được phép cập nhật thành null (folderId null = chuyển về chưa phân loại)
+const NULLABLE_FIELDS = ['folderId']
 
-// Database row type từ Supabase
-interface DatabasePasswordRow {
-  id: string
-  service: string
-  username: string
-  password: string
-  created_at: string
-  updated_at: string
+/**
+ * Escape ký tự đặc biệt của LIKE (\, %, _) để từ khóa được so khớp nguyên văn
+ * PostgREST luôn coi * là % trong pattern nên kết quả được kiểm tra lại bằng matchesSearchText
+ */
+const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, (char) => `\\${char}`)
+
+/**
+ * Entry có chứa mọi từ khóa trong service + username (không dấu) - cùng quy tắc với cột search_text
+ */
+const matchesSearchText = (entry: PasswordEntry, terms: string[]): boolean => {
+  const text = normalizeForSearch(`${entry.service} ${entry.username}`)
+  return terms.every((term) => text.includes(term))
 }
 
+// Chỉ mục tìm kiếm trên kết quả đã giải mã, dùng chung thuật toán với IndexedDB
+// để kết quả offline và online giống nhau. Hủy khi vault khóa.
+const searchIndex = new SearchIndex()
+
+vaultKeyManager.subscribe(() => {
+  if (!vaultKeyManager.isUnlocked()) {
+    searchIndex.clear()
+  }
+})
+
 /**
  * Supabase Password Service - Fixed Version
  * Sử dụng tên cột tiêu chuẩn: service, username, password
@@ -37,6 +65,8 @@ interface DatabasePasswordRow {
  * - Centralized logging và error messages
  * - Input validation và sanitization
  * - Consistent API interface
+ * - Client-side encryption: cột password chỉ chứa ciphertext AES-GCM
+ * - Per-user ownership: mọi row mới được gắn user_id của user đang đăng nhập (RLS theo auth.uid())
  */
 export class SupabasePasswordService {
   
@@ -44,8 +74,9 @@ export class SupabasePasswordService {
    * Base error handler cho tất cả operations
    * @private
    */
-  private static handleError(operation: string, error: any): never {
-    const errorMessage = error?.message || 'Unknown error'
+  private static handleError(operation: string, error: unknown): never {
+    const message = typeof error === 'object' && error !== null && 'message' in error ? error.message : undefined
+    const errorMessage = (typeof message === 'string' && message) || 'Unknown error'
     logger.error(`${operation} failed:`, error)
     throw new Error(`${ERROR_MESSAGES[operation as keyof typeof ERROR_MESSAGES] || 'Operation failed'}: ${errorMessage}`)
   }
@@ -54,20 +85,34 @@ export class SupabasePasswordService {
    * Validate password data trước khi thực hiện operations
    * @private
    */
-  private static validatePasswordData(data: CreatePasswordEntry | UpdatePasswordEntry): void {
-    if ('service' in data && data.service && (!data.service.trim() || data.service.length > 100)) {
-      throw new Error('Service name must be between 1-100 characters')
-    }
-    if ('username' in data && data.username && (!data.username.trim() || data.username.length > 100)) {
-      throw new Error('Username must be between 1-100 characters')
-    }
-    if ('password' in data && data.password && (!data.password.trim() || data.password.length > 500)) {
-      throw new Error('Password must be between 1-500 characters')
+  private static validateEntryData(data: CreatePasswordEntry | UpdatePasswordEntry): void {
+    validateEntryData(data)
+  }
+
+  /**
+   * Lịch sử mới nếu password thay đổi - đọc và giải mã password hiện tại để so sánh
+   * @private
+   */
+  private static async buildPasswordHistory(id: string, nextPassword: string): Promise<PasswordHistoryItem[] | undefined> {
+    const { data, error } = await supabase
+      .from('passwords')
+      .select('password, password_history')
+      .eq('id', id)
+      .single()
+
+    if (error) {
+      this.handleError('UPDATE_FAILED', error)
     }
+
+    const current = await decryptEntrySecrets({
+      password: data.password,
+      passwordHistory: data.password_history ?? [],
+    })
+    return appendPasswordHistory(current, nextPassword)
   }
   
   /**
-   * Lấy tất cả passwords với sorting theo updated_at
+   * Lấy tất cả passwords (không gồm thùng rác) với sorting theo updated_at
    * @returns Promise<PasswordEntry[]> - Danh sách passwords đã được sort
    */
   static async getAllPasswords(): Promise<PasswordEntry[]> {
@@ -77,13 +122,14 @@ export class SupabasePasswordService {
       const { data, error } = await supabase
         .from('passwords')
         .select('*')
+        .is('deleted_at', null)
         .order('updated_at', { ascending: false })
 
       if (error) {
         this.handleError('FETCH_FAILED', error)
       }
 
-      const passwords = (data || []).map(this.convertFromDatabase)
+      const passwords = await this.convertRowsFromDatabase(data || [])
       logger.info(`Successfully fetched ${passwords.length} passwords`)
       
       return passwords
@@ -93,31 +139,41 @@ export class SupabasePasswordService {
   }
 
   /**
-   * Tìm kiếm passwords theo service hoặc username với debouncing
-   * @param query - Từ khóa tìm kiếm (được sanitize)
+   * Tìm kiếm passwords (fuzzy, xếp theo độ liên quan)
+   * Bộ lọc và filter type: của query chạy trên server, phần còn lại được đánh giá
+   * phía client sau khi giải mã vì notes và URL đã mã hóa nên server không tìm được
+   * @param query - Từ khóa tìm kiếm, hỗ trợ cú pháp có cấu trúc (search/query-parser)
+   * @param filters - Lọc theo folder (gồm folder con, null là chưa phân loại), tag (and/or) và loại item
    * @returns Promise<PasswordEntry[]>
    */
-  static async searchPasswords(query: string): Promise<PasswordEntry[]> {
+  static async searchPasswords(query: string, filters: PasswordSearchFilters = {}): Promise<PasswordEntry[]> {
     try {
-      const sanitizedQuery = this.sanitizeSearchQuery(query || '')
+      const searchQuery = (query || '').trim()
       
-      if (!sanitizedQuery) {
+      if (!searchQuery && !hasSearchFilters(filters)) {
         return this.getAllPasswords()
       }
 
-      logger.info(`Searching passwords with query: "${sanitizedQuery}"`)
+      const parsed = parseSearchQuery(searchQuery)
+      const folders = await this.getSearchFolders(filters, parsed)
 
-      const { data, error } = await supabase
-        .from('passwords')
-        .select('*')
-        .or(`service.ilike.%${sanitizedQuery}%,username.ilike.%${sanitizedQuery}%`)
-        .order('updated_at', { ascending: false })
+      logger.info('Searching passwords')
+
+      const request = this.buildSearchRequest(filters, parsed, folders)
+      const { data, error } = await request.order('updated_at', { ascending: false })
 
       if (error) {
         this.handleError('SEARCH_FAILED', error)
       }
 
-      const results = (data || []).map(this.convertFromDatabase)
+      // Entry không đổi updatedAt thì không phải index lại
+      searchIndex.sync(await this.convertRowsFromDatabase(data || []))
+      // reused: cần so với toàn bộ vault chứ không chỉ các row đã lọc
+      const matchesQuery = await createQueryMatcher(parsed, {
+        folders,
+        entries: hasQueryClause(parsed, 'reused') ? await this.getAllPasswords() : searchIndex.entries(),
+      })
+      const results = searchIndex.search(getRankingText(parsed), matchesQuery)
       logger.info(`Found ${results.length} passwords matching query`)
       
       return results
@@ -126,6 +182,166 @@ export class SupabasePasswordService {
     }
   }
 
+  /**
+   * Folder cần cho bộ lọc folder hoặc filter folder: của query (rỗng nếu không dùng)
+   * @private
+   */
+  private static async getSearchFolders(filters: PasswordSearchFilters, parsed: ParsedSearchQuery): Promise<Folder[]> {
+    return filters.folderId !== undefined || hasQueryClause(parsed, 'folder')
+      ? SupabaseFolderService.getAllFolders()
+      : []
+  }
+
+  /**
+   * Request đọc entry ngoài thùng rác đã áp dụng bộ lọc và filter type: của query
+   * @private
+   */
+  private static buildSearchRequest(filters: PasswordSearchFilters, parsed: ParsedSearchQuery, folders: Folder[]) {
+    let request = supabase
+      .from('passwords')
+      .select('*')
+      .is('deleted_at', null)
+
+    if (filters.folderId !== undefined) {
+      if (filters.folderId === null) {
+        // Entry trỏ tới folder đã bị xóa cũng được coi là chưa phân loại
+        const folderIds = folders.map((folder) => folder.id)
+        request = folderIds.length > 0
+          ? request.or(`folder_id.is.null,folder_id.not.in.(${folderIds.join(',')})`)
+          : request.is('folder_id', null)
+      } else {
+        request = request.in('folder_id', Array.from(getDescendantFolderIds(folders, filters.folderId)))
+      }
+    }
+
+    if (filters.tags?.length) {
+      // and: cột tags chứa mọi tag đã chọn (@>), or: có ít nhất một tag chung (&&)
+      request = filters.tagMode === 'or'
+        ? request.overlaps('tags', filters.tags)
+        : request.contains('tags', filters.tags)
+    }
+
+    if (filters.itemType) {
+      request = request.eq('item_type', filters.itemType)
+    }
+
+    if (filters.favoritesOnly) {
+      request = request.eq('favorite', true)
+    }
+
+    // Filter type: (không loại trừ) lọc luôn trên server để bớt dữ liệu phải giải mã
+    // tag: so khớp không dấu nên chỉ lọc phía client
+    parsed.clauses.forEach((clause) => {
+      if (clause.key === 'type' && !clause.negated) {
+        request = request.eq('item_type', clause.value)
+      }
+    })
+
+    return request
+  }
+
+  /**
+   * Tìm kiếm theo trang (keyset trên updated_at, id - mới cập nhật trước)
+   * Mỗi request đọc limit + 1 row sau cursor; row thừa chỉ dùng để biết còn trang sau.
+   * Từ khóa tự do được so khớp trên server với cột search_text (service + username, không dấu)
+   * bằng ILIKE đã escape, filter và cụm chính xác được đánh giá phía client sau khi giải mã.
+   * Khác searchPasswords, kết quả không xếp theo độ liên quan và không chịu lỗi gõ
+   * vì server chỉ thấy các field không mã hóa.
+   * @param options - cursor của trang trước, limit và AbortSignal để hủy request
+   * @returns Promise<SearchPage> - nextCursor null khi đã hết kết quả
+   */
+  static async searchPasswordsPage(query: string, filters: PasswordSearchFilters = {}, options: SearchPageOptions = {}): Promise<SearchPage> {
+    const { signal } = options
+    const limit = options.limit ?? SEARCH_PAGE_SIZE
+
+    try {
+      const parsed = parseSearchQuery((query || '').trim())
+      const folders = await this.getSearchFolders(filters, parsed)
+      const terms = parsed.text
+        .filter((item) => !item.negated && !item.exact)
+        .flatMap((item) => tokenizeQuery(item.value))
+      // reused: cần so với toàn bộ vault chứ không chỉ trang hiện tại
+      const matchesQuery = await createQueryMatcher(parsed, {
+        folders,
+        entries: hasQueryClause(parsed, 'reused') ? await this.getAllPasswords() : [],
+      })
+
+      const entries: PasswordEntry[] = []
+      let cursor = options.cursor ?? null
+      let hasMore = true
+
+      // Row bị loại ở phía client thì đọc tiếp để trang có đủ kết quả
+      while (hasMore && entries.length < limit) {
+        let request = this.buildSearchRequest(filters, parsed, folders)
+        terms.forEach((term) => {
+          request = request.ilike('search_text', `%${escapeLikePattern(term)}%`)
+        })
+        if (cursor) {
+          request = request.or(`updated_at.lt."${cursor.updatedAt}",and(updated_at.eq."${cursor.updatedAt}",id.lt.${cursor.id})`)
+        }
+
+        let pageRequest = request
+          .order('updated_at', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(limit + 1)
+        if (signal) {
+          pageRequest = pageRequest.abortSignal(signal)
+        }
+
+        const { data, error } = await pageRequest
+        signal?.throwIfAborted()
+
+        if (error) {
+          this.handleError('SEARCH_FAILED', error)
+        }
+
+        const rows = (data || []).slice(0, limit)
+        hasMore = (data || []).length > limit
+        const decrypted = await this.convertRowsFromDatabase(rows)
+
+        // Cursor dừng ở row cuối đã xét: trang đủ giữa chừng thì các row còn lại được đọc ở trang sau
+        for (let i = 0; i < rows.length && entries.length < limit; i++) {
+          cursor = { updatedAt: rows[i].updated_at, id: rows[i].id }
+          if (matchesSearchText(decrypted[i], terms) && matchesQuery(decrypted[i])) {
+            entries.push(decrypted[i])
+          }
+          if (entries.length === limit && i < rows.length - 1) {
+            hasMore = true
+          }
+        }
+      }
+
+      return { entries, nextCursor: hasMore ? cursor : null }
+    } catch (error) {
+      // Request bị hủy: giữ nguyên AbortError để caller bỏ qua
+      if (signal?.aborted) {
+        throw error
+      }
+      this.handleError('SEARCH_FAILED', error)
+    }
+  }
+
+  /**
+   * Lấy tất cả tag đang dùng (chỉ đọc cột tags)
+   * @returns Promise<string[]> - Tag duy nhất sắp xếp theo tên
+   */
+  static async getAllTags(): Promise<string[]> {
+    try {
+      const { data, error } = await supabase
+        .from('passwords')
+        .select('tags')
+        .is('deleted_at', null)
+
+      if (error) {
+        this.handleError('FETCH_FAILED', error)
+      }
+
+      return collectTags((data || []) as { tags: string[] | null }[])
+    } catch (error) {
+      this.handleError('FETCH_FAILED', error)
+    }
+  }
+
   /**
    * Thêm password mới với validation
    * @param passwordData - Dữ liệu password cần thêm (đã validate)
@@ -133,16 +349,15 @@ export class SupabasePasswordService {
    */
   static async addPassword(passwordData: CreatePasswordEntry): Promise<PasswordEntry> {
     try {
-      this.validatePasswordData(passwordData)
+      this.validateEntryData(passwordData)
       logger.info('Adding new password entry')
 
+      const encrypted = await encryptEntrySecrets(passwordData)
+      const userId = await AuthService.requireUserId()
+
       const { data, error } = await supabase
         .from('passwords')
-        .insert([{
-          service: passwordData.service,
-          username: passwordData.username,
-          password: passwordData.password
-        }])
+        .insert([{ ...PasswordEntryMapper.toSupabaseFields(encrypted), user_id: userId } as SupabasePasswordInsert])
         .select()
         .single()
 
@@ -150,7 +365,7 @@ export class SupabasePasswordService {
         this.handleError('ADD_FAILED', error)
       }
 
-      const newPassword = this.convertFromDatabase(data)
+      const newPassword = await this.decryptFromDatabase(data)
       logger.info(`Successfully added password for service: ${newPassword.service}`)
       
       return newPassword
@@ -171,24 +386,40 @@ export class SupabasePasswordService {
         throw new Error('Password ID is required')
       }
 
-      this.validatePasswordData(passwordData)
+      this.validateEntryData(passwordData)
       logger.info(`Updating password with ID: ${id}`)
 
       // Tạo update object chỉ với các field có giá trị
       const updateFields = Object.entries(passwordData).reduce((acc, [key, value]) => {
-        if (value !== undefined && value !== null && value.toString().trim()) {
+        // Bỏ qua chuỗi rỗng ở các field bắt buộc, các field khác (notes, urls, ...) được phép xóa trống
+        const isBlankRequired = REQUIRED_TEXT_FIELDS.includes(key) && typeof value === 'string' && !value.trim()
+        const isAllowedValue = value !== null || NULLABLE_FIELDS.includes(key)
+        if (value !== undefined && isAllowedValue && !isBlankRequired) {
           acc[key] = value
         }
         return acc
-      }, {} as Record<string, any>)
+      }, {} as Record<string, unknown>) as UpdatePasswordEntry
 
       if (Object.keys(updateFields).length === 0) {
         throw new Error('No valid fields to update')
       }
 
+      // Password đổi thì lưu password hiện tại vào lịch sử và ghi lại thời điểm đổi
+      if (updateFields.password !== undefined) {
+        const passwordHistory = await this.buildPasswordHistory(id, updateFields.password)
+        if (passwordHistory) {
+          updateFields.passwordHistory = passwordHistory
+          updateFields.passwordChangedAt = new Date().toISOString()
+        }
+      }
+
+      // Mã hóa password mới (nếu có) trước khi gửi lên Supabase
+      const encryptedFields = await encryptEntrySecrets(updateFields)
+
+      // Trigger set_updated_at ghi đè bằng giờ server, gửi kèm để thứ tự vẫn đúng khi chưa chạy migration
       const { data, error } = await supabase
         .from('passwords')
-        .update(updateFields)
+        .update({ ...PasswordEntryMapper.toSupabaseFields(encryptedFields), updated_at: new Date().toISOString() })
         .eq('id', id)
         .select()
         .single()
@@ -197,7 +428,7 @@ export class SupabasePasswordService {
         this.handleError('UPDATE_FAILED', error)
       }
 
-      const updatedPassword = this.convertFromDatabase(data)
+      const updatedPassword = await this.decryptFromDatabase(data)
       logger.info(`Successfully updated password for service: ${updatedPassword.service}`)
       
       return updatedPassword
@@ -207,7 +438,7 @@ export class SupabasePasswordService {
   }
 
   /**
-   * Xóa password với confirmation
+   * Chuyển password vào thùng rác (soft delete)
    * @param id - ID của password cần xóa
    * @returns Promise<void>
    */
@@ -217,17 +448,122 @@ export class SupabasePasswordService {
         throw new Error('Password ID is required')
       }
 
-      logger.info(`Deleting password with ID: ${id}`)
+      logger.info(`Moving password to trash: ${id}`)
+      const now = new Date().toISOString()
 
       const { error } = await supabase
+        .from('passwords')
+        .update({ deleted_at: now, updated_at: now })
+        .eq('id', id)
+
+      if (error) {
+        this.handleError('DELETE_FAILED', error)
+      }
+    } catch (error) {
+      this.handleError('DELETE_FAILED', error)
+    }
+  }
+
+  /**
+   * Lấy các password trong thùng rác, mới xóa trước
+   * @returns Promise<PasswordEntry[]>
+   */
+  static async getTrashedPasswords(): Promise<PasswordEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('passwords')
+        .select('*')
+        .not('deleted_at', 'is', null)
+
+      if (error) {
+        this.handleError('FETCH_FAILED', error)
+      }
+
+      return sortByDeletedAtDesc(await this.convertRowsFromDatabase(data || []))
+    } catch (error) {
+      this.handleError('FETCH_FAILED', error)
+    }
+  }
+
+  /**
+   * Khôi phục password từ thùng rác
+   * @param id - ID của password cần khôi phục
+   * @returns Promise<PasswordEntry> - Password đã khôi phục
+   */
+  static async restorePassword(id: string): Promise<PasswordEntry> {
+    try {
+      const { data, error } = await supabase
+        .from('passwords')
+        .update({ deleted_at: null, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        this.handleError('UPDATE_FAILED', error)
+      }
+
+      return this.decryptFromDatabase(data)
+    } catch (error) {
+      this.handleError('UPDATE_FAILED', error)
+    }
+  }
+
+  /**
+   * Xóa vĩnh viễn các password trong thùng rác trước mốc before
+   * @param before - ISO timestamp, không truyền để dọn toàn bộ thùng rác
+   * @returns Promise<number> - Số password đã xóa
+   */
+  static async purgeTrash(before?: string): Promise<number> {
+    try {
+      let request = supabase
+        .from('passwords')
+        .delete()
+        .not('deleted_at', 'is', null)
+
+      if (before) {
+        request = request.lt('deleted_at', before)
+      }
+
+      const { data, error } = await request.select('id, attachments')
+
+      if (error) {
+        this.handleError('DELETE_FAILED', error)
+      }
+
+      await SupabaseAttachmentService.removeBlobs(SupabaseAttachmentService.getBlobRefs(data || []))
+      logger.info(`Purged ${data?.length ?? 0} passwords from trash`)
+      return data?.length ?? 0
+    } catch (error) {
+      this.handleError('DELETE_FAILED', error)
+    }
+  }
+
+  /**
+   * Xóa vĩnh viễn password
+   * @param id - ID của password cần xóa
+   * @returns Promise<void>
+   */
+  static async purgePassword(id: string): Promise<void> {
+    try {
+      if (!id?.trim()) {
+        throw new Error('Password ID is required')
+      }
+
+      logger.info(`Deleting password with ID: ${id}`)
+
+      const { data, error } = await supabase
         .from('passwords')
         .delete()
         .eq('id', id)
+        .select('id, attachments')
 
       if (error) {
         this.handleError('DELETE_FAILED', error)
       }
 
+      // File đính kèm chỉ bị xóa cùng entry khi xóa vĩnh viễn
+      await SupabaseAttachmentService.removeBlobs(SupabaseAttachmentService.getBlobRefs(data || []))
       logger.info(`Successfully deleted password with ID: ${id}`)
     } catch (error) {
       this.handleError('DELETE_FAILED', error)
@@ -246,6 +582,7 @@ export class SupabasePasswordService {
       const { count: total, error: countError } = await supabase
         .from('passwords')
         .select('*', { count: 'exact', head: true })
+        .is('deleted_at', null)
 
       if (countError) {
         this.handleError('STATS_FAILED', countError)
@@ -258,6 +595,7 @@ export class SupabasePasswordService {
       const { count: recentCount, error: recentError } = await supabase
         .from('passwords')
         .select('*', { count: 'exact', head: true })
+        .is('deleted_at', null)
         .gte('created_at', sevenDaysAgo.toISOString())
 
       if (recentError) {
@@ -329,7 +667,7 @@ export class SupabasePasswordService {
       // Validate tất cả passwords trước khi insert
       passwords.forEach((pwd, index) => {
         try {
-          this.validatePasswordData(pwd)
+          this.validateEntryData(pwd)
         } catch (error) {
           throw new Error(`Validation failed for password ${index + 1}: ${error}`)
         }
@@ -337,20 +675,19 @@ export class SupabasePasswordService {
 
       logger.info(`Batch adding ${passwords.length} passwords`)
 
+      const encryptedPasswords = await Promise.all(passwords.map(pwd => encryptEntrySecrets(pwd)))
+      const userId = await AuthService.requireUserId()
+
       const { data, error } = await supabase
         .from('passwords')
-        .insert(passwords.map(pwd => ({
-          service: pwd.service,
-          username: pwd.username,
-          password: pwd.password
-        })))
+        .insert(encryptedPasswords.map(pwd => ({ ...PasswordEntryMapper.toSupabaseFields(pwd), user_id: userId } as SupabasePasswordInsert)))
         .select()
 
       if (error) {
         this.handleError('ADD_FAILED', error)
       }
 
-      const results = (data || []).map(this.convertFromDatabase)
+      const results = await this.convertRowsFromDatabase(data || [])
       logger.info(`Successfully batch added ${results.length} passwords`)
       
       return results
@@ -359,6 +696,152 @@ export class SupabasePasswordService {
     }
   }
 
+  // ===== Raw row operations cho sync engine (không mã hóa/giải mã) =====
+
+  /**
+   * Ghi đè/thêm nhiều passwords giữ nguyên id và timestamps (khôi phục backup)
+   * @param passwords - Entries plaintext, được mã hóa trước khi upsert
+   */
+  static async upsertPasswords(passwords: PasswordEntry[]): Promise<void> {
+    try {
+      if (!passwords.length) {
+        return
+      }
+
+      passwords.forEach(pwd => this.validateEntryData(pwd))
+
+      const encryptedPasswords = await Promise.all(passwords.map(pwd => encryptEntrySecrets(pwd)))
+      await this.upsertRows(encryptedPasswords.map(PasswordEntryMapper.toSupabase))
+    } catch (error) {
+      this.handleError('UPDATE_FAILED', error)
+    }
+  }
+
+  /**
+   * Lấy các rows đã thay đổi sau checkpoint (theo updated_at)
+   * Đọc từng trang SUPABASE_PAGE_SIZE row bằng range() tới trang ngắn để không bị cắt ở max-rows
+   * @param since - Checkpoint ISO string, null để lấy toàn bộ
+   * @returns Promise<SupabasePasswordEntry[]> - Rows sắp xếp theo updated_at tăng dần
+   */
+  static async fetchRowsUpdatedSince(since: string | null): Promise<SupabasePasswordEntry[]> {
+    try {
+      logger.info(`Fetching password rows updated since ${since ?? 'beginning'}`)
+
+      const rows: SupabasePasswordEntry[] = []
+      for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+        let query = supabase
+          .from('passwords')
+          .select('*')
+
+        if (since) {
+          query = query.gt('updated_at', since)
+        }
+
+        // id làm khóa phụ để thứ tự giữa các trang ổn định khi nhiều row cùng updated_at
+        const { data, error } = await query
+          .order('updated_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, from + SUPABASE_PAGE_SIZE - 1)
+
+        if (error) {
+          this.handleError('FETCH_FAILED', error)
+        }
+
+        const page = (data || []) as SupabasePasswordEntry[]
+        rows.push(...page)
+        if (page.length < SUPABASE_PAGE_SIZE) {
+          return rows
+        }
+      }
+    } catch (error) {
+      this.handleError('FETCH_FAILED', error)
+    }
+  }
+
+  /**
+   * Lấy một row theo ID
+   * @returns Promise<SupabasePasswordEntry | null> - null nếu row không tồn tại
+   */
+  static async fetchRowById(id: string): Promise<SupabasePasswordEntry | null> {
+    try {
+      const { data, error } = await supabase
+        .from('passwords')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        this.handleError('FETCH_FAILED', error)
+      }
+
+      return (data as SupabasePasswordEntry | null) ?? null
+    } catch (error) {
+      this.handleError('FETCH_FAILED', error)
+    }
+  }
+
+  /**
+   * Lấy danh sách ID của tất cả rows - dùng để phát hiện rows đã bị xóa trên server
+   * Đọc theo trang như fetchRowsUpdatedSince
+   * @returns Promise<string[]>
+   */
+  static async fetchAllIds(): Promise<string[]> {
+    try {
+      const ids: string[] = []
+      for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('passwords')
+          .select('id')
+          .order('id', { ascending: true })
+          .range(from, from + SUPABASE_PAGE_SIZE - 1)
+
+        if (error) {
+          this.handleError('FETCH_FAILED', error)
+        }
+
+        const page = (data || []) as { id: string }[]
+        ids.push(...page.map(row => row.id))
+        if (page.length < SUPABASE_PAGE_SIZE) {
+          return ids
+        }
+      }
+    } catch (error) {
+      this.handleError('FETCH_FAILED', error)
+    }
+  }
+
+  /**
+   * Upsert rows giữ nguyên id và timestamps từ client
+   * @param rows - Rows đã mã hóa sẵn
+   * @returns Promise<SupabasePasswordEntry[]> - Rows sau khi ghi
+   */
+  static async upsertRows(rows: SupabasePasswordInsert[]): Promise<SupabasePasswordEntry[]> {
+    try {
+      if (!rows.length) {
+        return []
+      }
+
+      logger.info(`Upserting ${rows.length} password rows`)
+
+      const userId = await AuthService.requireUserId()
+
+      // updated_at do server gán (trigger set_updated_at) - thời gian client có thể cũ hơn
+      // checkpoint của thiết bị khác nếu thay đổi được sửa offline rồi đẩy muộn
+      const { data, error } = await supabase
+        .from('passwords')
+        .upsert(rows.map(({ updated_at, ...row }) => ({ ...row, user_id: userId })), { onConflict: 'id' })
+        .select()
+
+      if (error) {
+        this.handleError('UPDATE_FAILED', error)
+      }
+
+      return (data || []) as SupabasePasswordEntry[]
+    } catch (error) {
+      this.handleError('UPDATE_FAILED', error)
+    }
+  }
+
   /**
    * Convert từ database format sang PasswordEntry format
    * Type-safe conversion với proper error handling
@@ -369,34 +852,32 @@ export class SupabasePasswordService {
       throw new Error('Database row is null or undefined')
     }
 
-    // Validate required fields
-    const requiredFields = ['id', 'service', 'username', 'password', 'created_at', 'updated_at']
+    // Validate required fields - username/password chỉ bắt buộc với item đăng nhập
+    const requiredFields = dbRow.item_type && dbRow.item_type !== 'login'
+      ? ['id', 'service', 'created_at', 'updated_at']
+      : ['id', 'service', 'username', 'password', 'created_at', 'updated_at']
     for (const field of requiredFields) {
       if (!dbRow[field as keyof DatabasePasswordRow]) {
         throw new Error(`Missing required field: ${field}`)
       }
     }
 
-    return {
-      id: dbRow.id,
-      service: dbRow.service,
-      username: dbRow.username,
-      password: dbRow.password,
-      createdAt: dbRow.created_at,
-      updatedAt: dbRow.updated_at
-    }
+    return PasswordEntryMapper.toLocal(dbRow)
+  }
+
+  /**
+   * Convert database row và giải mã secrets trong bộ nhớ
+   * @private
+   */
+  private static async decryptFromDatabase(dbRow: DatabasePasswordRow): Promise<PasswordEntry> {
+    return decryptEntrySecrets(this.convertFromDatabase(dbRow))
   }
 
   /**
-   * Utility method để sanitize search query
-   * Ngăn chặn SQL injection và các ký tự đặc biệt
+   * Convert và giải mã danh sách rows
    * @private
    */
-  private static sanitizeSearchQuery(query: string): string {
-    return query
-      .trim()
-      .replace(/[%_]/g, '\\04159cb3-9186-4414-9c28-af252a86395a') // Escape SQL wildcards
-      .replace(/[<>]/g, '') // Remove potential XSS characters
-      .substring(0, 100) // Limit length
+  private static convertRowsFromDatabase(rows: DatabasePasswordRow[]): Promise<PasswordEntry[]> {
+    return Promise.all(rows.map(row => this.decryptFromDatabase(row)))
   }
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { supabase } from './supabase'
+import { logger } from './utils/logger'
+import { AuthService } from './auth-service'
+import type { VaultMetadata, VaultMetadataStore } from './crypto/vault-key-manager'
+import type { Database } from './types/database'
+
+type SupabaseVaultKey = Database['public']['Tables']['vault_keys']['Row']
+
+// Mã lỗi Postgres khi vi phạm primary key - user đã có metadata
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Supabase Vault Key Service
+ * Quản lý bảng `vault_keys`: mỗi user một row chứa tham số KDF và verifier của vault,
+ * để mọi thiết bị derive cùng một key từ master password.
+ */
+export class SupabaseVaultKeyService {
+
+  /**
+   * Base error handler cho các vault key operations
+   * @private
+   */
+  private static handleError(operation: string, error: unknown): never {
+    const errorMessage = error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error'
+    logger.error(`${operation} failed:`, error)
+    throw new Error(errorMessage)
+  }
+
+  private static toMetadata(row: SupabaseVaultKey): VaultMetadata {
+    return { version: 1, kdf: row.kdf, verifier: row.verifier }
+  }
+
+  /**
+   * Đọc metadata của user hiện tại
+   * @returns null nếu user chưa thiết lập master password
+   */
+  static async getMetadata(): Promise<VaultMetadata | null> {
+    const userId = await AuthService.requireUserId()
+
+    const { data, error } = await supabase
+      .from('vault_keys')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      this.handleError('GET_VAULT_KEY', error)
+    }
+
+    return data ? this.toMetadata(data as SupabaseVaultKey) : null
+  }
+
+  /**
+   * Lưu metadata khi thiết lập master password lần đầu
+   * Chỉ insert, không ghi đè: nếu thiết bị khác đã thiết lập trước thì trả về metadata đang có
+   * @returns Metadata được lưu trên server
+   */
+  static async insertMetadata(metadata: VaultMetadata): Promise<VaultMetadata> {
+    const userId = await AuthService.requireUserId()
+
+    const { data, error } = await supabase
+      .from('vault_keys')
+      .insert([{ user_id: userId, version: metadata.version, kdf: metadata.kdf, verifier: metadata.verifier }])
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        const existing = await this.getMetadata()
+        if (existing) return existing
+      }
+      this.handleError('INSERT_VAULT_KEY', error)
+    }
+
+    logger.info('Created vault key metadata')
+    return this.toMetadata(data as SupabaseVaultKey)
+  }
+
+  /**
+   * Tạo metadata store cho VaultKeyManager gắn với user đang đăng nhập
+   */
+  static createStore(userId: string): VaultMetadataStore {
+    return {
+      userId,
+      load: () => this.getMetadata(),
+      save: (metadata) => this.insertMetadata(metadata),
+    }
+  }
+}
@@ -39,7 +39,7 @@ export const supabase = createClient<Database>(
       // Cấu hình auth cho password manager
       autoRefreshToken: true, // Bật để maintain session
       persistSession: true,   // Persist để user không cần login lại
-      detectSessionInUrl: false, // Tắt vì không cần OAuth redirect
+      detectSessionInUrl: true, // Bật để nhận session từ magic link redirect
     },
     db: {
       schema: 'public'
@@ -52,6 +52,12 @@ export const supabase = createClient<Database>(
   }
 )
 
+/**
+ * Số row mỗi request khi đọc toàn bộ bảng bằng range() - bằng max-rows mặc định của PostgREST
+ * Response ít row hơn số này nghĩa là đã hết dữ liệu
+ */
+export const SUPABASE_PAGE_SIZE = 1000
+
 /**
  * Utility functions cho Supabase operations
  */
@@ -69,11 +75,13 @@ export class SupabaseService {
   }
 
   /**
-   * Sync local data với Supabase (nếu cần)
+   * Sync local data (IndexedDB) với Supabase
+   * Chạy ngay một lượt đồng bộ nếu sync engine đang bật
+   * Import động để tránh vòng lặp import với supabase-service-fixed
    */
-  static async syncWithLocal() {
-    // TODO: Implement sync logic between IndexedDB and Supabase
-    // Có thể sử dụng khi cần backup hoặc sync giữa devices
+  static async syncWithLocal(): Promise<void> {
+    const { syncEngine } = await import('./sync/sync-engine')
+    await syncEngine.sync()
   }
 }
 
@@ -0,0 +1,236 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { LocalPasswordRecord, SyncQueueItem } from '../db/db'
+import type { SupabasePasswordEntry, SupabasePasswordInsert } from '../types/database'
+
+/**
+ * Sync engine chạy trên IndexedDB và Supabase giả lập trong bộ nhớ
+ * Supabase giả gán updated_at phía server như trigger set_updated_at,
+ * mỗi user một database local (local + queue) như DatabaseManager.useUserDatabase
+ */
+const fake = vi.hoisted(() => {
+  localStorage.setItem('memory-safe-guard-sync-enabled', 'true')
+
+  const state = {
+    clock: Date.parse('2024-01-01T00:00:00.000Z'),
+    userId: 'user-a',
+    database: 'default',
+    databases: new Map<string, { local: Map<string, LocalPasswordRecord>; queue: Map<string, SyncQueueItem> }>(),
+    local: new Map<string, LocalPasswordRecord>(),
+    queue: new Map<string, SyncQueueItem>(),
+    remote: new Map<string, SupabasePasswordEntry>(),
+  }
+
+  const serverNow = () => new Date((state.clock += 1000)).toISOString()
+
+  return { state, serverNow }
+})
+
+vi.mock('../auth-service', () => ({
+  AuthService: { requireUserId: async () => fake.state.userId },
+}))
+
+vi.mock('../db/db', () => ({
+  dbManager: {
+    subscribe: () => () => {},
+    useUserDatabase: async (userId: string | null) => {
+      const { state } = fake
+      state.databases.set(state.database, { local: state.local, queue: state.queue })
+      state.database = userId ?? 'default'
+      const next = state.databases.get(state.database)
+      state.local = next?.local ?? new Map()
+      state.queue = next?.queue ?? new Map()
+    },
+    getSyncQueue: async () => Array.from(fake.state.queue.values()),
+    getFolderSyncQueue: async () => [],
+    getAttachmentSyncQueue: async () => [],
+    getRawPasswords: async () => Array.from(fake.state.local.values()),
+    getRawPassword: async (id: string) => fake.state.local.get(id) ?? null,
+    putRawPasswords: async (records: LocalPasswordRecord[]) => {
+      records.forEach((record) => fake.state.local.set(record.id, record))
+    },
+    deleteRawPasswords: async (ids: string[]) => {
+      ids.forEach((id) => fake.state.local.delete(id))
+    },
+    getRawFolders: async () => [],
+    getRawAttachmentIds: async () => [],
+    putRawAttachmentBlobs: async () => {},
+    deleteRawAttachmentBlobs: async () => {},
+    putRawFolders: async () => {},
+    deleteRawFolders: async () => {},
+    // Giống DatabaseManager: xóa item nếu không có thay đổi mới hơn, ngược lại cập nhật baseSyncedAt
+    completeSyncQueueItem: async (item: SyncQueueItem, syncedAt?: string) => {
+      const record = fake.state.local.get(item.entryId)
+      if (record) fake.state.local.set(item.entryId, { ...record, syncedAt })
+      const current = fake.state.queue.get(item.entryId)
+      if (current?.queuedAt === item.queuedAt) {
+        fake.state.queue.delete(item.entryId)
+      } else if (current) {
+        fake.state.queue.set(item.entryId, { ...current, baseSyncedAt: syncedAt })
+      }
+    },
+  },
+}))
+
+vi.mock('../supabase-service-fixed', () => ({
+  SupabasePasswordService: {
+    fetchRowById: async (id: string) => fake.state.remote.get(id) ?? null,
+    upsertRows: async (rows: SupabasePasswordInsert[]) => rows.map((row) => {
+      const saved = { ...row, updated_at: fake.serverNow() } as SupabasePasswordEntry
+      fake.state.remote.set(saved.id, saved)
+      return saved
+    }),
+    purgePassword: async (id: string) => {
+      fake.state.remote.delete(id)
+    },
+    fetchRowsUpdatedSince: async (since: string | null) => Array.from(fake.state.remote.values())
+      .filter((row) => !since || row.updated_at > since)
+      .sort((a, b) => a.updated_at.localeCompare(b.updated_at)),
+    fetchAllIds: async () => Array.from(fake.state.remote.keys()),
+  },
+}))
+
+vi.mock('../supabase-folder-service', () => ({
+  SupabaseFolderService: { fetchAllRows: async () => [], upsertRows: async () => [], deleteRows: async () => {} },
+}))
+
+vi.mock('../supabase-attachment-service', () => ({
+  SupabaseAttachmentService: { uploadBlob: async () => {}, removeBlobs: async () => {}, downloadBlob: async () => null },
+}))
+
+import { syncEngine } from './sync-engine'
+import { PasswordEntryMapper } from '../types/database'
+
+const ID = '11111111-1111-4111-8111-111111111111'
+
+const record = (fields: Partial<LocalPasswordRecord> = {}): LocalPasswordRecord => ({
+  id: ID,
+  service: 'GitHub',
+  username: 'alice',
+  password: 'enc:v1:local',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...fields,
+})
+
+// Thay đổi local đang chờ đẩy, như DatabaseManager ghi khi user sửa entry
+const editLocally = (fields: Partial<LocalPasswordRecord>) => {
+  const current = fake.state.local.get(ID)
+  fake.state.local.set(ID, record({ ...current, ...fields }))
+  fake.state.queue.set(ID, { entryId: ID, op: 'upsert', queuedAt: new Date().toISOString(), baseSyncedAt: current?.syncedAt })
+}
+
+// Thiết bị khác ghi lên Supabase
+const editRemotely = (fields: Partial<LocalPasswordRecord>, updatedAt = fake.serverNow()) => {
+  const current = fake.state.remote.get(ID)
+  const base = current ? PasswordEntryMapper.toLocal(current) : record()
+  const row = { ...PasswordEntryMapper.toSupabase({ ...base, ...fields }), updated_at: updatedAt } as SupabasePasswordEntry
+  fake.state.remote.set(ID, row)
+  return row
+}
+
+describe('SyncEngine', () => {
+  beforeEach(() => {
+    fake.state.userId = 'user-a'
+    fake.state.local.clear()
+    fake.state.queue.clear()
+    fake.state.remote.clear()
+    localStorage.removeItem('memory-safe-guard-sync-checkpoint')
+  })
+
+  it('đẩy thay đổi local lên server và ghi lại updated_at do server gán', async () => {
+    editLocally({ password: 'enc:v1:new' })
+    await syncEngine.sync()
+
+    const remote = fake.state.remote.get(ID)
+    expect(remote?.password).toBe('enc:v1:new')
+    expect(fake.state.queue.size).toBe(0)
+    expect(fake.state.local.get(ID)?.syncedAt).toBe(remote?.updated_at)
+    expect(syncEngine.getStatus()).toMatchObject({ phase: 'idle', pendingCount: 0, conflicts: [] })
+  })
+
+  it('kéo entry mới từ thiết bị khác và xóa entry đã bị xóa vĩnh viễn trên server', async () => {
+    const row = editRemotely({ service: 'GitLab' })
+    await syncEngine.sync()
+    expect(fake.state.local.get(ID)).toMatchObject({ service: 'GitLab', syncedAt: row.updated_at })
+
+    fake.state.remote.delete(ID)
+    await syncEngine.sync()
+    expect(fake.state.local.has(ID)).toBe(false)
+  })
+
+  it('vẫn kéo được row có updated_at hơi cũ hơn checkpoint (transaction commit muộn)', async () => {
+    editRemotely({ service: 'First' })
+    await syncEngine.sync()
+    const checkpoint = localStorage.getItem('memory-safe-guard-sync-checkpoint')!
+
+    // Row của transaction khác commit sau lần kéo trước nhưng mang updated_at nhỏ hơn checkpoint
+    const lateId = '22222222-2222-4222-8222-222222222222'
+    const late = { ...fake.state.remote.get(ID)!, id: lateId, service: 'Late', updated_at: new Date(Date.parse(checkpoint) - 500).toISOString() }
+    fake.state.remote.set(lateId, late)
+    await syncEngine.sync()
+
+    expect(fake.state.local.get(lateId)?.service).toBe('Late')
+    // Checkpoint chỉ tiến, không lùi theo row cũ
+    expect(localStorage.getItem('memory-safe-guard-sync-checkpoint')).toBe(checkpoint)
+  })
+
+  it('không xóa entry local chưa từng đồng bộ', async () => {
+    editLocally({ service: 'Offline' })
+    fake.state.queue.clear()
+    await syncEngine.sync()
+
+    expect(fake.state.local.get(ID)?.service).toBe('Offline')
+  })
+
+  it('báo xung đột khi cả hai phía cùng sửa và giải quyết theo lựa chọn của user', async () => {
+    editRemotely({ password: 'enc:v1:base' })
+    await syncEngine.sync()
+
+    editLocally({ password: 'enc:v1:local-edit' })
+    const remote = editRemotely({ password: 'enc:v1:remote-edit' })
+    await syncEngine.sync()
+
+    expect(syncEngine.getStatus().conflicts.map((conflict) => conflict.entryId)).toEqual([ID])
+    expect(fake.state.remote.get(ID)?.password).toBe('enc:v1:remote-edit')
+    expect(fake.state.local.get(ID)?.password).toBe('enc:v1:local-edit')
+
+    await syncEngine.resolveConflict(ID, 'remote')
+
+    expect(fake.state.local.get(ID)).toMatchObject({ password: 'enc:v1:remote-edit', syncedAt: remote.updated_at })
+    expect(fake.state.queue.size).toBe(0)
+    expect(syncEngine.getStatus().conflicts).toEqual([])
+  })
+
+  it('giữ bản local khi user chọn local trong xung đột', async () => {
+    editRemotely({ password: 'enc:v1:base' })
+    await syncEngine.sync()
+    editLocally({ password: 'enc:v1:local-edit' })
+    editRemotely({ password: 'enc:v1:remote-edit' })
+    await syncEngine.sync()
+
+    await syncEngine.resolveConflict(ID, 'local')
+
+    expect(fake.state.remote.get(ID)?.password).toBe('enc:v1:local-edit')
+    expect(fake.state.queue.size).toBe(0)
+  })
+  it('đổi tài khoản giữ nguyên thay đổi chưa đồng bộ của user cũ trong database riêng', async () => {
+    await syncEngine.sync()
+    editLocally({ password: 'enc:v1:offline-edit' })
+    syncEngine.setEnabled(false)
+
+    fake.state.userId = 'user-b'
+    await syncEngine.bindUser('user-b')
+    expect(fake.state.database).toBe('user-b')
+    expect(fake.state.local.size).toBe(0)
+    expect(syncEngine.getStatus().pendingCount).toBe(0)
+
+    // Quay lại user cũ: thay đổi vẫn trong hàng đợi và được đẩy lên tài khoản của user đó
+    fake.state.userId = 'user-a'
+    syncEngine.setEnabled(true)
+    await syncEngine.sync()
+
+    expect(fake.state.database).toBe('default')
+    expect(fake.state.remote.get(ID)?.password).toBe('enc:v1:offline-edit')
+    expect(fake.state.queue.size).toBe(0)
+  })
+})
@@ -0,0 +1,557 @@
+import { dbManager, type LocalFolderRecord, type LocalPasswordRecord, type SyncQueueItem } from '../db/db'
+import { SupabasePasswordService } from '../supabase-service-fixed'
+import { SupabaseFolderService } from '../supabase-folder-service'
+import { SupabaseAttachmentService } from '../supabase-attachment-service'
+import { getAttachmentIds } from '../attachments/attachments'
+import { AuthService } from '../auth-service'
+import { logger } from '../utils/logger'
+import { FolderMapper, PasswordEntryMapper, type SupabasePasswordEntry } from '../types/database'
+
+/**
+ * Sync Engine - đồng bộ hai chiều offline-first giữa IndexedDB và Supabase
+ *
+ * - IndexedDB (memorySafeGuardDB) là nguồn dữ liệu chính, UI luôn đọc/ghi local
+ * - Mọi thay đổi local được DatabaseManager ghi vào hàng đợi `syncQueue`
+ * - Khi online: đẩy hàng đợi lên bảng `passwords`, sau đó kéo các thay đổi
+ *   remote kể từ checkpoint (updated_at lớn nhất đã nhận). updated_at do server gán
+ *   (trigger set_updated_at) nên thay đổi đẩy muộn từ thiết bị offline vẫn nằm sau checkpoint
+ * - Nếu cả hai phía cùng thay đổi một entry kể từ lần đồng bộ trước,
+ *   entry được đưa vào danh sách xung đột để user tự chọn bản giữ lại
+ * - Folder (bảng `folders`) đồng bộ trước entry theo last-write-wins,
+ *   không tạo xung đột vì chỉ chứa tên và folder cha
+ * - Nội dung file đính kèm (bucket `attachments`) đi theo hàng đợi riêng
+ *   `attachmentSyncQueue`; file được entry tham chiếu mà local chưa có sẽ được tải về,
+ *   file local không còn entry nào tham chiếu bị xóa
+ *
+ * - Dữ liệu local, hàng đợi và checkpoint thuộc về một user (bindUser): mỗi user một database
+ *   IndexedDB và checkpoint riêng, đổi tài khoản không xóa thay đổi chưa đồng bộ của user cũ
+ *
+ * Engine chỉ làm việc với dữ liệu đã mã hóa nên không cần vault key.
+ */
+
+export type SyncPhase = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error'
+export type ConflictResolution = 'local' | 'remote'
+
+export interface SyncConflict {
+  entryId: string
+  queueItem: SyncQueueItem
+  // null nghĩa là phía đó đã xóa entry
+  local: LocalPasswordRecord | null
+  remote: SupabasePasswordEntry | null
+}
+
+export interface SyncStatus {
+  enabled: boolean
+  phase: SyncPhase
+  lastSyncedAt: string | null
+  pendingCount: number
+  conflicts: SyncConflict[]
+  error: string | null
+  // Tăng mỗi khi dữ liệu local bị thay đổi bởi đồng bộ - UI dùng để tải lại danh sách
+  revision: number
+}
+
+type SyncListener = () => void
+
+// Constants
+const ENABLED_STORAGE_KEY = 'memory-safe-guard-sync-enabled'
+const CHECKPOINT_STORAGE_KEY = 'memory-safe-guard-sync-checkpoint'
+const LAST_SYNCED_STORAGE_KEY = 'memory-safe-guard-sync-last-synced'
+const OWNER_STORAGE_KEY = 'memory-safe-guard-local-owner'
+const LOCAL_CHANGE_DEBOUNCE_MS = 2000
+// Kéo lùi checkpoint một khoảng: transaction commit muộn có thể mang updated_at nhỏ hơn
+// checkpoint đã ghi. Row đã có ở local (cùng syncedAt) được bỏ qua nên không bị ghi lại.
+const CHECKPOINT_OVERLAP_MS = 60 * 1000
+const PERIODIC_SYNC_INTERVAL_MS = 60 * 1000
+
+const readStorage = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key)
+  } catch {
+    return null
+  }
+}
+
+const writeStorage = (key: string, value: string): void => {
+  try {
+    localStorage.setItem(key, value)
+  } catch (error) {
+    logger.warn(`Failed to save ${key} to localStorage:`, error)
+  }
+}
+
+const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine
+
+export class SyncEngine {
+  private static instance: SyncEngine
+  private listeners = new Set<SyncListener>()
+  private status: SyncStatus
+  private running: Promise<void> | null = null
+  private rerunRequested = false
+  private debounceId: ReturnType<typeof setTimeout> | null = null
+  private stopHandlers: Array<() => void> = []
+  private boundUserId: string | null = null
+  // Hậu tố key localStorage của checkpoint theo user, rỗng với database gốc
+  private storageScope = ''
+
+  private constructor() {
+    const enabled = readStorage(ENABLED_STORAGE_KEY) === 'true'
+    this.status = {
+      enabled,
+      phase: enabled ? (isOnline() ? 'idle' : 'offline') : 'disabled',
+      lastSyncedAt: readStorage(LAST_SYNCED_STORAGE_KEY),
+      pendingCount: 0,
+      conflicts: [],
+      error: null,
+      revision: 0,
+    }
+  }
+
+  // Phương thức Singleton để lấy instance của SyncEngine
+  public static getInstance(): SyncEngine {
+    if (!SyncEngine.instance) {
+      SyncEngine.instance = new SyncEngine()
+    }
+    return SyncEngine.instance
+  }
+
+  private setStatus(partial: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...partial }
+    this.listeners.forEach((listener) => listener())
+  }
+
+  /**
+   * Snapshot trạng thái hiện tại (immutable - dùng được với useSyncExternalStore)
+   */
+  public getStatus(): SyncStatus {
+    return this.status
+  }
+
+  /**
+   * Đăng ký lắng nghe thay đổi trạng thái đồng bộ
+   * @returns Hàm hủy đăng ký
+   */
+  public subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Bắt đầu lắng nghe online/offline, thay đổi local và đồng bộ định kỳ
+   * @returns Hàm dừng engine
+   */
+  public start(): () => void {
+    if (this.stopHandlers.length > 0) {
+      return () => this.stop()
+    }
+
+    const handleOnline = () => {
+      if (this.status.enabled) this.sync()
+    }
+    const handleOffline = () => {
+      if (this.status.enabled) this.setStatus({ phase: 'offline' })
+    }
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    const unsubscribeLocal = dbManager.subscribe(() => this.scheduleSync())
+    const intervalId = setInterval(() => {
+      if (this.status.enabled) this.sync()
+    }, PERIODIC_SYNC_INTERVAL_MS)
+
+    this.stopHandlers = [
+      () => window.removeEventListener('online', handleOnline),
+      () => window.removeEventListener('offline', handleOffline),
+      unsubscribeLocal,
+      () => clearInterval(intervalId),
+    ]
+
+    this.refreshPendingCount()
+    if (this.status.enabled) this.sync()
+
+    return () => this.stop()
+  }
+
+  /**
+   * Dừng lắng nghe các sự kiện (dữ liệu và hàng đợi vẫn được giữ nguyên)
+   */
+  public stop(): void {
+    this.stopHandlers.forEach((handler) => handler())
+    this.stopHandlers = []
+    if (this.debounceId) {
+      clearTimeout(this.debounceId)
+      this.debounceId = null
+    }
+  }
+
+  /**
+   * Bật/tắt đồng bộ tự động
+   */
+  public setEnabled(enabled: boolean): void {
+    writeStorage(ENABLED_STORAGE_KEY, String(enabled))
+    this.setStatus({
+      enabled,
+      phase: enabled ? (isOnline() ? 'idle' : 'offline') : 'disabled',
+      error: null,
+    })
+    if (enabled) this.sync()
+  }
+
+  /**
+   * Gắn dữ liệu local với user đang đăng nhập
+   * User đầu tiên đăng nhập trên thiết bị nhận database gốc (gồm dữ liệu tạo khi chưa đăng nhập),
+   * user khác dùng database và checkpoint riêng. Đổi tài khoản chỉ chuyển database nên thay đổi
+   * chưa đồng bộ của user cũ vẫn nằm trong hàng đợi và được đẩy lên khi user đó đăng nhập lại.
+   */
+  public async bindUser(userId: string): Promise<void> {
+    if (userId === this.boundUserId) return
+
+    const owner = readStorage(OWNER_STORAGE_KEY) ?? userId
+    writeStorage(OWNER_STORAGE_KEY, owner)
+    const storageScope = owner === userId ? '' : `:${userId}`
+    const switched = storageScope !== this.storageScope
+
+    await dbManager.useUserDatabase(owner === userId ? null : userId)
+    this.boundUserId = userId
+    this.storageScope = storageScope
+    if (!switched) return
+
+    this.setStatus({
+      lastSyncedAt: readStorage(this.scopedKey(LAST_SYNCED_STORAGE_KEY)),
+      pendingCount: await this.countPending(),
+      conflicts: [],
+      error: null,
+      revision: this.status.revision + 1,
+    })
+  }
+
+  private scopedKey(key: string): string {
+    return `${key}${this.storageScope}`
+  }
+
+  // Gộp nhiều thay đổi local liên tiếp thành một lần đồng bộ
+  private scheduleSync(): void {
+    this.refreshPendingCount()
+    if (!this.status.enabled) return
+
+    if (this.debounceId) clearTimeout(this.debounceId)
+    this.debounceId = setTimeout(() => {
+      this.debounceId = null
+      this.sync()
+    }, LOCAL_CHANGE_DEBOUNCE_MS)
+  }
+
+  // Tổng số thay đổi entry, folder và file đính kèm chưa đẩy lên
+  private async countPending(): Promise<number> {
+    const [queue, folderQueue, attachmentQueue] = await Promise.all([
+      dbManager.getSyncQueue(),
+      dbManager.getFolderSyncQueue(),
+      dbManager.getAttachmentSyncQueue(),
+    ])
+    return queue.length + folderQueue.length + attachmentQueue.length
+  }
+
+  private async refreshPendingCount(): Promise<void> {
+    try {
+      this.setStatus({ pendingCount: await this.countPending() })
+    } catch (error) {
+      logger.error('Không thể đọc hàng đợi đồng bộ:', error)
+    }
+  }
+
+  /**
+   * Đồng bộ ngay: đẩy thay đổi local rồi kéo thay đổi remote
+   * Nếu đang đồng bộ thì lên lịch chạy thêm một lượt sau khi lượt hiện tại xong
+   */
+  public sync(): Promise<void> {
+    if (!this.status.enabled) {
+      return Promise.resolve()
+    }
+    if (!isOnline()) {
+      this.setStatus({ phase: 'offline' })
+      return Promise.resolve()
+    }
+    if (this.running) {
+      this.rerunRequested = true
+      return this.running
+    }
+
+    this.running = (async () => {
+      do {
+        this.rerunRequested = false
+        await this.runOnce()
+      } while (this.rerunRequested && this.status.enabled && isOnline())
+    })().finally(() => {
+      this.running = null
+    })
+
+    return this.running
+  }
+
+  private async runOnce(): Promise<void> {
+    this.setStatus({ phase: 'syncing', error: null })
+
+    try {
+      // RLS chỉ cho phép truy cập rows của user đang đăng nhập
+      await this.bindUser(await AuthService.requireUserId())
+      await this.pushFolders()
+      // Upload file trước entry để thiết bị khác kéo metadata về là tải được file
+      await this.pushAttachments()
+      const conflicts = await this.push()
+      const foldersChanged = await this.pullFolders()
+      const changed = (await this.pull()) || foldersChanged
+      await this.pullAttachments()
+      const now = new Date().toISOString()
+      writeStorage(this.scopedKey(LAST_SYNCED_STORAGE_KEY), now)
+
+      this.setStatus({
+        phase: 'idle',
+        lastSyncedAt: now,
+        pendingCount: await this.countPending(),
+        conflicts,
+        revision: changed ? this.status.revision + 1 : this.status.revision,
+      })
+    } catch (error) {
+      logger.error('Đồng bộ thất bại:', error)
+      this.setStatus({
+        phase: isOnline() ? 'error' : 'offline',
+        error: error instanceof Error ? error.message : 'Đồng bộ thất bại',
+      })
+    }
+  }
+
+  /**
+   * Đẩy thay đổi folder lên Supabase (ghi đè bản remote)
+   */
+  private async pushFolders(): Promise<void> {
+    const queue = await dbManager.getFolderSyncQueue()
+    if (queue.length === 0) return
+
+    const localById = new Map((await dbManager.getRawFolders()).map((record) => [record.id, record]))
+
+    for (const item of queue) {
+      const local = localById.get(item.folderId)
+      if (item.op === 'upsert' && local) {
+        const { syncedAt, ...folder } = local
+        const [row] = await SupabaseFolderService.upsertRows([FolderMapper.toSupabase(folder)])
+        await dbManager.completeFolderSyncQueueItem(item, row?.updated_at ?? local.updatedAt)
+      } else {
+        await SupabaseFolderService.deleteRows([item.folderId])
+        await dbManager.completeFolderSyncQueueItem(item, undefined)
+      }
+    }
+  }
+
+  /**
+   * Kéo toàn bộ folder từ Supabase (số lượng nhỏ nên không cần checkpoint)
+   * @returns true nếu dữ liệu local bị thay đổi
+   */
+  private async pullFolders(): Promise<boolean> {
+    const rows = await SupabaseFolderService.fetchAllRows()
+    const pendingIds = new Set((await dbManager.getFolderSyncQueue()).map((item) => item.folderId))
+    const localRecords = await dbManager.getRawFolders()
+    const localById = new Map(localRecords.map((record) => [record.id, record]))
+    const remoteIds = new Set(rows.map((row) => row.id))
+
+    const toPut: LocalFolderRecord[] = rows
+      .filter((row) => !pendingIds.has(row.id) && localById.get(row.id)?.syncedAt !== row.updated_at)
+      .map((row) => ({ ...FolderMapper.toLocal(row), syncedAt: row.updated_at }))
+    const toDelete = localRecords
+      .filter((record) => record.syncedAt && !remoteIds.has(record.id) && !pendingIds.has(record.id))
+      .map((record) => record.id)
+
+    await dbManager.putRawFolders(toPut)
+    await dbManager.deleteRawFolders(toDelete)
+
+    return toPut.length > 0 || toDelete.length > 0
+  }
+
+  /**
+   * Đẩy thay đổi nội dung file đính kèm lên Supabase Storage
+   */
+  private async pushAttachments(): Promise<void> {
+    for (const item of await dbManager.getAttachmentSyncQueue()) {
+      if (item.op === 'upload') {
+        const blob = await dbManager.getRawAttachmentBlob(item.attachmentId)
+        // File đã bị xóa local trong lúc chờ - lượt delete kế tiếp (nếu có) sẽ dọn remote
+        if (blob) {
+          await SupabaseAttachmentService.uploadBlob(item.entryId, item.attachmentId, blob.data)
+        }
+      } else {
+        await SupabaseAttachmentService.removeBlobs([{ entryId: item.entryId, attachmentId: item.attachmentId }])
+      }
+      await dbManager.completeAttachmentSyncQueueItem(item)
+    }
+  }
+
+  /**
+   * Tải các file được entry local tham chiếu nhưng chưa có nội dung,
+   * xóa nội dung file không còn entry nào tham chiếu
+   */
+  private async pullAttachments(): Promise<void> {
+    const records = await dbManager.getRawPasswords()
+    const localIds = new Set(await dbManager.getRawAttachmentIds())
+    // Đọc hàng đợi sau cùng để không xóa nhầm file vừa được thêm trong lúc đồng bộ
+    const pendingUploads = new Set((await dbManager.getAttachmentSyncQueue())
+      .filter((item) => item.op === 'upload')
+      .map((item) => item.attachmentId))
+    const referencedIds = new Set(getAttachmentIds(records))
+
+    for (const record of records) {
+      for (const attachment of record.attachments ?? []) {
+        if (localIds.has(attachment.id)) continue
+        // File chưa có trên bucket (thiết bị khác chưa upload xong) sẽ được thử lại ở lượt sau
+        const data = await SupabaseAttachmentService.downloadBlob(record.id, attachment.id)
+        if (data) {
+          await dbManager.putRawAttachmentBlobs([{ id: attachment.id, entryId: record.id, data }])
+        }
+      }
+    }
+
+    await dbManager.deleteRawAttachmentBlobs(
+      Array.from(localIds).filter((id) => !referencedIds.has(id) && !pendingUploads.has(id))
+    )
+  }
+
+  /**
+   * Đẩy hàng đợi lên Supabase
+   * @returns Danh sách xung đột (cả hai phía cùng thay đổi)
+   */
+  private async push(): Promise<SyncConflict[]> {
+    const queue = await dbManager.getSyncQueue()
+    const conflicts: SyncConflict[] = []
+
+    for (const item of queue) {
+      const local = await dbManager.getRawPassword(item.entryId)
+      const remote = await SupabasePasswordService.fetchRowById(item.entryId)
+
+      // Remote đã đổi kể từ lần đồng bộ mà thay đổi local dựa trên
+      const remoteChanged = remote ? remote.updated_at !== item.baseSyncedAt : Boolean(item.baseSyncedAt)
+      const bothDeleted = item.op === 'delete' && !remote
+
+      if (remoteChanged && !bothDeleted) {
+        conflicts.push({ entryId: item.entryId, queueItem: item, local, remote })
+        continue
+      }
+
+      await this.applyLocalToRemote(item, local, remote)
+    }
+
+    return conflicts
+  }
+
+  // Ghi bản local lên Supabase và đánh dấu thay đổi đã đồng bộ
+  private async applyLocalToRemote(
+    item: SyncQueueItem,
+    local: LocalPasswordRecord | null,
+    remote: SupabasePasswordEntry | null
+  ): Promise<void> {
+    if (item.op === 'upsert' && local) {
+      const [row] = await SupabasePasswordService.upsertRows([PasswordEntryMapper.toSupabase(local)])
+      await dbManager.completeSyncQueueItem(item, row?.updated_at ?? local.updatedAt)
+      return
+    }
+
+    // Hàng đợi chỉ ghi 'delete' khi xóa vĩnh viễn (thùng rác được đồng bộ dạng upsert)
+    if (remote) {
+      await SupabasePasswordService.purgePassword(item.entryId)
+    }
+    await dbManager.completeSyncQueueItem(item, undefined)
+  }
+
+  /**
+   * Kéo thay đổi remote kể từ checkpoint xuống IndexedDB
+   * Bỏ qua các entry còn thay đổi local chưa đẩy được (ví dụ đang xung đột)
+   * @returns true nếu dữ liệu local bị thay đổi
+   */
+  private async pull(): Promise<boolean> {
+    const checkpoint = readStorage(this.scopedKey(CHECKPOINT_STORAGE_KEY))
+    const since = checkpoint ? new Date(new Date(checkpoint).getTime() - CHECKPOINT_OVERLAP_MS).toISOString() : null
+    const rows = await SupabasePasswordService.fetchRowsUpdatedSince(since)
+    const pendingIds = new Set((await dbManager.getSyncQueue()).map((item) => item.entryId))
+    const localRecords = await dbManager.getRawPasswords()
+    const localById = new Map(localRecords.map((record) => [record.id, record]))
+
+    const toPut: LocalPasswordRecord[] = rows
+      .filter((row) => !pendingIds.has(row.id))
+      .filter((row) => localById.get(row.id)?.syncedAt !== row.updated_at)
+      .map((row) => ({ ...PasswordEntryMapper.toLocal(row), syncedAt: row.updated_at }))
+
+    // Hard delete trên server không để lại dấu vết theo updated_at, nên so sánh danh sách ID
+    const remoteIds = new Set(await SupabasePasswordService.fetchAllIds())
+    const toDelete = localRecords
+      .filter((record) => record.syncedAt && !remoteIds.has(record.id) && !pendingIds.has(record.id))
+      .map((record) => record.id)
+
+    await dbManager.putRawPasswords(toPut)
+    await dbManager.deleteRawPasswords(toDelete)
+
+    // Chỉ tiến checkpoint - các row trong khoảng lùi có thể cũ hơn checkpoint hiện tại
+    const latest = rows[rows.length - 1]?.updated_at
+    if (latest && (!checkpoint || new Date(latest).getTime() > new Date(checkpoint).getTime())) {
+      writeStorage(this.scopedKey(CHECKPOINT_STORAGE_KEY), latest)
+    }
+
+    return toPut.length > 0 || toDelete.length > 0
+  }
+
+  /**
+   * Giải quyết một xung đột theo lựa chọn của user
+   * - 'local': ghi đè Supabase bằng bản trên thiết bị
+   * - 'remote': ghi đè thiết bị bằng bản trên Supabase
+   */
+  public async resolveConflict(entryId: string, resolution: ConflictResolution): Promise<void> {
+    const conflict = this.status.conflicts.find((item) => item.entryId === entryId)
+    if (!conflict) return
+
+    const { queueItem, remote } = conflict
+    // Đọc lại bản local mới nhất phòng khi user đã sửa tiếp
+    const local = await dbManager.getRawPassword(entryId)
+
+    if (resolution === 'local') {
+      const localVersion = local ? { ...local, updatedAt: new Date().toISOString() } : null
+      await this.applyLocalToRemote(
+        { ...queueItem, op: localVersion ? 'upsert' : 'delete' },
+        localVersion,
+        remote
+      )
+    } else if (remote) {
+      await dbManager.putRawPasswords([{ ...PasswordEntryMapper.toLocal(remote), syncedAt: remote.updated_at }])
+      await dbManager.completeSyncQueueItem(queueItem, remote.updated_at)
+    } else {
+      await dbManager.deleteRawPasswords([entryId])
+      await dbManager.completeSyncQueueItem(queueItem, undefined)
+    }
+
+    this.setStatus({
+      conflicts: this.status.conflicts.filter((item) => item.entryId !== entryId),
+      pendingCount: await this.countPending(),
+      revision: this.status.revision + 1,
+    })
+  }
+
+  /**
+   * Giải quyết toàn bộ xung đột bằng cách giữ bản có updated_at mới hơn
+   */
+  public async resolveAllByUpdatedAt(): Promise<void> {
+    for (const conflict of [...this.status.conflicts]) {
+      await this.resolveConflict(conflict.entryId, pickNewerSide(conflict))
+    }
+  }
+}
+
+/**
+ * Chọn phía có updated_at mới hơn; phía đã xóa được coi là cũ hơn
+ */
+export function pickNewerSide(conflict: SyncConflict): ConflictResolution {
+  if (!conflict.local) return 'remote'
+  if (!conflict.remote) return 'local'
+  return new Date(conflict.local.updatedAt).getTime() >= new Date(conflict.remote.updated_at).getTime()
+    ? 'local'
+    : 'remote'
+}
+
+// Export instance mặc định
+export const syncEngine = SyncEngine.getInstance()
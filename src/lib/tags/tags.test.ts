@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { collectTags, matchesTagFilter, normalizeTag, normalizeTags } from './tags'
+import { getEntryValidationErrors } from '../password-validation'
+import type { PasswordEntry } from '../types/password'
+
+const entry = (tags?: string[]): PasswordEntry => ({
+  id: 'e1',
+  service: 'GitHub',
+  username: 'alice',
+  password: 'pw',
+  tags,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+})
+
+describe('normalizeTag', () => {
+  it('bỏ dấu #, khoảng trắng thừa và chuyển chữ thường', () => {
+    expect(normalizeTag('  ##Công   Việc ')).toBe('công việc')
+    expect(normalizeTag('#')).toBe('')
+  })
+
+  it('loại tag rỗng và trùng sau khi chuẩn hóa, giữ thứ tự nhập', () => {
+    expect(normalizeTags(['Work', '#work', '  ', 'Bank', 'WORK'])).toEqual(['work', 'bank'])
+  })
+})
+
+describe('matchesTagFilter', () => {
+  it('and yêu cầu đủ mọi tag, or chỉ cần một tag', () => {
+    const tagged = entry(['work', 'bank'])
+
+    expect(matchesTagFilter(tagged, ['work', 'bank'])).toBe(true)
+    expect(matchesTagFilter(tagged, ['work', 'home'], 'and')).toBe(false)
+    expect(matchesTagFilter(tagged, ['work', 'home'], 'or')).toBe(true)
+    expect(matchesTagFilter(entry(), ['work'], 'or')).toBe(false)
+  })
+
+  it('không chọn tag nào thì luôn khớp', () => {
+    expect(matchesTagFilter(entry(), [])).toBe(true)
+    expect(matchesTagFilter(entry(), undefined)).toBe(true)
+  })
+})
+
+describe('collectTags', () => {
+  it('trả danh sách tag duy nhất sắp xếp theo tên', () => {
+    expect(collectTags([{ tags: ['work', 'bank'] }, { tags: null }, { tags: ['bank', 'ăn uống'] }])).toEqual(['ăn uống', 'bank', 'work'])
+  })
+})
+
+describe('validation', () => {
+  it('chỉ nhận tag đã chuẩn hóa và giới hạn số tag mỗi entry', () => {
+    expect(getEntryValidationErrors({ tags: ['work', 'ngân hàng'] })).toEqual([])
+    expect(getEntryValidationErrors({ tags: ['Work'] })).toHaveLength(1)
+    expect(getEntryValidationErrors({ tags: Array.from({ length: 21 }, (_, i) => `tag-${i}`) })).toEqual(['At most 20 tags per entry'])
+  })
+})
@@ -0,0 +1,55 @@
+import type { PasswordEntry } from '../types/password'
+
+/**
+ * Tags - nhãn tự do gắn lên entry (quan hệ nhiều-nhiều: một entry có nhiều tag,
+ * một tag dùng cho nhiều entry). Tag được lưu trực tiếp trên entry dạng
+ * mảng tên đã chuẩn hóa nên không cần bảng riêng hay đồng bộ riêng.
+ *
+ * Tag lưu plaintext giống service/username để backend có thể lọc.
+ */
+
+export const TAG_LIMITS = {
+  tagLength: 50,
+  tagsPerEntry: 20,
+} as const
+
+/**
+ * Cách kết hợp nhiều tag khi lọc
+ * - and: entry phải có tất cả tag đã chọn
+ * - or: entry có ít nhất một tag đã chọn
+ */
+export type TagMatchMode = 'and' | 'or'
+
+/**
+ * Chuẩn hóa tên tag: bỏ khoảng trắng thừa, chữ thường, bỏ dấu # ở đầu
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Chuẩn hóa và loại bỏ tag trùng/rỗng, giữ thứ tự nhập
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)))
+}
+
+/**
+ * Entry có khớp bộ lọc tag hay không (không chọn tag nào thì luôn khớp)
+ */
+export function matchesTagFilter(entry: PasswordEntry, tags: string[] | undefined, mode: TagMatchMode = 'and'): boolean {
+  if (!tags || tags.length === 0) return true
+
+  const entryTags = new Set(entry.tags ?? [])
+  return mode === 'and'
+    ? tags.every((tag) => entryTags.has(tag))
+    : tags.some((tag) => entryTags.has(tag))
+}
+
+/**
+ * Danh sách tag duy nhất trong vault, sắp xếp theo tên
+ */
+export function collectTags(entries: Array<{ tags?: string[] | null }>): string[] {
+  return Array.from(new Set(entries.flatMap((entry) => entry.tags ?? [])))
+    .sort((a, b) => a.localeCompare(b, 'vi'))
+}
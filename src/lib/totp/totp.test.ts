@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { TotpParseError, base32Decode, generateHotp, generateTotp, parseTotpSecret, type TotpAlgorithm, type TotpParams } from './totp'
+
+const encoder = new TextEncoder()
+
+// Secret của test vector RFC 6238 phụ lục B: chuỗi ASCII "1234567890" lặp lại theo độ dài của hash
+const RFC_SECRETS: Record<TotpAlgorithm, string> = {
+  SHA1: '12345678901234567890',
+  SHA256: '12345678901234567890123456789012',
+  SHA512: '1234567890123456789012345678901234567890123456789012345678901234',
+}
+
+// RFC 6238 phụ lục B - thời điểm (giây) và mã 8 chữ số theo từng thuật toán
+const RFC_6238_VECTORS: { time: number; codes: Record<TotpAlgorithm, string> }[] = [
+  { time: 59, codes: { SHA1: '94287082', SHA256: '46119246', SHA512: '90693936' } },
+  { time: 1111111109, codes: { SHA1: '07081804', SHA256: '68084774', SHA512: '25091201' } },
+  { time: 1111111111, codes: { SHA1: '14050471', SHA256: '67062674', SHA512: '99943326' } },
+  { time: 1234567890, codes: { SHA1: '89005924', SHA256: '91819424', SHA512: '93441116' } },
+  { time: 2000000000, codes: { SHA1: '69279037', SHA256: '90698825', SHA512: '38618901' } },
+  { time: 20000000000, codes: { SHA1: '65353130', SHA256: '77737706', SHA512: '47863826' } },
+]
+
+// RFC 4226 phụ lục D - mã HOTP 6 chữ số cho counter 0..9
+const RFC_4226_CODES = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489']
+
+const rfcParams = (algorithm: TotpAlgorithm): TotpParams => ({
+  secret: encoder.encode(RFC_SECRETS[algorithm]),
+  algorithm,
+  digits: 8,
+  period: 30,
+})
+
+describe('generateHotp', () => {
+  it.each(RFC_4226_CODES.map((code, counter) => [counter, code]))('khớp RFC 4226 với counter %i', async (counter, code) => {
+    expect(await generateHotp(encoder.encode(RFC_SECRETS.SHA1), counter)).toBe(code)
+  })
+})
+
+describe('generateTotp', () => {
+  for (const algorithm of ['SHA1', 'SHA256', 'SHA512'] as const) {
+    it.each(RFC_6238_VECTORS.map(({ time, codes }) => [time, codes[algorithm]]))(
+      `khớp RFC 6238 (${algorithm}) tại T=%i`,
+      async (time, code) => {
+        const result = await generateTotp(rfcParams(algorithm), time * 1000)
+        expect(result.code).toBe(code)
+      }
+    )
+  }
+
+  it('tính số giây còn lại của chu kỳ hiện tại', async () => {
+    const result = await generateTotp(rfcParams('SHA1'), 59 * 1000)
+    expect(result).toMatchObject({ remainingSeconds: 1, period: 30 })
+  })
+})
+
+describe('parseTotpSecret', () => {
+  it('decode secret base32 với tham số mặc định', () => {
+    const params = parseTotpSecret('gezd gnbv gy3t qojq gezd gnbv gy3t qojq')
+    expect(new TextDecoder().decode(params.secret)).toBe(RFC_SECRETS.SHA1)
+    expect(params).toMatchObject({ algorithm: 'SHA1', digits: 6, period: 30 })
+  })
+
+  it('đọc thuật toán, số chữ số, chu kỳ và nhãn từ URI otpauth', () => {
+    const params = parseTotpSecret(
+      'otpauth://totp/Example:alice@example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&algorithm=SHA256&digits=8&period=60&issuer=Example'
+    )
+    expect(params).toMatchObject({ algorithm: 'SHA256', digits: 8, period: 60, issuer: 'Example', account: 'alice@example.com' })
+  })
+
+  it('sinh cùng mã RFC 6238 từ secret đã parse', async () => {
+    const params = { ...parseTotpSecret('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'), digits: 8 }
+    expect((await generateTotp(params, 1111111109 * 1000)).code).toBe('07081804')
+  })
+
+  it('throw TotpParseError khi secret không hợp lệ', () => {
+    expect(() => parseTotpSecret('')).toThrow(TotpParseError)
+    expect(() => base32Decode('not-base32!')).toThrow(TotpParseError)
+  })
+})
@@ -0,0 +1,201 @@
+/**
+ * TOTP/HOTP - sinh mã 2FA theo RFC 4226 (HOTP) và RFC 6238 (TOTP)
+ *
+ * Secret nhận vào có thể là chuỗi base32 (như các app authenticator hiển thị)
+ * hoặc URI `otpauth://totp/...` đầy đủ từ QR code.
+ */
+
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512'
+
+export interface TotpParams {
+  secret: Uint8Array<ArrayBuffer>
+  algorithm: TotpAlgorithm
+  digits: number
+  period: number // giây
+  issuer?: string
+  account?: string
+}
+
+export interface TotpCode {
+  code: string
+  // Số giây còn lại trước khi mã đổi
+  remainingSeconds: number
+  period: number
+}
+
+const DEFAULT_PERIOD = 30
+const DEFAULT_DIGITS = 6
+const MIN_DIGITS = 6
+const MAX_DIGITS = 8
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+const HMAC_HASH: Record<TotpAlgorithm, string> = {
+  SHA1: 'SHA-1',
+  SHA256: 'SHA-256',
+  SHA512: 'SHA-512',
+}
+
+/**
+ * Error khi secret/URI TOTP không hợp lệ
+ */
+export class TotpParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TotpParseError'
+  }
+}
+
+/**
+ * Decode base32 (RFC 4648), bỏ qua khoảng trắng, dấu gạch và padding
+ */
+export function base32Decode(value: string) {
+  const cleaned = value.toUpperCase().replace(/[\s-]/g, '').replace(/=+$/, '')
+  if (!cleaned) {
+    throw new TotpParseError('Secret TOTP trống')
+  }
+
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new TotpParseError(`Ký tự không hợp lệ trong secret base32: ${char}`)
+    }
+    buffer = (buffer << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bits -= 8
+      bytes.push((buffer >> bits) & 0xff)
+    }
+  }
+
+  return new Uint8Array(bytes)
+}
+
+function parseAlgorithm(value: string | null): TotpAlgorithm {
+  const normalized = (value ?? 'SHA1').toUpperCase().replace('-', '')
+  if (normalized === 'SHA1' || normalized === 'SHA256' || normalized === 'SHA512') {
+    return normalized
+  }
+  throw new TotpParseError(`Thuật toán TOTP không được hỗ trợ: ${value}`)
+}
+
+function parseIntParam(value: string | null, fallback: number, name: string): number {
+  if (value === null) return fallback
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new TotpParseError(`Tham số ${name} không hợp lệ: ${value}`)
+  }
+  return parsed
+}
+
+function parseOtpAuthUri(uri: string): TotpParams {
+  let url: URL
+  try {
+    url = new URL(uri)
+  } catch {
+    throw new TotpParseError('URI otpauth không hợp lệ')
+  }
+
+  // new URL() đặt "totp" vào host với scheme không chuẩn như otpauth:
+  const type = (url.host || url.pathname.replace(/^\/\//, '').split('/')[0]).toLowerCase()
+  if (type !== 'totp') {
+    throw new TotpParseError('Chỉ hỗ trợ otpauth://totp')
+  }
+
+  const secret = url.searchParams.get('secret')
+  if (!secret) {
+    throw new TotpParseError('URI otpauth thiếu tham số secret')
+  }
+
+  const label = decodeURIComponent(url.pathname.replace(/^\/+/, '').replace(/^totp\//i, ''))
+  const [labelIssuer, account] = label.includes(':') ? label.split(':', 2) : [undefined, label]
+
+  const digits = parseIntParam(url.searchParams.get('digits'), DEFAULT_DIGITS, 'digits')
+  if (digits < MIN_DIGITS || digits > MAX_DIGITS) {
+    throw new TotpParseError(`Số chữ số phải trong khoảng ${MIN_DIGITS}-${MAX_DIGITS}`)
+  }
+
+  return {
+    secret: base32Decode(secret),
+    algorithm: parseAlgorithm(url.searchParams.get('algorithm')),
+    digits,
+    period: parseIntParam(url.searchParams.get('period'), DEFAULT_PERIOD, 'period'),
+    issuer: url.searchParams.get('issuer') ?? labelIssuer?.trim(),
+    account: account?.trim() || undefined,
+  }
+}
+
+/**
+ * Parse secret base32 hoặc URI otpauth://totp
+ * @throws TotpParseError nếu không hợp lệ
+ */
+export function parseTotpSecret(value: string): TotpParams {
+  const trimmed = value.trim()
+  if (/^otpauth:/i.test(trimmed)) {
+    return parseOtpAuthUri(trimmed)
+  }
+
+  return {
+    secret: base32Decode(trimmed),
+    algorithm: 'SHA1',
+    digits: DEFAULT_DIGITS,
+    period: DEFAULT_PERIOD,
+  }
+}
+
+/**
+ * Secret hợp lệ hay không - dùng khi validate entry
+ */
+export function isValidTotpSecret(value: string): boolean {
+  try {
+    parseTotpSecret(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Sinh mã HOTP (RFC 4226) cho một counter
+ */
+export async function generateHotp(
+  secret: Uint8Array<ArrayBuffer>,
+  counter: number,
+  { algorithm = 'SHA1', digits = DEFAULT_DIGITS }: { algorithm?: TotpAlgorithm; digits?: number } = {}
+): Promise<string> {
+  // Counter 8 byte big-endian
+  const counterBytes = new Uint8Array(8)
+  const view = new DataView(counterBytes.buffer)
+  view.setUint32(0, Math.floor(counter / 0x100000000))
+  view.setUint32(4, counter >>> 0)
+
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: HMAC_HASH[algorithm] }, false, ['sign'])
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counterBytes))
+
+  // Dynamic truncation (RFC 4226 mục 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0')
+}
+
+/**
+ * Sinh mã TOTP (RFC 6238) tại thời điểm `now`
+ */
+export async function generateTotp(params: TotpParams, now: number = Date.now()): Promise<TotpCode> {
+  const seconds = Math.floor(now / 1000)
+  const counter = Math.floor(seconds / params.period)
+  const code = await generateHotp(params.secret, counter, params)
+
+  return {
+    code,
+    remainingSeconds: params.period - (seconds % params.period),
+    period: params.period,
+  }
+}
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getDaysUntilPurge,
+  getTrashPurgeCutoff,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  sortByDeletedAtDesc,
+} from './trash'
+import type { PasswordEntry } from '../types/password'
+
+const NOW = new Date('2024-03-31T00:00:00.000Z')
+
+const trashed = (id: string, deletedAt: string | null): PasswordEntry => ({
+  id,
+  service: id,
+  username: 'alice',
+  password: 'pw',
+  deletedAt,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+})
+
+describe('trash', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('tính mốc xóa vĩnh viễn theo số ngày lưu giữ', () => {
+    expect(getTrashPurgeCutoff(30, NOW)).toBe('2024-03-01T00:00:00.000Z')
+    expect(getTrashPurgeCutoff(0, NOW)).toBeNull()
+  })
+
+  it('tính số ngày còn lại trước khi tự xóa', () => {
+    expect(getDaysUntilPurge(trashed('a', '2024-03-30T12:00:00.000Z'), 30, NOW)).toBe(30)
+    expect(getDaysUntilPurge(trashed('a', '2024-02-01T00:00:00.000Z'), 30, NOW)).toBe(0)
+    expect(getDaysUntilPurge(trashed('a', '2024-03-30T00:00:00.000Z'), 0, NOW)).toBeNull()
+    expect(getDaysUntilPurge(trashed('a', null), 30, NOW)).toBeNull()
+  })
+
+  it('sắp xếp entry mới xóa trước', () => {
+    const entries = [trashed('old', '2024-03-01T00:00:00.000Z'), trashed('new', '2024-03-20T00:00:00.000Z')]
+    expect(sortByDeletedAtDesc(entries).map((entry) => entry.id)).toEqual(['new', 'old'])
+  })
+
+  it('đọc và giới hạn số ngày lưu giữ', () => {
+    expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS)
+    setTrashRetentionDays(1000)
+    expect(getTrashRetentionDays()).toBe(365)
+    setTrashRetentionDays(0)
+    expect(getTrashRetentionDays()).toBe(0)
+  })
+})
@@ -0,0 +1,63 @@
+import type { PasswordEntry } from '../types/password'
+
+/**
+ * Thùng rác - entry bị xóa được đánh dấu deletedAt thay vì xóa ngay,
+ * có thể khôi phục cho tới khi bị xóa vĩnh viễn (thủ công hoặc tự động
+ * sau thời gian lưu giữ).
+ */
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+export const MAX_TRASH_RETENTION_DAYS = 365
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RETENTION_STORAGE_KEY = 'memory-safe-guard-trash-retention-days'
+
+const clampRetention = (days: number): number =>
+  Math.min(MAX_TRASH_RETENTION_DAYS, Math.max(0, Math.floor(days)))
+
+/**
+ * Số ngày giữ entry trong thùng rác trước khi tự xóa vĩnh viễn (0: không tự xóa)
+ */
+export function getTrashRetentionDays(): number {
+  try {
+    const stored = localStorage.getItem(RETENTION_STORAGE_KEY)
+    const days = stored === null ? NaN : Number(stored)
+    return Number.isFinite(days) ? clampRetention(days) : DEFAULT_TRASH_RETENTION_DAYS
+  } catch {
+    return DEFAULT_TRASH_RETENTION_DAYS
+  }
+}
+
+export function setTrashRetentionDays(days: number): void {
+  try {
+    localStorage.setItem(RETENTION_STORAGE_KEY, String(clampRetention(days)))
+  } catch (error) {
+    console.warn('Failed to save trash retention to localStorage:', error)
+  }
+}
+
+export const isTrashed = (entry: Pick<PasswordEntry, 'deletedAt'>): boolean => Boolean(entry.deletedAt)
+
+/**
+ * Mốc thời gian: entry vào thùng rác trước mốc này sẽ bị xóa vĩnh viễn
+ * @returns null nếu tắt tự xóa
+ */
+export function getTrashPurgeCutoff(retentionDays: number = getTrashRetentionDays(), now: Date = new Date()): string | null {
+  return retentionDays > 0 ? new Date(now.getTime() - retentionDays * DAY_MS).toISOString() : null
+}
+
+/**
+ * Số ngày còn lại trước khi entry trong thùng rác bị tự xóa
+ * @returns null nếu tắt tự xóa
+ */
+export function getDaysUntilPurge(entry: Pick<PasswordEntry, 'deletedAt'>, retentionDays: number = getTrashRetentionDays(), now: Date = new Date()): number | null {
+  if (!entry.deletedAt || retentionDays <= 0) return null
+  const purgeAt = new Date(entry.deletedAt).getTime() + retentionDays * DAY_MS
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS))
+}
+
+/**
+ * Sort theo deletedAt giảm dần (mới xóa trước)
+ */
+export const sortByDeletedAtDesc = (entries: PasswordEntry[]): PasswordEntry[] =>
+  [...entries].sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''))
@@ -1,3 +1,7 @@
+import type { AttachmentMeta, CustomField, EntryUrl, ItemDetails, ItemType, PasswordEntry, PasswordHistoryItem, UpdatePasswordEntry } from './password'
+import type { Folder, UpdateFolder } from './folder'
+import type { KdfParams } from '../crypto/vault-crypto'
+
 /**
  * Database Types cho Supabase
  * Định nghĩa structure của các bảng trong database
@@ -6,33 +10,145 @@
 export interface Database {
   public: {
     Tables: {
+      vault_keys: {
+        Row: {
+          user_id: string
+          version: number
+          kdf: KdfParams
+          verifier: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id?: string // Mặc định auth.uid() phía database
+          version?: number
+          kdf: KdfParams
+          verifier: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          version?: number
+          kdf?: KdfParams
+          verifier?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       passwords: {
         Row: {
           id: string
+          user_id: string
           service: string
           username: string
           password: string
+          password_history: PasswordHistoryItem[]
+          password_changed_at: string | null
+          rotation_interval_days: number | null
+          urls: EntryUrl[]
+          notes: string
+          custom_fields: CustomField[]
+          totp: string
+          folder_id: string | null
+          tags: string[]
+          favorite: boolean
+          favorite_order: number | null
+          attachments: AttachmentMeta[]
+          // Generated column (search_fold(service || ' ' || username)) - chỉ đọc
+          search_text: string
+          item_type: ItemType
+          details: ItemDetails | null
+          deleted_at: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
+          user_id?: string // Mặc định auth.uid() phía database
           service: string
           username: string
           password: string
+          password_history?: PasswordHistoryItem[]
+          password_changed_at?: string | null
+          rotation_interval_days?: number | null
+          urls?: EntryUrl[]
+          notes?: string
+          custom_fields?: CustomField[]
+          totp?: string
+          folder_id?: string | null
+          tags?: string[]
+          favorite?: boolean
+          favorite_order?: number | null
+          attachments?: AttachmentMeta[]
+          item_type?: ItemType
+          details?: ItemDetails | null
+          deleted_at?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
+          user_id?: string
           service?: string
           username?: string
           password?: string
+          password_history?: PasswordHistoryItem[]
+          password_changed_at?: string | null
+          rotation_interval_days?: number | null
+          urls?: EntryUrl[]
+          notes?: string
+          custom_fields?: CustomField[]
+          totp?: string
+          folder_id?: string | null
+          tags?: string[]
+          favorite?: boolean
+          favorite_order?: number | null
+          attachments?: AttachmentMeta[]
+          item_type?: ItemType
+          details?: ItemDetails | null
+          deleted_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      folders: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          parent_id: string | null
+          rotation_interval_days: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string // Mặc định auth.uid() phía database
+          name: string
+          parent_id?: string | null
+          rotation_interval_days?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          parent_id?: string | null
+          rotation_interval_days?: number | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
     }
+    Views: Record<string, never>
+    Functions: Record<string, never>
+    Enums: Record<string, never>
+    CompositeTypes: Record<string, never>
   }
 }
 
@@ -43,6 +159,9 @@ export interface Database {
 export type SupabasePasswordEntry = Database['public']['Tables']['passwords']['Row']
 export type SupabasePasswordInsert = Database['public']['Tables']['passwords']['Insert']
 export type SupabasePasswordUpdate = Database['public']['Tables']['passwords']['Update']
+export type SupabaseFolder = Database['public']['Tables']['folders']['Row']
+export type SupabaseFolderInsert = Database['public']['Tables']['folders']['Insert']
+export type SupabaseFolderUpdate = Database['public']['Tables']['folders']['Update']
 
 /**
  * Utility functions để convert giữa local và remote format
@@ -53,11 +172,25 @@ export const PasswordEntryMapper = {
    * Convert từ Supabase format sang Local format
    * Note: Không cần convert vì đã dùng tên cột chuẩn
    */
-  toLocal: (supabaseEntry: SupabasePasswordEntry): import('../supabase-service-fixed').PasswordEntry => ({
+  toLocal: (supabaseEntry: SupabasePasswordEntry): PasswordEntry => ({
     id: supabaseEntry.id,
     service: supabaseEntry.service,
     username: supabaseEntry.username,
     password: supabaseEntry.password,
+    passwordHistory: supabaseEntry.password_history ?? [],
+    urls: supabaseEntry.urls ?? [],
+    notes: supabaseEntry.notes ?? '',
+    customFields: supabaseEntry.custom_fields ?? [],
+    totp: supabaseEntry.totp ?? '',
+    folderId: supabaseEntry.folder_id ?? null,
+    tags: supabaseEntry.tags ?? [],
+    details: supabaseEntry.details ?? undefined,
+    deletedAt: supabaseEntry.deleted_at ?? null,
+    favorite: supabaseEntry.favorite ?? false,
+    favoriteOrder: supabaseEntry.favorite_order ?? null,
+    attachments: supabaseEntry.attachments ?? [],
+    passwordChangedAt: supabaseEntry.password_changed_at ?? undefined,
+    rotationIntervalDays: supabaseEntry.rotation_interval_days ?? null,
     createdAt: supabaseEntry.created_at,
     updatedAt: supabaseEntry.updated_at
   }),
@@ -66,29 +199,109 @@ export const PasswordEntryMapper = {
    * Convert từ Local format sang Supabase format
    * Note: Không cần convert vì đã dùng tên cột chuẩn
    */
-  toSupabase: (localEntry: import('../supabase-service-fixed').PasswordEntry): SupabasePasswordInsert => ({
+  toSupabase: (localEntry: PasswordEntry): SupabasePasswordInsert => ({
     id: localEntry.id,
     service: localEntry.service,
     username: localEntry.username,
     password: localEntry.password,
+    password_history: localEntry.passwordHistory ?? [],
+    urls: localEntry.urls ?? [],
+    notes: localEntry.notes ?? '',
+    custom_fields: localEntry.customFields ?? [],
+    totp: localEntry.totp ?? '',
+    folder_id: localEntry.folderId ?? null,
+    tags: localEntry.tags ?? [],
+    item_type: localEntry.details?.type ?? 'login',
+    details: localEntry.details ?? null,
+    deleted_at: localEntry.deletedAt ?? null,
+    favorite: localEntry.favorite ?? false,
+    favorite_order: localEntry.favoriteOrder ?? null,
+    attachments: localEntry.attachments ?? [],
+    password_changed_at: localEntry.passwordChangedAt ?? null,
+    rotation_interval_days: localEntry.rotationIntervalDays ?? null,
     created_at: localEntry.createdAt,
     updated_at: localEntry.updatedAt
-  })
+  }),
+
+  /**
+   * Convert các field nội dung (không gồm id, timestamps) sang cột Supabase
+   * Chỉ giữ các field có trong input - dùng cho insert và partial update
+   */
+  toSupabaseFields: (entry: UpdatePasswordEntry): SupabasePasswordUpdate => {
+    const fields: SupabasePasswordUpdate = {}
+    if (entry.service !== undefined) fields.service = entry.service
+    if (entry.username !== undefined) fields.username = entry.username
+    if (entry.password !== undefined) fields.password = entry.password
+    if (entry.passwordHistory !== undefined) fields.password_history = entry.passwordHistory
+    if (entry.passwordChangedAt !== undefined) fields.password_changed_at = entry.passwordChangedAt
+    if (entry.rotationIntervalDays !== undefined) fields.rotation_interval_days = entry.rotationIntervalDays
+    if (entry.urls !== undefined) fields.urls = entry.urls
+    if (entry.notes !== undefined) fields.notes = entry.notes
+    if (entry.customFields !== undefined) fields.custom_fields = entry.customFields
+    if (entry.totp !== undefined) fields.totp = entry.totp
+    if (entry.folderId !== undefined) fields.folder_id = entry.folderId
+    if (entry.tags !== undefined) fields.tags = entry.tags
+    if (entry.favorite !== undefined) fields.favorite = entry.favorite
+    if (entry.favoriteOrder !== undefined) fields.favorite_order = entry.favoriteOrder
+    if (entry.attachments !== undefined) fields.attachments = entry.attachments
+    if (entry.deletedAt !== undefined) fields.deleted_at = entry.deletedAt
+    if (entry.details !== undefined) {
+      // item_type tách riêng (plaintext) để lọc theo loại phía server
+      fields.item_type = entry.details.type
+      fields.details = entry.details
+    }
+    return fields
+  }
+}
+
+/**
+ * Convert folder giữa Supabase và Local format
+ */
+export const FolderMapper = {
+  toLocal: (row: SupabaseFolder): Folder => ({
+    id: row.id,
+    name: row.name,
+    parentId: row.parent_id ?? null,
+    rotationIntervalDays: row.rotation_interval_days ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }),
+
+  toSupabase: (folder: Folder): SupabaseFolderInsert => ({
+    id: folder.id,
+    name: folder.name,
+    parent_id: folder.parentId,
+    rotation_interval_days: folder.rotationIntervalDays ?? null,
+    created_at: folder.createdAt,
+    updated_at: folder.updatedAt
+  }),
+
+  // Chỉ giữ các field có trong input - dùng cho partial update
+  toSupabaseFields: (folder: UpdateFolder): SupabaseFolderUpdate => {
+    const fields: SupabaseFolderUpdate = {}
+    if (folder.name !== undefined) fields.name = folder.name
+    if (folder.parentId !== undefined) fields.parent_id = folder.parentId
+    if (folder.rotationIntervalDays !== undefined) fields.rotation_interval_days = folder.rotationIntervalDays
+    return fields
+  }
 }
 
 /**
  * Type guards để kiểm tra data format
  */
-export const isSupabasePasswordEntry = (entry: any): entry is SupabasePasswordEntry => {
-  return entry && 
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null
+
+export const isSupabasePasswordEntry = (entry: unknown): entry is SupabasePasswordEntry => {
+  return isRecord(entry) && 
     typeof entry.id === 'string' &&
     typeof entry.service === 'string' &&
     typeof entry.username === 'string' &&
     typeof entry.password === 'string'
 }
 
-export const isLocalPasswordEntry = (entry: any): entry is import('../supabase-service-fixed').PasswordEntry => {
-  return entry && 
+export const isLocalPasswordEntry = (entry: unknown): entry is PasswordEntry => {
+  return isRecord(entry) && 
     typeof entry.id === 'string' &&
     typeof entry.service === 'string' &&
     typeof entry.username === 'string' &&
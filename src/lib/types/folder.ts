@@ -0,0 +1,26 @@
+/**
+ * Folder Types
+ * Thư mục lồng nhau để sắp xếp vault, dùng chung cho mọi storage backend
+ */
+
+export interface Folder {
+  id: string
+  name: string
+  parentId: string | null // null: thư mục gốc
+  rotationIntervalDays?: number | null // Chu kỳ đổi mật khẩu cho entry bên trong, 0: không nhắc, null hoặc undefined: theo folder cha
+  createdAt: string
+  updatedAt: string
+}
+
+// Type cho việc tạo mới folder
+export type CreateFolder = Pick<Folder, 'name' | 'parentId'> & Partial<Pick<Folder, 'rotationIntervalDays'>>
+
+// Type cho việc đổi tên, di chuyển hoặc đổi chu kỳ nhắc của folder
+export type UpdateFolder = Partial<CreateFolder>
+
+/**
+ * Cách xử lý nội dung khi xóa folder
+ * - move-contents: entry và folder con được chuyển lên folder cha
+ * - delete-contents: xóa luôn toàn bộ folder con và entry bên trong
+ */
+export type FolderDeleteMode = 'move-contents' | 'delete-contents'
@@ -0,0 +1,163 @@
+/**
+ * Password Entry Types
+ * Định nghĩa chung cho mọi storage backend (IndexedDB, Supabase, in-memory)
+ */
+
+/**
+ * Cách so khớp URL của entry với trang web đang mở
+ * - base-domain: cùng domain gốc (accounts.google.com ~ mail.google.com)
+ * - host: cùng hostname (và port nếu có)
+ * - starts-with: URL trang bắt đầu bằng URL đã lưu
+ * - exact: trùng khớp hoàn toàn
+ * - regex: URL trang khớp biểu thức chính quy đã lưu
+ */
+export type UrlMatchMode = 'base-domain' | 'host' | 'starts-with' | 'exact' | 'regex'
+
+export interface EntryUrl {
+  url: string
+  match?: UrlMatchMode // Mặc định base-domain
+}
+
+/**
+ * Loại custom field - quyết định cách hiển thị và nhập liệu
+ * Giá trị luôn lưu dạng chuỗi (boolean: 'true' | 'false')
+ */
+export type CustomFieldType = 'text' | 'hidden' | 'boolean' | 'url'
+
+export interface CustomField {
+  id: string
+  name: string
+  value: string
+  type: CustomFieldType
+}
+
+/**
+ * Loại item trong vault
+ * - login: thông tin đăng nhập (username, password, urls, totp ở cấp entry)
+ * - note: ghi chú bảo mật (nội dung nằm ở notes)
+ * - các loại còn lại lưu field riêng trong details
+ */
+export type ItemType = 'login' | 'card' | 'identity' | 'note' | 'ssh-key' | 'wifi' | 'api-key'
+
+export interface LoginDetails {
+  type: 'login'
+}
+
+export interface SecureNoteDetails {
+  type: 'note'
+}
+
+export interface CardDetails {
+  type: 'card'
+  cardholderName: string
+  number: string
+  expiry: string // MM/YY
+  cvv: string
+  pin: string
+}
+
+export interface IdentityDetails {
+  type: 'identity'
+  fullName: string
+  email: string
+  phone: string
+  address: string
+  birthDate: string // YYYY-MM-DD
+  idNumber: string // CCCD, hộ chiếu...
+}
+
+export interface SshKeyDetails {
+  type: 'ssh-key'
+  privateKey: string
+  publicKey: string
+  passphrase: string
+}
+
+export type WifiSecurity = 'wpa3' | 'wpa2' | 'wpa' | 'wep' | 'open'
+
+export interface WifiDetails {
+  type: 'wifi'
+  ssid: string
+  password: string
+  security: WifiSecurity
+  hidden: boolean
+}
+
+export interface ApiKeyDetails {
+  type: 'api-key'
+  key: string
+  secret: string
+  endpoint: string
+  expiresAt: string // YYYY-MM-DD, rỗng nếu không hết hạn
+}
+
+/**
+ * Dữ liệu riêng theo loại item - discriminated union theo type
+ * Mọi giá trị chuỗi (trừ type) được mã hóa khi lưu
+ */
+export type ItemDetails =
+  | LoginDetails
+  | SecureNoteDetails
+  | CardDetails
+  | IdentityDetails
+  | SshKeyDetails
+  | WifiDetails
+  | ApiKeyDetails
+
+/**
+ * Một mật khẩu cũ của entry
+ */
+export interface PasswordHistoryItem {
+  password: string // Mã hóa khi lưu
+  changedAt: string // Thời điểm mật khẩu này bị thay thế
+}
+
+/**
+ * File đính kèm của entry - chỉ metadata, nội dung file (đã mã hóa) lưu riêng
+ * ở object store attachmentBlobs (IndexedDB) hoặc bucket attachments (Supabase)
+ */
+export interface AttachmentMeta {
+  id: string
+  name: string // Tên file, mã hóa khi lưu
+  mimeType: string
+  size: number // Kích thước plaintext (bytes)
+  createdAt: string
+}
+
+/**
+ * File mới người dùng chọn để đính kèm
+ */
+export interface NewAttachment {
+  name: string
+  mimeType: string
+  data: ArrayBuffer
+}
+
+export interface PasswordEntry {
+  id: string
+  service: string // Tên item (tên dịch vụ với login)
+  username: string // Chỉ dùng cho login, rỗng với loại khác
+  password: string // Chỉ dùng cho login, rỗng với loại khác
+  passwordHistory?: PasswordHistoryItem[] // Mật khẩu cũ, mới nhất trước - backend tự thêm khi password đổi
+  passwordChangedAt?: string // Thời điểm password đổi lần cuối - backend tự đặt, khác updatedAt (đổi theo mọi chỉnh sửa)
+  rotationIntervalDays?: number | null // Chu kỳ đổi mật khẩu (ngày), 0: không nhắc, null hoặc undefined: theo folder
+  details?: ItemDetails // undefined: login (entry tạo trước khi có item types)
+  urls?: EntryUrl[]
+  notes?: string // Mã hóa khi lưu
+  customFields?: CustomField[] // Tên và giá trị mã hóa khi lưu, giữ nguyên thứ tự
+  totp?: string // Secret base32 hoặc URI otpauth://, mã hóa khi lưu
+  folderId?: string | null // null hoặc undefined: chưa phân loại
+  tags?: string[] // Tên tag đã chuẩn hóa (chữ thường), không mã hóa để backend lọc được
+  favorite?: boolean // Ghim lên mục Yêu thích
+  favoriteOrder?: number | null // Thứ tự trong mục Yêu thích (nhỏ đứng trước), null khi không yêu thích
+  attachments?: AttachmentMeta[] // Backend tự quản lý qua addAttachment/deleteAttachment
+  deletedAt?: string | null // Thời điểm chuyển vào thùng rác, null hoặc undefined: chưa xóa
+  createdAt: string
+  updatedAt: string
+}
+
+// Type cho việc tạo mới password (không cần id, createdAt, updatedAt)
+export type CreatePasswordEntry = Omit<PasswordEntry, 'id' | 'createdAt' | 'updatedAt'>
+
+// Type cho việc cập nhật password
+export type UpdatePasswordEntry = Partial<CreatePasswordEntry>
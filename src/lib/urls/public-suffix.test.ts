@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { getBaseDomain, getPublicSuffix, isIpOrLocalHost } from './public-suffix'
+
+describe('public suffix', () => {
+  it('lấy domain gốc theo Public Suffix List đầy đủ', () => {
+    expect(getBaseDomain('accounts.google.com')).toBe('google.com')
+    expect(getBaseDomain('shop.tiki.com.vn')).toBe('tiki.com.vn')
+    expect(getBaseDomain('portal.city.kawasaki.jp')).toBe('city.kawasaki.jp')
+    expect(getBaseDomain('WWW.Example.CO.UK.')).toBe('example.co.uk')
+  })
+
+  it('coi phần private của danh sách là public suffix', () => {
+    expect(getPublicSuffix('alice.github.io')).toBe('github.io')
+    expect(getBaseDomain('my-app.netlify.app')).toBe('my-app.netlify.app')
+    expect(getBaseDomain('bucket.s3.amazonaws.com')).toBe('bucket.s3.amazonaws.com')
+  })
+
+  it('giữ nguyên IP, localhost và host chính là public suffix', () => {
+    expect(isIpOrLocalHost('192.168.1.1')).toBe(true)
+    expect(isIpOrLocalHost('localhost')).toBe(true)
+    expect(getBaseDomain('10.0.0.1')).toBe('10.0.0.1')
+    expect(getBaseDomain('github.io')).toBe('github.io')
+  })
+})
@@ -0,0 +1,40 @@
+import { getDomain, getPublicSuffix as getListedSuffix } from 'tldts'
+
+/**
+ * Public Suffix - dựa trên toàn bộ Public Suffix List (https://publicsuffix.org) qua tldts
+ *
+ * Gồm cả phần private của danh sách (github.io, netlify.app, ...) - các nền tảng
+ * nơi mỗi subdomain thuộc về một chủ sở hữu khác nhau và phải được coi là site riêng.
+ */
+const PSL_OPTIONS = { allowPrivateDomains: true }
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/
+
+/**
+ * Host là địa chỉ IP hoặc tên máy cục bộ - không có khái niệm domain gốc
+ */
+export function isIpOrLocalHost(host: string): boolean {
+  return IPV4_PATTERN.test(host) || host.includes(':') || !host.includes('.')
+}
+
+/**
+ * Public suffix của hostname, ví dụ `co.uk` cho `www.bbc.co.uk`
+ */
+export function getPublicSuffix(host: string): string {
+  const normalized = host.toLowerCase()
+  return getListedSuffix(normalized, PSL_OPTIONS) ?? normalized.slice(normalized.lastIndexOf('.') + 1)
+}
+
+/**
+ * Domain gốc (registrable domain): một label + public suffix
+ * `accounts.google.com` -> `google.com`, `shop.tiki.com.vn` -> `tiki.com.vn`
+ * Host chính là một public suffix thì trả về nguyên host
+ */
+export function getBaseDomain(host: string): string {
+  const normalized = host.toLowerCase().replace(/\.$/, '')
+  if (isIpOrLocalHost(normalized)) {
+    return normalized
+  }
+
+  return getDomain(normalized, PSL_OPTIONS) ?? normalized
+}
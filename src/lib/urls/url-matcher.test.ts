@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { findMatchingEntries, isValidUrlPattern, looksLikeUrl, matchesEntryUrl, parseUrl } from './url-matcher'
+import type { EntryUrl, PasswordEntry } from '../types/password'
+
+const entry = (id: string, urls: EntryUrl[]): PasswordEntry => ({
+  id,
+  service: id,
+  username: 'alice',
+  password: 'secret',
+  urls,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+})
+
+describe('parseUrl', () => {
+  it('tự thêm https:// khi chỉ nhập domain và trả null với giá trị không hợp lệ', () => {
+    expect(parseUrl('github.com/login')?.href).toBe('https://github.com/login')
+    expect(parseUrl('http://localhost:3000')?.host).toBe('localhost:3000')
+    expect(parseUrl('  ')).toBeNull()
+    expect(parseUrl('http://')).toBeNull()
+  })
+})
+
+describe('looksLikeUrl', () => {
+  it.each([
+    ['https://github.com', true],
+    ['github.com', true],
+    ['shop.tiki.com.vn:8080/cart', true],
+    ['github', false],
+    ['mật khẩu ngân hàng', false],
+  ])('%s -> %s', (value, expected) => {
+    expect(looksLikeUrl(value)).toBe(expected)
+  })
+})
+
+describe('matchesEntryUrl', () => {
+  it('base-domain (mặc định): khớp mọi subdomain và mọi cổng của cùng domain gốc', () => {
+    const saved = { url: 'accounts.google.com' }
+    expect(matchesEntryUrl(saved, 'https://mail.google.com/inbox')).toBe(true)
+    expect(matchesEntryUrl(saved, 'https://google.com:8443')).toBe(true)
+    expect(matchesEntryUrl(saved, 'https://google.com.evil.io')).toBe(false)
+  })
+
+  it('base-domain hiểu public suffix nhiều cấp và nền tảng hosting', () => {
+    expect(matchesEntryUrl({ url: 'https://shop.tiki.com.vn' }, 'https://tiki.com.vn/login')).toBe(true)
+    expect(matchesEntryUrl({ url: 'https://tiki.com.vn' }, 'https://shopee.com.vn')).toBe(false)
+    expect(matchesEntryUrl({ url: 'https://www.bbc.co.uk' }, 'https://account.bbc.co.uk')).toBe(true)
+    expect(matchesEntryUrl({ url: 'https://alice.github.io' }, 'https://bob.github.io')).toBe(false)
+  })
+
+  it('base-domain với IP hoặc localhost so sánh nguyên host (bỏ cổng)', () => {
+    expect(matchesEntryUrl({ url: 'http://192.168.1.1' }, 'http://192.168.1.1:8080/admin')).toBe(true)
+    expect(matchesEntryUrl({ url: 'http://192.168.1.1' }, 'http://192.168.1.2')).toBe(false)
+    expect(matchesEntryUrl({ url: 'http://localhost:3000' }, 'http://localhost:5173')).toBe(true)
+  })
+
+  it('host: phải cùng hostname và cổng', () => {
+    const saved: EntryUrl = { url: 'https://app.example.com:8443', match: 'host' }
+    expect(matchesEntryUrl(saved, 'https://app.example.com:8443/settings')).toBe(true)
+    expect(matchesEntryUrl(saved, 'https://app.example.com/settings')).toBe(false)
+    expect(matchesEntryUrl(saved, 'https://www.example.com:8443')).toBe(false)
+  })
+
+  it('starts-with và exact so sánh đường dẫn, bỏ qua dấu / cuối', () => {
+    const startsWith: EntryUrl = { url: 'https://example.com/admin', match: 'starts-with' }
+    expect(matchesEntryUrl(startsWith, 'https://example.com/admin/users')).toBe(true)
+    expect(matchesEntryUrl(startsWith, 'https://example.com/admin/')).toBe(true)
+    expect(matchesEntryUrl(startsWith, 'https://example.com/blog')).toBe(false)
+
+    const exact: EntryUrl = { url: 'https://example.com/login', match: 'exact' }
+    expect(matchesEntryUrl(exact, 'https://example.com/login/')).toBe(true)
+    expect(matchesEntryUrl(exact, 'https://example.com/login?next=/')).toBe(false)
+  })
+
+  it('regex: không phân biệt hoa thường, biểu thức lỗi thì không khớp', () => {
+    expect(matchesEntryUrl({ url: '^https://(www\\.)?example\\.com/', match: 'regex' }, 'HTTPS://WWW.EXAMPLE.COM/a')).toBe(true)
+    expect(matchesEntryUrl({ url: '^https://example\\.com/', match: 'regex' }, 'https://example.com.evil.io/')).toBe(false)
+    expect(matchesEntryUrl({ url: '(', match: 'regex' }, 'https://example.com')).toBe(false)
+    expect(isValidUrlPattern('(')).toBe(false)
+  })
+})
+
+describe('findMatchingEntries', () => {
+  it('chỉ trả entry khớp, kiểu match cụ thể hơn đứng trước', () => {
+    const domain = entry('domain', [{ url: 'example.com' }])
+    const exact = entry('exact', [{ url: 'https://app.example.com/login', match: 'exact' }])
+    const host = entry('host', [{ url: 'https://other.com' }, { url: 'https://app.example.com', match: 'host' }])
+    const other = entry('other', [{ url: 'https://other.com' }])
+    const noUrls = entry('no-urls', [])
+
+    const matches = findMatchingEntries([domain, exact, host, other, noUrls], 'https://app.example.com/login')
+    expect(matches.map((item) => item.id)).toEqual(['exact', 'host', 'domain'])
+  })
+})
@@ -0,0 +1,109 @@
+import type { EntryUrl, PasswordEntry, UrlMatchMode } from '../types/password'
+import { getBaseDomain } from './public-suffix'
+
+/**
+ * URL Matcher - tìm các entry thuộc về một trang web
+ */
+
+export const DEFAULT_URL_MATCH_MODE: UrlMatchMode = 'base-domain'
+
+export const URL_MATCH_MODE_LABELS: Record<UrlMatchMode, string> = {
+  'base-domain': 'Domain gốc',
+  host: 'Host',
+  'starts-with': 'Bắt đầu bằng',
+  exact: 'Chính xác',
+  regex: 'Biểu thức chính quy',
+}
+
+// Độ ưu tiên khi sắp xếp kết quả - kiểu match càng cụ thể càng đứng trước
+const MATCH_SPECIFICITY: Record<UrlMatchMode, number> = {
+  exact: 5,
+  'starts-with': 4,
+  regex: 3,
+  host: 2,
+  'base-domain': 1,
+}
+
+/**
+ * Parse URL, tự thêm https:// nếu người dùng chỉ nhập domain
+ * @returns null nếu không phải URL hợp lệ
+ */
+export function parseUrl(value: string): URL | null {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  try {
+    return new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Chuỗi có phải URL/domain (dùng để chuyển search sang chế độ match theo URL)
+ */
+export function looksLikeUrl(value: string): boolean {
+  const trimmed = value.trim()
+  return /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) || /^[\w-]+(\.[\w-]+)+(:\d+)?(\/\S*)?$/.test(trimmed)
+}
+
+/**
+ * Biểu thức chính quy hợp lệ hay không - dùng khi validate entry
+ */
+export function isValidUrlPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const normalizeHref = (url: URL): string => url.href.replace(/\/$/, '')
+
+/**
+ * Kiểm tra một URL đã lưu có khớp với URL trang hay không
+ */
+export function matchesEntryUrl(entryUrl: EntryUrl, pageUrl: string): boolean {
+  const mode = entryUrl.match ?? DEFAULT_URL_MATCH_MODE
+
+  if (mode === 'regex') {
+    try {
+      return new RegExp(entryUrl.url, 'i').test(pageUrl)
+    } catch {
+      return false
+    }
+  }
+
+  const page = parseUrl(pageUrl)
+  const saved = parseUrl(entryUrl.url)
+  if (!page || !saved) return false
+
+  switch (mode) {
+    case 'base-domain':
+      return getBaseDomain(page.hostname) === getBaseDomain(saved.hostname)
+    case 'host':
+      return page.host === saved.host
+    case 'starts-with':
+      return page.href.startsWith(saved.href) || normalizeHref(page) === normalizeHref(saved)
+    case 'exact':
+      return normalizeHref(page) === normalizeHref(saved)
+  }
+}
+
+/**
+ * Tìm các entry khớp URL trang, sắp xếp theo kiểu match cụ thể nhất
+ */
+export function findMatchingEntries<T extends PasswordEntry>(entries: T[], pageUrl: string): T[] {
+  const scored = entries
+    .map((entry) => {
+      const specificity = (entry.urls ?? [])
+        .filter((entryUrl) => matchesEntryUrl(entryUrl, pageUrl))
+        .reduce((best, entryUrl) => Math.max(best, MATCH_SPECIFICITY[entryUrl.match ?? DEFAULT_URL_MATCH_MODE]), 0)
+      return { entry, specificity }
+    })
+    .filter(({ specificity }) => specificity > 0)
+
+  return scored
+    .sort((a, b) => b.specificity - a.specificity)
+    .map(({ entry }) => entry)
+}
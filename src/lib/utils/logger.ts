@@ -0,0 +1,20 @@
+/**
+ * Logger cho các service - info chỉ ghi ở môi trường dev vì log có thể chứa tên dịch vụ,
+ * warn và error luôn được ghi
+ */
+
+type LogArgs = unknown[]
+
+const isDev = import.meta.env.DEV
+
+export const logger = {
+  info: (...args: LogArgs): void => {
+    if (isDev) console.info(...args)
+  },
+  warn: (...args: LogArgs): void => {
+    console.warn(...args)
+  },
+  error: (...args: LogArgs): void => {
+    console.error(...args)
+  },
+}
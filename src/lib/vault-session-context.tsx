@@ -0,0 +1,130 @@
+import { useEffect, useState, useCallback, useMemo, useSyncExternalStore } from "react";
+import { vaultKeyManager } from "@/lib/crypto/vault-key-manager";
+import { VaultSessionContext, type AutoLockSettings } from "@/hooks/use-vault-session";
+
+type VaultSessionProviderProps = {
+  children: React.ReactNode;
+  storageKey?: string;
+};
+
+// Constants
+const DEFAULT_SETTINGS: AutoLockSettings = {
+  idleMinutes: 5,
+  lockOnHide: false,
+};
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "scroll", "touchstart"] as const;
+const MAX_IDLE_MINUTES = 240;
+
+const subscribeToKey = (listener: () => void) => vaultKeyManager.subscribe(listener);
+const getUnlockedSnapshot = () => vaultKeyManager.isUnlocked();
+const getInitializedSnapshot = () => vaultKeyManager.isInitialized();
+const getMetadataLoadingSnapshot = () => vaultKeyManager.isMetadataLoading();
+
+/**
+ * Utility function để đọc settings từ localStorage
+ */
+const readSettings = (storageKey: string): AutoLockSettings => {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * Vault Session Provider
+ *
+ * Quản lý phiên làm việc của vault: derived key được giữ trong bộ nhớ
+ * (qua VaultKeyManager) chỉ khi đã unlock, và bị xóa khi:
+ * - Không hoạt động quá `idleMinutes` phút
+ * - Tab bị ẩn (`visibilitychange`) nếu bật `lockOnHide`
+ * - User bấm "Khóa ngay"
+ */
+export function VaultSessionProvider({
+  children,
+  storageKey = "memory-safe-guard-vault-settings",
+}: VaultSessionProviderProps) {
+  const isUnlocked = useSyncExternalStore(subscribeToKey, getUnlockedSnapshot);
+  const isInitialized = useSyncExternalStore(subscribeToKey, getInitializedSnapshot);
+  const isMetadataLoading = useSyncExternalStore(subscribeToKey, getMetadataLoadingSnapshot);
+  const [settings, setSettings] = useState<AutoLockSettings>(() => readSettings(storageKey));
+
+  const lock = useCallback(() => {
+    vaultKeyManager.lock();
+  }, []);
+
+  const unlock = useCallback((masterPassword: string) => vaultKeyManager.unlock(masterPassword), []);
+
+  const setupMasterPassword = useCallback(
+    (masterPassword: string) => vaultKeyManager.setupMasterPassword(masterPassword),
+    []
+  );
+
+  const updateSettings = useCallback((partial: Partial<AutoLockSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...partial };
+      next.idleMinutes = Math.min(Math.max(Math.floor(next.idleMinutes) || 0, 0), MAX_IDLE_MINUTES);
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(next));
+      } catch (error) {
+        console.warn("Failed to save vault settings to localStorage:", error);
+      }
+      return next;
+    });
+  }, [storageKey]);
+
+  // Effect auto-lock khi không hoạt động
+  useEffect(() => {
+    if (!isUnlocked || settings.idleMinutes <= 0) return;
+
+    const timeoutMs = settings.idleMinutes * 60 * 1000;
+    let timeoutId = window.setTimeout(lock, timeoutMs);
+
+    const resetTimer = () => {
+      window.clearTimeout(timeoutId);
+      timeoutId = window.setTimeout(lock, timeoutMs);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, resetTimer, { passive: true })
+    );
+
+    return () => {
+      window.clearTimeout(timeoutId);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [isUnlocked, settings.idleMinutes, lock]);
+
+  // Effect auto-lock khi tab bị ẩn
+  useEffect(() => {
+    if (!isUnlocked || !settings.lockOnHide) return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        lock();
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [isUnlocked, settings.lockOnHide, lock]);
+
+  // Memoized context value để tránh unnecessary re-renders
+  const contextValue = useMemo(() => ({
+    isUnlocked,
+    isInitialized,
+    isMetadataLoading,
+    settings,
+    updateSettings,
+    setupMasterPassword,
+    unlock,
+    lock,
+  }), [isUnlocked, isInitialized, isMetadataLoading, settings, updateSettings, setupMasterPassword, unlock, lock]);
+
+  return (
+    <VaultSessionContext.Provider value={contextValue}>
+      {children}
+    </VaultSessionContext.Provider>
+  );
+}
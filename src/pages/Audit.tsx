@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Clock, Copy, ShieldAlert, ShieldCheck, Edit } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ItemForm } from "@/components/ItemForm";
+import { PasswordStrengthBadge } from "@/components/PasswordStrengthBadge";
+import { usePasswords } from "@/hooks/use-passwords";
+import { useFolders } from "@/hooks/use-folders";
+import { usePasswordAudit } from "@/hooks/use-password-audit";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { OLD_PASSWORD_DAYS, type EntryAudit } from "@/lib/security/password-audit";
+import type { CreatePasswordEntry, PasswordEntry } from "@/lib/types/password";
+
+/**
+ * Một dòng entry trong danh sách audit
+ */
+const AuditRow = ({ audit, detail, onEdit }: {
+  audit: EntryAudit;
+  detail?: string;
+  onEdit: (entry: PasswordEntry) => void;
+}) => (
+  <div className="flex items-start gap-3 py-3">
+    <div className="min-w-0 flex-1">
+      <div className="flex items-center gap-2">
+        <span className="font-medium truncate">{audit.entry.service}</span>
+        <PasswordStrengthBadge strength={audit.strength} />
+      </div>
+      <p className="text-sm text-muted-foreground truncate">{audit.entry.username}</p>
+      {detail && <p className="text-xs text-muted-foreground mt-1">{detail}</p>}
+    </div>
+    <Button variant="outline" size="sm" onClick={() => onEdit(audit.entry)}>
+      <Edit className="w-4 h-4 mr-2" />
+      Đổi mật khẩu
+    </Button>
+  </div>
+);
+
+const AuditSection = ({ icon: Icon, title, description, children, empty }: {
+  icon: React.ComponentType<{ className?: string }>;
+  title: string;
+  description: string;
+  children: React.ReactNode;
+  empty: boolean;
+}) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardTitle className="flex items-center gap-2 text-lg">
+        <Icon className="w-5 h-5 text-primary" />
+        {title}
+      </CardTitle>
+      <p className="text-sm text-muted-foreground">{description}</p>
+    </CardHeader>
+    <CardContent className="divide-y divide-border/50">
+      {empty ? <p className="py-3 text-sm text-muted-foreground">Không có mục nào</p> : children}
+    </CardContent>
+  </Card>
+);
+
+/**
+ * Trang kiểm tra bảo mật: mật khẩu yếu, dùng lại và lâu chưa đổi
+ */
+const Audit = () => {
+  const { storage } = useStorageBackend();
+  const { passwords, loading, updatePassword } = usePasswords(storage);
+  const { folders } = useFolders(storage);
+  const audit = usePasswordAudit(passwords);
+  const [editEntry, setEditEntry] = useState<PasswordEntry | undefined>();
+
+  const auditById = new Map(audit.entries.map((item) => [item.entry.id, item]));
+
+  const handleSave = async (entryData: CreatePasswordEntry) => {
+    if (!editEntry) return;
+    try {
+      await updatePassword(editEntry.id, entryData);
+      setEditEntry(undefined);
+    } catch (err) {
+      console.error('Lỗi khi cập nhật mật khẩu:', err);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="outline" size="icon">
+            <Link to="/" title="Quay lại">
+              <ArrowLeft className="w-4 h-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">Kiểm tra bảo mật</h1>
+            <p className="text-muted-foreground">
+              {loading ? "Đang phân tích..." : `Điểm bảo mật ${audit.securityScore}% trên ${audit.entries.length} mật khẩu`}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { label: "Điểm bảo mật", value: `${audit.securityScore}%` },
+            { label: "Mật khẩu yếu", value: audit.weak.length },
+            { label: "Dùng lại", value: audit.reusedCount },
+            { label: "Lâu chưa đổi", value: audit.old.length },
+          ].map((stat) => (
+            <div key={stat.label} className="glass-effect rounded-xl p-4 text-center">
+              <div className="text-2xl font-bold">{stat.value}</div>
+              <div className="text-sm text-muted-foreground">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <AuditSection
+          icon={ShieldAlert}
+          title="Mật khẩu yếu"
+          description="Dễ bị đoán bằng từ điển, chuỗi bàn phím, ngày tháng hoặc quá ngắn"
+          empty={audit.weak.length === 0}
+        >
+          {audit.weak.map((item) => (
+            <AuditRow
+              key={item.entry.id}
+              audit={item}
+              detail={item.strength.warnings.join(" · ")}
+              onEdit={setEditEntry}
+            />
+          ))}
+        </AuditSection>
+
+        <AuditSection
+          icon={Copy}
+          title="Mật khẩu dùng lại"
+          description="Lộ một tài khoản sẽ kéo theo các tài khoản dùng chung mật khẩu"
+          empty={audit.reusedGroups.length === 0}
+        >
+          {audit.reusedGroups.map((group) => (
+            <div key={group.map((entry) => entry.id).join(",")} className="py-2">
+              <p className="text-xs font-medium text-muted-foreground pt-2">
+                Dùng chung trên {group.length} dịch vụ
+              </p>
+              <div className="divide-y divide-border/30">
+                {group.map((entry) => {
+                  const item = auditById.get(entry.id);
+                  return item && <AuditRow key={entry.id} audit={item} onEdit={setEditEntry} />;
+                })}
+              </div>
+            </div>
+          ))}
+        </AuditSection>
+
+        <AuditSection
+          icon={Clock}
+          title="Lâu chưa đổi"
+          description={`Không thay đổi trong hơn ${OLD_PASSWORD_DAYS} ngày`}
+          empty={audit.old.length === 0}
+        >
+          {audit.old.map((item) => (
+            <AuditRow
+              key={item.entry.id}
+              audit={item}
+              detail={`Đã ${item.ageDays} ngày chưa đổi`}
+              onEdit={setEditEntry}
+            />
+          ))}
+        </AuditSection>
+
+        {!loading && audit.securityScore === 100 && audit.entries.length > 0 && (
+          <div className="flex items-center justify-center gap-2 text-security">
+            <ShieldCheck className="w-5 h-5" />
+            Tất cả mật khẩu đều an toàn
+          </div>
+        )}
+      </div>
+
+      <ItemForm
+        isOpen={!!editEntry}
+        onClose={() => setEditEntry(undefined)}
+        onSave={handleSave}
+        editEntry={editEntry}
+        folders={folders}
+      />
+    </div>
+  );
+};
+
+export default Audit;
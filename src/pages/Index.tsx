@@ -1,24 +1,56 @@
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { Link, Navigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Plus, Shield, Lock, Bug } from "lucide-react";
+import { Plus, Shield, Lock, Bug, LockKeyhole, ShieldAlert, Copy, Trash2, Clock, Star, Loader2 } from "lucide-react";
 import { PasswordCard } from "@/components/PasswordCard";
-import { PasswordForm } from "@/components/PasswordForm";
+import { ItemForm } from "@/components/ItemForm";
 import { SearchBar } from "@/components/SearchBar";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { NetlifyDebugTest } from "@/components/NetlifyDebugTest";
+import { VaultLockSettings } from "@/components/VaultLockSettings";
+import { StorageBackendToggle } from "@/components/StorageBackendToggle";
+import { SyncStatusButton } from "@/components/SyncStatusButton";
+import { AccountMenu } from "@/components/AccountMenu";
+import { ImportWizard } from "@/components/ImportWizard";
+import { BackupDialog } from "@/components/BackupDialog";
+import { FolderSidebar } from "@/components/FolderSidebar";
+import { FolderDialog } from "@/components/FolderDialog";
+import { DeleteFolderDialog } from "@/components/DeleteFolderDialog";
+import { RotationReminders } from "@/components/RotationReminders";
+import { FavoritesSection } from "@/components/FavoritesSection";
+import { ItemTypeIcon } from "@/components/ItemTypeIcon";
 import { useToast } from "@/hooks/use-toast";
-import { usePasswordsSupabase } from "@/hooks/use-passwords-supabase";
+import { usePasswords } from "@/hooks/use-passwords";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
+import { useFolders } from "@/hooks/use-folders";
+import { useTags } from "@/hooks/use-tags";
+import { usePasswordAudit } from "@/hooks/use-password-audit";
+import { useAllPasswords } from "@/hooks/use-all-passwords";
+import { useSync } from "@/hooks/use-sync";
+import { useTrashAutoPurge } from "@/hooks/use-trash";
+import { useRotationReminders } from "@/hooks/use-rotation-reminders";
 import { usePasswordForm } from "@/hooks/use-password-form";
-import { PasswordEntry } from "@/lib/supabase-service-fixed";
+import type { PasswordEntry, CreatePasswordEntry, ItemType } from "@/lib/types/password";
+import type { Folder, FolderDeleteMode } from "@/lib/types/folder";
+import { getFolderPath, type FolderFilter } from "@/lib/folders/folder-tree";
+import type { TagMatchMode } from "@/lib/tags/tags";
+import { ITEM_TYPES, ITEM_TYPE_LABELS } from "@/lib/items/item-types";
+import { getRotationStatus } from "@/lib/rotation/rotation";
+import { isFavorite, sortFavorites } from "@/lib/favorites/favorites";
+import { hasSearchFilters, type PasswordSearchFilters } from "@/lib/storage";
+import { getRankingText, parseSearchQuery } from "@/lib/search/query-parser";
 import { TIMING, UI_CONFIG } from "@/lib/constants/app-constants";
+import { useVaultSession } from "@/hooks/use-vault-session";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { useAuth } from "@/hooks/use-auth";
 
 // TypeScript interfaces cho type safety
 interface StatsData {
   total: number;
-  // Note: Có thể mở rộng thêm các thống kê khác như:
-  // weak: number;
-  // strong: number;
-  // duplicates: number;
+  weak: number;
+  strong: number;
+  duplicates: number;
+  securityScore: number;
 }
 
 interface StatConfig {
@@ -41,14 +73,20 @@ const STATS_CONFIG: StatConfig[] = [
   },
   { 
     icon: Shield, 
-    value: () => "100%", 
-    label: "Bảo mật tuyệt đối",
+    value: (stats) => `${stats.securityScore}%`, 
+    label: "Điểm bảo mật",
     gradient: "bg-gradient-accent"
   },
   { 
-    icon: Plus, 
-    value: () => "∞", 
-    label: "Không giới hạn",
+    icon: ShieldAlert, 
+    value: (stats) => stats.weak, 
+    label: "Mật khẩu yếu",
+    gradient: "bg-destructive/20 border border-destructive/30"
+  },
+  { 
+    icon: Copy, 
+    value: (stats) => stats.duplicates, 
+    label: "Mật khẩu dùng lại",
     gradient: "bg-security/20 border border-security/30"
   }
 ];
@@ -89,7 +127,7 @@ const ErrorState = ({ error }: { error: string }) => (
  * Memoized để tránh re-render không cần thiết
  */
 const StatsSection = React.memo(({ stats }: { stats: StatsData }) => (
-  <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
+  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-12">
     {STATS_CONFIG.map((stat, index) => {
       const IconComponent = stat.icon;
       return (
@@ -136,23 +174,41 @@ const HeroSection = ({ onAddPassword }: { onAddPassword: () => void }) => (
 /**
  * Component hiển thị empty state
  */
-const EmptyState = ({ searchQuery, onAddPassword }: { 
+const EmptyState = ({ searchQuery, onAddPassword, reusedOnly = false, overdueOnly = false, filtered = false }: { 
   searchQuery: string; 
   onAddPassword: () => void; 
-}) => (
+  reusedOnly?: boolean;
+  overdueOnly?: boolean;
+  // Đang lọc theo thư mục, tag hoặc loại item
+  filtered?: boolean;
+}) => reusedOnly || overdueOnly ? (
+  <div className="text-center py-16 animate-fade-in">
+    <div className="p-4 rounded-full bg-security/20 w-fit mx-auto mb-6">
+      <Shield className="w-20 h-20 text-security" />
+    </div>
+    <h3 className="text-2xl font-bold mb-3 text-gradient">
+      {reusedOnly ? "Không có mật khẩu dùng lại" : "Không có mật khẩu quá hạn đổi"}
+    </h3>
+    <p className="text-muted-foreground mb-8 text-lg max-w-md mx-auto">
+      {reusedOnly ? "Mỗi dịch vụ đang dùng một mật khẩu riêng" : "Mọi mật khẩu đều được đổi đúng chu kỳ"}
+    </p>
+  </div>
+) : (
   <div className="text-center py-16 animate-fade-in">
     <div className="p-4 rounded-full bg-muted/20 w-fit mx-auto mb-6">
       <Lock className="w-20 h-20 text-muted-foreground" />
     </div>
     <h3 className="text-2xl font-bold mb-3 text-gradient">
-      {searchQuery ? "Không tìm thấy kết quả" : "Chưa có mật khẩu nào"}
+      {searchQuery || filtered ? "Không tìm thấy kết quả" : "Chưa có mật khẩu nào"}
     </h3>
     <p className="text-muted-foreground mb-8 text-lg max-w-md mx-auto">
       {searchQuery
         ? "Thử tìm kiếm với từ khóa khác hoặc kiểm tra lại chính tả"
-        : "Bắt đầu bảo vệ tài khoản của bạn bằng cách thêm mật khẩu đầu tiên"}
+        : filtered
+          ? "Không có mục nào khớp với bộ lọc đang chọn"
+          : "Bắt đầu bảo vệ tài khoản của bạn bằng cách thêm mật khẩu đầu tiên"}
     </p>
-    {!searchQuery && (
+    {!searchQuery && !filtered && (
       <Button 
         onClick={onAddPassword} 
         variant="default" 
@@ -165,6 +221,27 @@ const EmptyState = ({ searchQuery, onAddPassword }: {
   </div>
 );
 
+// Lọc theo loại item, undefined: tất cả
+const ItemTypeFilter = ({ value, onChange }: { value?: ItemType; onChange: (type?: ItemType) => void }) => (
+  <div className="flex flex-wrap justify-center gap-2">
+    <Button onClick={() => onChange(undefined)} variant={value === undefined ? "default" : "outline"} size="sm">
+      Tất cả
+    </Button>
+    {ITEM_TYPES.map((type) => (
+      <Button
+        key={type}
+        onClick={() => onChange(value === type ? undefined : type)}
+        variant={value === type ? "default" : "outline"}
+        size="sm"
+        className="gap-2"
+      >
+        <ItemTypeIcon type={type} className="w-4 h-4" />
+        {ITEM_TYPE_LABELS[type]}
+      </Button>
+    ))}
+  </div>
+);
+
 /**
  * Trang chính của ứng dụng Memory Safe Guard
  * Hiển thị danh sách mật khẩu và các chức năng quản lý
@@ -172,19 +249,94 @@ const EmptyState = ({ searchQuery, onAddPassword }: {
 const Index = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const [showDebug, setShowDebug] = useState(false);
+  const [showReusedOnly, setShowReusedOnly] = useState(false);
+  const [showOverdueOnly, setShowOverdueOnly] = useState(false);
+  // undefined: tất cả, null: chưa phân loại, string: folder (gồm folder con)
+  const [folderFilter, setFolderFilter] = useState<FolderFilter>(undefined);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMode, setTagMode] = useState<TagMatchMode>("and");
+  const [itemTypeFilter, setItemTypeFilter] = useState<ItemType | undefined>(undefined);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [folderDialog, setFolderDialog] = useState<{ folder?: Folder; parentId: string | null } | null>(null);
+  const [folderToDelete, setFolderToDelete] = useState<Folder | null>(null);
   const { toast } = useToast();
+  const { lock } = useVaultSession();
+  const { backend, storage } = useStorageBackend();
+  // Đồng bộ offline-first chỉ áp dụng khi dữ liệu chính nằm trong IndexedDB
+  const isLocalBackend = backend === "indexeddb";
+  const sync = useSync(isLocalBackend);
+  const { user, loading: authLoading } = useAuth();
   
   // Custom hooks để tách biệt logic
   const {
     passwords,
     loading,
     error,
-    stats,
+    hasMore,
+    loadingMore,
+    revision: passwordsRevision,
     searchPasswords,
+    loadMore,
     addPassword,
+    importPasswords,
+    restorePasswords,
     updatePassword,
-    deletePassword
-  } = usePasswordsSupabase();
+    deletePassword,
+    toggleFavorite,
+    reorderFavorites,
+    addAttachment,
+    getAttachmentData,
+    deleteAttachment
+  } = usePasswords(storage);
+  const { folders, fetchFolders, addFolder, updateFolder, deleteFolder } = useFolders(storage);
+  const tags = useTags(storage, passwords);
+  // Xóa folder có thể chuyển entry vào thùng rác hoặc sang folder khác mà không qua usePasswords
+  const [folderRevision, setFolderRevision] = useState(0);
+  // Audit, mật khẩu dùng lại và nhắc đổi mật khẩu tính trên cả vault, không chỉ các entry đang hiển thị.
+  // Các revision chỉ tăng nên tổng tăng mỗi khi dữ liệu đổi qua form, folder hoặc đồng bộ
+  const allPasswords = useAllPasswords(storage, passwordsRevision + folderRevision + sync.status.revision);
+  const audit = usePasswordAudit(allPasswords);
+  const overdueReminders = useRotationReminders(allPasswords, folders);
+  // Tự xóa vĩnh viễn mục quá hạn trong thùng rác
+  useTrashAutoPurge(storage);
+
+  // Số liệu thật cho StatsSection từ audit toàn vault - không đổi theo tìm kiếm hay trang đã tải
+  const statsData = useMemo<StatsData>(() => ({
+    total: allPasswords.length,
+    weak: audit.weak.length,
+    strong: audit.strong.length,
+    duplicates: audit.reusedCount,
+    securityScore: audit.securityScore,
+  }), [allPasswords.length, audit]);
+
+  // entry id -> số dịch vụ dùng chung mật khẩu
+  const reuseCounts = useMemo(() => new Map(
+    audit.reusedGroups.flatMap((group) => group.map((entry) => [entry.id, group.length] as const))
+  ), [audit.reusedGroups]);
+
+  // entry id -> trạng thái nhắc đổi mật khẩu (chỉ entry có chu kỳ đổi)
+  const rotationStatuses = useMemo(() => new Map(
+    passwords.map((entry) => [entry.id, getRotationStatus(entry, folders)] as const)
+  ), [passwords, folders]);
+  const overdueCount = useMemo(
+    () => Array.from(rotationStatuses.values()).filter((status) => status?.overdue).length,
+    [rotationStatuses]
+  );
+
+  const visiblePasswords = useMemo(
+    () => passwords.filter((entry) =>
+      (!showReusedOnly || reuseCounts.has(entry.id)) &&
+      (!showOverdueOnly || rotationStatuses.get(entry.id)?.overdue)
+    ),
+    [showReusedOnly, showOverdueOnly, passwords, reuseCounts, rotationStatuses]
+  );
+
+  // Mục yêu thích ghim lên đầu theo thứ tự người dùng sắp xếp, phần còn lại giữ thứ tự của storage
+  const favoritePasswords = useMemo(() => sortFavorites(visiblePasswords), [visiblePasswords]);
+  const otherPasswords = useMemo(
+    () => visiblePasswords.filter((entry) => !isFavorite(entry)),
+    [visiblePasswords]
+  );
 
   const {
     isFormOpen,
@@ -195,24 +347,65 @@ const Index = () => {
     resetForm
   } = usePasswordForm();
 
+  // entry folderId -> đường dẫn hiển thị trên card
+  const folderPaths = useMemo(
+    () => new Map(folders.map((folder) => [folder.id, getFolderPath(folders, folder.id)])),
+    [folders]
+  );
+
+  // Chỉ tô sáng từ khóa tự do, bỏ qua các filter tag:, folder:...
+  const highlightQuery = useMemo(() => getRankingText(parseSearchQuery(searchQuery)), [searchQuery]);
+
+  const searchFilters = useMemo<PasswordSearchFilters>(
+    () => ({ folderId: folderFilter, tags: selectedTags, tagMode, itemType: itemTypeFilter, favoritesOnly }),
+    [folderFilter, selectedTags, tagMode, itemTypeFilter, favoritesOnly]
+  );
+
   // Tìm kiếm với debounce sử dụng constant
   useEffect(() => {
     const timeoutId = setTimeout(() => {
-      searchPasswords(searchQuery);
+      searchPasswords(searchQuery, searchFilters);
     }, SEARCH_DEBOUNCE_DELAY);
 
     return () => clearTimeout(timeoutId);
-  }, [searchQuery, searchPasswords]);
+  }, [searchQuery, searchFilters, searchPasswords]);
+
+  // Query và bộ lọc mới nhất - đọc qua ref để lần tải lại sau đồng bộ không dùng giá trị cũ
+  // và không chạy lại mỗi khi gõ tìm kiếm
+  const currentSearchRef = useRef({ searchQuery, searchFilters });
+  useEffect(() => {
+    currentSearchRef.current = { searchQuery, searchFilters };
+  }, [searchQuery, searchFilters]);
+
+  // Tải lại danh sách khi sync engine kéo thay đổi từ Supabase về
+  useEffect(() => {
+    if (sync.status.revision > 0) {
+      const current = currentSearchRef.current;
+      fetchFolders();
+      searchPasswords(current.searchQuery, current.searchFilters);
+    }
+  }, [sync.status.revision, fetchFolders, searchPasswords]);
+
+  // Folder đang xem bị xóa (kể cả từ thiết bị khác) - quay về tất cả
+  useEffect(() => {
+    if (folderFilter && !folders.some((folder) => folder.id === folderFilter)) {
+      setFolderFilter(undefined);
+    }
+  }, [folders, folderFilter]);
+
+  // Tải trang kết quả tìm kiếm tiếp theo khi cuộn tới cuối danh sách
+  const loadMoreRef = useInfiniteScroll(loadMore, hasMore && !loading && !loadingMore && !error);
 
   // Tối ưu animation delays với dependency chính xác
+  const visibleCount = visiblePasswords.length;
   const animationDelays = useMemo(() => {
     // Chỉ tính toán lại khi số lượng passwords thay đổi
-    return passwords.map((_, index) => 
+    return Array.from({ length: visibleCount }, (_, index) =>
       `${Math.min(index * ANIMATION_STAGGER_DELAY, MAX_ANIMATION_DELAY)}ms`
     );
-  }, [passwords.length]); // Dependency chính xác hơn
+  }, [visibleCount]);
   
-  const handleSave = useCallback(async (entryData: Omit<PasswordEntry, "id" | "createdAt" | "updatedAt">) => {
+  const handleSave = useCallback(async (entryData: CreatePasswordEntry) => {
     try {
       if (editEntry) {
         await updatePassword(editEntry.id, entryData);
@@ -242,6 +435,36 @@ const Index = () => {
     openEditForm(entry); // Sử dụng openEditForm từ custom hook
   }, [openEditForm]);
 
+  const handleSaveFolder = useCallback(async (data: { name: string; parentId: string | null }) => {
+    if (folderDialog?.folder) {
+      await updateFolder(folderDialog.folder.id, data);
+    } else {
+      const created = await addFolder(data);
+      setFolderFilter(created.id);
+    }
+  }, [folderDialog, addFolder, updateFolder]);
+
+  const handleDeleteFolder = useCallback(async (folder: Folder, mode: FolderDeleteMode) => {
+    await deleteFolder(folder.id, mode);
+    setFolderRevision((prev) => prev + 1);
+    // Entry trong folder đã được chuyển hoặc xóa - tải lại danh sách
+    const nextFilter = folderFilter === folder.id ? undefined : folderFilter;
+    setFolderFilter(nextFilter);
+    await searchPasswords(searchQuery, { ...searchFilters, folderId: nextFilter });
+  }, [deleteFolder, folderFilter, searchPasswords, searchQuery, searchFilters]);
+
+  const handleTagClick = useCallback((tag: string) => {
+    setSelectedTags((prev) => (prev.includes(tag) ? prev : [...prev, tag]));
+  }, []);
+
+  const handleRestorePassword = useCallback(async (id: string, password: string) => {
+    try {
+      await updatePassword(id, { password });
+    } catch (err) {
+      console.error('Lỗi khi khôi phục mật khẩu:', err);
+    }
+  }, [updatePassword]);
+
   const handleDelete = useCallback(async (id: string) => {
     try {
       await deletePassword(id);
@@ -250,6 +473,29 @@ const Index = () => {
     }
   }, [deletePassword]);
 
+  const renderCard = (entry: PasswordEntry) => (
+    <PasswordCard
+      entry={entry}
+      onEdit={handleEdit}
+      onDelete={handleDelete}
+      reusedCount={reuseCounts.get(entry.id)}
+      folderPath={entry.folderId ? folderPaths.get(entry.folderId) : undefined}
+      onTagClick={handleTagClick}
+      onRestorePassword={handleRestorePassword}
+      rotation={rotationStatuses.get(entry.id)}
+      onToggleFavorite={toggleFavorite}
+      onAddAttachment={addAttachment}
+      onLoadAttachment={getAttachmentData}
+      onDeleteAttachment={deleteAttachment}
+      highlightQuery={highlightQuery}
+    />
+  );
+
+  // Lưu trữ đám mây yêu cầu đăng nhập (RLS theo auth.uid())
+  if (!isLocalBackend && !authLoading && !user) {
+    return <Navigate to="/signin" replace />;
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -276,13 +522,39 @@ const Index = () => {
                 Debug
               </Button>
               <ThemeToggle />
+              <StorageBackendToggle />
+              {isLocalBackend && <SyncStatusButton sync={sync} />}
+              <AccountMenu />
+              <Button asChild variant="outline" size="icon" title="Kiểm tra bảo mật">
+                <Link to="/audit">
+                  <ShieldAlert className="w-4 h-4" />
+                </Link>
+              </Button>
+              <Button asChild variant="outline" size="icon" title="Thùng rác">
+                <Link to="/trash">
+                  <Trash2 className="w-4 h-4" />
+                </Link>
+              </Button>
+              <RotationReminders overdue={overdueReminders} onEdit={handleEdit} />
+              <ImportWizard onImport={importPasswords} />
+              <BackupDialog onRestore={restorePasswords} />
+              <VaultLockSettings />
+              <Button
+                onClick={lock}
+                variant="outline"
+                size="sm"
+                className="gap-2"
+              >
+                <LockKeyhole className="w-4 h-4" />
+                Khóa ngay
+              </Button>
               <Button 
                 onClick={openAddForm} 
                 variant="default" 
                 className="gap-2 shadow-button hover:shadow-glow transition-all duration-300 px-6 py-3"
               >
                 <Plus className="w-5 h-5" />
-                Thêm mật khẩu
+                Thêm mục
               </Button>
             </div>
           </div>
@@ -301,45 +573,137 @@ const Index = () => {
         <HeroSection onAddPassword={openAddForm} />
 
         {/* Search */}
-        <div className="max-w-lg mx-auto mb-12">
-          <SearchBar value={searchQuery} onChange={setSearchQuery} />
+        <div className="max-w-lg mx-auto mb-12 space-y-3">
+          <SearchBar
+            value={searchQuery}
+            onChange={setSearchQuery}
+            tags={tags}
+            selectedTags={selectedTags}
+            onSelectedTagsChange={setSelectedTags}
+            tagMode={tagMode}
+            onTagModeChange={setTagMode}
+            folders={folders}
+          />
+          <ItemTypeFilter value={itemTypeFilter} onChange={setItemTypeFilter} />
+          <div className="flex flex-wrap justify-center gap-2">
+            <Button
+              onClick={() => setFavoritesOnly(!favoritesOnly)}
+              variant={favoritesOnly ? "default" : "outline"}
+              size="sm"
+              className="gap-2"
+            >
+              <Star className="w-4 h-4" />
+              Chỉ hiện yêu thích
+            </Button>
+            <Button
+              onClick={() => setShowReusedOnly(!showReusedOnly)}
+              variant={showReusedOnly ? "default" : "outline"}
+              size="sm"
+              className="gap-2"
+            >
+              <Copy className="w-4 h-4" />
+              Chỉ hiện mật khẩu dùng lại ({reuseCounts.size})
+            </Button>
+            <Button
+              onClick={() => setShowOverdueOnly(!showOverdueOnly)}
+              variant={showOverdueOnly ? "default" : "outline"}
+              size="sm"
+              className="gap-2"
+            >
+              <Clock className="w-4 h-4" />
+              Chỉ hiện mật khẩu quá hạn đổi ({overdueCount})
+            </Button>
+          </div>
         </div>
 
         {/* Stats */}
-        <StatsSection stats={stats} />
-
-        {/* Password Grid */}
-        {loading ? (
-          <LoadingState />
-        ) : error ? (
-          <ErrorState error={error} />
-        ) : passwords.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-            {passwords.map((entry, index) => (
-              <div 
-                key={entry.id}
-                className="animate-fade-in"
-                style={{ animationDelay: animationDelays[index] }}
-              >
-                <PasswordCard
-                  entry={entry}
-                  onEdit={handleEdit}
-                  onDelete={handleDelete}
-                />
+        <StatsSection stats={statsData} />
+
+        <div className="flex flex-col gap-8 lg:flex-row lg:items-start">
+          {/* Folder Sidebar */}
+          <aside className="lg:w-64 lg:shrink-0 lg:sticky lg:top-32">
+            <FolderSidebar
+              folders={folders}
+              selected={folderFilter}
+              onSelect={setFolderFilter}
+              onCreate={(parentId) => setFolderDialog({ parentId })}
+              onEdit={(folder) => setFolderDialog({ folder, parentId: folder.parentId })}
+              onDelete={setFolderToDelete}
+            />
+          </aside>
+
+          {/* Password Grid */}
+          <div className="min-w-0 flex-1">
+            {loading ? (
+              <LoadingState />
+            ) : error ? (
+              <ErrorState error={error} />
+            ) : visiblePasswords.length > 0 ? (
+              <>
+                {favoritePasswords.length > 0 && (
+                  <FavoritesSection
+                    favorites={favoritePasswords}
+                    renderCard={renderCard}
+                    onReorder={reorderFavorites}
+                  />
+                )}
+                {otherPasswords.length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                    {otherPasswords.map((entry, index) => (
+                      <div 
+                        key={entry.id}
+                        className="animate-fade-in"
+                        style={{ animationDelay: animationDelays[index] }}
+                      >
+                        {renderCard(entry)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : (
+              <EmptyState
+                searchQuery={searchQuery}
+                onAddPassword={openAddForm}
+                reusedOnly={showReusedOnly}
+                overdueOnly={showOverdueOnly}
+                filtered={hasSearchFilters(searchFilters)}
+              />
+            )}
+            {/* Sentinel cho infinite scroll - nằm ngoài grid vì bộ lọc hiển thị có thể ẩn hết trang hiện tại */}
+            {hasMore && !loading && !error && (
+              <div ref={loadMoreRef} className="flex justify-center py-8 text-muted-foreground">
+                {loadingMore && <Loader2 className="w-6 h-6 animate-spin" aria-label="Đang tải thêm" />}
               </div>
-            ))}
+            )}
           </div>
-        ) : (
-          <EmptyState searchQuery={searchQuery} onAddPassword={openAddForm} />
-        )}
+        </div>
       </div>
 
       {/* Form Modal */}
-      <PasswordForm
+      <ItemForm
         isOpen={isFormOpen}
         onClose={closeForm}
         onSave={handleSave}
         editEntry={editEntry}
+        folders={folders}
+        defaultFolderId={folderFilter ?? null}
+        tagSuggestions={tags}
+      />
+
+      <FolderDialog
+        open={folderDialog !== null}
+        onOpenChange={(open) => !open && setFolderDialog(null)}
+        folders={folders}
+        folder={folderDialog?.folder}
+        defaultParentId={folderDialog?.parentId ?? null}
+        onSave={handleSaveFolder}
+      />
+
+      <DeleteFolderDialog
+        folder={folderToDelete}
+        onOpenChange={(open) => !open && setFolderToDelete(null)}
+        onConfirm={handleDeleteFolder}
       />
     </div>
   );
@@ -0,0 +1,21 @@
+import { Navigate, useLocation, type Location } from "react-router-dom";
+import { UnlockVault } from "@/components/UnlockVault";
+import { useVaultSession } from "@/hooks/use-vault-session";
+
+/**
+ * Màn hình khóa vault
+ * Sau khi mở khóa sẽ quay lại trang trước đó (mặc định là trang chính)
+ */
+const Lock = () => {
+  const { isUnlocked } = useVaultSession();
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
+
+  if (isUnlocked) {
+    return <Navigate to={from ? `${from.pathname}${from.search}` : "/"} replace />;
+  }
+
+  return <UnlockVault />;
+};
+
+export default Lock;
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Link, Navigate, useLocation, type Location } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Mail, Shield } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { AuthService } from "@/lib/auth-service";
+
+type SignInMode = "password" | "signup" | "magic-link";
+
+const MODE_CONFIG: Record<SignInMode, { title: string; submit: string }> = {
+  password: { title: "Đăng nhập", submit: "Đăng nhập" },
+  signup: { title: "Tạo tài khoản", submit: "Đăng ký" },
+  "magic-link": { title: "Đăng nhập bằng magic link", submit: "Gửi magic link" },
+};
+
+/**
+ * Trang đăng nhập Supabase Auth
+ * Hỗ trợ email/password, đăng ký tài khoản mới và magic link qua email
+ */
+const SignIn = () => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
+
+  const [mode, setMode] = useState<SignInMode>("password");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  if (!loading && user) {
+    return <Navigate to={from ? `${from.pathname}${from.search}` : "/"} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+    setSubmitting(true);
+
+    try {
+      if (mode === "password") {
+        await AuthService.signInWithPassword(email, password);
+      } else if (mode === "signup") {
+        const session = await AuthService.signUp(email, password);
+        if (!session) {
+          setNotice("Vui lòng kiểm tra email để xác nhận tài khoản");
+        }
+      } else {
+        await AuthService.signInWithMagicLink(email);
+        setNotice("Đã gửi magic link - hãy mở email và bấm vào liên kết để đăng nhập");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Không thể đăng nhập");
+    } finally {
+      setSubmitting(false);
+      setPassword("");
+    }
+  };
+
+  const switchMode = (newMode: SignInMode) => {
+    setMode(newMode);
+    setError(null);
+    setNotice(null);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md glass-effect">
+        <CardHeader className="text-center">
+          <div className="p-3 rounded-xl bg-gradient-primary w-fit mx-auto mb-4">
+            {mode === "magic-link" ? (
+              <Mail className="w-8 h-8 text-primary-foreground" />
+            ) : (
+              <Shield className="w-8 h-8 text-primary-foreground" />
+            )}
+          </div>
+          <CardTitle className="text-2xl text-gradient">{MODE_CONFIG[mode].title}</CardTitle>
+          <CardDescription>
+            Tài khoản dùng để đồng bộ vault đã mã hóa lên đám mây. Master password không bao giờ được gửi đi.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoFocus
+                required
+              />
+            </div>
+
+            {mode !== "magic-link" && (
+              <div className="space-y-2">
+                <Label htmlFor="account-password">Mật khẩu tài khoản</Label>
+                <Input
+                  id="account-password"
+                  type="password"
+                  autoComplete={mode === "signup" ? "new-password" : "current-password"}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={mode === "signup" ? 8 : undefined}
+                  required
+                />
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            {notice && <p className="text-sm text-accent">{notice}</p>}
+
+            <Button type="submit" variant="security" className="w-full" disabled={submitting}>
+              {submitting ? "Đang xử lý..." : MODE_CONFIG[mode].submit}
+            </Button>
+          </form>
+
+          <div className="flex flex-col gap-2 text-sm text-center">
+            {mode !== "password" && (
+              <Button variant="link" size="sm" onClick={() => switchMode("password")}>
+                Đăng nhập bằng email và mật khẩu
+              </Button>
+            )}
+            {mode !== "magic-link" && (
+              <Button variant="link" size="sm" onClick={() => switchMode("magic-link")}>
+                Đăng nhập bằng magic link
+              </Button>
+            )}
+            {mode !== "signup" && (
+              <Button variant="link" size="sm" onClick={() => switchMode("signup")}>
+                Chưa có tài khoản? Đăng ký
+              </Button>
+            )}
+            <Link to="/" className="text-muted-foreground hover:text-foreground">
+              Tiếp tục dùng ở chế độ cục bộ
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SignIn;
@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { Navigate } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+
+/**
+ * Trang đăng xuất
+ * Đăng xuất khỏi Supabase rồi chuyển về trang đăng nhập
+ */
+const SignOut = () => {
+  const { signOut } = useAuth();
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    signOut()
+      .then(() => setDone(true))
+      .catch((err) => setError(err instanceof Error ? err.message : "Không thể đăng xuất"));
+  }, [signOut]);
+
+  if (done) {
+    return <Navigate to="/signin" replace />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <p className="text-muted-foreground">{error ?? "Đang đăng xuất..."}</p>
+    </div>
+  );
+};
+
+export default SignOut;
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, RotateCcw, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { vi } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ItemTypeIcon } from "@/components/ItemTypeIcon";
+import { useTrash } from "@/hooks/use-trash";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { getItemType } from "@/lib/items/item-types";
+import { MAX_TRASH_RETENTION_DAYS, getDaysUntilPurge, getTrashRetentionDays, setTrashRetentionDays } from "@/lib/trash/trash";
+import type { PasswordEntry } from "@/lib/types/password";
+
+// Xác nhận trước khi xóa vĩnh viễn: một entry hoặc toàn bộ thùng rác
+type PurgeTarget = PasswordEntry | "all";
+
+const TrashRow = ({ entry, retentionDays, onRestore, onPurge }: {
+  entry: PasswordEntry;
+  retentionDays: number;
+  onRestore: (id: string) => void;
+  onPurge: (entry: PasswordEntry) => void;
+}) => {
+  const daysLeft = getDaysUntilPurge(entry, retentionDays);
+
+  return (
+    <div className="flex items-center gap-3 py-3">
+      <ItemTypeIcon type={getItemType(entry)} className="w-5 h-5 text-muted-foreground shrink-0" />
+      <div className="min-w-0 flex-1">
+        <p className="font-medium truncate">{entry.service}</p>
+        <p className="text-xs text-muted-foreground">
+          Đã xóa {entry.deletedAt && format(new Date(entry.deletedAt), "dd/MM/yyyy HH:mm", { locale: vi })}
+          {daysLeft !== null && ` · tự xóa vĩnh viễn sau ${daysLeft} ngày`}
+        </p>
+      </div>
+      <Button variant="outline" size="sm" onClick={() => onRestore(entry.id)}>
+        <RotateCcw className="w-4 h-4 mr-2" />
+        Khôi phục
+      </Button>
+      <Button variant="ghost" size="icon" onClick={() => onPurge(entry)} title="Xóa vĩnh viễn">
+        <Trash2 className="w-4 h-4 text-destructive" />
+      </Button>
+    </div>
+  );
+};
+
+/**
+ * Trang thùng rác: khôi phục hoặc xóa vĩnh viễn entry đã xóa
+ */
+const Trash = () => {
+  const { storage } = useStorageBackend();
+  const { trashed, loading, restorePassword, purgePassword, emptyTrash } = useTrash(storage);
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays);
+  const [purgeTarget, setPurgeTarget] = useState<PurgeTarget | null>(null);
+  const [purging, setPurging] = useState(false);
+
+  const changeRetentionDays = (days: number) => {
+    setTrashRetentionDays(days);
+    setRetentionDays(getTrashRetentionDays());
+  };
+
+  const handleRestore = async (id: string) => {
+    try {
+      await restorePassword(id);
+    } catch (err) {
+      console.error('Lỗi khi khôi phục mục:', err);
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!purgeTarget) return;
+    setPurging(true);
+    try {
+      if (purgeTarget === "all") {
+        await emptyTrash();
+      } else {
+        await purgePassword(purgeTarget.id);
+      }
+      setPurgeTarget(null);
+    } catch (err) {
+      console.error('Lỗi khi xóa vĩnh viễn:', err);
+    } finally {
+      setPurging(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="outline" size="icon">
+            <Link to="/" title="Quay lại">
+              <ArrowLeft className="w-4 h-4" />
+            </Link>
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-gradient">Thùng rác</h1>
+            <p className="text-muted-foreground">
+              {loading ? "Đang tải..." : `${trashed.length} mục đã xóa`}
+            </p>
+          </div>
+          <Button
+            variant="destructive"
+            onClick={() => setPurgeTarget("all")}
+            disabled={trashed.length === 0}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Dọn sạch thùng rác
+          </Button>
+        </div>
+
+        <div className="glass-effect rounded-xl p-4 space-y-2">
+          <Label htmlFor="trash-retention">Tự xóa vĩnh viễn sau (ngày)</Label>
+          <Input
+            id="trash-retention"
+            type="number"
+            min={0}
+            max={MAX_TRASH_RETENTION_DAYS}
+            value={retentionDays}
+            onChange={(e) => changeRetentionDays(Number(e.target.value))}
+            className="max-w-32"
+          />
+          <p className="text-xs text-muted-foreground">
+            Đặt 0 để giữ mục trong thùng rác cho tới khi xóa thủ công
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="divide-y divide-border/50">
+            {trashed.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                {loading ? "Đang tải..." : "Thùng rác trống"}
+              </p>
+            ) : (
+              trashed.map((entry) => (
+                <TrashRow
+                  key={entry.id}
+                  entry={entry}
+                  retentionDays={retentionDays}
+                  onRestore={handleRestore}
+                  onPurge={setPurgeTarget}
+                />
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={purgeTarget !== null} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {purgeTarget === "all" ? "Dọn sạch thùng rác" : `Xóa vĩnh viễn "${purgeTarget?.service}"`}
+            </DialogTitle>
+            <DialogDescription>
+              {purgeTarget === "all"
+                ? `Toàn bộ ${trashed.length} mục trong thùng rác sẽ bị xóa vĩnh viễn và không thể khôi phục.`
+                : "Mục này sẽ bị xóa vĩnh viễn và không thể khôi phục."}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={() => setPurgeTarget(null)}>
+              Hủy
+            </Button>
+            <Button type="button" variant="destructive" onClick={handleConfirmPurge} disabled={purging}>
+              Xóa vĩnh viễn
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,5 @@
+/**
+ * Setup chung cho Vitest (vitest.config.ts > setupFiles)
+ * Thêm matcher DOM của Testing Library (toBeInTheDocument, ...) cho test component
+ */
+import '@testing-library/jest-dom/vitest'